@@ -24,10 +24,16 @@ import {
   Plus,
   Upload,
   Loader2,
-  ImagePlus
+  ImagePlus,
+  Activity,
+  History
 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import { ImagePreview } from '@/components/admin/VisualImageEditor';
+import { PipelinePanel } from '@/components/admin/PipelinePanel';
+import { RevisionHistory } from '@/components/admin/RevisionHistory';
+import { WorkflowControls } from '@/components/admin/WorkflowControls';
+import type { EditorialStatus } from '@/scripts/pipeline/types';
 
 interface BlogPost {
   slug: string;
@@ -38,6 +44,16 @@ interface BlogPost {
   heroImage?: string;
   videoUrl?: string;
   body?: string;
+  readability?: {
+    grade: number;
+    passed: boolean;
+    issues: string[];
+  };
+  status?: EditorialStatus;
+  scheduledFor?: string;
+  flags?: {
+    draft?: boolean;
+  };
 }
 
 interface FullPost extends BlogPost {
@@ -49,6 +65,7 @@ interface ContentIndex {
 }
 
 export default function AdminPage() {
+  const [activeTab, setActiveTab] = useState<'content' | 'pipeline'>('content');
   const [posts, setPosts] = useState<BlogPost[]>([]);
   const [selectedPost, setSelectedPost] = useState<BlogPost | null>(null);
   const [fullPost, setFullPost] = useState<FullPost | null>(null);
@@ -58,6 +75,7 @@ export default function AdminPage() {
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [editedPost, setEditedPost] = useState<FullPost | null>(null);
   const [showPreview, setShowPreview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [visualPreviewMode, setVisualPreviewMode] = useState(true); // Visual editor vs raw markdown preview
   const [showImageModal, setShowImageModal] = useState(false);
   const [imageUrl, setImageUrl] = useState('');
@@ -112,19 +130,29 @@ export default function AdminPage() {
       const res = await fetch('/api/admin/content', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ post: editedPost }),
+        body: JSON.stringify({ post: editedPost, originalSlug: selectedPost?.slug }),
       });
 
       if (res.ok) {
-        setMessage({ type: 'success', text: 'Saved successfully!' });
+        const data = await res.json();
+        setMessage({
+          type: 'success',
+          text: data.redirect
+            ? `Renamed and saved as revision ${data.revision} (${data.redirect.from} now redirects here)`
+            : data.revision ? `Saved as revision ${data.revision}` : 'Saved successfully!',
+        });
         setFullPost(editedPost);
+        if (selectedPost && data.redirect) {
+          setSelectedPost({ ...selectedPost, slug: editedPost.slug });
+        }
         await loadPosts();
         setTimeout(() => setMessage(null), 3000);
       } else {
-        throw new Error('Save failed');
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Save failed');
       }
     } catch (error) {
-      setMessage({ type: 'error', text: 'Failed to save changes' });
+      setMessage({ type: 'error', text: error instanceof Error && error.message !== 'Save failed' ? error.message : 'Failed to save changes' });
     } finally {
       setSaving(false);
     }
@@ -133,6 +161,7 @@ export default function AdminPage() {
   function selectPost(post: BlogPost) {
     setSelectedPost(post);
     setShowPreview(false);
+    setShowHistory(false);
     loadFullPost(post.slug);
   }
 
@@ -305,28 +334,61 @@ export default function AdminPage() {
           <span className="admin-badge">{posts.length} posts</span>
         </div>
 
-        <div className="admin-post-list">
-          {posts.map((post) => (
-            <button
-              key={post.slug}
-              className={`admin-post-item ${selectedPost?.slug === post.slug ? 'active' : ''}`}
-              onClick={() => selectPost(post)}
-            >
-              <FileText size={16} />
-              <div className="admin-post-item-content">
-                <span className="admin-post-item-title">{post.title}</span>
-                <span className="admin-post-item-meta">
-                  {post.category} • {new Date(post.publishedAt).toLocaleDateString()}
-                </span>
-              </div>
-            </button>
-          ))}
+        <div className="admin-tabs">
+          <button
+            className={`admin-tab ${activeTab === 'content' ? 'active' : ''}`}
+            onClick={() => setActiveTab('content')}
+          >
+            <FileText size={14} />
+            Content
+          </button>
+          <button
+            className={`admin-tab ${activeTab === 'pipeline' ? 'active' : ''}`}
+            onClick={() => setActiveTab('pipeline')}
+          >
+            <Activity size={14} />
+            Pipeline
+          </button>
         </div>
+
+        {activeTab === 'content' && (
+          <div className="admin-post-list">
+            {posts.map((post) => (
+              <button
+                key={post.slug}
+                className={`admin-post-item ${selectedPost?.slug === post.slug ? 'active' : ''}`}
+                onClick={() => selectPost(post)}
+              >
+                <FileText size={16} />
+                <div className="admin-post-item-content">
+                  <span className="admin-post-item-title">{post.title}</span>
+                  <span className="admin-post-item-meta">
+                    {post.category} • {new Date(post.publishedAt).toLocaleDateString()}
+                    {post.status === 'scheduled' && post.scheduledFor ? (
+                      ` • Scheduled ${new Date(post.scheduledFor).toLocaleDateString()}`
+                    ) : post.status && post.status !== 'published' ? (
+                      ` • ${post.status === 'in-review' ? 'In review' : 'Draft'}`
+                    ) : post.flags?.draft ? (
+                      ' • Draft'
+                    ) : null}
+                    {post.readability && (
+                      <span title={post.readability.issues.join('\n') || 'Readability OK'}>
+                        {' '}• Grade {post.readability.grade}{post.readability.passed ? '' : ' ⚠'}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
       </aside>
 
       {/* Main Content */}
       <main className="admin-main">
-        {selectedPost && editedPost ? (
+        {activeTab === 'pipeline' ? (
+          <PipelinePanel />
+        ) : selectedPost && editedPost ? (
           <>
             {/* Header */}
             <div className="admin-header">
@@ -342,7 +404,14 @@ export default function AdminPage() {
                   {showPreview ? <EyeOff size={16} /> : <Eye size={16} />}
                   {showPreview ? 'Edit' : 'Preview'}
                 </button>
-                {showPreview && (
+                <button
+                  className={`admin-btn admin-btn-ghost ${showHistory ? 'active' : ''}`}
+                  onClick={() => setShowHistory(!showHistory)}
+                >
+                  <History size={16} />
+                  History
+                </button>
+                {showPreview && !showHistory && (
                   <button
                     className={`admin-btn admin-btn-ghost ${visualPreviewMode ? 'active' : ''}`}
                     onClick={() => setVisualPreviewMode(!visualPreviewMode)}
@@ -384,8 +453,26 @@ export default function AdminPage() {
                 <div className="admin-spinner" />
                 <p>Loading post content...</p>
               </div>
+            ) : showHistory ? (
+              <RevisionHistory
+                pageType="blog"
+                slug={selectedPost.slug}
+                onRestored={() => {
+                  loadFullPost(selectedPost.slug);
+                  loadPosts();
+                }}
+              />
             ) : (
               <div className="admin-editor">
+                <WorkflowControls
+                  pageType="blog"
+                  slug={selectedPost.slug}
+                  onChanged={() => {
+                    loadFullPost(selectedPost.slug);
+                    loadPosts();
+                  }}
+                />
+
                 {/* Basic Info */}
                 <section className="admin-section">
                   <h2>Basic Information</h2>
@@ -397,6 +484,19 @@ export default function AdminPage() {
                       onChange={(e) => updateField('title', e.target.value)}
                     />
                   </div>
+                  <div className="admin-field">
+                    <label>Slug</label>
+                    <input
+                      type="text"
+                      value={editedPost.slug}
+                      onChange={(e) => updateField('slug', e.target.value.toLowerCase())}
+                    />
+                    {editedPost.slug !== selectedPost.slug && (
+                      <span className="admin-field-note">
+                        Saving moves the post to /blog/{editedPost.slug} and redirects /blog/{selectedPost.slug} there (301)
+                      </span>
+                    )}
+                  </div>
                   <div className="admin-field">
                     <label>Description</label>
                     <textarea
@@ -712,6 +812,34 @@ export default function AdminPage() {
           border-radius: 4px;
         }
 
+        .admin-tabs {
+          display: flex;
+          gap: 0.25rem;
+          padding: 0.5rem;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.06);
+        }
+
+        .admin-tab {
+          flex: 1;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 0.375rem;
+          padding: 0.4rem 0.5rem;
+          background: transparent;
+          border: 1px solid transparent;
+          border-radius: 5px;
+          color: rgba(255, 255, 255, 0.6);
+          font-size: 0.8125rem;
+          cursor: pointer;
+        }
+
+        .admin-tab:hover,
+        .admin-tab.active {
+          background: rgba(255, 255, 255, 0.05);
+          color: white;
+        }
+
         .admin-post-list {
           flex: 1;
           overflow-y: auto;
@@ -935,6 +1063,13 @@ export default function AdminPage() {
           margin-bottom: 0.375rem;
         }
 
+        .admin-field-note {
+          display: block;
+          margin-top: 0.375rem;
+          font-size: 0.75rem;
+          color: #facc15;
+        }
+
         .admin-field input,
         .admin-field textarea,
         .admin-field select {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import fs from 'fs/promises';
 import path from 'path';
+import { saveDoc, contentFilePath, RevisionError, RevisionSummary } from '@/lib/content/revisions';
+import { renameDoc, RedirectError, RedirectRule } from '@/lib/content/redirects';
 
 const CONTENT_DIR = path.join(process.cwd(), 'content');
 const INDEX_PATH = path.join(CONTENT_DIR, '_system', 'contentIndex.json');
@@ -26,16 +28,19 @@ export async function GET() {
 // POST - Save a blog post
 export async function POST(request: NextRequest) {
   try {
-    const { post } = await request.json();
+    const { post, author, reason, originalSlug } = await request.json();
 
     if (!post || !post.slug) {
       return NextResponse.json({ error: 'Invalid post data' }, { status: 400 });
     }
 
-    // Load the individual blog post file
-    const postPath = path.join(CONTENT_DIR, 'blog', `${post.slug}.json`);
+    // Slug changed in the editor: the edits are saved with the move, which leaves a 301 from the old URL
+    const renamed = typeof originalSlug === 'string' && originalSlug && originalSlug !== post.slug ? originalSlug : null;
 
-    let existingPost: Record<string, unknown> = {};
+    // Load the individual blog post file (throws RevisionError for slugs that are not plain path segments)
+    const postPath = contentFilePath('blog', renamed ?? post.slug);
+
+    let existingPost: Record<string, any> = {};
     try {
       const existingData = await fs.readFile(postPath, 'utf-8');
       existingPost = JSON.parse(existingData);
@@ -43,61 +48,51 @@ export async function POST(request: NextRequest) {
       // Post file doesn't exist yet, that's okay
     }
 
-    // Merge the updates with existing data
-    const updatedPost = {
+    // Merge the updates with existing data (generated docs keep their dates in dates, legacy posts at the top level)
+    const now = new Date().toISOString();
+    const updatedPost: Record<string, any> = {
       ...existingPost,
       title: post.title,
       description: post.description,
       category: post.category,
-      publishedAt: post.publishedAt,
       heroImage: post.heroImage || existingPost.heroImage,
       videoUrl: post.videoUrl || undefined,
       body: post.body !== undefined ? post.body : existingPost.body,
-      updatedAt: new Date().toISOString(),
     };
+    if (existingPost.dates) {
+      updatedPost.dates = { ...existingPost.dates, publishedAt: post.publishedAt || existingPost.dates.publishedAt, updatedAt: now };
+    } else {
+      updatedPost.publishedAt = post.publishedAt;
+      updatedPost.updatedAt = now;
+    }
 
     // Remove undefined values
-    (Object.keys(updatedPost) as Array<keyof typeof updatedPost>).forEach(key => {
+    Object.keys(updatedPost).forEach(key => {
       if (updatedPost[key] === undefined) {
         delete updatedPost[key];
       }
     });
 
-    // Save the post file
-    await fs.writeFile(postPath, JSON.stringify(updatedPost, null, 2));
-
-    // Update the content index
-    const indexData = await fs.readFile(INDEX_PATH, 'utf-8');
-    const index = JSON.parse(indexData);
-
-    // Use blogPosts (the actual key in the content index)
-    const blogIndex = index.blogPosts?.findIndex((p: { slug: string }) => p.slug === post.slug);
-    if (blogIndex !== undefined && blogIndex >= 0) {
-      index.blogPosts[blogIndex] = {
-        ...index.blogPosts[blogIndex],
-        title: post.title,
-        description: post.description,
-        category: post.category,
-        publishedAt: post.publishedAt,
-        heroImage: post.heroImage || index.blogPosts[blogIndex].heroImage,
-        videoUrl: post.videoUrl || undefined,
-      };
-
-      // Remove undefined values from index entry
-      Object.keys(index.blogPosts[blogIndex]).forEach(key => {
-        if (index.blogPosts[blogIndex][key] === undefined) {
-          delete index.blogPosts[blogIndex][key];
-        }
-      });
-
-      // Update lastUpdated timestamp
-      index.lastUpdated = new Date().toISOString();
-
-      await fs.writeFile(INDEX_PATH, JSON.stringify(index, null, 2));
+    // Atomic write, revision, locked index update (readability included) and revalidation
+    const by = typeof author === 'string' && author ? author : 'admin';
+    const saveReason = typeof reason === 'string' && reason ? reason : 'Edited in admin';
+    let revision: RevisionSummary;
+    let redirect: RedirectRule | undefined;
+    if (renamed) {
+      ({ revision, redirect } = await renameDoc('blog', renamed, post.slug, { by, doc: updatedPost, reason: saveReason }));
+    } else {
+      revision = await saveDoc('blog', post.slug, updatedPost, { source: 'admin', author: by, reason: saveReason });
     }
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, revision: revision.number, redirect });
   } catch (error) {
+    if (error instanceof RevisionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof RedirectError) {
+      const status = error.code === 'CONFLICT' ? 409 : error.code === 'NOT_FOUND' ? 404 : 400;
+      return NextResponse.json({ error: error.message }, { status });
+    }
     console.error('Failed to save post:', error);
     return NextResponse.json({ error: 'Failed to save post' }, { status: 500 });
   }
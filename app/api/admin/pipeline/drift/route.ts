@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { validateIndexDrift } from '@/lib/content/index-drift-validator';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Compare the content index with files on disk (reads every content file)
+export async function GET() {
+  try {
+    const report = await validateIndexDrift();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Failed to validate index drift:', error);
+    return NextResponse.json({ error: 'Failed to validate index drift' }, { status: 500 });
+  }
+}
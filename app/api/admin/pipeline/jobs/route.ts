@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { retryJobs, requeueJobs } from '@/scripts/pipeline/scheduler';
+
+// POST - Retry dead-lettered/failed jobs or requeue backing-off/stuck jobs
+export async function POST(request: NextRequest) {
+  try {
+    const { action, jobIds } = await request.json();
+
+    if (!Array.isArray(jobIds) || jobIds.length === 0 || !jobIds.every((id) => typeof id === 'string')) {
+      return NextResponse.json({ error: 'jobIds must be a non-empty array' }, { status: 400 });
+    }
+
+    let updated;
+    if (action === 'retry') {
+      updated = await retryJobs({ jobIds });
+    } else if (action === 'requeue') {
+      updated = await requeueJobs(jobIds);
+    } else {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, updated: updated.map((job) => job.jobId) });
+  } catch (error) {
+    console.error('Failed to update jobs:', error);
+    return NextResponse.json({ error: 'Failed to update jobs' }, { status: 500 });
+  }
+}
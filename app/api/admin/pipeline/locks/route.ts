@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseStaleLock } from '@/lib/content/index-lock';
+import { releaseStaleQueueLock } from '@/scripts/pipeline/queue-lock';
+
+// POST - Release a stale index or job queue lock (locks that are still fresh are left alone)
+export async function POST(request: NextRequest) {
+  try {
+    const { lock } = await request.json();
+
+    let released: boolean;
+    if (lock === 'index') {
+      released = await releaseStaleLock();
+    } else if (lock === 'queue') {
+      released = await releaseStaleQueueLock();
+    } else {
+      return NextResponse.json({ error: 'lock must be "index" or "queue"' }, { status: 400 });
+    }
+
+    if (!released) {
+      return NextResponse.json(
+        { error: 'Lock is not stale (or already released) - it may belong to a running publish' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Failed to release lock:', error);
+    return NextResponse.json({ error: 'Failed to release lock' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { loadJobQueue } from '@/scripts/pipeline/scheduler';
+import { getMetrics } from '@/scripts/pipeline/metrics';
+import { getLockMetrics } from '@/scripts/pipeline/lock-metrics';
+import { getQueueLockStatus, isQueueLocked } from '@/scripts/pipeline/queue-lock';
+import { isIndexLocked, getIndexLockStatus } from '@/lib/content/index-lock';
+import { Job, JobStatus } from '@/scripts/pipeline/types';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_JOBS = 200; // Most recent jobs returned to the admin UI
+
+function getLastActivity(job: Job): string {
+  return job.completedAt || job.failedAt || job.heartbeatAt || job.startedAt || job.scheduledAt;
+}
+
+// GET - Job queue, publish metrics and lock state
+export async function GET() {
+  try {
+    const [jobs, metrics, lockMetrics, indexLocked, indexLock, queueLocked, queueLock] = await Promise.all([
+      loadJobQueue(),
+      getMetrics(),
+      getLockMetrics(),
+      isIndexLocked(),
+      getIndexLockStatus(),
+      isQueueLocked(),
+      getQueueLockStatus(),
+    ]);
+
+    const counts: Record<JobStatus, number> = {
+      pending: 0,
+      running: 0,
+      completed: 0,
+      failed: 0,
+      cancelled: 0,
+      'dead-letter': 0,
+    };
+    jobs.forEach((job) => {
+      counts[job.status] = (counts[job.status] || 0) + 1;
+    });
+
+    const recentJobs = [...jobs]
+      .sort((a, b) => new Date(getLastActivity(b)).getTime() - new Date(getLastActivity(a)).getTime())
+      .slice(0, MAX_JOBS);
+
+    return NextResponse.json({
+      jobs: {
+        total: jobs.length,
+        counts,
+        backingOff: jobs.filter((j) => j.status === 'pending' && j.runAt && new Date(j.runAt).getTime() > Date.now()).length,
+        items: recentJobs,
+      },
+      metrics,
+      locks: {
+        index: { locked: indexLocked, ...(indexLock || {}) },
+        queue: { locked: queueLocked, ...(queueLock || {}) },
+        metrics: lockMetrics,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to load pipeline status:', error);
+    return NextResponse.json({ error: 'Failed to load pipeline status' }, { status: 500 });
+  }
+}
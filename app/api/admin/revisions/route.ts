@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listRevisions,
+  loadRevision,
+  diffRevisions,
+  rollbackToRevision,
+  RevisionError,
+} from '@/lib/content/revisions';
+import type { PageType } from '@/scripts/pipeline/types';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof RevisionError) {
+    return NextResponse.json({ error: error.message }, { status: error.code === 'NOT_FOUND' ? 404 : 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET - List revisions (?pageType&slug), one revision (&revision=N) or a diff (&from=N&to=M)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const pageType = (params.get('pageType') || 'blog') as PageType;
+  const slug = params.get('slug') || '';
+
+  try {
+    if (params.has('from') && params.has('to')) {
+      const from = Number(params.get('from'));
+      const to = Number(params.get('to'));
+      return NextResponse.json({ from, to, diff: await diffRevisions(pageType, slug, from, to) });
+    }
+    if (params.has('revision')) {
+      return NextResponse.json(await loadRevision(pageType, slug, Number(params.get('revision'))));
+    }
+    return NextResponse.json({ revisions: await listRevisions(pageType, slug) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load revisions');
+  }
+}
+
+// POST - Roll a doc back to a revision (updates the content index and revalidates)
+export async function POST(request: NextRequest) {
+  try {
+    const { pageType = 'blog', slug, revision, author, reason } = await request.json();
+
+    if (typeof slug !== 'string' || !Number.isInteger(revision)) {
+      return NextResponse.json({ error: 'slug and revision are required' }, { status: 400 });
+    }
+
+    const restored = await rollbackToRevision(pageType, slug, revision, {
+      author: typeof author === 'string' && author ? author : 'admin',
+      reason: typeof reason === 'string' && reason ? reason : undefined,
+    });
+    return NextResponse.json({ success: true, revision: restored });
+  } catch (error) {
+    return errorResponse(error, 'Failed to roll back');
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import fs from 'fs/promises';
+import {
+  transitionDoc,
+  editorialStatus,
+  availableActions,
+  listScheduledDocs,
+  WorkflowError,
+  WorkflowAction,
+} from '@/lib/content/workflow';
+import { contentFilePath, RevisionError } from '@/lib/content/revisions';
+import type { PageType } from '@/scripts/pipeline/types';
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof WorkflowError) {
+    return NextResponse.json({ error: error.message }, { status: error.code === 'INVALID_TRANSITION' ? 409 : 400 });
+  }
+  if (error instanceof RevisionError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET - Workflow state of a doc (?pageType&slug) or every scheduled doc (?scheduled)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  try {
+    if (params.has('scheduled')) {
+      return NextResponse.json({ scheduled: await listScheduledDocs() });
+    }
+
+    const pageType = (params.get('pageType') || 'blog') as PageType;
+    const slug = params.get('slug') || '';
+    let doc;
+    try {
+      doc = JSON.parse(await fs.readFile(contentFilePath(pageType, slug), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+      }
+      throw error;
+    }
+
+    const status = editorialStatus(doc);
+    return NextResponse.json({
+      status,
+      editorial: doc.editorial ?? { status, history: [] },
+      actions: availableActions(status),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load workflow state');
+  }
+}
+
+// POST - Move a doc through the workflow (records a revision, updates the index, revalidates)
+export async function POST(request: NextRequest) {
+  try {
+    const { pageType = 'blog', slug, action, by, reviewer, scheduledFor, note } = await request.json();
+
+    if (typeof slug !== 'string' || typeof action !== 'string') {
+      return NextResponse.json({ error: 'slug and action are required' }, { status: 400 });
+    }
+
+    const result = await transitionDoc(pageType, slug, action as WorkflowAction, {
+      by: typeof by === 'string' && by ? by : 'admin',
+      reviewer: typeof reviewer === 'string' ? reviewer : undefined,
+      scheduledFor: typeof scheduledFor === 'string' && scheduledFor ? scheduledFor : undefined,
+      note: typeof note === 'string' && note ? note : undefined,
+    });
+    return NextResponse.json({
+      success: true,
+      ...result,
+      actions: availableActions(result.status),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Workflow action failed');
+  }
+}
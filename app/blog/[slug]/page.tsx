@@ -11,6 +11,7 @@ import { FaqSchema } from '@/components/seo/FaqSchema';
 import { ArticleSchema } from '@/components/seo/ArticleSchema';
 import { LastUpdated } from '@/components/content/LastUpdated';
 import { SourcesSection } from '@/components/content/SourcesSection';
+import { linkCitations } from '@/lib/content/citations';
 import Link from 'next/link';
 import { getBlogPostBySlug, getRelatedBlogPosts } from '@/lib/content/blog';
 import { getAllPostSlugs } from '@/lib/content/index';
@@ -159,6 +160,9 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
 
   const canonicalUrl = generateCanonical(`/blog/${slug}`);
 
+  // Inline [^source-id] markers → numbered footnote links (SourcesSection links back to them)
+  const citations = linkCitations(post.body, post.sources || []);
+
   // Helper function to generate heading IDs from text
   const generateHeadingId = (text: string) => {
     return text
@@ -233,10 +237,21 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
         </strong>
       );
     },
-    a: ({ children, href, ...props }: any) => {
+    a: ({ children, href, title, ...props }: any) => {
+      // Footnote link from linkCitations - the title carries the citation's anchor id
+      if (href?.startsWith('#source-')) {
+        return (
+          <sup id={title} className="citation">
+            <a href={href} className="text-blue-600 hover:text-blue-800 no-underline">
+              [{children}]
+            </a>
+          </sup>
+        );
+      }
       return (
         <a
           href={href}
+          title={title}
           className="text-blue-600 hover:text-blue-800 underline font-medium transition-colors"
           {...props}
         >
@@ -383,8 +398,8 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
 
             // Split markdown if we have top CTAs
             const [firstPart, restPart] = topCTAs.length > 0 
-              ? splitMarkdownAfterFirstSection(post.body)
-              : [post.body, ''];
+              ? splitMarkdownAfterFirstSection(citations.body)
+              : [citations.body, ''];
 
             return (
               <>
@@ -421,7 +436,7 @@ export default async function BlogPostPage({ params }: BlogPostPageProps) {
             {/* Sources Section */}
             {post.sources && Array.isArray(post.sources) && post.sources.length > 0 && (
               <div className="mb-8">
-                <SourcesSection sources={post.sources} />
+                <SourcesSection sources={post.sources} citations={citations.backlinks} />
               </div>
             )}
 
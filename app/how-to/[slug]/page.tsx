@@ -0,0 +1,308 @@
+/**
+ * Dynamic How-To Page
+ * Renders any published HowToDoc from content/how-to/{slug}.json
+ */
+
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { generateCanonical } from '@/lib/seo/canonical';
+import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
+import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
+import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
+import { AuthorSchema } from '@/components/seo/AuthorSchema';
+import { BreadcrumbSchema, generateBreadcrumbsFromPath } from '@/components/seo/BreadcrumbSchema';
+import { FaqSchema } from '@/components/seo/FaqSchema';
+import { ArticleSchema } from '@/components/seo/ArticleSchema';
+import { HowToSchema } from '@/components/seo/HowToSchema';
+import { LastUpdated } from '@/components/content/LastUpdated';
+import { SourcesSection } from '@/components/content/SourcesSection';
+import { DocMarkdown } from '@/components/content/DocMarkdown';
+import { linkCitations } from '@/lib/content/citations';
+import { getHowToBySlug, HOW_TO_CATEGORIES } from '@/lib/content/howto';
+import { extractHowToNeeds, resolveHowToMeta } from '@/lib/content/howto-meta';
+import { getAllHowToSlugs } from '@/lib/content/index';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
+import Link from 'next/link';
+import { formatSlug } from '@/lib/utils';
+import Image from 'next/image';
+
+interface HowToPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * Generate static params for all published how-to guides
+ */
+export async function generateStaticParams() {
+  try {
+    const slugs = await getAllHowToSlugs();
+    return slugs.map((slug) => ({ slug }));
+  } catch (error) {
+    // Empty or invalid index must not fail the build
+    console.error('Failed to load how-to slugs for static params:', error);
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: HowToPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const doc = await getHowToBySlug(slug);
+
+  if (!doc) {
+    return {
+      title: 'Guide Not Found',
+      robots: {
+        index: false,
+        follow: false,
+      },
+    };
+  }
+
+  const canonicalUrl = generateCanonical(`/how-to/${slug}`);
+
+  return {
+    title: doc.title,
+    description: doc.description,
+    keywords: [doc.primaryKeyword, ...doc.secondaryKeywords].join(', '),
+    alternates: {
+      canonical: canonicalUrl,
+    },
+    openGraph: {
+      title: doc.title,
+      description: doc.description,
+      url: canonicalUrl,
+      type: 'article',
+      images: doc.heroImage ? [{ url: doc.heroImage, width: 1200, height: 600, alt: doc.title }] : undefined,
+    },
+  };
+}
+
+/**
+ * "PT1H30M" → "1 hr 30 min"
+ */
+function formatDuration(duration: string): string {
+  const match = duration.match(/^PT(?:(\d+)H)?(?:(\d+)M)?$/);
+  if (!match) return duration;
+  return [match[1] && `${match[1]} hr`, match[2] && `${match[2]} min`].filter(Boolean).join(' ');
+}
+
+export default async function HowToPage({ params }: HowToPageProps) {
+  const { slug } = await params;
+  const doc = await getHowToBySlug(slug);
+
+  if (!doc) {
+    notFound();
+  }
+
+  const meta = resolveHowToMeta(doc);
+  const heroImage = doc.heroImage || getCategoryFallbackImage('techniques');
+  const breadcrumbs = generateBreadcrumbsFromPath(`/how-to/${slug}`, { 'how-to': 'How-To Guides' }, doc.title.split(':')[0]);
+
+  // Tools/supplies only listed in howToMeta must be visible on the page, not just in the schema
+  const needsInBody = Object.keys(extractHowToNeeds(doc.body)).length > 0;
+  const showNeeds = !needsInBody && ((meta.tools?.length ?? 0) > 0 || (meta.supplies?.length ?? 0) > 0 || !!meta.totalTime);
+
+  // Inline [^source-id] markers → numbered footnote links (SourcesSection links back to them)
+  const citations = linkCitations(doc.body, doc.sources || []);
+  const tocHeadings = doc.headings.filter((h) => h.level === 2 && h.id);
+
+  return (
+    <>
+      <AuthorSchema author={doc.author} />
+      <BreadcrumbSchema items={breadcrumbs} />
+      <FaqSchema faqs={doc.faqs} />
+      <ArticleSchema
+        headline={doc.title}
+        description={doc.description}
+        author={doc.author}
+        datePublished={doc.dates.publishedAt}
+        dateModified={doc.dates.updatedAt}
+        image={heroImage}
+        url={`/how-to/${slug}`}
+      />
+      <HowToSchema
+        name={doc.title}
+        description={doc.description}
+        url={`/how-to/${slug}`}
+        steps={meta.steps}
+        tools={meta.tools}
+        supplies={meta.supplies}
+        totalTime={meta.totalTime}
+        image={heroImage}
+      />
+
+      <article className="how-to-page">
+        <header className="page-header">
+          <Link
+            href={`/how-to?category=${doc.category}`}
+            className="inline-block mb-3 text-xs font-semibold uppercase tracking-wide text-blue-600 hover:text-blue-700"
+          >
+            {HOW_TO_CATEGORIES[doc.category] || formatSlug(doc.category)}
+          </Link>
+          <h1>{doc.title}</h1>
+          <p className="page-intro">{doc.description}</p>
+        </header>
+
+        {/* Hero Image */}
+        <div className="mb-8 -mx-4 sm:mx-0">
+          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
+            <Image
+              src={heroImage}
+              alt={doc.title}
+              fill
+              priority
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
+            />
+          </div>
+          <p className="text-xs text-gray-400 mt-2 text-right">
+            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
+          </p>
+        </div>
+
+        {showNeeds && (
+          <section className="how-to-needs my-8 p-6 bg-gray-50 rounded-lg">
+            <h2>What You&apos;ll Need</h2>
+            {meta.totalTime && (
+              <p>
+                <strong>Total time:</strong> {formatDuration(meta.totalTime)}
+              </p>
+            )}
+            {meta.tools && meta.tools.length > 0 && (
+              <ul>
+                {meta.tools.map((tool) => (
+                  <li key={tool}>{tool}</li>
+                ))}
+              </ul>
+            )}
+            {meta.supplies && meta.supplies.length > 0 && (
+              <>
+                <h3>Supplies</h3>
+                <ul>
+                  {meta.supplies.map((supply) => (
+                    <li key={supply}>{supply}</li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </section>
+        )}
+
+        {tocHeadings.length >= 3 && (
+          <nav className="table-of-contents">
+            <h2>Table of Contents</h2>
+            <ul>
+              {tocHeadings.map((heading) => (
+                <li key={heading.id}>
+                  <a href={`#${heading.id}`}>{heading.text}</a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+
+        <PrimaryCTA
+          title="Put This Guide to Work"
+          copy="Get real-time fishing conditions, tide predictions, and expert advice for your location. Download Tackle for iPhone."
+          buttonText="default"
+          position="above_fold"
+          pageType="how-to"
+          slug={slug}
+          className="my-8"
+        />
+
+        <div className="how-to-body">
+          <DocMarkdown body={citations.body} headings={doc.headings} />
+        </div>
+
+        <PrimaryCTA
+          title="Get Personalized Fishing Forecasts"
+          copy="Download Tackle and get daily fishing conditions, best times, and expert advice for your exact location."
+          buttonText="download"
+          position="end"
+          pageType="how-to"
+          slug={slug}
+          className="my-12"
+        />
+
+        {doc.related?.howToSlugs && doc.related.howToSlugs.length > 0 && (
+          <section className="related-content">
+            <h2>Related Guides</h2>
+            <ul>
+              {doc.related.howToSlugs.map((howTo) => (
+                <li key={howTo}>
+                  <Link href={`/how-to/${howTo}`}>{formatSlug(howTo)}</Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {doc.related?.speciesSlugs && doc.related.speciesSlugs.length > 0 && (
+          <section className="related-species">
+            <h2>Target These Species</h2>
+            <ul>
+              {doc.related.speciesSlugs.map((species) => (
+                <li key={species}>
+                  <Link href={`/species/${species}`}>{formatSlug(species)} Fishing Guide</Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {doc.related?.locationSlugs && doc.related.locationSlugs.length > 0 && (
+          <section className="related-locations">
+            <h2>Best Fishing Locations</h2>
+            <ul>
+              {doc.related.locationSlugs.map((location) => {
+                const [state, city] = location.split('/');
+                return (
+                  <li key={location}>
+                    <Link href={`/locations/${location}`}>
+                      Fishing in {formatSlug(city || state)}{city ? `, ${state.toUpperCase()}` : ''}
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {doc.faqs.length > 0 && (
+          <section className="faq-section">
+            <h2>Frequently Asked Questions</h2>
+            <div className="faq-list">
+              {doc.faqs.map((faq, index) => (
+                <div key={index} className="faq-item">
+                  <h3 className="faq-question">{faq.question}</h3>
+                  <p className="faq-answer">{faq.answer}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {doc.sources && doc.sources.length > 0 && (
+          <SourcesSection sources={doc.sources} citations={citations.backlinks} className="my-8" />
+        )}
+
+        <RegulationsOutboundLinkBlock
+          pageType="how-to"
+          slug={slug}
+          className="my-8"
+        />
+
+        <LastUpdated
+          date={doc.dates.updatedAt}
+          author={doc.author.name}
+        />
+
+        <StickyBottomCTA
+          pageType="how-to"
+          slug={slug}
+        />
+      </article>
+    </>
+  );
+}
@@ -1,406 +0,0 @@
-/**
- * Best Fishing Times - How-To Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Best Fishing Times: When to Fish for Maximum Success',
-  description: 'Learn the best times to fish based on weather, tides, moon phases, and time of day. Get expert tips for optimal fishing conditions.',
-  alternates: {
-    canonical: generateCanonical('/how-to/best-fishing-times'),
-  },
-  openGraph: {
-    title: 'Best Fishing Times: When to Fish for Maximum Success',
-    description: 'Learn the best times to fish based on weather, tides, moon phases, and time of day.',
-    url: generateCanonical('/how-to/best-fishing-times'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is the best time of day to fish?',
-    answer: 'Early morning (dawn to 10 AM) and late afternoon (4 PM to dusk) are generally the most productive times. Fish are more active during these periods, especially in warmer months. However, the best time can vary based on species, location, and weather conditions.',
-  },
-  {
-    question: 'Do tides affect fishing times?',
-    answer: 'Yes, tides significantly affect fishing. Many anglers find the best fishing occurs during incoming and outgoing tides when water movement is strongest. The last two hours of incoming tide and first two hours of outgoing tide are often most productive.',
-  },
-  {
-    question: 'How do moon phases affect fishing?',
-    answer: 'Moon phases can influence fish activity. Many anglers report better fishing during new moon and full moon periods, when tidal movement is strongest. However, moon phase is just one factor—weather and water conditions also play important roles.',
-  },
-  {
-    question: 'Is fishing better in the morning or evening?',
-    answer: 'Both morning and evening can be excellent for fishing. Morning fishing often benefits from cooler water temperatures and active feeding periods. Evening fishing can be productive as fish move into shallower water. The best choice depends on your target species and local conditions.',
-  },
-  {
-    question: 'What weather conditions are best for fishing?',
-    answer: 'Overcast days with light wind are often ideal. Barometric pressure changes (especially falling pressure before storms) can trigger feeding activity. However, different species respond differently to weather, so local knowledge is valuable.',
-  },
-  {
-    question: 'Can I fish successfully at any time?',
-    answer: 'While some times are generally better, fish can be caught throughout the day. Success depends on many factors including species, location, technique, and conditions. Learning to read local conditions is often more valuable than following general rules.',
-  },
-  {
-    question: 'How do I know the best time to fish in my area?',
-    answer: 'Check local tide charts, weather forecasts, and solunar tables. Many fishing apps provide daily fishing scores based on these factors. Local knowledge from experienced anglers in your area is also invaluable.',
-  },
-  {
-    question: 'Does the season affect the best fishing times?',
-    answer: 'Yes, seasons significantly affect optimal fishing times. In summer, early morning and evening are often best to avoid heat. In cooler months, midday fishing can be productive. Understanding seasonal patterns for your target species is key to success.',
-  },
-];
-
-export default function BestFishingTimesPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'How-To Guides', item: 'https://tackleapp.ai/how-to' },
-          { name: 'Best Fishing Times', item: 'https://tackleapp.ai/how-to/best-fishing-times' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="how-to-page">
-        <header className="page-header">
-          <h1>Best Fishing Times: When to Fish for Maximum Success</h1>
-          <p className="page-intro">
-            Timing is everything in fishing. Understanding when fish are most active can dramatically improve your success rate. The best fishing times depend on several factors including time of day, tides, moon phases, weather conditions, and seasonal patterns. This guide explains how each factor affects fish behavior and helps you plan your fishing trips for optimal results.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1755870344289-00ac1db1b144?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Two anglers fishing from a boat at sunrise - the best time to fish"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#time-of-day">Time of Day</a></li>
-            <li><a href="#tide-conditions">Tide Conditions</a></li>
-            <li><a href="#moon-phases">Moon Phases and Solunar Activity</a></li>
-            <li><a href="#weather-factors">Weather Factors</a></li>
-            <li><a href="#seasonal-patterns">Seasonal Patterns</a></li>
-            <li><a href="#putting-it-together">Putting It All Together</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Never Miss the Best Fishing Times"
-          copy="Get personalized fishing forecasts based on weather, tides, and moon phases. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="how-to"
-          slug="best-fishing-times"
-          className="my-8"
-        />
-
-        <section id="time-of-day">
-          <h2>Time of Day</h2>
-          <p>
-            The time of day you choose to fish can significantly impact your success. Fish behavior follows daily patterns influenced by light, temperature, and feeding cycles.
-          </p>
-          
-          <h3>Early Morning (Dawn to 10 AM)</h3>
-          <p>
-            Early morning is often considered prime fishing time. As the sun rises, water temperatures begin to warm, and fish become more active. Many species feed actively during this period, especially in shallow water. The low light conditions make fish less cautious, and the cooler temperatures are comfortable for both fish and anglers.
-          </p>
-          <p>
-            In Florida's inshore waters, early morning is particularly productive for species like redfish, snook, and speckled trout. These fish often move into shallow flats and grass beds to feed as the sun comes up.
-          </p>
-
-          <h3>Midday (10 AM to 2 PM)</h3>
-          <p>
-            Midday fishing can be challenging, especially in summer when water temperatures peak and fish retreat to deeper, cooler water. However, midday can be productive in cooler months or when fishing deeper structure. Some species, like grouper and snapper, feed actively throughout the day in deeper water.
-          </p>
-          <p>
-            If you're fishing midday in warm weather, focus on shaded areas, deeper holes, or moving water where temperatures are more moderate.
-          </p>
-
-          <h3>Late Afternoon to Dusk (4 PM to Dark)</h3>
-          <p>
-            Late afternoon and evening offer another prime fishing window. As temperatures cool and light levels decrease, fish become more active again. Many species move into shallow water to feed before dark. This period is excellent for both inshore and freshwater fishing.
-          </p>
-          <p>
-            The last hour before sunset, often called the "golden hour," is particularly productive. Fish are actively feeding, and the low light makes them less wary of anglers.
-          </p>
-
-          <h3>Night Fishing</h3>
-          <p>
-            Night fishing can be highly productive for certain species. Many fish, including snook, tarpon, and catfish, are more active at night. Night fishing requires different techniques and safety considerations, but it can offer excellent results, especially during hot summer months.
-          </p>
-        </section>
-
-        <section id="tide-conditions">
-          <h2>Tide Conditions</h2>
-          <p>
-            Tides are one of the most important factors in saltwater fishing. Understanding how tides affect fish behavior can help you time your trips for maximum success.
-          </p>
-          
-          <h3>Incoming Tide</h3>
-          <p>
-            During incoming (rising) tide, water moves into shallow areas, bringing baitfish and nutrients. Predator fish follow the bait into these areas, making incoming tide excellent for fishing shallow flats, mangroves, and grass beds. The last two hours of incoming tide are often the most productive.
-          </p>
-          <p>
-            Incoming tide is particularly good for sight fishing and fishing shallow structure. Redfish, snook, and trout often move into very shallow water during high incoming tide.
-          </p>
-
-          <h3>Outgoing Tide</h3>
-          <p>
-            Outgoing (falling) tide concentrates fish as water flows out of shallow areas. Fish position themselves near channels, cuts, and structure where baitfish are funneled. The first two hours of outgoing tide can be extremely productive.
-          </p>
-          <p>
-            Outgoing tide is excellent for fishing channels, bridge pilings, and jetties where fish wait to ambush bait being carried by the current.
-          </p>
-
-          <h3>Slack Tide</h3>
-          <p>
-            Slack tide (when tide changes direction) typically produces slower fishing as water movement stops. However, some species continue to feed during slack periods, especially if it coincides with other favorable conditions like low light or good weather.
-          </p>
-
-          <h3>Reading Tide Charts</h3>
-          <p>
-            Check local tide charts before planning your trip. Look for times when tide movement is strongest—these periods generally offer the best fishing. Many fishing apps provide tide predictions and fishing scores based on tide conditions.
-          </p>
-        </section>
-
-        <section id="moon-phases">
-          <h2>Moon Phases and Solunar Activity</h2>
-          <p>
-            Moon phases influence tides and, many anglers believe, fish activity. While the effect varies by location and species, understanding moon phases can help you plan better fishing trips.
-          </p>
-          
-          <h3>New Moon and Full Moon</h3>
-          <p>
-            New moon and full moon periods create stronger tidal movement (spring tides), which many anglers find produces better fishing. These periods have the greatest difference between high and low tide, creating stronger currents that concentrate bait and trigger feeding activity.
-          </p>
-          <p>
-            Some anglers report increased fish activity during new moon and full moon, especially for species that feed heavily on tides like snook and redfish.
-          </p>
-
-          <h3>First and Last Quarter Moon</h3>
-          <p>
-            Quarter moon phases produce weaker tides (neap tides) with less water movement. Fishing can still be productive during these periods, but you may need to adjust techniques and locations.
-          </p>
-
-          <h3>Solunar Tables</h3>
-          <p>
-            Solunar tables predict peak feeding times based on moon position and sun position. Many anglers use solunar tables to identify the best times within a day. These tables suggest that fish are most active during major and minor feeding periods.
-          </p>
-          <p>
-            While solunar predictions aren't guaranteed, many experienced anglers find them helpful for planning. Combine solunar information with tide charts and weather conditions for the best results.
-          </p>
-        </section>
-
-        <section id="weather-factors">
-          <h2>Weather Factors</h2>
-          <p>
-            Weather conditions significantly affect fish behavior and feeding activity. Understanding how weather impacts fishing can help you choose the best times to go out.
-          </p>
-          
-          <h3>Barometric Pressure</h3>
-          <p>
-            Barometric pressure changes often trigger fish feeding activity. Many anglers find that falling barometric pressure (before a storm) produces excellent fishing as fish sense the approaching weather and feed actively. Rising pressure after a storm can also be productive.
-          </p>
-          <p>
-            Stable high pressure typically produces consistent but not exceptional fishing. Rapid pressure changes, whether rising or falling, often trigger the best feeding activity.
-          </p>
-
-          <h3>Wind Conditions</h3>
-          <p>
-            Light to moderate wind can improve fishing by creating surface disturbance that makes fish less cautious and oxygenates the water. However, strong wind can make fishing difficult and dangerous. Wind direction also matters—onshore wind can push baitfish and nutrients toward shore, while offshore wind can make fishing challenging.
-          </p>
-          <p>
-            In many locations, a light breeze from the east or southeast is considered ideal for inshore fishing.
-          </p>
-
-          <h3>Cloud Cover</h3>
-          <p>
-            Overcast days often produce better fishing than bright, sunny days. Cloud cover reduces light penetration, making fish less cautious and more willing to move into shallow water. Overcast conditions can extend productive fishing times throughout the day.
-          </p>
-
-          <h3>Temperature</h3>
-          <p>
-            Water temperature affects fish metabolism and activity. Most fish are most active when water temperatures are in their preferred range. Sudden temperature changes, whether from weather or season, can slow fishing until fish adjust.
-          </p>
-          <p>
-            In Florida, fishing is generally best when water temperatures are between 65°F and 80°F, though this varies by species.
-          </p>
-        </section>
-
-        <section id="seasonal-patterns">
-          <h2>Seasonal Patterns</h2>
-          <p>
-            Seasonal changes affect fish behavior and the best times to fish. Understanding seasonal patterns helps you plan trips when fish are most active and accessible.
-          </p>
-          
-          <h3>Spring</h3>
-          <p>
-            Spring brings warming water and increased fish activity. Many species move into shallow water to spawn and feed. Early morning and late afternoon are typically best, as midday can be too warm in some areas. Spring is excellent for inshore fishing as fish are active and accessible.
-          </p>
-
-          <h3>Summer</h3>
-          <p>
-            Summer fishing is best during early morning and late evening when temperatures are cooler. Midday fishing can be slow in shallow water, but deeper areas may remain productive. Night fishing becomes more attractive during hot summer months.
-          </p>
-          <p>
-            In Florida, summer fishing often requires adjusting to early morning starts (before sunrise) and evening sessions to avoid the heat.
-          </p>
-
-          <h3>Fall</h3>
-          <p>
-            Fall is often considered prime fishing season. Cooling water temperatures increase fish activity, and many species feed heavily before winter. Fishing can be productive throughout the day during fall, with morning and afternoon both offering excellent opportunities.
-          </p>
-
-          <h3>Winter</h3>
-          <p>
-            Winter fishing is often best during the warmest part of the day (midday). Fish are less active in cold water, so timing becomes more critical. Focus on deeper water, sunny areas, and times when water temperatures are highest.
-          </p>
-          <p>
-            In Florida, winter fishing can be excellent as many species remain active, but timing your trips for the warmest periods improves success.
-          </p>
-        </section>
-
-        <section id="putting-it-together">
-          <h2>Putting It All Together</h2>
-          <p>
-            The best fishing times occur when multiple favorable factors align. While you can't control all conditions, understanding these factors helps you choose the best times for your fishing trips.
-          </p>
-          
-          <h3>Ideal Conditions</h3>
-          <p>
-            The ideal fishing scenario combines:
-          </p>
-          <ul>
-            <li>Early morning or late afternoon (low light, comfortable temperatures)</li>
-            <li>Incoming or outgoing tide (strong water movement)</li>
-            <li>Overcast skies (reduced light, less fish caution)</li>
-            <li>Light wind (water movement without dangerous conditions)</li>
-            <li>Stable or falling barometric pressure</li>
-            <li>Appropriate season for your target species</li>
-          </ul>
-
-          <h3>Planning Your Trip</h3>
-          <p>
-            Before heading out, check:
-          </p>
-          <ul>
-            <li>Local tide charts for the day</li>
-            <li>Weather forecast (wind, clouds, pressure)</li>
-            <li>Solunar tables (optional but helpful)</li>
-            <li>Water temperature trends</li>
-            <li>Recent fishing reports for your area</li>
-          </ul>
-          <p>
-            Many fishing apps combine these factors into a daily fishing score, making it easier to identify the best times to fish.
-          </p>
-
-          <h3>Flexibility and Local Knowledge</h3>
-          <p>
-            While these general guidelines help, local conditions vary. What works in one location may not work in another. Building local knowledge through experience and talking to other anglers in your area is invaluable.
-          </p>
-          <p>
-            Remember that fish can be caught at any time—these guidelines simply help you identify when conditions are most favorable. Sometimes the best fishing happens when you least expect it.
-          </p>
-        </section>
-
-        <PrimaryCTA
-          title="Get Personalized Fishing Times"
-          copy="Download Tackle and get daily fishing forecasts based on weather, tides, and moon phases for your exact location."
-          buttonText="download"
-          position="end"
-          pageType="how-to"
-          slug="best-fishing-times"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related Guides</h2>
-          <ul>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-            <li><Link href="/how-to/how-weather-affects-fishing">How Weather Affects Fishing</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Target These Species</h2>
-          <ul>
-            <li><Link href="/species/redfish">Redfish Fishing Guide</Link></li>
-            <li><Link href="/species/snook">Snook Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Best Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/tampa">Fishing in Tampa, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          pageType="how-to"
-          slug="best-fishing-times"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="how-to"
-          slug="best-fishing-times"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -1,503 +0,0 @@
-/**
- * Best Time of Day to Fish - How-To Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Best Time of Day to Fish: Morning vs Evening Guide',
-  description: 'Discover the best time of day to fish. Learn why early morning and evening are productive, and how to adapt to different times and conditions.',
-  alternates: {
-    canonical: generateCanonical('/how-to/best-time-of-day-to-fish'),
-  },
-  openGraph: {
-    title: 'Best Time of Day to Fish: Morning vs Evening Guide',
-    description: 'Discover the best time of day to fish. Learn why early morning and evening are productive.',
-    url: generateCanonical('/how-to/best-time-of-day-to-fish'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is the best time of day to go fishing?',
-    answer: 'Early morning (dawn to 10 AM) and late afternoon to dusk (4 PM to dark) are generally the most productive times. These periods offer low light conditions, comfortable temperatures, and active fish feeding behavior. However, the best time varies by species, location, and season.',
-  },
-  {
-    question: 'Is fishing better in the morning or evening?',
-    answer: 'Both morning and evening can be excellent. Morning fishing often benefits from cooler water temperatures and active feeding after night. Evening fishing can be productive as fish move into shallow water before dark. Many anglers find both periods equally productive, with choice depending on personal preference and local conditions.',
-  },
-  {
-    question: 'Can you fish successfully during the middle of the day?',
-    answer: 'Yes, midday fishing can be productive, especially in cooler months or when fishing deeper water. In summer, midday fishing in shallow water is often slower, but deeper areas, shaded spots, or areas with moving water can remain productive throughout the day.',
-  },
-  {
-    question: 'Why is early morning good for fishing?',
-    answer: 'Early morning offers several advantages: cooler water temperatures, low light making fish less cautious, active feeding after night, and comfortable conditions for anglers. Many species feed actively during dawn hours as they take advantage of low light and cooler temperatures.',
-  },
-  {
-    question: 'Is night fishing productive?',
-    answer: 'Night fishing can be highly productive for certain species including snook, tarpon, catfish, and others that are more active at night. Night fishing requires different techniques and safety considerations, but it can offer excellent results, especially during hot summer months when daytime fishing is challenging.',
-  },
-  {
-    question: 'How does the time of day affect different fish species?',
-    answer: 'Different species have different activity patterns. Some fish are more active at dawn and dusk, while others feed throughout the day. Nocturnal species are more active at night. Learning your target species\' preferred feeding times improves your success rate.',
-  },
-  {
-    question: 'Does the best time of day change with seasons?',
-    answer: 'Yes, seasonal changes affect optimal fishing times. In summer, early morning and evening are often best to avoid heat. In cooler months, midday fishing can be productive when water temperatures are warmest. Understanding seasonal patterns helps you choose the best times year-round.',
-  },
-  {
-    question: 'Should I adjust my fishing time based on weather?',
-    answer: 'Yes, weather significantly affects the best fishing times. Overcast days can extend productive fishing throughout the day. Storm fronts can trigger feeding activity. Hot, sunny days may require early morning or evening fishing. Adjusting your schedule based on weather improves your success.',
-  },
-];
-
-export default function BestTimeOfDayToFishPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'How-To Guides', item: 'https://tackleapp.ai/how-to' },
-          { name: 'Best Time of Day to Fish', item: 'https://tackleapp.ai/how-to/best-time-of-day-to-fish' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="how-to-page">
-        <header className="page-header">
-          <h1>Best Time of Day to Fish: Morning vs Evening Guide</h1>
-          <p className="page-intro">
-            The time of day you choose to fish significantly impacts your success. While fish can be caught at any time, certain periods offer better conditions for active feeding and easier fishing. This guide explains why early morning and evening are often most productive, how to adapt to different times, and what factors influence the best fishing times throughout the day.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1749468385812-34c53d2d7b74?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Fisherman fishing at sunset over the ocean"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#early-morning">Early Morning Fishing (Dawn to 10 AM)</a></li>
-            <li><a href="#midday-fishing">Midday Fishing (10 AM to 2 PM)</a></li>
-            <li><a href="#afternoon-evening">Afternoon to Evening (2 PM to Dusk)</a></li>
-            <li><a href="#night-fishing">Night Fishing</a></li>
-            <li><a href="#seasonal-variations">Seasonal Variations</a></li>
-            <li><a href="#combining-factors">Combining Time with Other Factors</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Know the Best Times to Fish"
-          copy="Get daily fishing forecasts that tell you the best times to fish based on weather, tides, and conditions. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="how-to"
-          slug="best-time-of-day-to-fish"
-          className="my-8"
-        />
-
-        <section id="early-morning">
-          <h2>Early Morning Fishing (Dawn to 10 AM)</h2>
-          <p>
-            Early morning is widely considered prime fishing time. This period offers several advantages that make it productive for anglers targeting a variety of species.
-          </p>
-          
-          <h3>Why Early Morning is Productive</h3>
-          <p>
-            Early morning fishing benefits from:
-          </p>
-          <ul>
-            <li><strong>Cooler Temperatures:</strong> Water and air temperatures are lower, making fish more active and comfortable for anglers</li>
-            <li><strong>Low Light Conditions:</strong> Reduced light makes fish less cautious and more willing to move into shallow water</li>
-            <li><strong>Active Feeding:</strong> Many species feed actively after the night period</li>
-            <li><strong>Less Pressure:</strong> Fewer anglers and boat traffic during early hours</li>
-            <li><strong>Calm Conditions:</strong> Wind is often lighter in early morning</li>
-          </ul>
-          <p>
-            In Florida's inshore waters, early morning is particularly productive for redfish, snook, and speckled trout as these species move into shallow flats and grass beds to feed.
-          </p>
-
-          <h3>Best Techniques for Early Morning</h3>
-          <p>
-            Early morning fishing techniques:
-          </p>
-          <ul>
-            <li><strong>Topwater Lures:</strong> Low light conditions make fish more willing to strike surface lures</li>
-            <li><strong>Sight Fishing:</strong> Calm morning conditions offer excellent visibility for spotting fish</li>
-            <li><strong>Shallow Water:</strong> Focus on shallow flats, grass beds, and mangroves where fish are actively feeding</li>
-            <li><strong>Live Bait:</strong> Natural presentations work well when fish are actively hunting</li>
-          </ul>
-          <p>
-            Arriving at your spot before or at sunrise maximizes your time during this productive period.
-          </p>
-
-          <h3>Species-Specific Morning Patterns</h3>
-          <p>
-            Different species have different morning activity patterns:
-          </p>
-          <ul>
-            <li><strong>Redfish:</strong> Often feed actively on shallow flats during early morning</li>
-            <li><strong>Snook:</strong> Frequently hunt near mangroves and structure at dawn</li>
-            <li><strong>Speckled Trout:</strong> Can be productive in shallow grass beds during morning hours</li>
-            <li><strong>Bass:</strong> Often feed actively in freshwater during early morning</li>
-          </ul>
-        </section>
-
-        <section id="midday-fishing">
-          <h2>Midday Fishing (10 AM to 2 PM)</h2>
-          <p>
-            Midday fishing presents challenges, especially in warm weather, but can still be productive with the right approach and location selection.
-          </p>
-          
-          <h3>Midday Challenges</h3>
-          <p>
-            Midday fishing faces several challenges:
-          </p>
-          <ul>
-            <li><strong>High Temperatures:</strong> Water temperatures peak, making fish less active in shallow water</li>
-            <li><strong>Bright Sunlight:</strong> Strong light makes fish more cautious and less willing to move into shallow areas</li>
-            <li><strong>Fish Behavior:</strong> Many species retreat to deeper, cooler water during midday</li>
-            <li><strong>Angler Comfort:</strong> Hot conditions can make fishing uncomfortable</li>
-          </ul>
-          <p>
-            However, midday can still produce good fishing with the right approach.
-          </p>
-
-          <h3>Midday Fishing Strategies</h3>
-          <p>
-            To fish successfully during midday:
-          </p>
-          <ul>
-            <li><strong>Fish Deeper Water:</strong> Target deeper holes, channels, and structure where water is cooler</li>
-            <li><strong>Seek Shade:</strong> Fish shaded areas like bridge shadows, mangrove overhangs, or docks</li>
-            <li><strong>Use Moving Water:</strong> Focus on areas with current that provides oxygen and cooler water</li>
-            <li><strong>Target Deep-Water Species:</strong> Species like grouper and snapper often feed actively in deeper water throughout the day</li>
-            <li><strong>Adjust Techniques:</strong> Use slower presentations and target structure where fish may be holding</li>
-          </ul>
-          <p>
-            In cooler months, midday fishing can be excellent as water temperatures are more moderate and fish remain active.
-          </p>
-
-          <h3>When Midday Works Best</h3>
-          <p>
-            Midday fishing is most productive:
-          </p>
-          <ul>
-            <li>During cooler months (fall, winter, early spring)</li>
-            <li>In deeper water or offshore locations</li>
-            <li>On overcast days when light is reduced</li>
-            <li>For species that feed throughout the day</li>
-            <li>When combined with favorable tide conditions</li>
-          </ul>
-        </section>
-
-        <section id="afternoon-evening">
-          <h2>Afternoon to Evening (2 PM to Dusk)</h2>
-          <p>
-            Afternoon and evening offer another prime fishing window as temperatures cool and light levels decrease, triggering increased fish activity.
-          </p>
-          
-          <h3>Why Evening is Productive</h3>
-          <p>
-            Evening fishing benefits from:
-          </p>
-          <ul>
-            <li><strong>Cooling Temperatures:</strong> Water and air temperatures decrease, making fish more active</li>
-            <li><strong>Decreasing Light:</strong> Lower light levels make fish less cautious</li>
-            <li><strong>Pre-Dusk Feeding:</strong> Many species feed actively before dark</li>
-            <li><strong>Shallow Water Access:</strong> Fish move into shallow areas as light decreases</li>
-            <li><strong>Comfortable Conditions:</strong> Cooler temperatures are more comfortable for anglers</li>
-          </ul>
-          <p>
-            The last hour before sunset, often called the "golden hour," is particularly productive as fish feed actively before night.
-          </p>
-
-          <h3>Evening Fishing Techniques</h3>
-          <p>
-            Effective evening techniques include:
-          </p>
-          <ul>
-            <li><strong>Topwater Lures:</strong> Low light conditions make surface strikes more likely</li>
-            <li><strong>Shallow Water Focus:</strong> Target flats, grass beds, and shallow structure</li>
-            <li><strong>Live Bait:</strong> Natural presentations work well during active feeding periods</li>
-            <li><strong>Sight Fishing:</strong> Good visibility can continue into early evening</li>
-          </ul>
-          <p>
-            Evening fishing offers similar advantages to morning fishing, making it an excellent alternative if you can't fish early.
-          </p>
-
-          <h3>Species Activity in Evening</h3>
-          <p>
-            Many species show increased activity in evening:
-          </p>
-          <ul>
-            <li><strong>Redfish:</strong> Often feed actively on shallow flats during evening</li>
-            <li><strong>Snook:</strong> Frequently hunt near structure and mangroves before dark</li>
-            <li><strong>Bass:</strong> Can be very active in freshwater during evening hours</li>
-            <li><strong>Trout:</strong> May move into shallow water to feed during evening</li>
-          </ul>
-        </section>
-
-        <section id="night-fishing">
-          <h2>Night Fishing</h2>
-          <p>
-            Night fishing can be highly productive for certain species and offers unique opportunities, especially during hot summer months.
-          </p>
-          
-          <h3>Why Night Fishing Works</h3>
-          <p>
-            Night fishing offers advantages:
-          </p>
-          <ul>
-            <li><strong>Cooler Temperatures:</strong> Night temperatures are lower, making fish more active</li>
-            <li><strong>Less Pressure:</strong> Fewer anglers and boat traffic</li>
-            <li><strong>Nocturnal Species:</strong> Some fish are more active at night</li>
-            <li><strong>Summer Alternative:</strong> Night fishing avoids hot daytime conditions</li>
-            <li><strong>Unique Opportunities:</strong> Different species and behaviors than daytime</li>
-          </ul>
-          <p>
-            Night fishing requires different techniques, safety considerations, and often specialized equipment like lights.
-          </p>
-
-          <h3>Best Species for Night Fishing</h3>
-          <p>
-            Species that are particularly productive at night include:
-          </p>
-          <ul>
-            <li><strong>Snook:</strong> Often more active at night, especially around lighted docks and bridges</li>
-            <li><strong>Tarpon:</strong> Can be very active at night in certain locations</li>
-            <li><strong>Catfish:</strong> Primarily nocturnal feeders</li>
-            <li><strong>Bass:</strong> Can be productive at night, especially in summer</li>
-            <li><strong>Trout:</strong> Some species feed actively at night</li>
-          </ul>
-
-          <h3>Night Fishing Safety</h3>
-          <p>
-            Night fishing requires extra safety precautions:
-          </p>
-          <ul>
-            <li>Use proper lighting (headlamps, boat lights)</li>
-            <li>Know your location well (familiar spots are safer)</li>
-            <li>Fish with a partner when possible</li>
-            <li>Be aware of weather conditions</li>
-            <li>Have communication devices (phone, radio)</li>
-            <li>Wear appropriate safety gear</li>
-          </ul>
-          <p>
-            Safety should always be the top priority when fishing at night.
-          </p>
-        </section>
-
-        <section id="seasonal-variations">
-          <h2>Seasonal Variations</h2>
-          <p>
-            The best time of day to fish changes with seasons as water temperatures, daylight hours, and fish behavior shift throughout the year.
-          </p>
-          
-          <h3>Spring</h3>
-          <p>
-            Spring offers flexible fishing times:
-          </p>
-          <ul>
-            <li>Early morning and late afternoon are typically best</li>
-            <li>Midday can be productive as water warms but isn't too hot</li>
-            <li>Fish are active throughout the day as temperatures moderate</li>
-            <li>Longer daylight hours provide more fishing opportunities</li>
-          </ul>
-
-          <h3>Summer</h3>
-          <p>
-            Summer requires early and late fishing:
-          </p>
-          <ul>
-            <li>Early morning (before sunrise) is often essential</li>
-            <li>Late evening to night fishing becomes more attractive</li>
-            <li>Midday fishing is typically slow in shallow water</li>
-            <li>Focus on deeper water or shaded areas during midday</li>
-            <li>Night fishing offers excellent alternatives</li>
-          </ul>
-          <p>
-            In Florida, summer fishing often requires very early starts (5-6 AM) to beat the heat and catch active fish.
-          </p>
-
-          <h3>Fall</h3>
-          <p>
-            Fall offers excellent fishing throughout the day:
-          </p>
-          <ul>
-            <li>Morning and evening remain productive</li>
-            <li>Midday fishing becomes more viable as temperatures cool</li>
-            <li>Fish are active and feeding heavily before winter</li>
-            <li>Flexible timing as conditions are comfortable</li>
-          </ul>
-
-          <h3>Winter</h3>
-          <p>
-            Winter fishing is often best during midday:
-          </p>
-          <ul>
-            <li>Midday offers the warmest water temperatures</li>
-            <li>Early morning can be too cold for both fish and anglers</li>
-            <li>Focus on deeper water where temperatures are more stable</li>
-            <li>Sunny, calm days are often most productive</li>
-            <li>Fish are less active overall but can be caught during warm periods</li>
-          </ul>
-          <p>
-            In Florida, winter fishing can be excellent, but timing your trips for the warmest part of the day improves success.
-          </p>
-        </section>
-
-        <section id="combining-factors">
-          <h2>Combining Time with Other Factors</h2>
-          <p>
-            The best fishing occurs when optimal time of day combines with other favorable conditions. Understanding how to combine these factors maximizes your success.
-          </p>
-          
-          <h3>Time + Weather</h3>
-          <p>
-            Weather significantly affects the best fishing times:
-          </p>
-          <ul>
-            <li><strong>Overcast Days:</strong> Can extend productive fishing throughout the day</li>
-            <li><strong>Hot, Sunny Days:</strong> Require early morning or evening fishing</li>
-            <li><strong>Storm Fronts:</strong> Can trigger feeding activity at any time</li>
-            <li><strong>Cool, Calm Days:</strong> Offer flexible timing options</li>
-          </ul>
-
-          <h3>Time + Tides</h3>
-          <p>
-            Combining optimal time with good tides:
-          </p>
-          <ul>
-            <li>Early morning + incoming tide = excellent shallow water fishing</li>
-            <li>Evening + outgoing tide = productive channel and structure fishing</li>
-            <li>Moving tide + dawn/dusk = often the best combination</li>
-            <li>Avoid slack tide during prime time periods when possible</li>
-          </ul>
-
-          <h3>Time + Location</h3>
-          <p>
-            Different locations fish best at different times:
-          </p>
-          <ul>
-            <li><strong>Shallow Flats:</strong> Best during early morning or evening with incoming tide</li>
-            <li><strong>Deep Channels:</strong> Can be productive throughout the day</li>
-            <li><strong>Structure:</strong> Often fishes best during moving tides regardless of time</li>
-            <li><strong>Mangroves:</strong> Typically best during early morning or evening</li>
-          </ul>
-
-          <h3>Planning Your Trip</h3>
-          <p>
-            To plan the best fishing trip:
-          </p>
-          <ol>
-            <li>Check weather forecast (temperature, wind, clouds)</li>
-            <li>Review tide charts for your location</li>
-            <li>Consider seasonal patterns</li>
-            <li>Choose time that combines multiple favorable factors</li>
-            <li>Have backup plans if conditions change</li>
-          </ol>
-          <p>
-            Many fishing apps combine these factors into daily fishing scores, making it easier to identify the best times to fish.
-          </p>
-        </section>
-
-        <PrimaryCTA
-          title="Get Daily Fishing Time Forecasts"
-          copy="Download Tackle and get personalized recommendations for the best times to fish based on weather, tides, and conditions for your location."
-          buttonText="download"
-          position="end"
-          pageType="how-to"
-          slug="best-time-of-day-to-fish"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/how-weather-affects-fishing">How Weather Affects Fishing</Link></li>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Target These Species</h2>
-          <ul>
-            <li><Link href="/species/snook">Snook Fishing Guide</Link></li>
-            <li><Link href="/species/redfish">Redfish Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Best Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/fort-myers">Fishing in Fort Myers, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          pageType="how-to"
-          slug="best-time-of-day-to-fish"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="how-to"
-          slug="best-time-of-day-to-fish"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -1,445 +0,0 @@
-/**
- * How Tides Affect Fishing - How-To Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'How Tides Affect Fishing: Complete Guide to Tide Fishing',
-  description: 'Learn how tides affect fish behavior and feeding patterns. Master tide fishing with expert tips on reading tide charts and timing your trips.',
-  alternates: {
-    canonical: generateCanonical('/how-to/how-tides-affect-fishing'),
-  },
-  openGraph: {
-    title: 'How Tides Affect Fishing: Complete Guide to Tide Fishing',
-    description: 'Learn how tides affect fish behavior and feeding patterns. Master tide fishing with expert tips.',
-    url: generateCanonical('/how-to/how-tides-affect-fishing'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is the best tide for fishing?',
-    answer: 'Many anglers find incoming and outgoing tides are most productive. The last two hours of incoming tide and first two hours of outgoing tide often produce the best fishing because water movement is strongest, concentrating baitfish and triggering feeding activity.',
-  },
-  {
-    question: 'How do I read a tide chart?',
-    answer: 'Tide charts show high and low tide times and heights. Look for times when tide is moving (rising or falling) rather than slack (still). The times between high and low tide, when water is moving, are typically most productive for fishing.',
-  },
-  {
-    question: 'Is incoming or outgoing tide better for fishing?',
-    answer: 'Both can be excellent, depending on location and target species. Incoming tide brings fish into shallow areas, while outgoing tide concentrates fish near channels and structure. Many anglers prefer the last hours of incoming tide and first hours of outgoing tide.',
-  },
-  {
-    question: 'What is slack tide and should I fish during it?',
-    answer: 'Slack tide is when the tide changes direction and water movement stops. Fishing is typically slower during slack tide, but some species continue to feed. If you must fish during slack, focus on areas with structure or deeper water where fish may still be active.',
-  },
-  {
-    question: 'Do tides affect freshwater fishing?',
-    answer: 'Tides primarily affect saltwater and brackish water fishing. However, some freshwater areas connected to tidal systems (like rivers near the coast) can experience tidal influence. Inland freshwater fishing is not affected by ocean tides.',
-  },
-  {
-    question: 'How do I know when high and low tide occur?',
-    answer: 'Check local tide charts available online, in fishing apps, or at local tackle shops. Tide times vary by location and change daily. Many fishing apps provide tide predictions for your exact location.',
-  },
-  {
-    question: 'Can I fish successfully at any tide?',
-    answer: 'Yes, fish can be caught at any tide, but some tides are generally more productive. Moving tides (incoming and outgoing) typically offer better fishing than slack tide. Learning to read local conditions and adjusting your techniques helps improve success at any tide.',
-  },
-  {
-    question: 'How do spring tides and neap tides affect fishing?',
-    answer: 'Spring tides (new and full moon) have stronger water movement and are often more productive. Neap tides (quarter moons) have weaker movement but can still produce good fishing, especially when combined with other favorable conditions like weather or time of day.',
-  },
-];
-
-export default function HowTidesAffectFishingPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'How-To Guides', item: 'https://tackleapp.ai/how-to' },
-          { name: 'How Tides Affect Fishing', item: 'https://tackleapp.ai/how-to/how-tides-affect-fishing' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="how-to-page">
-        <header className="page-header">
-          <h1>How Tides Affect Fishing: Complete Guide to Tide Fishing</h1>
-          <p className="page-intro">
-            Understanding tides is essential for successful saltwater fishing. Tides create water movement that influences where fish feed, how they behave, and when they're most active. This guide explains how tides work, how they affect fish behavior, and how to use tide knowledge to improve your fishing success.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1596433141587-65a1e50fec82?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Fisherman on a boat during tidal waters"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#what-are-tides">What Are Tides?</a></li>
-            <li><a href="#incoming-tide">Incoming Tide Fishing</a></li>
-            <li><a href="#outgoing-tide">Outgoing Tide Fishing</a></li>
-            <li><a href="#slack-tide">Slack Tide and Transition Periods</a></li>
-            <li><a href="#reading-tide-charts">Reading Tide Charts</a></li>
-            <li><a href="#tide-fishing-tips">Tide Fishing Tips and Techniques</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Master Tide Fishing"
-          copy="Get real-time tide predictions and fishing forecasts for your location. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="how-to"
-          slug="how-tides-affect-fishing"
-          className="my-8"
-        />
-
-        <section id="what-are-tides">
-          <h2>What Are Tides?</h2>
-          <p>
-            Tides are the regular rise and fall of ocean water levels caused by the gravitational pull of the moon and sun. This movement creates currents that fish use for feeding and navigation. Understanding how tides work helps you predict when and where fish will be most active.
-          </p>
-          
-          <h3>The Tidal Cycle</h3>
-          <p>
-            A complete tidal cycle includes two high tides and two low tides each day (in most locations). The cycle takes approximately 24 hours and 50 minutes, meaning tide times shift about 50 minutes later each day. This cycle creates predictable patterns of water movement that fish have adapted to use for feeding.
-          </p>
-          <p>
-            During high tide, water covers more area, allowing fish to access shallow flats, mangroves, and grass beds. During low tide, water recedes, concentrating fish in deeper channels, holes, and structure.
-          </p>
-
-          <h3>Why Tides Matter for Fishing</h3>
-          <p>
-            Tides create water movement that:
-          </p>
-          <ul>
-            <li>Brings baitfish and nutrients into shallow areas</li>
-            <li>Creates currents that concentrate fish</li>
-            <li>Oxygenates water and stirs up bottom sediment</li>
-            <li>Changes water depth, affecting fish behavior</li>
-            <li>Influences when and where fish feed</li>
-          </ul>
-          <p>
-            Fish have evolved to take advantage of these tidal patterns, making tide knowledge essential for successful fishing.
-          </p>
-        </section>
-
-        <section id="incoming-tide">
-          <h2>Incoming Tide Fishing</h2>
-          <p>
-            Incoming (rising) tide is often considered prime fishing time, especially for inshore species. As water moves into shallow areas, it brings opportunities for both fish and anglers.
-          </p>
-          
-          <h3>Why Incoming Tide is Productive</h3>
-          <p>
-            During incoming tide, water flows into shallow areas like flats, mangroves, and grass beds. This movement brings baitfish, crabs, and other food sources into these areas. Predator fish follow the bait, creating excellent fishing opportunities in shallow water.
-          </p>
-          <p>
-            The rising water also allows fish to access areas that were too shallow during low tide. This expansion of feeding territory triggers active feeding behavior in many species.
-          </p>
-
-          <h3>Best Times During Incoming Tide</h3>
-          <p>
-            The last two hours of incoming tide are often the most productive. At this point, water is high enough to cover shallow areas, but the tide is still moving, creating current and activity. Fish are actively feeding as they move into newly flooded areas.
-          </p>
-          <p>
-            Early incoming tide can also be productive, especially if it coincides with dawn or dusk when fish are naturally more active.
-          </p>
-
-          <h3>Techniques for Incoming Tide</h3>
-          <p>
-            During incoming tide, focus on:
-          </p>
-          <ul>
-            <li>Shallow flats and grass beds that are being flooded</li>
-            <li>Mangrove shorelines where baitfish move in with the tide</li>
-            <li>Areas with structure that concentrate fish as water rises</li>
-            <li>Sight fishing opportunities in clear, shallow water</li>
-          </ul>
-          <p>
-            Topwater lures, soft plastics, and live bait all work well during incoming tide as fish are actively hunting in shallow water.
-          </p>
-        </section>
-
-        <section id="outgoing-tide">
-          <h2>Outgoing Tide Fishing</h2>
-          <p>
-            Outgoing (falling) tide concentrates fish as water flows out of shallow areas. This concentration creates excellent fishing opportunities, especially near channels and structure.
-          </p>
-          
-          <h3>Why Outgoing Tide is Productive</h3>
-          <p>
-            As water flows out during outgoing tide, baitfish and other food sources are funneled through channels, cuts, and narrow passages. Predator fish position themselves in these areas to ambush bait being carried by the current.
-          </p>
-          <p>
-            The first two hours of outgoing tide are often extremely productive as fish actively feed on concentrated bait. Water movement is strong, and fish are positioned predictably near structure and current breaks.
-          </p>
-
-          <h3>Best Locations During Outgoing Tide</h3>
-          <p>
-            Focus on areas where water is being funneled:
-          </p>
-          <ul>
-            <li>Channel edges and drop-offs</li>
-            <li>Bridge pilings and structure</li>
-            <li>Jetties and rock formations</li>
-            <li>Cuts between islands or through flats</li>
-            <li>Points and current breaks</li>
-          </ul>
-          <p>
-            These areas concentrate both bait and predator fish, creating excellent fishing opportunities.
-          </p>
-
-          <h3>Techniques for Outgoing Tide</h3>
-          <p>
-            During outgoing tide, use techniques that work with the current:
-          </p>
-          <ul>
-            <li>Cast upstream and let current carry your bait or lure</li>
-            <li>Fish structure that breaks current flow</li>
-            <li>Use heavier weights to hold bottom in current</li>
-            <li>Focus on areas where fish can ambush from current breaks</li>
-          </ul>
-          <p>
-            Jigs, bottom rigs, and lures that work well in current are effective during outgoing tide.
-          </p>
-        </section>
-
-        <section id="slack-tide">
-          <h2>Slack Tide and Transition Periods</h2>
-          <p>
-            Slack tide occurs when the tide changes direction and water movement stops. Understanding slack tide helps you plan your fishing trips and adjust techniques when water isn't moving.
-          </p>
-          
-          <h3>What Happens During Slack Tide</h3>
-          <p>
-            During slack tide, there's minimal water movement. Baitfish aren't being concentrated by current, and predator fish are less active. Fishing is typically slower during slack periods, but some species continue to feed, especially if other conditions are favorable.
-          </p>
-          <p>
-            Slack tide usually lasts 30-60 minutes, depending on location. High slack (at high tide) and low slack (at low tide) both occur, though high slack is often shorter.
-          </p>
-
-          <h3>Fishing During Slack Tide</h3>
-          <p>
-            If you find yourself fishing during slack tide:
-          </p>
-          <ul>
-            <li>Focus on deeper water or structure where fish may still be active</li>
-            <li>Use slower presentations since fish aren't chasing current</li>
-            <li>Target areas with natural food sources (oyster bars, grass beds)</li>
-            <li>Be patient—fishing may pick up as tide starts moving again</li>
-          </ul>
-          <p>
-            Some anglers use slack tide as a break time or to move to a new location before the next tide movement begins.
-          </p>
-
-          <h3>Transition Periods</h3>
-          <p>
-            The periods just before and after slack tide can be productive as fish prepare for or respond to changing conditions. Pay attention to these transition periods, especially if they coincide with dawn, dusk, or favorable weather.
-          </p>
-        </section>
-
-        <section id="reading-tide-charts">
-          <h2>Reading Tide Charts</h2>
-          <p>
-            Learning to read tide charts is essential for planning successful fishing trips. Tide charts show when high and low tides occur and how much water movement to expect.
-          </p>
-          
-          <h3>Understanding Tide Chart Information</h3>
-          <p>
-            Tide charts typically show:
-          </p>
-          <ul>
-            <li><strong>High Tide Times:</strong> When water reaches its highest level</li>
-            <li><strong>Low Tide Times:</strong> When water reaches its lowest level</li>
-            <li><strong>Tide Height:</strong> How high or low the water will be (in feet)</li>
-            <li><strong>Tide Range:</strong> The difference between high and low tide</li>
-          </ul>
-          <p>
-            Larger tide ranges (spring tides) create stronger currents and are often more productive for fishing.
-          </p>
-
-          <h3>Planning Around Tides</h3>
-          <p>
-            To plan your fishing trip:
-          </p>
-          <ol>
-            <li>Check tide times for your location</li>
-            <li>Identify when incoming or outgoing tide occurs</li>
-            <li>Plan to fish during moving tides (avoid slack if possible)</li>
-            <li>Consider combining tide times with dawn/dusk for best results</li>
-            <li>Account for travel time to your fishing spot</li>
-          </ol>
-          <p>
-            Many fishing apps provide tide predictions and calculate the best fishing times based on tide movement.
-          </p>
-
-          <h3>Local Variations</h3>
-          <p>
-            Tide times and heights vary by location. A location just a few miles away may have different tide times. Always check tide charts for your specific fishing location, not just the nearest city.
-          </p>
-          <p>
-            In areas with complex geography (bays, inlets, rivers), tide timing can vary significantly. Local knowledge and experience help you understand these variations.
-          </p>
-        </section>
-
-        <section id="tide-fishing-tips">
-          <h2>Tide Fishing Tips and Techniques</h2>
-          <p>
-            Mastering tide fishing requires understanding how to adapt your techniques to different tide conditions. These tips help you make the most of each tide stage.
-          </p>
-          
-          <h3>General Tide Fishing Tips</h3>
-          <ul>
-            <li><strong>Fish Moving Tides:</strong> Focus on incoming and outgoing tides when water is moving</li>
-            <li><strong>Time Your Arrival:</strong> Arrive at your spot as tide movement begins, not during slack</li>
-            <li><strong>Watch the Water:</strong> Observe how tide affects your fishing spot—water depth, current direction, and fish behavior</li>
-            <li><strong>Adjust Techniques:</strong> Change your approach based on tide stage and current strength</li>
-            <li><strong>Use Local Knowledge:</strong> Talk to local anglers about how tides affect your specific area</li>
-          </ul>
-
-          <h3>Species-Specific Tide Preferences</h3>
-          <p>
-            Different species respond differently to tides:
-          </p>
-          <ul>
-            <li><strong>Redfish:</strong> Often prefer incoming tide on shallow flats</li>
-            <li><strong>Snook:</strong> Frequently feed during incoming tide near mangroves and structure</li>
-            <li><strong>Speckled Trout:</strong> Can be productive on both incoming and outgoing tide</li>
-            <li><strong>Flounder:</strong> Often feed during outgoing tide near channels and structure</li>
-            <li><strong>Sheepshead:</strong> Feed throughout tide cycle but may be more active during moving tides</li>
-          </ul>
-          <p>
-            Learning your target species' tide preferences improves your success rate.
-          </p>
-
-          <h3>Combining Tides with Other Factors</h3>
-          <p>
-            The best fishing occurs when favorable tides combine with other good conditions:
-          </p>
-          <ul>
-            <li>Moving tide + dawn or dusk (low light, active feeding)</li>
-            <li>Incoming tide + overcast weather (fish less cautious)</li>
-            <li>Outgoing tide + light wind (current without dangerous conditions)</li>
-            <li>Spring tide + new or full moon (strongest water movement)</li>
-          </ul>
-          <p>
-            While tides are important, they're just one factor. Combining tide knowledge with weather, time of day, and seasonal patterns produces the best results.
-          </p>
-
-          <h3>Safety Considerations</h3>
-          <p>
-            Tides affect safety as well as fishing:
-          </p>
-          <ul>
-            <li>Be aware of rising tide if fishing in areas that can become cut off</li>
-            <li>Strong outgoing tide can create dangerous currents</li>
-            <li>Low tide may expose hazards (rocks, oyster bars) that are hidden at high tide</li>
-            <li>Plan your exit route considering tide changes</li>
-          </ul>
-          <p>
-            Always prioritize safety and be prepared for changing conditions.
-          </p>
-        </section>
-
-        <PrimaryCTA
-          title="Get Tide Predictions for Your Location"
-          copy="Download Tackle and get real-time tide charts and fishing forecasts based on your exact location."
-          buttonText="download"
-          position="end"
-          pageType="how-to"
-          slug="how-tides-affect-fishing"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/what-is-a-good-tide-to-fish">What Is a Good Tide to Fish</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Target These Species</h2>
-          <ul>
-            <li><Link href="/species/snook">Snook Fishing Guide</Link></li>
-            <li><Link href="/species/redfish">Redfish Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Best Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/naples">Fishing in Naples, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          pageType="how-to"
-          slug="how-tides-affect-fishing"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="how-to"
-          slug="how-tides-affect-fishing"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -1,456 +0,0 @@
-/**
- * How Weather Affects Fishing - How-To Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'How Weather Affects Fishing: Complete Weather Guide',
-  description: 'Learn how weather conditions affect fish behavior and feeding. Understand barometric pressure, wind, temperature, and cloud cover for better fishing success.',
-  alternates: {
-    canonical: generateCanonical('/how-to/how-weather-affects-fishing'),
-  },
-  openGraph: {
-    title: 'How Weather Affects Fishing: Complete Weather Guide',
-    description: 'Learn how weather conditions affect fish behavior and feeding patterns.',
-    url: generateCanonical('/how-to/how-weather-affects-fishing'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'How does barometric pressure affect fishing?',
-    answer: 'Barometric pressure changes often trigger fish feeding activity. Falling pressure (before storms) typically produces excellent fishing as fish sense approaching weather and feed actively. Rising pressure after storms can also be productive. Stable high pressure usually produces consistent but not exceptional fishing.',
-  },
-  {
-    question: 'What is the best weather for fishing?',
-    answer: 'Overcast days with light to moderate wind are often ideal. Falling barometric pressure before storms can trigger excellent feeding. However, the best weather varies by species and location. Many anglers find that changing weather conditions (not necessarily perfect weather) produce the best fishing.',
-  },
-  {
-    question: 'Is fishing better before or after a storm?',
-    answer: 'Fishing is often excellent before a storm as falling barometric pressure triggers active feeding. After a storm, fishing can also be productive as pressure rises and conditions stabilize. However, immediately after severe storms, fishing may be slow until conditions settle.',
-  },
-  {
-    question: 'How does wind affect fishing?',
-    answer: 'Light to moderate wind can improve fishing by creating surface disturbance that makes fish less cautious and oxygenates water. Strong wind can make fishing difficult and dangerous. Wind direction also matters—onshore wind can push bait toward shore, while offshore wind can make fishing challenging.',
-  },
-  {
-    question: 'Do clouds affect fishing?',
-    answer: 'Yes, cloud cover significantly affects fishing. Overcast days often produce better fishing than bright, sunny days because reduced light makes fish less cautious and more willing to move into shallow water. Cloud cover can extend productive fishing times throughout the day.',
-  },
-  {
-    question: 'How does temperature affect fishing?',
-    answer: 'Water temperature affects fish metabolism and activity. Most fish are most active when water temperatures are in their preferred range. Sudden temperature changes can slow fishing until fish adjust. In Florida, fishing is generally best when water temperatures are between 65°F and 80°F, though this varies by species.',
-  },
-  {
-    question: 'Should I fish in the rain?',
-    answer: 'Light to moderate rain can improve fishing, especially if it coincides with falling barometric pressure. Rain can oxygenate water and make fish less cautious. However, heavy rain, lightning, or dangerous conditions should be avoided for safety reasons.',
-  },
-  {
-    question: 'How do I use weather forecasts to plan fishing trips?',
-    answer: 'Check forecasts for barometric pressure trends, wind conditions, cloud cover, and temperature. Look for periods with falling pressure, light to moderate wind, and overcast skies. Many fishing apps combine weather data with other factors to provide daily fishing scores.',
-  },
-];
-
-export default function HowWeatherAffectsFishingPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'How-To Guides', item: 'https://tackleapp.ai/how-to' },
-          { name: 'How Weather Affects Fishing', item: 'https://tackleapp.ai/how-to/how-weather-affects-fishing' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="how-to-page">
-        <header className="page-header">
-          <h1>How Weather Affects Fishing: Complete Weather Guide</h1>
-          <p className="page-intro">
-            Weather conditions significantly influence fish behavior and feeding activity. Understanding how barometric pressure, wind, temperature, cloud cover, and storms affect fishing helps you choose the best times to go out and adapt your techniques for different conditions. This guide explains how each weather factor impacts fish and how to use weather knowledge to improve your fishing success.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1662568580477-2ed6de5a86d5?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Boats on the water under dramatic weather clouds"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#barometric-pressure">Barometric Pressure</a></li>
-            <li><a href="#wind-conditions">Wind Conditions</a></li>
-            <li><a href="#cloud-cover">Cloud Cover and Sunlight</a></li>
-            <li><a href="#temperature">Temperature Effects</a></li>
-            <li><a href="#storms">Storms and Rain</a></li>
-            <li><a href="#putting-it-together">Putting Weather Knowledge to Use</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Get Weather-Based Fishing Forecasts"
-          copy="Download Tackle and get daily fishing scores based on weather conditions, barometric pressure, and other factors for your location."
-          buttonText="default"
-          position="above_fold"
-          pageType="how-to"
-          slug="how-weather-affects-fishing"
-          className="my-8"
-        />
-
-        <section id="barometric-pressure">
-          <h2>Barometric Pressure</h2>
-          <p>
-            Barometric pressure is one of the most important weather factors affecting fishing. Changes in atmospheric pressure directly influence fish behavior and feeding activity.
-          </p>
-          
-          <h3>How Barometric Pressure Works</h3>
-          <p>
-            Barometric pressure measures the weight of the atmosphere. Fish have sensitive organs (swim bladders) that detect pressure changes. When pressure changes, fish adjust their behavior accordingly.
-          </p>
-          <p>
-            Pressure is measured in inches of mercury (inHg) or millibars (mb). Normal pressure is around 30.00 inHg (1013 mb). Changes of even a few tenths can affect fish behavior.
-          </p>
-
-          <h3>Falling Pressure (Best for Fishing)</h3>
-          <p>
-            Falling barometric pressure, especially before storms, typically produces excellent fishing:
-          </p>
-          <ul>
-            <li>Fish sense approaching weather and feed actively</li>
-            <li>Pressure changes trigger feeding behavior</li>
-            <li>Fish move into shallower water and become more aggressive</li>
-            <li>Often produces the best fishing of the day</li>
-          </ul>
-          <p>
-            Many anglers consider falling pressure the best condition for fishing. The hours before a storm can be extremely productive.
-          </p>
-
-          <h3>Rising Pressure</h3>
-          <p>
-            Rising pressure after storms can also be productive:
-          </p>
-          <ul>
-            <li>Fish adjust to stabilizing conditions</li>
-            <li>Feeding activity can increase as conditions improve</li>
-            <li>Often produces good fishing, though not always as strong as falling pressure</li>
-          </ul>
-
-          <h3>Stable High Pressure</h3>
-          <p>
-            Stable high pressure typically produces consistent but not exceptional fishing:
-          </p>
-          <ul>
-            <li>Fish behavior is predictable but not highly active</li>
-            <li>Fishing can be good but may require more effort</li>
-            <li>Combining with other favorable conditions (tides, time of day) helps</li>
-          </ul>
-        </section>
-
-        <section id="wind-conditions">
-          <h2>Wind Conditions</h2>
-          <p>
-            Wind affects fishing in multiple ways, from water movement to fish behavior to angler safety.
-          </p>
-          
-          <h3>Light to Moderate Wind (Ideal)</h3>
-          <p>
-            Light to moderate wind (5-15 mph) can improve fishing:
-          </p>
-          <ul>
-            <li>Creates surface disturbance that makes fish less cautious</li>
-            <li>Oxygenates water through surface movement</li>
-            <li>Stirs up bottom sediment, exposing food sources</li>
-            <li>Makes casting and presentation easier than calm conditions</li>
-          </ul>
-          <p>
-            Many anglers find light wind from the east or southeast ideal for inshore fishing.
-          </p>
-
-          <h3>Strong Wind (Challenging)</h3>
-          <p>
-            Strong wind (over 20 mph) can make fishing difficult:
-          </p>
-          <ul>
-            <li>Creates dangerous conditions, especially on open water</li>
-            <li>Makes boat control and casting difficult</li>
-            <li>Can muddy water and reduce visibility</li>
-            <li>Fish may move to protected areas</li>
-          </ul>
-          <p>
-            Safety should always come first. Avoid fishing in dangerous wind conditions.
-          </p>
-
-          <h3>Wind Direction</h3>
-          <p>
-            Wind direction affects fishing:
-          </p>
-          <ul>
-            <li><strong>Onshore Wind:</strong> Pushes baitfish and nutrients toward shore, can improve inshore fishing</li>
-            <li><strong>Offshore Wind:</strong> Can make fishing challenging, may push fish away from shore</li>
-            <li><strong>Crosswind:</strong> Can create current and structure that concentrates fish</li>
-          </ul>
-        </section>
-
-        <section id="cloud-cover">
-          <h2>Cloud Cover and Sunlight</h2>
-          <p>
-            Cloud cover significantly affects fish behavior by changing light conditions and water temperature.
-          </p>
-          
-          <h3>Overcast Days (Excellent)</h3>
-          <p>
-            Overcast days often produce excellent fishing:
-          </p>
-          <ul>
-            <li>Reduced light makes fish less cautious</li>
-            <li>Fish more willing to move into shallow water</li>
-            <li>Can extend productive fishing times throughout the day</li>
-            <li>Often produces better fishing than bright, sunny days</li>
-          </ul>
-          <p>
-            Many anglers prefer overcast conditions, especially for shallow water fishing.
-          </p>
-
-          <h3>Bright, Sunny Days</h3>
-          <p>
-            Bright, sunny days can be challenging:
-          </p>
-          <ul>
-            <li>Strong light makes fish more cautious</li>
-            <li>Fish may retreat to deeper water or shaded areas</li>
-            <li>Early morning and evening are often most productive</li>
-            <li>Focus on shaded areas, deeper water, or structure</li>
-          </ul>
-          <p>
-            Sunny days can still produce good fishing, but timing and location become more important.
-          </p>
-        </section>
-
-        <section id="temperature">
-          <h2>Temperature Effects</h2>
-          <p>
-            Both air and water temperature affect fish behavior, metabolism, and feeding activity.
-          </p>
-          
-          <h3>Water Temperature</h3>
-          <p>
-            Water temperature directly affects fish:
-          </p>
-          <ul>
-            <li>Fish are most active in their preferred temperature range</li>
-            <li>Sudden temperature changes can slow fishing</li>
-            <li>Different species prefer different temperatures</li>
-            <li>Seasonal temperature changes affect fish behavior</li>
-          </ul>
-          <p>
-            In Florida, most inshore species are most active when water temperatures are between 65°F and 80°F.
-          </p>
-
-          <h3>Air Temperature</h3>
-          <p>
-            Air temperature affects:
-          </p>
-          <ul>
-            <li>Angler comfort and safety</li>
-            <li>Water temperature over time (especially in shallow areas)</li>
-            <li>Fish activity in shallow water during extreme temperatures</li>
-          </ul>
-        </section>
-
-        <section id="storms">
-          <h2>Storms and Rain</h2>
-          <p>
-            Storms and rain can significantly affect fishing, both positively and negatively.
-          </p>
-          
-          <h3>Before Storms (Excellent)</h3>
-          <p>
-            The period before storms is often excellent for fishing:
-          </p>
-          <ul>
-            <li>Falling barometric pressure triggers feeding</li>
-            <li>Fish sense approaching weather and feed actively</li>
-            <li>Often produces the best fishing of the day</li>
-            <li>Can be extremely productive if you can fish safely</li>
-          </ul>
-          <p>
-            However, always prioritize safety. Never fish in dangerous storm conditions.
-          </p>
-
-          <h3>During Storms</h3>
-          <p>
-            Fishing during storms is generally not recommended:
-          </p>
-          <ul>
-            <li>Dangerous conditions (lightning, wind, waves)</li>
-            <li>Poor visibility and difficult boat control</li>
-            <li>Safety risks outweigh fishing opportunities</li>
-          </ul>
-
-          <h3>After Storms</h3>
-          <p>
-            After storms, fishing can be productive:
-          </p>
-          <ul>
-            <li>Rising pressure can trigger feeding</li>
-            <li>Stabilizing conditions may improve fishing</li>
-            <li>However, immediately after severe storms, fishing may be slow</li>
-            <li>Wait for conditions to settle before fishing</li>
-          </ul>
-
-          <h3>Light Rain</h3>
-          <p>
-            Light to moderate rain can improve fishing:
-          </p>
-          <ul>
-            <li>Oxygenates water</li>
-            <li>Makes fish less cautious</li>
-            <li>Can trigger feeding activity</li>
-            <li>Often produces good fishing if conditions are safe</li>
-          </ul>
-        </section>
-
-        <section id="putting-it-together">
-          <h2>Putting Weather Knowledge to Use</h2>
-          <p>
-            Understanding weather helps you plan better fishing trips and adapt to different conditions.
-          </p>
-          
-          <h3>Ideal Weather Conditions</h3>
-          <p>
-            The ideal fishing weather combines:
-          </p>
-          <ul>
-            <li>Falling or stable barometric pressure</li>
-            <li>Light to moderate wind (5-15 mph)</li>
-            <li>Overcast skies</li>
-            <li>Moderate temperatures</li>
-            <li>No dangerous storms</li>
-          </ul>
-
-          <h3>Using Weather Forecasts</h3>
-          <p>
-            To plan fishing trips:
-          </p>
-          <ol>
-            <li>Check barometric pressure trends (look for falling pressure)</li>
-            <li>Review wind forecasts (light to moderate is ideal)</li>
-            <li>Consider cloud cover (overcast is often better)</li>
-            <li>Check temperature forecasts</li>
-            <li>Look for safe conditions (avoid storms)</li>
-            <li>Combine weather with tides and time of day</li>
-          </ol>
-
-          <h3>Adapting to Conditions</h3>
-          <p>
-            When conditions aren't ideal:
-          </p>
-          <ul>
-            <li>Adjust techniques (slower presentations in high pressure)</li>
-            <li>Change locations (deeper water in bright sun)</li>
-            <li>Modify timing (fish during best conditions of the day)</li>
-            <li>Target different species (some are less affected by weather)</li>
-          </ul>
-          <p>
-            Many fishing apps combine weather data with other factors to provide daily fishing scores, making it easier to identify the best conditions.
-          </p>
-        </section>
-
-        <PrimaryCTA
-          title="Get Weather-Based Fishing Forecasts"
-          copy="Download Tackle and get daily fishing scores that factor in barometric pressure, wind, temperature, and other weather conditions for your location."
-          buttonText="download"
-          position="end"
-          pageType="how-to"
-          slug="how-weather-affects-fishing"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Target These Species</h2>
-          <ul>
-            <li><Link href="/species/speckled-trout">Speckled Trout Fishing Guide</Link></li>
-            <li><Link href="/species/largemouth-bass">Largemouth Bass Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Best Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/sarasota">Fishing in Sarasota, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          pageType="how-to"
-          slug="how-weather-affects-fishing"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="how-to"
-          slug="how-weather-affects-fishing"
-        />
-      </article>
-    </>
-  );
-}
-
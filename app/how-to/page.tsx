@@ -4,6 +4,8 @@
 
 import { Metadata } from 'next';
 import { generateCanonical } from '@/lib/seo/canonical';
+import { loadAllHowTos, isHowToCategory, HOW_TO_CATEGORIES, HowToCategory } from '@/lib/content/howto';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -15,40 +17,21 @@ export const metadata: Metadata = {
   },
 };
 
-const howToGuides = [
-  {
-    slug: 'best-fishing-times',
-    title: 'Best Fishing Times',
-    description: 'Learn when to fish for maximum success based on weather, tides, moon phases, and time of day.',
-    image: 'https://images.unsplash.com/photo-1755870344289-00ac1db1b144?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'how-tides-affect-fishing',
-    title: 'How Tides Affect Fishing',
-    description: 'Understand how tidal movement influences fish behavior and learn to time your fishing trips for optimal results.',
-    image: 'https://images.unsplash.com/photo-1596433141587-65a1e50fec82?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'what-is-a-good-tide-to-fish',
-    title: 'What Is a Good Tide to Fish?',
-    description: 'Discover which tide stages are most productive for different fishing scenarios and species.',
-    image: 'https://images.unsplash.com/photo-1620055750222-5cc0be3534b6?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'best-time-of-day-to-fish',
-    title: 'Best Time of Day to Fish',
-    description: 'Find out when fish are most active throughout the day and how to plan your fishing schedule.',
-    image: 'https://images.unsplash.com/photo-1749468385812-34c53d2d7b74?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'how-weather-affects-fishing',
-    title: 'How Weather Affects Fishing',
-    description: 'Learn how weather conditions, barometric pressure, and seasonal patterns impact fish activity.',
-    image: 'https://images.unsplash.com/photo-1662568580477-2ed6de5a86d5?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-];
+interface HowToIndexPageProps {
+  searchParams: Promise<{ category?: string }>;
+}
+
+export default async function HowToIndexPage({ searchParams }: HowToIndexPageProps) {
+  const params = await searchParams;
+  const activeCategory = isHowToCategory(params.category) ? params.category : undefined;
+
+  const allGuides = await loadAllHowTos();
+  const howToGuides = activeCategory ? allGuides.filter((guide) => guide.category === activeCategory) : allGuides;
+  // Only offer filters for categories that have guides
+  const categories = (Object.keys(HOW_TO_CATEGORIES) as HowToCategory[]).filter((category) =>
+    allGuides.some((guide) => guide.category === category)
+  );
 
-export default function HowToIndexPage() {
   return (
     <div>
       <header className="mb-8">
@@ -58,12 +41,36 @@ export default function HowToIndexPage() {
         </p>
       </header>
 
+      {categories.length > 1 && (
+        <nav className="mb-8 flex flex-wrap gap-2" aria-label="Filter guides by category">
+          <Link
+            href="/how-to"
+            className={`px-4 py-2 rounded-full text-sm font-semibold border ${!activeCategory ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:border-blue-300'}`}
+          >
+            All
+          </Link>
+          {categories.map((category) => (
+            <Link
+              key={category}
+              href={`/how-to?category=${category}`}
+              className={`px-4 py-2 rounded-full text-sm font-semibold border ${activeCategory === category ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700 hover:border-blue-300'}`}
+            >
+              {HOW_TO_CATEGORIES[category]}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      {howToGuides.length === 0 && (
+        <p className="text-gray-600 mb-8">No guides in this category yet.</p>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {howToGuides.map((guide) => (
           <Link key={guide.slug} href={`/how-to/${guide.slug}`} className="group block overflow-hidden rounded-xl border border-gray-200 hover:shadow-xl hover:border-blue-300 transition-all">
             <div className="relative h-48 w-full overflow-hidden bg-gray-200">
               <Image
-                src={guide.image}
+                src={guide.heroImage || getCategoryFallbackImage('techniques')}
                 alt={guide.title}
                 fill
                 className="object-cover transition-transform duration-300 group-hover:scale-105"
@@ -1,449 +0,0 @@
-/**
- * What Is a Good Tide to Fish - How-To Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'What Is a Good Tide to Fish: Best Tide Conditions Explained',
-  description: 'Learn what makes a good tide for fishing. Understand incoming vs outgoing tide, spring tides, and how to read tide conditions for better catches.',
-  alternates: {
-    canonical: generateCanonical('/how-to/what-is-a-good-tide-to-fish'),
-  },
-  openGraph: {
-    title: 'What Is a Good Tide to Fish: Best Tide Conditions Explained',
-    description: 'Learn what makes a good tide for fishing. Understand incoming vs outgoing tide and spring tides.',
-    url: generateCanonical('/how-to/what-is-a-good-tide-to-fish'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is considered a good tide for fishing?',
-    answer: 'A good tide for fishing is one with strong water movement—typically the last two hours of incoming tide or first two hours of outgoing tide. These periods have active current that concentrates baitfish and triggers feeding activity in predator fish.',
-  },
-  {
-    question: 'Is incoming or outgoing tide better?',
-    answer: 'Both can be excellent depending on location and target species. Incoming tide brings fish into shallow areas, while outgoing tide concentrates fish near channels. Many anglers find the transition periods (last of incoming, first of outgoing) most productive.',
-  },
-  {
-    question: 'What is a spring tide and is it good for fishing?',
-    answer: 'Spring tides occur during new and full moon periods and have the strongest water movement. Many anglers find spring tides produce better fishing because stronger currents create more activity and concentrate baitfish more effectively.',
-  },
-  {
-    question: 'How do I know if the tide is good for fishing?',
-    answer: 'Check local tide charts for times when tide is moving (rising or falling). Look for periods with strong current movement rather than slack tide. Many fishing apps provide daily fishing scores that factor in tide conditions along with weather and other factors.',
-  },
-  {
-    question: 'Can I fish during slack tide?',
-    answer: 'Fishing during slack tide is typically slower, but fish can still be caught. Focus on deeper water, structure, or areas with natural food sources. Some species continue to feed during slack, especially if other conditions like weather are favorable.',
-  },
-  {
-    question: 'What tide range is best for fishing?',
-    answer: 'Larger tide ranges (spring tides) generally create stronger currents and are often more productive. However, smaller ranges (neap tides) can still produce good fishing, especially when combined with favorable weather, time of day, or other conditions.',
-  },
-  {
-    question: 'Do I need to fish at high or low tide?',
-    answer: 'You don\'t need to fish at high or low tide specifically—the movement between tides is often most productive. However, high tide allows access to shallow areas, while low tide concentrates fish in deeper channels. The best fishing is usually during moving tides, not at the extremes.',
-  },
-  {
-    question: 'How do tides affect different fishing locations?',
-    answer: 'Tides affect locations differently. Shallow flats fish best on incoming tide, channels and structure fish best on outgoing tide, and deeper areas may be productive throughout the tide cycle. Learning how tides affect your specific fishing spots is key to success.',
-  },
-];
-
-export default function WhatIsAGoodTideToFishPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'How-To Guides', item: 'https://tackleapp.ai/how-to' },
-          { name: 'What Is a Good Tide to Fish', item: 'https://tackleapp.ai/how-to/what-is-a-good-tide-to-fish' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="how-to-page">
-        <header className="page-header">
-          <h1>What Is a Good Tide to Fish: Best Tide Conditions Explained</h1>
-          <p className="page-intro">
-            A good tide for fishing is one with active water movement that triggers fish feeding behavior. While fish can be caught at any tide, understanding what makes a tide "good" helps you time your trips for maximum success. This guide explains the characteristics of productive tides and how to identify the best tide conditions for your fishing location.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1620055750222-5cc0be3534b6?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Fishing rod on the shore during tidal conditions"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#characteristics-of-good-tide">Characteristics of a Good Tide</a></li>
-            <li><a href="#incoming-vs-outgoing">Incoming vs Outgoing Tide</a></li>
-            <li><a href="#spring-vs-neap-tides">Spring Tides vs Neap Tides</a></li>
-            <li><a href="#timing-within-tide-cycle">Timing Within the Tide Cycle</a></li>
-            <li><a href="#reading-tide-conditions">Reading Tide Conditions</a></li>
-            <li><a href="#location-specific-considerations">Location-Specific Considerations</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Get Tide Forecasts for Your Location"
-          copy="Download Tackle and get real-time tide predictions with fishing scores based on tide conditions, weather, and moon phases."
-          buttonText="default"
-          position="above_fold"
-          pageType="how-to"
-          slug="what-is-a-good-tide-to-fish"
-          className="my-8"
-        />
-
-        <section id="characteristics-of-good-tide">
-          <h2>Characteristics of a Good Tide</h2>
-          <p>
-            A good tide for fishing has several key characteristics that create favorable conditions for fish activity and feeding.
-          </p>
-          
-          <h3>Active Water Movement</h3>
-          <p>
-            The most important characteristic of a good tide is active water movement. Moving water creates current that:
-          </p>
-          <ul>
-            <li>Concentrates baitfish in predictable areas</li>
-            <li>Brings food sources into feeding zones</li>
-            <li>Oxygenates water and stirs up bottom sediment</li>
-            <li>Triggers feeding behavior in predator fish</li>
-          </ul>
-          <p>
-            Tides with strong movement (spring tides) are generally more productive than tides with weak movement (neap tides), though both can produce good fishing.
-          </p>
-
-          <h3>Predictable Fish Positioning</h3>
-          <p>
-            Good tides position fish predictably. During incoming tide, fish move into shallow areas. During outgoing tide, fish concentrate near channels and structure. This predictability helps you know where to fish and what techniques to use.
-          </p>
-          <p>
-            Understanding these patterns is key to successful tide fishing.
-          </p>
-
-          <h3>Combined with Other Favorable Conditions</h3>
-          <p>
-            The best tides occur when combined with other good conditions:
-          </p>
-          <ul>
-            <li>Moving tide + dawn or dusk (low light, active feeding)</li>
-            <li>Incoming tide + overcast weather (fish less cautious)</li>
-            <li>Outgoing tide + light wind (current without dangerous conditions)</li>
-            <li>Spring tide + new or full moon (strongest movement)</li>
-          </ul>
-          <p>
-            While a good tide alone can produce fishing, combining it with favorable weather, time of day, and seasonal patterns maximizes success.
-          </p>
-        </section>
-
-        <section id="incoming-vs-outgoing">
-          <h2>Incoming vs Outgoing Tide</h2>
-          <p>
-            Both incoming and outgoing tides can be excellent for fishing, but they offer different opportunities and require different approaches.
-          </p>
-          
-          <h3>Incoming Tide Advantages</h3>
-          <p>
-            Incoming (rising) tide is often preferred for:
-          </p>
-          <ul>
-            <li><strong>Shallow Water Fishing:</strong> Rising water allows access to flats, grass beds, and mangroves</li>
-            <li><strong>Sight Fishing:</strong> Clear, shallow water during incoming tide offers excellent sight fishing opportunities</li>
-            <li><strong>Topwater Action:</strong> Fish actively feeding in shallow water often respond well to topwater lures</li>
-            <li><strong>Expanding Territory:</strong> Rising water gives fish access to new feeding areas</li>
-          </ul>
-          <p>
-            The last two hours of incoming tide are typically most productive as water is high and still moving.
-          </p>
-
-          <h3>Outgoing Tide Advantages</h3>
-          <p>
-            Outgoing (falling) tide is often preferred for:
-          </p>
-          <ul>
-            <li><strong>Channel Fishing:</strong> Concentrated fish near channels and structure</li>
-            <li><strong>Current Fishing:</strong> Strong current creates ambush opportunities</li>
-            <li><strong>Structure Fishing:</strong> Fish positioned predictably near bridge pilings, jetties, and points</li>
-            <li><strong>Bottom Fishing:</strong> Concentrated fish in deeper channels</li>
-          </ul>
-          <p>
-            The first two hours of outgoing tide are typically most productive as water movement is strongest.
-          </p>
-
-          <h3>Which Is Better?</h3>
-          <p>
-            Neither is universally better—it depends on your location, target species, and fishing style. Many experienced anglers prefer the transition periods: the last of incoming tide and first of outgoing tide, when water movement is active and fish are feeding.
-          </p>
-          <p>
-            Learning to fish both tides effectively expands your opportunities and makes you a more versatile angler.
-          </p>
-        </section>
-
-        <section id="spring-vs-neap-tides">
-          <h2>Spring Tides vs Neap Tides</h2>
-          <p>
-            Understanding the difference between spring tides and neap tides helps you identify the best tide conditions for fishing.
-          </p>
-          
-          <h3>Spring Tides</h3>
-          <p>
-            Spring tides occur during new moon and full moon periods when the sun and moon's gravitational forces align. These tides have:
-          </p>
-          <ul>
-            <li>Larger tide ranges (greater difference between high and low)</li>
-            <li>Stronger water movement and currents</li>
-            <li>More dramatic water level changes</li>
-          </ul>
-          <p>
-            Many anglers find spring tides produce better fishing because stronger currents create more activity, concentrate baitfish more effectively, and trigger stronger feeding responses in predator fish.
-          </p>
-          <p>
-            Spring tides are particularly productive for species that rely on current for feeding, such as snook, redfish, and flounder.
-          </p>
-
-          <h3>Neap Tides</h3>
-          <p>
-            Neap tides occur during first and last quarter moon periods when the sun and moon's gravitational forces work against each other. These tides have:
-          </p>
-          <ul>
-            <li>Smaller tide ranges (less difference between high and low)</li>
-            <li>Weaker water movement and currents</li>
-            <li>Less dramatic water level changes</li>
-          </ul>
-          <p>
-            Neap tides can still produce good fishing, especially when combined with other favorable conditions like good weather, optimal time of day, or seasonal patterns. Some anglers prefer neap tides for certain techniques or locations where less current is advantageous.
-          </p>
-
-          <h3>Choosing Between Spring and Neap</h3>
-          <p>
-            While spring tides are generally more productive, don't avoid fishing during neap tides. Many successful fishing trips occur during neap tides, especially when other conditions are favorable. The key is understanding how each affects your specific fishing location and adapting your techniques accordingly.
-          </p>
-        </section>
-
-        <section id="timing-within-tide-cycle">
-          <h2>Timing Within the Tide Cycle</h2>
-          <p>
-            When you fish within the tide cycle matters as much as which tide you choose. Understanding the best times within each tide stage improves your success rate.
-          </p>
-          
-          <h3>Early Incoming Tide</h3>
-          <p>
-            Early incoming tide (first hour or two) can be productive as water begins moving into shallow areas. Fish start positioning themselves as water rises, and early movement can trigger feeding activity, especially if it coincides with dawn or favorable weather.
-          </p>
-
-          <h3>Peak Incoming Tide</h3>
-          <p>
-            The middle hours of incoming tide continue to bring fish into shallow areas. Water is rising steadily, and fish are actively exploring newly flooded areas. This period offers consistent fishing opportunities.
-          </p>
-
-          <h3>Late Incoming Tide (Best Period)</h3>
-          <p>
-            The last two hours of incoming tide are often the most productive. Water is high enough to cover shallow areas, but the tide is still moving, creating strong current and activity. Fish are actively feeding as they move into the highest water areas.
-          </p>
-          <p>
-            This period combines high water access with active movement, making it ideal for shallow water fishing.
-          </p>
-
-          <h3>High Slack Tide</h3>
-          <p>
-            High slack tide (when tide changes from incoming to outgoing) typically produces slower fishing. Water movement stops, and fish become less active. However, some species continue to feed, especially in areas with structure or natural food sources.
-          </p>
-
-          <h3>Early Outgoing Tide (Best Period)</h3>
-          <p>
-            The first two hours of outgoing tide are often extremely productive. Water movement is strong, and fish are actively feeding as baitfish are funneled through channels and structure. This period offers excellent fishing for species that feed on current.
-          </p>
-
-          <h3>Mid to Late Outgoing Tide</h3>
-          <p>
-            As outgoing tide continues, water recedes from shallow areas, concentrating fish in deeper channels and structure. Fishing can remain productive, especially near channels, cuts, and deeper holes where fish gather.
-          </p>
-
-          <h3>Low Slack Tide</h3>
-          <p>
-            Low slack tide typically produces slower fishing similar to high slack. However, some areas remain productive, especially deeper channels and structure where fish may still be active.
-          </p>
-        </section>
-
-        <section id="reading-tide-conditions">
-          <h2>Reading Tide Conditions</h2>
-          <p>
-            Learning to read and interpret tide conditions helps you identify good fishing tides and plan your trips accordingly.
-          </p>
-          
-          <h3>Using Tide Charts</h3>
-          <p>
-            Tide charts provide essential information:
-          </p>
-          <ul>
-            <li><strong>Tide Times:</strong> When high and low tides occur</li>
-            <li><strong>Tide Heights:</strong> How high or low the water will be</li>
-            <li><strong>Tide Range:</strong> The difference between high and low (indicates spring vs neap)</li>
-            <li><strong>Current Speed:</strong> Some charts show predicted current strength</li>
-          </ul>
-          <p>
-            Look for periods with strong movement (between high and low) rather than slack periods.
-          </p>
-
-          <h3>Observing Water Movement</h3>
-          <p>
-            When you're on the water, observe:
-          </p>
-          <ul>
-            <li><strong>Current Direction:</strong> Which way is water moving?</li>
-            <li><strong>Current Strength:</strong> Is water moving quickly or slowly?</li>
-            <li><strong>Water Level:</strong> Is water rising, falling, or stable?</li>
-            <li><strong>Bait Activity:</strong> Are baitfish being moved by current?</li>
-          </ul>
-          <p>
-            Active current with visible bait movement typically indicates good fishing conditions.
-          </p>
-
-          <h3>Using Fishing Apps</h3>
-          <p>
-            Many fishing apps combine tide information with weather, moon phases, and other factors to provide daily fishing scores. These scores help identify when conditions align for the best fishing.
-          </p>
-          <p>
-            While apps are helpful, learning to read conditions yourself builds valuable skills and helps you adapt when conditions change unexpectedly.
-          </p>
-        </section>
-
-        <section id="location-specific-considerations">
-          <h2>Location-Specific Considerations</h2>
-          <p>
-            What makes a "good" tide varies by location. Understanding how tides affect your specific fishing spots is key to success.
-          </p>
-          
-          <h3>Shallow Flats</h3>
-          <p>
-            Shallow flats typically fish best on incoming tide when rising water allows fish to access these areas. High incoming tide offers the best access and fishing opportunities. Low tide may make flats too shallow or inaccessible.
-          </p>
-
-          <h3>Channels and Cuts</h3>
-          <p>
-            Channels and cuts between islands or through flats fish best during outgoing tide when water flows through these narrow passages, concentrating baitfish and predator fish.
-          </p>
-
-          <h3>Bridge Pilings and Structure</h3>
-          <p>
-            Structure like bridge pilings, jetties, and rock formations can be productive throughout the tide cycle, but often fish best during outgoing tide when current is strongest and fish are positioned predictably.
-          </p>
-
-          <h3>Mangrove Shorelines</h3>
-          <p>
-            Mangrove areas typically fish best on incoming tide when rising water brings fish into these shallow areas to feed. High incoming tide offers the best opportunities.
-          </p>
-
-          <h3>Deep Holes and Channels</h3>
-          <p>
-            Deeper areas may remain productive throughout the tide cycle, though outgoing tide often concentrates fish as water flows from shallow to deep areas.
-          </p>
-
-          <h3>Building Local Knowledge</h3>
-          <p>
-            The best way to learn what tides work for your location is through experience and local knowledge. Talk to local anglers, observe conditions, and keep notes on what works. Over time, you'll develop a sense of which tides produce the best fishing for your specific spots.
-          </p>
-        </section>
-
-        <PrimaryCTA
-          title="Get Personalized Tide Forecasts"
-          copy="Download Tackle and get daily fishing scores that factor in tide conditions, weather, and moon phases for your exact location."
-          buttonText="download"
-          position="end"
-          pageType="how-to"
-          slug="what-is-a-good-tide-to-fish"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related Guides</h2>
-          <ul>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Target These Species</h2>
-          <ul>
-            <li><Link href="/species/redfish">Redfish Fishing Guide</Link></li>
-            <li><Link href="/species/speckled-trout">Speckled Trout Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Best Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/miami">Fishing in Miami, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          pageType="how-to"
-          slug="what-is-a-good-tide-to-fish"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="how-to"
-          slug="what-is-a-good-tide-to-fish"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -0,0 +1,281 @@
+/**
+ * Dynamic Location Page
+ * Renders any published LocationDoc from content/locations/{state}/{city}.json
+ */
+
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { generateCanonical } from '@/lib/seo/canonical';
+import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
+import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
+import { ContentUpgradeCTA } from '@/components/conversion/ContentUpgradeCTA';
+import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
+import { AuthorSchema } from '@/components/seo/AuthorSchema';
+import { BreadcrumbSchema, generateBreadcrumbsFromPath } from '@/components/seo/BreadcrumbSchema';
+import { FaqSchema } from '@/components/seo/FaqSchema';
+import { ArticleSchema } from '@/components/seo/ArticleSchema';
+import { LastUpdated } from '@/components/content/LastUpdated';
+import { SourcesSection } from '@/components/content/SourcesSection';
+import { DocMarkdown } from '@/components/content/DocMarkdown';
+import { linkCitations } from '@/lib/content/citations';
+import { getLocationBySlug } from '@/lib/content/locations';
+import { getAllLocationSlugs } from '@/lib/content/index';
+import { STATE_REGULATION_LINKS } from '@/lib/regLinks/stateRegLinks';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
+import Link from 'next/link';
+import { formatSlug } from '@/lib/utils';
+import Image from 'next/image';
+
+interface LocationPageProps {
+  params: Promise<{ state: string; city: string }>;
+}
+
+/**
+ * Generate static params for all published locations
+ */
+export async function generateStaticParams() {
+  try {
+    const slugs = await getAllLocationSlugs();
+    return slugs.map((slug) => {
+      const [state, city] = slug.split('/');
+      return { state, city };
+    });
+  } catch (error) {
+    // Empty or invalid index must not fail the build
+    console.error('Failed to load location slugs for static params:', error);
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: LocationPageProps): Promise<Metadata> {
+  const { state, city } = await params;
+  const doc = await getLocationBySlug(state, city);
+
+  if (!doc) {
+    return {
+      title: 'Location Not Found',
+      robots: {
+        index: false,
+        follow: false,
+      },
+    };
+  }
+
+  const canonicalUrl = generateCanonical(`/locations/${state}/${city}`);
+
+  return {
+    title: doc.title,
+    description: doc.description,
+    keywords: [doc.primaryKeyword, ...doc.secondaryKeywords].join(', '),
+    alternates: {
+      canonical: canonicalUrl,
+    },
+    openGraph: {
+      title: doc.title,
+      description: doc.description,
+      url: canonicalUrl,
+      type: 'article',
+      images: doc.heroImage ? [{ url: doc.heroImage, width: 1200, height: 600, alt: doc.title }] : undefined,
+    },
+  };
+}
+
+export default async function LocationPage({ params }: LocationPageProps) {
+  const { state, city } = await params;
+  const doc = await getLocationBySlug(state, city);
+
+  if (!doc) {
+    notFound();
+  }
+
+  const { geo } = doc;
+  const slug = doc.slug;
+  const heroImage = doc.heroImage || getCategoryFallbackImage();
+  const breadcrumbs = generateBreadcrumbsFromPath(
+    `/locations/${slug}`,
+    { locations: 'Locations', [doc.stateSlug]: geo.state },
+    geo.city
+  );
+  const regulationLink = STATE_REGULATION_LINKS[geo.stateCode];
+
+  // Inline [^source-id] markers → numbered footnote links (SourcesSection links back to them)
+  const citations = linkCitations(doc.body, doc.sources || []);
+  const tocHeadings = doc.headings.filter((h) => h.level === 2 && h.id);
+
+  const geoRows: Array<[string, string | undefined]> = [
+    ['City', geo.city],
+    ['State', `${geo.state} (${geo.stateCode})`],
+    ['Coordinates', geo.lat !== undefined && geo.lon !== undefined ? `${geo.lat.toFixed(4)}, ${geo.lon.toFixed(4)}` : undefined],
+    ['Regulations', regulationLink?.label],
+  ];
+
+  return (
+    <>
+      <AuthorSchema author={doc.author} />
+      <BreadcrumbSchema items={breadcrumbs} />
+      <FaqSchema faqs={doc.faqs} />
+      <ArticleSchema
+        headline={doc.title}
+        description={doc.description}
+        author={doc.author}
+        datePublished={doc.dates.publishedAt}
+        dateModified={doc.dates.updatedAt}
+        image={heroImage}
+        url={`/locations/${slug}`}
+      />
+
+      <article className="location-page">
+        <header className="page-header">
+          <h1>Fishing in {geo.city}, {geo.state}</h1>
+          <p className="page-intro">{doc.description}</p>
+        </header>
+
+        {/* Hero Image */}
+        <div className="mb-8 -mx-4 sm:mx-0">
+          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
+            <Image
+              src={heroImage}
+              alt={`Fishing in ${geo.city}, ${geo.state}`}
+              fill
+              priority
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
+            />
+          </div>
+          <p className="text-xs text-gray-400 mt-2 text-right">
+            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
+          </p>
+        </div>
+
+        {/* Geo Summary */}
+        <section className="location-geo my-8">
+          <h2>{geo.city} at a Glance</h2>
+          <table className="w-full text-left border border-gray-200 rounded-lg overflow-hidden">
+            <tbody>
+              {geoRows
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <tr key={label} className="border-b border-gray-200">
+                    <th className="p-3 bg-gray-50 font-semibold w-1/3">{label}</th>
+                    <td className="p-3">{value}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+          <p className="mt-4">
+            <Link href={`/locations/${doc.stateSlug}`}>More fishing locations in {geo.state} &rarr;</Link>
+          </p>
+        </section>
+
+        {tocHeadings.length >= 3 && (
+          <nav className="table-of-contents">
+            <h2>Table of Contents</h2>
+            <ul>
+              {tocHeadings.map((heading) => (
+                <li key={heading.id}>
+                  <a href={`#${heading.id}`}>{heading.text}</a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+
+        <PrimaryCTA
+          title={`Fish ${geo.city} Like a Local`}
+          copy={`Get real-time fishing conditions, best spots, and expert advice for ${geo.city}. Download Tackle for iPhone.`}
+          buttonText="default"
+          position="above_fold"
+          pageType="location"
+          slug={slug}
+          location={geo.city}
+          className="my-8"
+        />
+
+        <div className="location-body">
+          <DocMarkdown body={citations.body} headings={doc.headings} />
+        </div>
+
+        <ContentUpgradeCTA
+          location={geo.city}
+          pageType="location"
+          slug={slug}
+          className="my-12"
+        />
+
+        <PrimaryCTA
+          title={`Get ${geo.city} Fishing Forecasts`}
+          copy={`Download Tackle and get daily fishing conditions, best times, and expert advice specifically for ${geo.city}.`}
+          buttonText="download"
+          position="end"
+          pageType="location"
+          slug={slug}
+          location={geo.city}
+          className="my-12"
+        />
+
+        {doc.related?.howToSlugs && doc.related.howToSlugs.length > 0 && (
+          <section className="related-content">
+            <h2>Related How-To Guides</h2>
+            <ul>
+              {doc.related.howToSlugs.map((howTo) => (
+                <li key={howTo}>
+                  <Link href={`/how-to/${howTo}`}>{formatSlug(howTo)}</Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {doc.related?.speciesSlugs && doc.related.speciesSlugs.length > 0 && (
+          <section className="related-species">
+            <h2>Popular Species in {geo.city}</h2>
+            <ul>
+              {doc.related.speciesSlugs.map((species) => (
+                <li key={species}>
+                  <Link href={`/species/${species}`}>{formatSlug(species)} Fishing Guide</Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {doc.faqs.length > 0 && (
+          <section className="faq-section">
+            <h2>Frequently Asked Questions</h2>
+            <div className="faq-list">
+              {doc.faqs.map((faq, index) => (
+                <div key={index} className="faq-item">
+                  <h3 className="faq-question">{faq.question}</h3>
+                  <p className="faq-answer">{faq.answer}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {doc.sources && doc.sources.length > 0 && (
+          <SourcesSection sources={doc.sources} citations={citations.backlinks} className="my-8" />
+        )}
+
+        <RegulationsOutboundLinkBlock
+          stateCode={geo.stateCode}
+          pageType="location"
+          slug={slug}
+          location={geo.city}
+          className="my-8"
+        />
+
+        <LastUpdated
+          date={doc.dates.updatedAt}
+          author={doc.author.name}
+        />
+
+        <StickyBottomCTA
+          pageType="location"
+          slug={slug}
+          location={geo.city}
+        />
+      </article>
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * State Hub Page
+ * Lists a state's published location guides with its official regulation links
+ */
+
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { generateCanonical } from '@/lib/seo/canonical';
+import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
+import { BreadcrumbSchema, generateBreadcrumbsFromPath } from '@/components/seo/BreadcrumbSchema';
+import { getStateHub, loadStateHubs } from '@/lib/content/locations';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
+import Link from 'next/link';
+import Image from 'next/image';
+
+interface StateHubPageProps {
+  params: Promise<{ state: string }>;
+}
+
+/**
+ * Generate static params for every state with at least one published location
+ */
+export async function generateStaticParams() {
+  try {
+    const hubs = await loadStateHubs();
+    return hubs.map((hub) => ({ state: hub.stateSlug }));
+  } catch (error) {
+    // Empty or invalid index must not fail the build
+    console.error('Failed to load state hubs for static params:', error);
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: StateHubPageProps): Promise<Metadata> {
+  const { state } = await params;
+  const hub = await getStateHub(state);
+
+  if (!hub) {
+    return {
+      title: 'Location Not Found',
+      robots: {
+        index: false,
+        follow: false,
+      },
+    };
+  }
+
+  const title = `Fishing in ${hub.state} | Best Fishing Spots by City`;
+  const description = `Location fishing guides for ${hub.locations.map((l) => l.city).join(', ')} and more in ${hub.state}. Species, seasons, spots, and official ${hub.stateCode} regulations.`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: generateCanonical(`/locations/${state}`),
+    },
+    openGraph: {
+      title,
+      description,
+      url: generateCanonical(`/locations/${state}`),
+      type: 'website',
+    },
+  };
+}
+
+export default async function StateHubPage({ params }: StateHubPageProps) {
+  const { state } = await params;
+  const hub = await getStateHub(state);
+
+  if (!hub) {
+    notFound();
+  }
+
+  const breadcrumbs = generateBreadcrumbsFromPath(`/locations/${state}`, { locations: 'Locations' }, hub.state);
+
+  return (
+    <div>
+      <BreadcrumbSchema items={breadcrumbs} />
+
+      <header className="mb-8">
+        <h1 className="text-4xl font-bold mb-4">Fishing in {hub.state}</h1>
+        <p className="text-lg text-gray-600">
+          Location guides for {hub.locations.length} {hub.locations.length === 1 ? 'city' : 'cities'} in {hub.state}, with the species, seasons, and spots that matter locally.
+        </p>
+      </header>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-12">
+        {hub.locations.map((loc) => (
+          <Link key={loc.slug} href={`/locations/${loc.slug}`} className="group block overflow-hidden rounded-xl border border-gray-200 hover:shadow-xl hover:border-blue-300 transition-all">
+            <div className="relative h-48 w-full overflow-hidden bg-gray-200">
+              <Image
+                src={loc.heroImage || getCategoryFallbackImage()}
+                alt={`Fishing in ${loc.city}, ${loc.state}`}
+                fill
+                className="object-cover transition-transform duration-300 group-hover:scale-105"
+                sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
+              />
+            </div>
+            <div className="p-5">
+              <h2 className="text-xl font-bold mb-2 text-gray-900 group-hover:text-blue-600 transition-colors">
+                {loc.city}, {loc.state}
+              </h2>
+              <p className="text-gray-600 text-sm mb-3">{loc.description}</p>
+              <span className="text-sm font-semibold text-blue-600 group-hover:text-blue-700">
+                View Location Guide &rarr;
+              </span>
+            </div>
+          </Link>
+        ))}
+      </div>
+
+      <RegulationsOutboundLinkBlock
+        stateCode={hub.stateCode}
+        pageType="location"
+        slug={state}
+        location={hub.state}
+        className="my-8"
+      />
+
+      <p className="mt-8">
+        <Link href="/locations">&larr; All fishing locations</Link>
+      </p>
+    </div>
+  );
+}
@@ -1,480 +0,0 @@
-/**
- * Fort Myers, Florida - Location Fishing Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { ContentUpgradeCTA } from '@/components/conversion/ContentUpgradeCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Fishing in Fort Myers, Florida: Complete Guide to Fort Myers Fishing',
-  description: 'Discover the best fishing spots, species, and techniques in Fort Myers. Get expert tips for inshore, pier, and offshore fishing in Fort Myers, Florida.',
-  alternates: {
-    canonical: generateCanonical('/locations/fl/fort-myers'),
-  },
-  openGraph: {
-    title: 'Fishing in Fort Myers, Florida: Complete Guide',
-    description: 'Discover the best fishing spots, species, and techniques in Fort Myers.',
-    url: generateCanonical('/locations/fl/fort-myers'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What fish can you catch in Fort Myers, Florida?',
-    answer: 'Fort Myers offers excellent fishing for redfish, snook, speckled trout, tarpon, grouper, snapper, sheepshead, and many other species. The Caloosahatchee River and surrounding waters provide diverse fishing opportunities.',
-  },
-  {
-    question: 'What is the best time of year to fish in Fort Myers?',
-    answer: 'Fishing in Fort Myers is productive year-round. Fall and winter (October through March) are often considered prime seasons. Spring brings snook spawning activity, and summer offers excellent tarpon fishing.',
-  },
-  {
-    question: 'Where are the best fishing spots in Fort Myers?',
-    answer: 'Popular spots include the Caloosahatchee River, Sanibel Causeway, various bridges, inshore flats, and nearshore reefs. The area offers diverse fishing locations accessible by boat, kayak, or shore.',
-  },
-  {
-    question: 'Do you need a fishing license in Fort Myers, Florida?',
-    answer: 'Yes, a Florida fishing license is required for most fishing in Fort Myers. Some exceptions apply for fishing from piers or for certain age groups. Always check current regulations before fishing.',
-  },
-  {
-    question: 'What is the best time of day to fish in Fort Myers?',
-    answer: 'Early morning and late afternoon to evening are typically most productive. Many anglers prefer fishing during incoming tide, especially for inshore species. However, fishing can be productive throughout the day depending on conditions.',
-  },
-  {
-    question: 'Can you fish from shore in Fort Myers?',
-    answer: 'Yes, Fort Myers offers shore fishing opportunities at various locations including the Sanibel Causeway, bridges, parks, and shorelines. The Caloosahatchee River also provides productive shore fishing access.',
-  },
-  {
-    question: 'What makes Fort Myers fishing unique?',
-    answer: 'Fort Myers offers access to both river fishing (Caloosahatchee) and extensive backwater systems. The area provides diverse habitat from freshwater to saltwater, supporting a wide variety of species.',
-  },
-  {
-    question: 'Are there fishing charters available in Fort Myers?',
-    answer: 'Yes, Fort Myers has many experienced fishing charters offering inshore, nearshore, and offshore trips. Charters provide equipment, local knowledge, and access to productive fishing areas throughout the region.',
-  },
-];
-
-export default function FortMyersLocationPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'Locations', item: 'https://tackleapp.ai/locations' },
-          { name: 'Florida', item: 'https://tackleapp.ai/locations/fl' },
-          { name: 'Fort Myers', item: 'https://tackleapp.ai/locations/fl/fort-myers' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="location-page">
-        <header className="page-header">
-          <h1>Fishing in Fort Myers, Florida</h1>
-          <p className="page-intro">
-            Fort Myers offers excellent fishing opportunities in the Caloosahatchee River and surrounding backwater systems. From inshore flats teeming with redfish and snook to nearshore reefs holding grouper and snapper, Fort Myers provides diverse fishing experiences. This guide covers the best species, seasons, techniques, and locations for fishing in Fort Myers.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1762895628023-531bfe46bb0b?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Boat on the water near Fort Myers mangroves"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#common-species">Common Species</a></li>
-            <li><a href="#seasonal-patterns">Seasonal Patterns</a></li>
-            <li><a href="#best-times">Best Times of Day</a></li>
-            <li><a href="#fishing-locations">Where to Fish</a></li>
-            <li><a href="#techniques">Fishing Techniques</a></li>
-            <li><a href="#planning-your-trip">Planning Your Trip</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Fish Fort Myers Like a Local"
-          copy="Get real-time fishing conditions, best spots, and expert advice for Fort Myers, Florida. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="location"
-          slug="fl/fort-myers"
-          location="Fort Myers"
-          className="my-8"
-        />
-
-        <section id="common-species">
-          <h2>Common Species in Fort Myers</h2>
-          <p>
-            Fort Myers waters support a diverse range of fish species, from inshore favorites to nearshore gamefish.
-          </p>
-          
-          <h3>Inshore Species</h3>
-          <p>
-            Fort Myers' inshore waters are famous for:
-          </p>
-          <ul>
-            <li><strong>Redfish:</strong> Abundant in shallow flats, grass beds, and mangrove areas. Fort Myers offers excellent redfish fishing year-round, with fall and winter often being most productive.</li>
-            <li><strong>Snook:</strong> Popular gamefish found near mangroves, bridges, and structure. Snook fishing is excellent, especially during spring and fall migrations.</li>
-            <li><strong>Speckled Trout:</strong> Common in grass beds and shallow flats. Trout fishing is productive throughout the year, with peak seasons in fall and spring.</li>
-            <li><strong>Tarpon:</strong> Summer months bring tarpon to Fort Myers waters. These powerful fish are popular targets for experienced anglers.</li>
-            <li><strong>Sheepshead:</strong> Found around structure, bridges, and docks. Sheepshead fishing is productive year-round, especially during cooler months.</li>
-          </ul>
-
-          <h3>Nearshore and Offshore Species</h3>
-          <p>
-            Nearshore and offshore fishing offers:
-          </p>
-          <ul>
-            <li><strong>Grouper:</strong> Red and gag grouper are found on nearshore reefs and structure. Grouper fishing is productive with seasonal regulations.</li>
-            <li><strong>Snapper:</strong> Various snapper species including mangrove, yellowtail, and lane snapper are common on reefs and structure.</li>
-            <li><strong>Kingfish:</strong> Popular during spring and fall migrations in nearshore waters.</li>
-            <li><strong>Spanish Mackerel:</strong> Common in nearshore waters, especially during cooler months.</li>
-          </ul>
-        </section>
-
-        <section id="seasonal-patterns">
-          <h2>Seasonal Patterns</h2>
-          <p>
-            Fort Myers fishing varies by season, with each time of year offering different opportunities.
-          </p>
-          
-          <h3>Fall (October - November)</h3>
-          <p>
-            Fall is often considered prime fishing season:
-          </p>
-          <ul>
-            <li>Cooling water temperatures increase fish activity</li>
-            <li>Redfish and snook fishing is excellent</li>
-            <li>Comfortable weather conditions</li>
-            <li>Many species feed heavily before winter</li>
-            <li>Trout fishing peaks during fall months</li>
-          </ul>
-
-          <h3>Winter (December - February)</h3>
-          <p>
-            Winter fishing in Fort Myers remains productive:
-          </p>
-          <ul>
-            <li>Redfish and snook continue to be active</li>
-            <li>Speckled trout fishing can be excellent</li>
-            <li>Sheepshead fishing peaks during cooler months</li>
-            <li>Nearshore fishing for grouper and snapper remains productive</li>
-            <li>Weather is generally comfortable, though occasional cold fronts occur</li>
-          </ul>
-
-          <h3>Spring (March - May)</h3>
-          <p>
-            Spring brings increased activity:
-          </p>
-          <ul>
-            <li>Snook begin spring migrations and spawning activity</li>
-            <li>Redfish fishing remains excellent</li>
-            <li>Tarpon begin arriving in late spring</li>
-            <li>Kingfish appear in nearshore waters</li>
-            <li>Overall fishing activity increases as water warms</li>
-          </ul>
-
-          <h3>Summer (June - September)</h3>
-          <p>
-            Summer offers unique opportunities:
-          </p>
-          <ul>
-            <li>Tarpon fishing peaks during summer months</li>
-            <li>Early morning and evening fishing is essential to avoid heat</li>
-            <li>Night fishing becomes more attractive</li>
-            <li>Nearshore fishing for grouper and snapper remains productive</li>
-            <li>Inshore fishing requires early starts or evening sessions</li>
-          </ul>
-        </section>
-
-        <section id="best-times">
-          <h2>Best Times of Day</h2>
-          <p>
-            Timing your Fort Myers fishing trip can significantly impact your success.
-          </p>
-          
-          <h3>Early Morning</h3>
-          <p>
-            Early morning (dawn to 10 AM) is often most productive:
-          </p>
-          <ul>
-            <li>Cooler water temperatures make fish more active</li>
-            <li>Low light conditions make fish less cautious</li>
-            <li>Many species feed actively after night</li>
-            <li>Calm conditions are common</li>
-            <li>Especially important during summer months</li>
-          </ul>
-
-          <h3>Late Afternoon to Evening</h3>
-          <p>
-            Evening fishing (4 PM to dusk) offers another prime window:
-          </p>
-          <ul>
-            <li>Cooling temperatures increase fish activity</li>
-            <li>Decreasing light makes fish less cautious</li>
-            <li>Many species move into shallow water to feed</li>
-            <li>Comfortable conditions for anglers</li>
-            <li>Particularly productive during summer</li>
-          </ul>
-
-          <h3>Combining with Tides</h3>
-          <p>
-            The best fishing often occurs when optimal time of day combines with favorable tides:
-          </p>
-          <ul>
-            <li>Early morning + incoming tide = excellent shallow water fishing</li>
-            <li>Evening + outgoing tide = productive channel and structure fishing</li>
-            <li>Moving tides during dawn or dusk are often most productive</li>
-          </ul>
-        </section>
-
-        <section id="fishing-locations">
-          <h2>Where to Fish in Fort Myers</h2>
-          <p>
-            Fort Myers offers diverse fishing locations from river systems to nearshore waters.
-          </p>
-          
-          <h3>Caloosahatchee River</h3>
-          <p>
-            The Caloosahatchee River provides:
-          </p>
-          <ul>
-            <li>Diverse fishing from freshwater to brackish to saltwater</li>
-            <li>Access to various species throughout the river system</li>
-            <li>Shore fishing opportunities at parks and bridges</li>
-            <li>Boat access throughout the river</li>
-            <li>Productive year-round fishing</li>
-          </ul>
-
-          <h3>Sanibel Causeway</h3>
-          <p>
-            The Sanibel Causeway offers:
-          </p>
-          <ul>
-            <li>Shore fishing opportunities</li>
-            <li>Structure and current flow that concentrates fish</li>
-            <li>Productive during incoming and outgoing tides</li>
-            <li>Accessible to anglers without boats</li>
-            <li>Popular fishing destination</li>
-          </ul>
-
-          <h3>Inshore Flats and Backwaters</h3>
-          <p>
-            Fort Myers' backwater system offers:
-          </p>
-          <ul>
-            <li>Shallow flats for sight fishing redfish and snook</li>
-            <li>Mangrove shorelines and channels</li>
-            <li>Grass beds holding trout and redfish</li>
-            <li>Access by kayak, small boat, or wading</li>
-            <li>Best during incoming tide when water covers shallow areas</li>
-          </ul>
-
-          <h3>Bridges and Structure</h3>
-          <p>
-            Fort Myers' bridges provide:
-          </p>
-          <ul>
-            <li>Current flow that concentrates fish</li>
-            <li>Structure holding snook, sheepshead, and other species</li>
-            <li>Productive during outgoing tide</li>
-            <li>Accessible from shore or boat</li>
-          </ul>
-
-          <h3>Nearshore Reefs</h3>
-          <p>
-            Nearshore fishing in the Gulf of Mexico provides:
-          </p>
-          <ul>
-            <li>Reefs and structure holding grouper and snapper</li>
-            <li>Access by boat (charter or private)</li>
-            <li>Productive year-round with seasonal variations</li>
-          </ul>
-        </section>
-
-        <section id="techniques">
-          <h2>Fishing Techniques for Fort Myers</h2>
-          <p>
-            Successful Fort Myers fishing requires adapting techniques to location, species, and conditions.
-          </p>
-          
-          <h3>Inshore Techniques</h3>
-          <p>
-            For inshore fishing:
-          </p>
-          <ul>
-            <li><strong>Sight Fishing:</strong> Spotting and casting to visible fish on shallow flats</li>
-            <li><strong>Live Bait:</strong> Shrimp, pilchards, and pinfish are popular choices</li>
-            <li><strong>Soft Plastics:</strong> Effective for redfish, snook, and trout</li>
-            <li><strong>Topwater Lures:</strong> Productive during early morning and evening</li>
-            <li><strong>Fly Fishing:</strong> Excellent opportunities on shallow flats</li>
-          </ul>
-
-          <h3>River Fishing</h3>
-          <p>
-            For Caloosahatchee River fishing:
-          </p>
-          <ul>
-            <li>Live bait fishing in current</li>
-            <li>Jigging around structure</li>
-            <li>Bottom fishing in deeper areas</li>
-            <li>Adjust techniques based on tide and freshwater flow</li>
-          </ul>
-
-          <h3>Nearshore Techniques</h3>
-          <p>
-            For nearshore fishing:
-          </p>
-          <ul>
-            <li>Bottom fishing on reefs and structure</li>
-            <li>Live bait fishing for grouper and snapper</li>
-            <li>Trolling for pelagic species</li>
-            <li>Heavier tackle required for deeper water</li>
-          </ul>
-        </section>
-
-        <section id="planning-your-trip">
-          <h2>Planning Your Fort Myers Fishing Trip</h2>
-          <p>
-            Planning ahead helps ensure a successful fishing trip in Fort Myers.
-          </p>
-          
-          <h3>Check Conditions</h3>
-          <p>
-            Before heading out:
-          </p>
-          <ul>
-            <li>Review tide charts for your fishing location</li>
-            <li>Check weather forecasts (wind, temperature, storms)</li>
-            <li>Consider time of day and seasonal patterns</li>
-            <li>Check current fishing reports if available</li>
-          </ul>
-
-          <h3>Licenses and Regulations</h3>
-          <p>
-            Ensure compliance:
-          </p>
-          <ul>
-            <li>Obtain required Florida fishing license</li>
-            <li>Check current size limits and bag limits</li>
-            <li>Review seasonal closures and special regulations</li>
-            <li>Be aware of any special regulations for specific areas</li>
-          </ul>
-
-          <h3>Local Resources</h3>
-          <p>
-            Fort Myers offers excellent resources:
-          </p>
-          <ul>
-            <li>Local tackle shops for gear and advice</li>
-            <li>Fishing charters for guided experiences</li>
-            <li>Boat rentals for independent fishing</li>
-            <li>Kayak rentals for backwater exploration</li>
-          </ul>
-        </section>
-
-        <ContentUpgradeCTA
-          location="Fort Myers"
-          pageType="location"
-          slug="fl/fort-myers"
-          className="my-12"
-        />
-
-        <PrimaryCTA
-          title="Get Fort Myers Fishing Forecasts"
-          copy="Download Tackle and get daily fishing conditions, best times, and expert advice specifically for Fort Myers, Florida."
-          buttonText="download"
-          position="end"
-          pageType="location"
-          slug="fl/fort-myers"
-          location="Fort Myers"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related How-To Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-            <li><Link href="/how-to/how-weather-affects-fishing">How Weather Affects Fishing</Link></li>
-            <li><Link href="/how-to/what-is-a-good-tide-to-fish">What Is a Good Tide to Fish</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Popular Species in Fort Myers</h2>
-          <ul>
-            <li><Link href="/species/redfish">Redfish Fishing Guide</Link></li>
-            <li><Link href="/species/snook">Snook Fishing Guide</Link></li>
-            <li><Link href="/species/speckled-trout">Speckled Trout Fishing Guide</Link></li>
-            <li><Link href="/species/tarpon">Tarpon Fishing Guide</Link></li>
-            <li><Link href="/species/largemouth-bass">Largemouth Bass Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          stateCode="FL"
-          pageType="location"
-          slug="fl/fort-myers"
-          location="Fort Myers"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="location"
-          slug="fl/fort-myers"
-          location="Fort Myers"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -1,483 +0,0 @@
-/**
- * Naples, Florida - Location Fishing Guide
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { ContentUpgradeCTA } from '@/components/conversion/ContentUpgradeCTA';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Fishing in Naples, Florida: Complete Guide to Naples Fishing',
-  description: 'Discover the best fishing spots, species, and techniques in Naples, Florida. Get expert tips for inshore, pier, and offshore fishing in Naples.',
-  alternates: {
-    canonical: generateCanonical('/locations/fl/naples'),
-  },
-  openGraph: {
-    title: 'Fishing in Naples, Florida: Complete Guide',
-    description: 'Discover the best fishing spots, species, and techniques in Naples, Florida.',
-    url: generateCanonical('/locations/fl/naples'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What fish can you catch in Naples, Florida?',
-    answer: 'Naples offers excellent fishing for redfish, snook, speckled trout, tarpon, grouper, snapper, and many other species. Inshore fishing is particularly productive for redfish and snook, while offshore fishing offers grouper, snapper, and other reef fish.',
-  },
-  {
-    question: 'What is the best time of year to fish in Naples?',
-    answer: 'Fishing in Naples is productive year-round, but fall and winter (October through March) are often considered prime seasons. Spring and summer also offer excellent fishing, especially for tarpon during summer months. Each season offers different opportunities.',
-  },
-  {
-    question: 'Where are the best fishing spots in Naples?',
-    answer: 'Popular spots include Naples Pier, Gordon Pass, Rookery Bay, and the many inshore flats and mangrove areas. Offshore fishing is excellent in the Gulf of Mexico. Many anglers also fish the backwaters and channels throughout the area.',
-  },
-  {
-    question: 'Do you need a fishing license in Naples, Florida?',
-    answer: 'Yes, a Florida fishing license is required for most fishing in Naples. Some exceptions apply for fishing from piers or for certain age groups. Always check current regulations and requirements before fishing.',
-  },
-  {
-    question: 'What is the best time of day to fish in Naples?',
-    answer: 'Early morning and late afternoon to evening are typically most productive. Many anglers prefer fishing during incoming tide, especially for inshore species. However, fishing can be productive throughout the day depending on conditions and target species.',
-  },
-  {
-    question: 'Can you fish from shore in Naples?',
-    answer: 'Yes, Naples offers excellent shore fishing opportunities. Naples Pier is a popular spot, and many beaches and shorelines provide access to good fishing. Inshore areas with mangroves and structure also offer productive shore fishing.',
-  },
-  {
-    question: 'What tackle and gear do I need for Naples fishing?',
-    answer: 'For inshore fishing, medium-light to medium spinning or baitcasting gear works well. Live bait, soft plastics, and topwater lures are popular. Offshore fishing requires heavier tackle. Local tackle shops can provide specific recommendations based on your target species.',
-  },
-  {
-    question: 'Are there fishing charters available in Naples?',
-    answer: 'Yes, Naples has many experienced fishing charters offering inshore, nearshore, and offshore trips. Charters provide equipment, local knowledge, and access to productive fishing areas. Booking in advance is recommended, especially during peak seasons.',
-  },
-];
-
-export default function NaplesLocationPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'Locations', item: 'https://tackleapp.ai/locations' },
-          { name: 'Florida', item: 'https://tackleapp.ai/locations/fl' },
-          { name: 'Naples', item: 'https://tackleapp.ai/locations/fl/naples' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="location-page">
-        <header className="page-header">
-          <h1>Fishing in Naples, Florida</h1>
-          <p className="page-intro">
-            Naples, Florida offers world-class fishing opportunities in the Gulf of Mexico and its extensive backwater system. From inshore flats teeming with redfish and snook to offshore reefs holding grouper and snapper, Naples provides diverse fishing experiences for anglers of all skill levels. This guide covers the best species, seasons, techniques, and locations for fishing in Naples.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1664733062150-002f3858f3c8?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Naples Florida beach at sunset - gulf coast fishing"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#common-species">Common Species</a></li>
-            <li><a href="#seasonal-patterns">Seasonal Patterns</a></li>
-            <li><a href="#best-times">Best Times of Day</a></li>
-            <li><a href="#fishing-locations">Where to Fish</a></li>
-            <li><a href="#techniques">Fishing Techniques</a></li>
-            <li><a href="#planning-your-trip">Planning Your Trip</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Fish Naples Like a Local"
-          copy="Get real-time fishing conditions, best spots, and expert advice for Naples, Florida. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="location"
-          slug="fl/naples"
-          location="Naples"
-          className="my-8"
-        />
-
-        <section id="common-species">
-          <h2>Common Species in Naples</h2>
-          <p>
-            Naples waters support a diverse range of fish species, from inshore favorites to offshore gamefish. Understanding what species are available helps you plan your fishing trip and choose appropriate techniques.
-          </p>
-          
-          <h3>Inshore Species</h3>
-          <p>
-            Naples' inshore waters are famous for:
-          </p>
-          <ul>
-            <li><strong>Redfish:</strong> Abundant in shallow flats, grass beds, and mangrove areas. Naples offers excellent redfish fishing year-round, with fall and winter often being most productive.</li>
-            <li><strong>Snook:</strong> Popular gamefish found near mangroves, bridges, and structure. Snook fishing is excellent, especially during spring and fall migrations.</li>
-            <li><strong>Speckled Trout:</strong> Common in grass beds and shallow flats. Trout fishing is productive throughout the year, with peak seasons in fall and spring.</li>
-            <li><strong>Tarpon:</strong> Summer months bring tarpon to Naples waters. These powerful fish are popular targets for experienced anglers.</li>
-            <li><strong>Sheepshead:</strong> Found around structure, bridges, and docks. Sheepshead fishing is productive year-round, especially during cooler months.</li>
-          </ul>
-
-          <h3>Offshore Species</h3>
-          <p>
-            Offshore fishing in the Gulf of Mexico offers:
-          </p>
-          <ul>
-            <li><strong>Grouper:</strong> Red and gag grouper are popular targets on reefs and structure. Grouper fishing is productive year-round, with seasonal regulations.</li>
-            <li><strong>Snapper:</strong> Various snapper species including mangrove, yellowtail, and red snapper are found on reefs and structure.</li>
-            <li><strong>Kingfish:</strong> Popular during spring and fall migrations. Kingfish are often found in nearshore waters.</li>
-            <li><strong>Amberjack:</strong> Found on reefs and structure, especially during spring and summer months.</li>
-          </ul>
-        </section>
-
-        <section id="seasonal-patterns">
-          <h2>Seasonal Patterns</h2>
-          <p>
-            Naples fishing varies by season, with each time of year offering different opportunities and challenges.
-          </p>
-          
-          <h3>Fall (October - November)</h3>
-          <p>
-            Fall is often considered prime fishing season in Naples:
-          </p>
-          <ul>
-            <li>Cooling water temperatures increase fish activity</li>
-            <li>Redfish and snook fishing is excellent</li>
-            <li>Tarpon season winds down but some fish remain</li>
-            <li>Comfortable weather conditions for anglers</li>
-            <li>Many species feed heavily before winter</li>
-          </ul>
-
-          <h3>Winter (December - February)</h3>
-          <p>
-            Winter fishing in Naples remains productive:
-          </p>
-          <ul>
-            <li>Redfish and snook continue to be active</li>
-            <li>Speckled trout fishing can be excellent</li>
-            <li>Sheepshead fishing peaks during cooler months</li>
-            <li>Offshore fishing remains productive for grouper and snapper</li>
-            <li>Weather is generally comfortable, though occasional cold fronts occur</li>
-          </ul>
-
-          <h3>Spring (March - May)</h3>
-          <p>
-            Spring brings increased activity:
-          </p>
-          <ul>
-            <li>Snook begin spring migrations and spawning activity</li>
-            <li>Redfish fishing remains excellent</li>
-            <li>Tarpon begin arriving in late spring</li>
-            <li>Kingfish appear in nearshore waters</li>
-            <li>Overall fishing activity increases as water warms</li>
-          </ul>
-
-          <h3>Summer (June - September)</h3>
-          <p>
-            Summer offers unique opportunities:
-          </p>
-          <ul>
-            <li>Tarpon fishing peaks during summer months</li>
-            <li>Early morning and evening fishing is essential to avoid heat</li>
-            <li>Night fishing becomes more attractive</li>
-            <li>Offshore fishing for grouper and snapper remains productive</li>
-            <li>Inshore fishing requires early starts or evening sessions</li>
-          </ul>
-        </section>
-
-        <section id="best-times">
-          <h2>Best Times of Day</h2>
-          <p>
-            Timing your Naples fishing trip can significantly impact your success. Understanding daily patterns helps you choose the best times to go out.
-          </p>
-          
-          <h3>Early Morning</h3>
-          <p>
-            Early morning (dawn to 10 AM) is often most productive:
-          </p>
-          <ul>
-            <li>Cooler water temperatures make fish more active</li>
-            <li>Low light conditions make fish less cautious</li>
-            <li>Many species feed actively after night</li>
-            <li>Calm conditions are common</li>
-            <li>Especially important during summer months</li>
-          </ul>
-          <p>
-            In Naples, arriving at your spot before or at sunrise maximizes your time during this productive period.
-          </p>
-
-          <h3>Late Afternoon to Evening</h3>
-          <p>
-            Evening fishing (4 PM to dusk) offers another prime window:
-          </p>
-          <ul>
-            <li>Cooling temperatures increase fish activity</li>
-            <li>Decreasing light makes fish less cautious</li>
-            <li>Many species move into shallow water to feed</li>
-            <li>Comfortable conditions for anglers</li>
-            <li>Particularly productive during summer</li>
-          </ul>
-
-          <h3>Combining with Tides</h3>
-          <p>
-            The best fishing often occurs when optimal time of day combines with favorable tides:
-          </p>
-          <ul>
-            <li>Early morning + incoming tide = excellent shallow water fishing</li>
-            <li>Evening + outgoing tide = productive channel and structure fishing</li>
-            <li>Moving tides during dawn or dusk are often most productive</li>
-          </ul>
-        </section>
-
-        <section id="fishing-locations">
-          <h2>Where to Fish in Naples</h2>
-          <p>
-            Naples offers diverse fishing locations from shore, piers, inshore waters, and offshore areas.
-          </p>
-          
-          <h3>Naples Pier</h3>
-          <p>
-            Naples Pier is a popular fishing destination:
-          </p>
-          <ul>
-            <li>No fishing license required when fishing from the pier</li>
-            <li>Accessible to anglers of all skill levels</li>
-            <li>Productive for snook, pompano, mackerel, and other species</li>
-            <li>Best fishing during incoming and outgoing tides</li>
-            <li>Early morning and evening are typically most productive</li>
-          </ul>
-
-          <h3>Inshore Flats and Backwaters</h3>
-          <p>
-            Naples' extensive backwater system offers:
-          </p>
-          <ul>
-            <li>Shallow flats for sight fishing redfish and snook</li>
-            <li>Mangrove shorelines and channels</li>
-            <li>Grass beds holding trout and redfish</li>
-            <li>Access by kayak, small boat, or wading</li>
-            <li>Best during incoming tide when water covers shallow areas</li>
-          </ul>
-
-          <h3>Gordon Pass and Channels</h3>
-          <p>
-            Gordon Pass and connecting channels provide:
-          </p>
-          <ul>
-            <li>Current flow that concentrates fish</li>
-            <li>Structure and drop-offs holding snook and redfish</li>
-            <li>Productive during outgoing tide</li>
-            <li>Access to both inshore and nearshore waters</li>
-          </ul>
-
-          <h3>Rookery Bay</h3>
-          <p>
-            Rookery Bay National Estuarine Research Reserve offers:
-          </p>
-          <ul>
-            <li>Protected waters with excellent inshore fishing</li>
-            <li>Diverse habitat supporting many species</li>
-            <li>Kayak and small boat access</li>
-            <li>Productive year-round fishing</li>
-          </ul>
-
-          <h3>Offshore Reefs and Structure</h3>
-          <p>
-            Offshore fishing in the Gulf of Mexico provides:
-          </p>
-          <ul>
-            <li>Reefs and structure holding grouper and snapper</li>
-            <li>Access by boat (charter or private)</li>
-            <li>Productive year-round with seasonal variations</li>
-            <li>Various depths from nearshore to deep water</li>
-          </ul>
-        </section>
-
-        <section id="techniques">
-          <h2>Fishing Techniques for Naples</h2>
-          <p>
-            Successful Naples fishing requires adapting techniques to location, species, and conditions.
-          </p>
-          
-          <h3>Inshore Techniques</h3>
-          <p>
-            For inshore fishing:
-          </p>
-          <ul>
-            <li><strong>Sight Fishing:</strong> Spotting and casting to visible fish on shallow flats</li>
-            <li><strong>Live Bait:</strong> Shrimp, pilchards, and pinfish are popular choices</li>
-            <li><strong>Soft Plastics:</strong> Effective for redfish, snook, and trout</li>
-            <li><strong>Topwater Lures:</strong> Productive during early morning and evening</li>
-            <li><strong>Fly Fishing:</strong> Excellent opportunities on shallow flats</li>
-          </ul>
-
-          <h3>Pier Fishing</h3>
-          <p>
-            Naples Pier techniques:
-          </p>
-          <ul>
-            <li>Bottom fishing with live or cut bait</li>
-            <li>Jigging for mackerel and other pelagic species</li>
-            <li>Float rigs for pompano and other species</li>
-            <li>Adjust techniques based on tide and time of day</li>
-          </ul>
-
-          <h3>Offshore Techniques</h3>
-          <p>
-            For offshore fishing:
-          </p>
-          <ul>
-            <li>Bottom fishing on reefs and structure</li>
-            <li>Trolling for pelagic species</li>
-            <li>Live bait fishing for grouper and snapper</li>
-            <li>Heavier tackle required for deeper water</li>
-          </ul>
-        </section>
-
-        <section id="planning-your-trip">
-          <h2>Planning Your Naples Fishing Trip</h2>
-          <p>
-            Planning ahead helps ensure a successful fishing trip in Naples.
-          </p>
-          
-          <h3>Check Conditions</h3>
-          <p>
-            Before heading out:
-          </p>
-          <ul>
-            <li>Review tide charts for your fishing location</li>
-            <li>Check weather forecasts (wind, temperature, storms)</li>
-            <li>Consider time of day and seasonal patterns</li>
-            <li>Check current fishing reports if available</li>
-          </ul>
-
-          <h3>Licenses and Regulations</h3>
-          <p>
-            Ensure compliance:
-          </p>
-          <ul>
-            <li>Obtain required Florida fishing license</li>
-            <li>Check current size limits and bag limits</li>
-            <li>Review seasonal closures and special regulations</li>
-            <li>Note: No license needed when fishing from Naples Pier</li>
-          </ul>
-
-          <h3>Local Resources</h3>
-          <p>
-            Naples offers excellent resources:
-          </p>
-          <ul>
-            <li>Local tackle shops for gear and advice</li>
-            <li>Fishing charters for guided experiences</li>
-            <li>Boat rentals for independent fishing</li>
-            <li>Kayak rentals for backwater exploration</li>
-          </ul>
-        </section>
-
-        <ContentUpgradeCTA
-          location="Naples"
-          pageType="location"
-          slug="fl/naples"
-          className="my-12"
-        />
-
-        <PrimaryCTA
-          title="Get Naples Fishing Forecasts"
-          copy="Download Tackle and get daily fishing conditions, best times, and expert advice specifically for Naples, Florida."
-          buttonText="download"
-          position="end"
-          pageType="location"
-          slug="fl/naples"
-          location="Naples"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related How-To Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-            <li><Link href="/how-to/how-weather-affects-fishing">How Weather Affects Fishing</Link></li>
-            <li><Link href="/how-to/what-is-a-good-tide-to-fish">What Is a Good Tide to Fish</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-species">
-          <h2>Popular Species in Naples</h2>
-          <ul>
-            <li><Link href="/species/redfish">Redfish Fishing Guide</Link></li>
-            <li><Link href="/species/snook">Snook Fishing Guide</Link></li>
-            <li><Link href="/species/speckled-trout">Speckled Trout Fishing Guide</Link></li>
-            <li><Link href="/species/tarpon">Tarpon Fishing Guide</Link></li>
-            <li><Link href="/species/largemouth-bass">Largemouth Bass Fishing Guide</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          stateCode="FL"
-          pageType="location"
-          slug="fl/naples"
-          location="Naples"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="location"
-          slug="fl/naples"
-          location="Naples"
-        />
-      </article>
-    </>
-  );
-}
-
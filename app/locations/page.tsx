@@ -4,6 +4,8 @@
 
 import { Metadata } from 'next';
 import { generateCanonical } from '@/lib/seo/canonical';
+import { loadStateHubs } from '@/lib/content/locations';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
 import Link from 'next/link';
 import Image from 'next/image';
 
@@ -15,52 +17,8 @@ export const metadata: Metadata = {
   },
 };
 
-const locations = [
-  {
-    state: 'fl',
-    city: 'naples',
-    name: 'Naples, Florida',
-    description: 'Explore the best fishing spots in Naples, including inshore, offshore, and pier fishing opportunities.',
-    image: 'https://images.unsplash.com/photo-1664733062150-002f3858f3c8?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    state: 'fl',
-    city: 'tampa',
-    name: 'Tampa, Florida',
-    description: 'Complete guide to fishing in Tampa Bay, from redfish flats to offshore grouper grounds.',
-    image: 'https://images.unsplash.com/photo-1566067794186-928053eabf51?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    state: 'fl',
-    city: 'miami',
-    name: 'Miami, Florida',
-    description: 'Discover Miami fishing opportunities, including Biscayne Bay, the Keys, and offshore fishing.',
-    image: 'https://images.unsplash.com/photo-1621362770024-5952f6090a00?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    state: 'fl',
-    city: 'fort-myers',
-    name: 'Fort Myers, Florida',
-    description: 'Learn about the best fishing in Fort Myers, from Caloosahatchee River to Sanibel Island.',
-    image: 'https://images.unsplash.com/photo-1762895628023-531bfe46bb0b?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    state: 'fl',
-    city: 'sarasota',
-    name: 'Sarasota, Florida',
-    description: 'Complete guide to fishing in Sarasota, including inshore snook, redfish, and trout fishing.',
-    image: 'https://images.unsplash.com/photo-1609697101432-cd892bdac51e?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-];
-
-export default function LocationsIndexPage() {
-  const locationsByState = locations.reduce((acc, loc) => {
-    if (!acc[loc.state]) {
-      acc[loc.state] = [];
-    }
-    acc[loc.state].push(loc);
-    return acc;
-  }, {} as Record<string, typeof locations>);
+export default async function LocationsIndexPage() {
+  const stateHubs = await loadStateHubs();
 
   return (
     <div>
@@ -71,16 +29,18 @@ export default function LocationsIndexPage() {
         </p>
       </header>
 
-      {Object.entries(locationsByState).map(([state, stateLocations]) => (
-        <section key={state} className="mb-12">
-          <h2 className="text-3xl font-semibold mb-6 capitalize">{state.toUpperCase()}</h2>
+      {stateHubs.map((hub) => (
+        <section key={hub.stateSlug} className="mb-12">
+          <h2 className="text-3xl font-semibold mb-6">
+            <Link href={`/locations/${hub.stateSlug}`} className="hover:text-blue-600">{hub.state}</Link>
+          </h2>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {stateLocations.map((loc) => (
-              <Link key={`${loc.state}-${loc.city}`} href={`/locations/${loc.state}/${loc.city}`} className="group block overflow-hidden rounded-xl border border-gray-200 hover:shadow-xl hover:border-blue-300 transition-all">
+            {hub.locations.map((loc) => (
+              <Link key={loc.slug} href={`/locations/${loc.slug}`} className="group block overflow-hidden rounded-xl border border-gray-200 hover:shadow-xl hover:border-blue-300 transition-all">
                 <div className="relative h-48 w-full overflow-hidden bg-gray-200">
                   <Image
-                    src={loc.image}
-                    alt={`Fishing in ${loc.name}`}
+                    src={loc.heroImage || getCategoryFallbackImage()}
+                    alt={`Fishing in ${loc.city}, ${loc.state}`}
                     fill
                     className="object-cover transition-transform duration-300 group-hover:scale-105"
                     sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
@@ -88,7 +48,7 @@ export default function LocationsIndexPage() {
                 </div>
                 <div className="p-5">
                   <h3 className="text-xl font-bold mb-2 text-gray-900 group-hover:text-blue-600 transition-colors">
-                    {loc.name}
+                    {loc.city}, {loc.state}
                   </h3>
                   <p className="text-gray-600 text-sm mb-3">{loc.description}</p>
                   <span className="text-sm font-semibold text-blue-600 group-hover:text-blue-700">
@@ -14,6 +14,14 @@ import feedIndex from '@/content/_system/feedIndex.json';
 import { FeedCard } from '@/components/feed/FeedCard';
 import type { FeedItemIndexEntry } from '@/lib/types/feed';
 
+/**
+ * Blog index entries that are live (no drafts / posts scheduled for later)
+ */
+function isListed(post: { flags?: { draft?: boolean; noindex?: boolean }; scheduledFor?: string }): boolean {
+  if (post.flags?.draft || post.flags?.noindex) return false;
+  return !post.scheduledFor || new Date(post.scheduledFor).getTime() <= Date.now();
+}
+
 export default function HomePage() {
   const [menuOpen, setMenuOpen] = useState(false);
   const animatedRefs = useRef<(HTMLDivElement | null)[]>([]);
@@ -304,7 +312,7 @@ export default function HomePage() {
             </Link>
           </div>
           <div className={styles.blogGrid}>
-            {contentIndex.blogPosts.slice(0, 3).map((post) => (
+            {contentIndex.blogPosts.filter(isListed).slice(0, 3).map((post) => (
               <Link key={post.slug} href={`/blog/${post.slug}`} className={styles.blogCard}>
                 <div className={styles.blogCardImage}>
                   <Image
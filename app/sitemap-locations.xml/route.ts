@@ -22,11 +22,19 @@ export async function GET() {
     <changefreq>weekly</changefreq>
     <priority>0.7</priority>
   </url>`;
-    }).join('\n');
+    });
+
+    // State hubs (/locations/fl) - one per state with published locations
+    const stateSlugs = Array.from(new Set(locations.map((doc) => (doc as Extract<typeof doc, { pageType: 'location' }>).stateSlug)));
+    const hubUrls = stateSlugs.map((stateSlug) => `  <url>
+    <loc>${xmlEscape(absoluteUrl(`/locations/${stateSlug}`))}</loc>
+    <changefreq>weekly</changefreq>
+    <priority>0.6</priority>
+  </url>`);
     
     const xml = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${urls}
+${[...urls, ...hubUrls].join('\n')}
 </urlset>`;
     
     return new NextResponse(xml, {
@@ -0,0 +1,298 @@
+/**
+ * Dynamic Species Page
+ * Renders any published SpeciesDoc from content/species/{slug}.json
+ */
+
+import { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { generateCanonical } from '@/lib/seo/canonical';
+import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
+import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
+import { AppStorePreviewModule } from '@/components/conversion/AppStorePreviewModule';
+import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
+import { AuthorSchema } from '@/components/seo/AuthorSchema';
+import { BreadcrumbSchema, generateBreadcrumbsFromPath } from '@/components/seo/BreadcrumbSchema';
+import { FaqSchema } from '@/components/seo/FaqSchema';
+import { ArticleSchema } from '@/components/seo/ArticleSchema';
+import { LastUpdated } from '@/components/content/LastUpdated';
+import { SourcesSection } from '@/components/content/SourcesSection';
+import { DocMarkdown } from '@/components/content/DocMarkdown';
+import { linkCitations } from '@/lib/content/citations';
+import { getSpeciesBySlug, getSpeciesName } from '@/lib/content/species';
+import { getAllSpeciesSlugs } from '@/lib/content/index';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
+import Link from 'next/link';
+import { formatSlug } from '@/lib/utils';
+import Image from 'next/image';
+
+interface SpeciesPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * Generate static params for all published species
+ */
+export async function generateStaticParams() {
+  try {
+    const slugs = await getAllSpeciesSlugs();
+    return slugs.map((slug) => ({ slug }));
+  } catch (error) {
+    // Empty or invalid index must not fail the build
+    console.error('Failed to load species slugs for static params:', error);
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: SpeciesPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const doc = await getSpeciesBySlug(slug);
+
+  if (!doc) {
+    return {
+      title: 'Species Not Found',
+      robots: {
+        index: false,
+        follow: false,
+      },
+    };
+  }
+
+  const canonicalUrl = generateCanonical(`/species/${slug}`);
+
+  return {
+    title: doc.title,
+    description: doc.description,
+    keywords: [doc.primaryKeyword, ...doc.secondaryKeywords].join(', '),
+    alternates: {
+      canonical: canonicalUrl,
+    },
+    openGraph: {
+      title: doc.title,
+      description: doc.description,
+      url: canonicalUrl,
+      type: 'article',
+      images: doc.heroImage ? [{ url: doc.heroImage, width: 1200, height: 600, alt: doc.title }] : undefined,
+    },
+  };
+}
+
+export default async function SpeciesPage({ params }: SpeciesPageProps) {
+  const { slug } = await params;
+  const doc = await getSpeciesBySlug(slug);
+
+  if (!doc) {
+    notFound();
+  }
+
+  const name = getSpeciesName(doc);
+  const meta = doc.speciesMeta || {};
+  const heroImage = doc.heroImage || getCategoryFallbackImage('species');
+  const breadcrumbs = generateBreadcrumbsFromPath(`/species/${slug}`, { species: 'Species' }, name);
+
+  // Regulations link follows the first related location's state ("fl/naples" → FL)
+  const stateCode = doc.related?.locationSlugs?.[0]?.split('/')[0]?.toUpperCase();
+
+  // Inline [^source-id] markers → numbered footnote links (SourcesSection links back to them)
+  const citations = linkCitations(doc.body, doc.sources || []);
+  const tocHeadings = doc.headings.filter((h) => h.level === 2 && h.id);
+
+  const metaRows: Array<[string, string | undefined]> = [
+    ['Scientific name', meta.scientificName],
+    ['Also known as', meta.commonNames?.slice(1).join(', ') || undefined],
+    ['Habitats', meta.habitats?.join(', ')],
+    ['Target depths', meta.targetDepths],
+    ['Average size', meta.averageSize],
+    ['Maximum size', meta.maxSize],
+  ];
+
+  return (
+    <>
+      <AuthorSchema author={doc.author} />
+      <BreadcrumbSchema items={breadcrumbs} />
+      <FaqSchema faqs={doc.faqs} />
+      <ArticleSchema
+        headline={doc.title}
+        description={doc.description}
+        author={doc.author}
+        datePublished={doc.dates.publishedAt}
+        dateModified={doc.dates.updatedAt}
+        image={heroImage}
+        url={`/species/${slug}`}
+      />
+
+      <article className="species-page">
+        <header className="page-header">
+          <h1>{doc.title}</h1>
+          <p className="page-intro">{doc.description}</p>
+        </header>
+
+        {/* Hero Image */}
+        <div className="mb-8 -mx-4 sm:mx-0">
+          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
+            <Image
+              src={heroImage}
+              alt={`${name} fishing guide`}
+              fill
+              priority
+              className="object-cover"
+              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
+            />
+          </div>
+          <p className="text-xs text-gray-400 mt-2 text-right">
+            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
+          </p>
+        </div>
+
+        {/* Species Meta */}
+        <section className="species-meta my-8">
+          <h2>{name} at a Glance</h2>
+          <table className="w-full text-left border border-gray-200 rounded-lg overflow-hidden">
+            <tbody>
+              {metaRows
+                .filter(([, value]) => value)
+                .map(([label, value]) => (
+                  <tr key={label} className="border-b border-gray-200">
+                    <th className="p-3 bg-gray-50 font-semibold w-1/3">{label}</th>
+                    <td className="p-3">{value}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+
+          {((meta.bestSeasons?.length ?? 0) > 0 || (meta.bestTides?.length ?? 0) > 0) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+              {meta.bestSeasons && meta.bestSeasons.length > 0 && (
+                <div>
+                  <h3>Best Seasons</h3>
+                  <ul>
+                    {meta.bestSeasons.map((season) => (
+                      <li key={season}>{season}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {meta.bestTides && meta.bestTides.length > 0 && (
+                <div>
+                  <h3>Best Tides</h3>
+                  <ul>
+                    {meta.bestTides.map((tide) => (
+                      <li key={tide}>{tide}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+
+        {tocHeadings.length >= 3 && (
+          <nav className="table-of-contents">
+            <h2>Table of Contents</h2>
+            <ul>
+              {tocHeadings.map((heading) => (
+                <li key={heading.id}>
+                  <a href={`#${heading.id}`}>{heading.text}</a>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+
+        <PrimaryCTA
+          title={`Catch More ${name} with Tackle`}
+          copy={`Get real-time conditions, best spots, and expert advice for ${name.toLowerCase()} fishing. Download Tackle for iPhone.`}
+          buttonText="default"
+          position="above_fold"
+          pageType="species"
+          slug={slug}
+          species={slug}
+          className="my-8"
+        />
+
+        <div className="species-body">
+          <DocMarkdown body={citations.body} headings={doc.headings} />
+        </div>
+
+        <AppStorePreviewModule className="my-12" />
+
+        <PrimaryCTA
+          title={`Track Your ${name} Catches`}
+          copy={`Log every ${name.toLowerCase()} you catch with GPS location, photos, and conditions. Download Tackle for iPhone.`}
+          buttonText="download"
+          position="end"
+          pageType="species"
+          slug={slug}
+          species={slug}
+          className="my-12"
+        />
+
+        {doc.related?.howToSlugs && doc.related.howToSlugs.length > 0 && (
+          <section className="related-content">
+            <h2>Related How-To Guides</h2>
+            <ul>
+              {doc.related.howToSlugs.map((howTo) => (
+                <li key={howTo}>
+                  <Link href={`/how-to/${howTo}`}>{formatSlug(howTo)}</Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {doc.related?.locationSlugs && doc.related.locationSlugs.length > 0 && (
+          <section className="related-locations">
+            <h2>Top {name} Fishing Locations</h2>
+            <ul>
+              {doc.related.locationSlugs.map((location) => {
+                const [state, city] = location.split('/');
+                return (
+                  <li key={location}>
+                    <Link href={`/locations/${location}`}>
+                      Fishing in {formatSlug(city || state)}{city ? `, ${state.toUpperCase()}` : ''}
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        {doc.faqs.length > 0 && (
+          <section className="faq-section">
+            <h2>Frequently Asked Questions</h2>
+            <div className="faq-list">
+              {doc.faqs.map((faq, index) => (
+                <div key={index} className="faq-item">
+                  <h3 className="faq-question">{faq.question}</h3>
+                  <p className="faq-answer">{faq.answer}</p>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {doc.sources && doc.sources.length > 0 && (
+          <SourcesSection sources={doc.sources} citations={citations.backlinks} className="my-8" />
+        )}
+
+        <RegulationsOutboundLinkBlock
+          stateCode={stateCode}
+          pageType="species"
+          slug={slug}
+          className="my-8"
+        />
+
+        <LastUpdated
+          date={doc.dates.updatedAt}
+          author={doc.author.name}
+        />
+
+        <StickyBottomCTA
+          pageType="species"
+          slug={slug}
+          species={slug}
+        />
+      </article>
+    </>
+  );
+}
@@ -1,438 +0,0 @@
-/**
- * Largemouth Bass Species Page
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { AppStorePreviewModule } from '@/components/conversion/AppStorePreviewModule';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Largemouth Bass Fishing Guide: Habitat, Behavior, and Techniques',
-  description: 'Learn everything about largemouth bass fishing including habitat, behavior, best times to catch them, and proven techniques. Expert guide for targeting largemouth bass in Florida waters.',
-  alternates: {
-    canonical: generateCanonical('/species/largemouth-bass'),
-  },
-  openGraph: {
-    title: 'Largemouth Bass Fishing Guide: Habitat, Behavior, and Techniques',
-    description: 'Learn everything about largemouth bass fishing including habitat, behavior, and proven techniques.',
-    url: generateCanonical('/species/largemouth-bass'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is the best time of year to catch largemouth bass?',
-    answer: 'Largemouth bass fishing is productive year-round in Florida, but spring and fall are often considered prime seasons. Spring brings spawning activity and excellent fishing, while fall offers good feeding activity as water cools. Winter and summer also offer opportunities.',
-  },
-  {
-    question: 'Where do largemouth bass live?',
-    answer: 'Largemouth bass are found in freshwater lakes, rivers, and canals throughout Florida. They prefer areas with structure including vegetation, docks, fallen trees, and submerged cover. They\'re also found in brackish water in some areas.',
-  },
-  {
-    question: 'What is the best time of day to catch largemouth bass?',
-    answer: 'Early morning and late afternoon to evening are typically most productive for largemouth bass. Many anglers find early morning especially productive as bass feed actively after night. Low light conditions make bass less cautious.',
-  },
-  {
-    question: 'What bait works best for largemouth bass?',
-    answer: 'Live bait is often most effective for largemouth bass, including shiners, worms, and crawfish. Artificial lures like soft plastics, topwater lures, spinnerbaits, and crankbaits also work well. The best choice depends on location, conditions, and time of year.',
-  },
-  {
-    question: 'Do largemouth bass bite better in warm or cold water?',
-    answer: 'Largemouth bass are most active when water temperatures are in their preferred range (typically 65-75°F). However, they can be caught in both warm and cold water. In Florida, bass remain active throughout the year due to mild winters.',
-  },
-  {
-    question: 'What tackle do I need for largemouth bass fishing?',
-    answer: 'Medium spinning or baitcasting gear works well for largemouth bass. Use 10-20 lb braided line with a 12-20 lb fluorocarbon leader. Heavier tackle may be needed for larger bass or fishing heavy cover.',
-  },
-  {
-    question: 'How do I identify a largemouth bass?',
-    answer: 'Largemouth bass are easily identified by their greenish body with a dark lateral line, large mouth that extends past the eye, and distinctive appearance. They typically have a white belly and dark markings along the sides.',
-  },
-  {
-    question: 'Are largemouth bass good to eat?',
-    answer: 'Largemouth bass are considered good table fare, though many anglers practice catch and release. Always check current regulations for size limits, bag limits, and any seasonal closures. Regulations vary by location.',
-  },
-];
-
-export default function LargemouthBassSpeciesPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'Species', item: 'https://tackleapp.ai/species' },
-          { name: 'Largemouth Bass', item: 'https://tackleapp.ai/species/largemouth-bass' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="species-page">
-        <header className="page-header">
-          <h1>Largemouth Bass Fishing Guide: Habitat, Behavior, and Techniques</h1>
-          <p className="page-intro">
-            Largemouth bass are one of America's most popular freshwater gamefish, and Florida offers world-class largemouth bass fishing. Known for their aggressive strikes, powerful fights, and impressive size potential, largemouth bass provide exciting fishing opportunities in lakes, rivers, and canals throughout Florida. This guide covers largemouth bass habitat, behavior patterns, best times to catch them, and proven techniques for success.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1762655210992-e2dd74cf3118?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Kayak angler holding a caught bass on the water"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#about-largemouth-bass">About Largemouth Bass</a></li>
-            <li><a href="#habitat-behavior">Habitat & Behavior</a></li>
-            <li><a href="#when-they-bite">When They Bite Best</a></li>
-            <li><a href="#common-techniques">Common Techniques</a></li>
-            <li><a href="#tackle-gear">Tackle & Gear</a></li>
-            <li><a href="#best-locations">Best Locations</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Catch More Largemouth Bass with Tackle"
-          copy="Get real-time conditions, best spots, and expert advice for largemouth bass fishing. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="species"
-          slug="largemouth-bass"
-          species="largemouth bass"
-          className="my-8"
-        />
-
-        <section id="about-largemouth-bass">
-          <h2>About Largemouth Bass</h2>
-          <p>
-            Largemouth bass (Micropterus salmoides) are one of America's most popular freshwater gamefish. Florida is famous for producing large largemouth bass, with the state record exceeding 17 pounds. Largemouth bass are known for their aggressive feeding behavior, powerful fights, and impressive size potential.
-          </p>
-          
-          <h3>Physical Characteristics</h3>
-          <p>
-            Largemouth bass are easily identified by their distinctive appearance:
-          </p>
-          <ul>
-            <li><strong>Color:</strong> Greenish body with a dark lateral line running along the side</li>
-            <li><strong>Mouth:</strong> Large mouth that extends past the eye (distinguishing feature from smallmouth bass)</li>
-            <li><strong>Shape:</strong> Streamlined body built for speed and power</li>
-            <li><strong>Markings:</strong> Dark markings along the sides, white belly</li>
-            <li><strong>Size:</strong> Most largemouth bass caught range from 12 to 20 inches, with fish over 5 pounds being quality catches</li>
-          </ul>
-          <p>
-            Largemouth bass can grow to impressive sizes, especially in Florida where warm water and abundant food sources allow for rapid growth. Fish over 10 pounds are possible, though rare.
-          </p>
-
-          <h3>Why Anglers Love Largemouth Bass</h3>
-          <p>
-            Largemouth bass are popular among anglers for several reasons:
-          </p>
-          <ul>
-            <li><strong>Aggressive Strikes:</strong> Often hit lures and bait with explosive force</li>
-            <li><strong>Powerful Fights:</strong> Strong fighters that make impressive runs and jumps when hooked</li>
-            <li><strong>Accessibility:</strong> Found in freshwater accessible to shore anglers and small boats</li>
-            <li><strong>Year-Round Fishing:</strong> Can be caught throughout the year in Florida</li>
-            <li><strong>Size Potential:</strong> Florida offers the potential for trophy-sized fish</li>
-          </ul>
-        </section>
-
-        <section id="habitat-behavior">
-          <h2>Habitat & Behavior</h2>
-          <p>
-            Understanding largemouth bass habitat and behavior is key to finding and catching them consistently. Largemouth bass are structure-oriented fish that use cover to ambush prey.
-          </p>
-          
-          <h3>Preferred Habitat</h3>
-          <p>
-            Largemouth bass are found in a variety of freshwater habitats:
-          </p>
-          <ul>
-            <li><strong>Vegetation:</strong> Largemouth bass frequently position themselves in and around vegetation including lily pads, hydrilla, and eelgrass. Vegetation provides cover and attracts baitfish</li>
-            <li><strong>Structure:</strong> Docks, fallen trees, stumps, and rock piles provide excellent largemouth bass habitat. Structure offers ambush points and cover</li>
-            <li><strong>Shallow Areas:</strong> Largemouth bass often move into shallow water to feed, especially during early morning and evening</li>
-            <li><strong>Drop-offs:</strong> Areas where shallow water meets deeper water are productive, as bass can move between depths</li>
-            <li><strong>Canals and Rivers:</strong> Largemouth bass are found in canals and rivers throughout Florida, especially areas with structure and cover</li>
-            <li><strong>Lakes and Ponds:</strong> Natural and man-made lakes and ponds provide excellent largemouth bass habitat</li>
-          </ul>
-          <p>
-            Largemouth bass prefer areas with some form of cover or structure, as this provides ambush points and protection. They're often found near the edges of vegetation or structure where they can quickly strike at prey.
-          </p>
-
-          <h3>Behavior Patterns</h3>
-          <p>
-            Largemouth bass behavior varies by season, water temperature, and time of day:
-          </p>
-          <ul>
-            <li><strong>Feeding Behavior:</strong> Largemouth bass are ambush predators that often strike aggressively. They typically position themselves near cover and wait for prey to come within range</li>
-            <li><strong>Spawning Behavior:</strong> During spring, largemouth bass move into shallow water to spawn. This creates excellent fishing opportunities as fish are concentrated and protective of nests</li>
-            <li><strong>Temperature Sensitivity:</strong> Largemouth bass are most active when water temperatures are in their preferred range (typically 65-75°F). They may become less active in very cold or very hot water</li>
-            <li><strong>Depth Preferences:</strong> Largemouth bass often move between shallow and deep water based on temperature, oxygen levels, and feeding opportunities</li>
-            <li><strong>Schooling Behavior:</strong> Smaller largemouth bass often school, while larger fish are typically more solitary</li>
-          </ul>
-        </section>
-
-        <section id="when-they-bite">
-          <h2>When They Bite Best</h2>
-          <p>
-            Timing is crucial for largemouth bass fishing success. Understanding when largemouth bass are most active helps you plan productive fishing trips.
-          </p>
-          
-          <h3>Time of Day</h3>
-          <p>
-            Largemouth bass feeding activity varies throughout the day:
-          </p>
-          <ul>
-            <li><strong>Early Morning:</strong> Dawn to mid-morning is often most productive. Largemouth bass feed actively during early morning hours, and low light conditions make them less cautious</li>
-            <li><strong>Late Afternoon to Evening:</strong> Evening hours can be productive as largemouth bass move into shallow water to feed. The last hour before dark is often excellent</li>
-            <li><strong>Night:</strong> Night fishing can be productive for largemouth bass, especially during summer months when water temperatures are high</li>
-            <li><strong>Midday:</strong> Midday fishing can be productive, especially on overcast days or when fishing deeper water or shaded areas</li>
-          </ul>
-
-          <h3>Seasonal Patterns</h3>
-          <p>
-            Largemouth bass fishing varies by season:
-          </p>
-          <ul>
-            <li><strong>Spring (March - May):</strong> Spring is often considered prime largemouth bass season. Spawning activity brings fish into shallow water, creating excellent fishing opportunities</li>
-            <li><strong>Summer (June - September):</strong> Summer offers good largemouth bass fishing, especially early morning and evening. Midday fishing may require focusing on deeper water or shaded areas</li>
-            <li><strong>Fall (October - November):</strong> Fall brings increased feeding activity as water cools. Largemouth bass feed heavily before winter, making this an excellent season</li>
-            <li><strong>Winter (December - February):</strong> Winter fishing can be productive for largemouth bass in Florida. They remain active in warmer water and may school in deeper areas during cold fronts</li>
-          </ul>
-
-          <h3>Weather Factors</h3>
-          <p>
-            Weather conditions affect largemouth bass behavior:
-          </p>
-          <ul>
-            <li><strong>Barometric Pressure:</strong> Falling pressure before storms often triggers active feeding</li>
-            <li><strong>Cloud Cover:</strong> Overcast days can extend productive fishing times and make largemouth bass less cautious</li>
-            <li><strong>Wind:</strong> Light to moderate wind can improve fishing by creating surface disturbance and oxygenating water</li>
-            <li><strong>Temperature:</strong> Largemouth bass are most active when water temperatures are in their preferred range</li>
-          </ul>
-        </section>
-
-        <section id="common-techniques">
-          <h2>Common Techniques</h2>
-          <p>
-            Successful largemouth bass fishing requires matching techniques to location, conditions, and time of year. Here are proven methods for catching largemouth bass.
-          </p>
-          
-          <h3>Live Bait Fishing</h3>
-          <p>
-            Live bait is highly effective for largemouth bass:
-          </p>
-          <ul>
-            <li><strong>Shiners:</strong> Large shiners are excellent largemouth bass bait, especially for targeting bigger fish. Use them around structure and in areas where bass are feeding</li>
-            <li><strong>Worms:</strong> Live worms work well when fishing around vegetation and structure. They're versatile and work in many situations</li>
-            <li><strong>Crawfish:</strong> Crawfish are natural largemouth bass food and work well, especially around rocky areas</li>
-            <li><strong>Frogs:</strong> Live frogs can be effective, especially when fishing around vegetation</li>
-          </ul>
-          <p>
-            When using live bait, present it naturally near structure or in areas where largemouth bass are feeding. Allow the bait to move naturally, as largemouth bass often prefer moving targets.
-          </p>
-
-          <h3>Artificial Lures</h3>
-          <p>
-            Artificial lures can be highly effective for largemouth bass:
-          </p>
-          <ul>
-            <li><strong>Soft Plastics:</strong> Soft plastic worms, creature baits, and swimbaits work well for largemouth bass. Use them around vegetation, structure, and in various depths. Texas rigs, Carolina rigs, and wacky rigs are popular presentations</li>
-            <li><strong>Topwater Lures:</strong> Topwater lures can produce exciting strikes, especially during early morning and evening. Frogs, poppers, and walk-the-dog style lures are popular choices</li>
-            <li><strong>Spinnerbaits:</strong> Spinnerbaits work well around vegetation and structure. They allow you to cover water effectively</li>
-            <li><strong>Crankbaits:</strong> Crankbaits work well when fishing structure and drop-offs. They allow you to work different depths</li>
-            <li><strong>Jigs:</strong> Jigs work well when fishing structure and deeper areas. They allow for precise presentations</li>
-          </ul>
-          <p>
-            When using artificial lures, vary your retrieve speed and presentation. Largemouth bass often respond well to lures that mimic natural prey movement.
-          </p>
-
-          <h3>Structure Fishing</h3>
-          <p>
-            Fishing structure is a reliable method for largemouth bass:
-          </p>
-          <ul>
-            <li>Target docks, fallen trees, and rock piles</li>
-            <li>Cast near structure and work lures along edges</li>
-            <li>Focus on areas where shallow water meets deep water</li>
-            <li>Be patient—largemouth bass may take time to commit to a strike</li>
-          </ul>
-
-          <h3>Vegetation Fishing</h3>
-          <p>
-            Fishing vegetation can be highly productive:
-          </p>
-          <ul>
-            <li>Target edges of vegetation where largemouth bass ambush prey</li>
-            <li>Use weedless lures to avoid snags</li>
-            <li>Work lures through openings in vegetation</li>
-            <li>Focus on areas where vegetation meets open water</li>
-          </ul>
-        </section>
-
-        <section id="tackle-gear">
-          <h2>Tackle & Gear</h2>
-          <p>
-            Proper tackle selection is important for largemouth bass fishing success. Largemouth bass are powerful fish that require appropriate gear.
-          </p>
-          
-          <h3>Rods and Reels</h3>
-          <p>
-            Recommended tackle for largemouth bass:
-          </p>
-          <ul>
-            <li><strong>Spinning Gear:</strong> Medium to medium-heavy spinning rods (7-8 feet) paired with 3000-4000 size reels work well for most largemouth bass fishing</li>
-            <li><strong>Baitcasting Gear:</strong> Medium-heavy baitcasting rods with appropriate reels are excellent for structure fishing and heavier applications</li>
-            <li><strong>Fly Fishing:</strong> 7-9 weight fly rods work well for largemouth bass, especially when fishing around vegetation</li>
-          </ul>
-
-          <h3>Line and Leader</h3>
-          <p>
-            Line selection is important:
-          </p>
-          <ul>
-            <li><strong>Main Line:</strong> 10-20 lb braided line provides strength and sensitivity</li>
-            <li><strong>Leader:</strong> 12-20 lb fluorocarbon leader is recommended for most situations</li>
-            <li><strong>Leader Length:</strong> 2-4 feet of leader is typically sufficient</li>
-          </ul>
-          <p>
-            Heavier tackle may be needed for larger largemouth bass or fishing heavy cover, while lighter tackle can be used for smaller fish or finesse presentations.
-          </p>
-
-          <h3>Terminal Tackle</h3>
-          <p>
-            Essential terminal tackle:
-          </p>
-          <ul>
-            <li><strong>Hooks:</strong> Various hook styles including worm hooks, jig hooks, and treble hooks for different applications</li>
-            <li><strong>Weights:</strong> Bullet weights, egg sinkers, and split shot for different rigging styles</li>
-            <li><strong>Swivels:</strong> Quality swivels to prevent line twist</li>
-            <li><strong>Weedless Hooks:</strong> Important when fishing around vegetation</li>
-          </ul>
-        </section>
-
-        <section id="best-locations">
-          <h2>Best Locations for Largemouth Bass</h2>
-          <p>
-            Largemouth bass are found throughout Florida's freshwater systems, but some areas are particularly productive.
-          </p>
-          
-          <h3>Top Largemouth Bass Fishing Areas</h3>
-          <p>
-            Productive largemouth bass locations include:
-          </p>
-          <ul>
-            <li><strong>Lakes:</strong> Natural and man-made lakes throughout Florida provide excellent largemouth bass habitat</li>
-            <li><strong>Rivers:</strong> Rivers and their tributaries hold largemouth bass, especially areas with structure and cover</li>
-            <li><strong>Canals:</strong> Canals throughout Florida provide accessible largemouth bass fishing</li>
-            <li><strong>Ponds:</strong> Small ponds and water bodies can hold quality largemouth bass</li>
-            <li><strong>Reservoirs:</strong> Large reservoirs offer diverse largemouth bass habitat</li>
-          </ul>
-
-          <h3>Regional Considerations</h3>
-          <p>
-            Largemouth bass fishing is productive throughout Florida:
-          </p>
-          <ul>
-            <li><strong>Central Florida:</strong> Excellent largemouth bass fishing in lakes and rivers, including famous fisheries like Lake Okeechobee</li>
-            <li><strong>South Florida:</strong> Good largemouth bass fishing in canals, lakes, and Everglades areas</li>
-            <li><strong>North Florida:</strong> Productive largemouth bass fishing in rivers and lakes</li>
-          </ul>
-          <p>
-            Florida is known for producing large largemouth bass due to warm water, abundant food sources, and year-round growing season.
-          </p>
-        </section>
-
-        <AppStorePreviewModule className="my-12" />
-
-        <PrimaryCTA
-          title="Track Your Largemouth Bass Catches"
-          copy="Log every largemouth bass you catch with GPS location, photos, and conditions. Download Tackle for iPhone."
-          buttonText="download"
-          position="end"
-          pageType="species"
-          slug="largemouth-bass"
-          species="largemouth bass"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related How-To Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-            <li><Link href="/how-to/how-weather-affects-fishing">How Weather Affects Fishing</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Top Largemouth Bass Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/tampa">Fishing in Tampa, Florida</Link></li>
-            <li><Link href="/locations/fl/fort-myers">Fishing in Fort Myers, Florida</Link></li>
-            <li><Link href="/locations/fl/sarasota">Fishing in Sarasota, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          stateCode="FL"
-          pageType="species"
-          slug="largemouth-bass"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="species"
-          slug="largemouth-bass"
-          species="largemouth bass"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -1,11 +1,14 @@
 /**
  * Species Index Page
+ * Lists every published species guide (content/species)
  */
 
 import { Metadata } from 'next';
 import { generateCanonical } from '@/lib/seo/canonical';
 import Link from 'next/link';
 import Image from 'next/image';
+import { loadAllSpecies } from '@/lib/content/species';
+import { getCategoryFallbackImage } from '@/lib/image-fallbacks';
 
 export const metadata: Metadata = {
   title: 'Fish Species Guides | Complete Fishing Species Information',
@@ -15,40 +18,9 @@ export const metadata: Metadata = {
   },
 };
 
-const species = [
-  {
-    slug: 'snook',
-    name: 'Snook',
-    description: 'Learn about snook fishing, including habitat, behavior, and the best techniques for catching this popular inshore species.',
-    image: 'https://images.unsplash.com/photo-1560997494-75629423e3f6?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'redfish',
-    name: 'Redfish',
-    description: 'Complete guide to redfish (red drum), including where to find them, when they bite best, and proven fishing techniques.',
-    image: 'https://images.unsplash.com/photo-1562819102-a085309d64ce?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'speckled-trout',
-    name: 'Speckled Trout',
-    description: 'Everything you need to know about catching speckled sea trout, from tackle selection to seasonal patterns.',
-    image: 'https://images.unsplash.com/photo-1762625075186-b7f46767267a?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'largemouth-bass',
-    name: 'Largemouth Bass',
-    description: 'Master largemouth bass fishing with expert tips on habitat, behavior, lures, and seasonal strategies.',
-    image: 'https://images.unsplash.com/photo-1762655210992-e2dd74cf3118?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-  {
-    slug: 'tarpon',
-    name: 'Tarpon',
-    description: 'The ultimate guide to tarpon fishing, including migration patterns, tackle requirements, and fighting techniques.',
-    image: 'https://images.unsplash.com/photo-1766998112384-b8cecd7a45c7?w=600&h=400&fit=crop&auto=format&q=80',
-  },
-];
+export default async function SpeciesIndexPage() {
+  const species = await loadAllSpecies();
 
-export default function SpeciesIndexPage() {
   return (
     <div>
       <header className="mb-8">
@@ -63,7 +35,7 @@ export default function SpeciesIndexPage() {
           <Link key={fish.slug} href={`/species/${fish.slug}`} className="group block overflow-hidden rounded-xl border border-gray-200 hover:shadow-xl hover:border-blue-300 transition-all">
             <div className="relative h-48 w-full overflow-hidden bg-gray-200">
               <Image
-                src={fish.image}
+                src={fish.heroImage || getCategoryFallbackImage('species')}
                 alt={`${fish.name} fishing guide`}
                 fill
                 className="object-cover transition-transform duration-300 group-hover:scale-105"
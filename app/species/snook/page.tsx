@@ -1,447 +0,0 @@
-/**
- * Snook Species Page
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { AppStorePreviewModule } from '@/components/conversion/AppStorePreviewModule';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Snook Fishing Guide: Habitat, Behavior, and Techniques',
-  description: 'Learn everything about snook fishing including habitat, behavior, best times to catch them, and proven techniques. Expert guide for targeting snook in Florida waters.',
-  alternates: {
-    canonical: generateCanonical('/species/snook'),
-  },
-  openGraph: {
-    title: 'Snook Fishing Guide: Habitat, Behavior, and Techniques',
-    description: 'Learn everything about snook fishing including habitat, behavior, and proven techniques.',
-    url: generateCanonical('/species/snook'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is the best time of year to catch snook?',
-    answer: 'Snook fishing is productive year-round in Florida, but spring and fall are often considered prime seasons. Spring brings spawning activity and migrations, while fall offers excellent feeding activity as water temperatures cool. Summer can also be productive, especially for larger snook.',
-  },
-  {
-    question: 'Where do snook live?',
-    answer: 'Snook are found in inshore waters throughout Florida, including mangroves, bridges, jetties, passes, and backwater areas. They prefer structure and current, often positioning themselves near mangroves, docks, bridge pilings, and channel edges where they can ambush baitfish.',
-  },
-  {
-    question: 'What is the best time of day to catch snook?',
-    answer: 'Early morning and late afternoon to evening are typically most productive for snook. Many anglers also find success at night, especially around lighted docks and bridges. Snook are often more active during low light conditions when they feel less cautious.',
-  },
-  {
-    question: 'What bait works best for snook?',
-    answer: 'Live bait is often most effective for snook, including pilchards, pinfish, shrimp, and mullet. Artificial lures like soft plastics, topwater lures, and jigs also work well. The best choice depends on location, conditions, and time of year.',
-  },
-  {
-    question: 'Do snook bite during incoming or outgoing tide?',
-    answer: 'Snook can be caught during both incoming and outgoing tides, but many anglers find incoming tide most productive, especially when fishing near mangroves and shallow areas. Outgoing tide can also be excellent when fishing channels, bridges, and structure where current concentrates baitfish.',
-  },
-  {
-    question: 'What tackle do I need for snook fishing?',
-    answer: 'Medium to medium-heavy spinning or baitcasting gear works well for snook. Use 15-30 lb braided line with a 20-40 lb fluorocarbon leader. Snook have sharp gill plates, so a strong leader is important. Lighter tackle can be used for smaller snook in shallow water.',
-  },
-  {
-    question: 'Are snook good to eat?',
-    answer: 'Snook are considered excellent table fare, but regulations vary by location and season. Always check current regulations for size limits, bag limits, and seasonal closures. Some areas have closed seasons during spawning periods.',
-  },
-  {
-    question: 'How do I identify a snook?',
-    answer: 'Snook have a distinctive black lateral line running from head to tail, a sloping forehead, and a protruding lower jaw. They typically have a silvery body with yellow fins. The lateral line is the most distinguishing feature, making snook easy to identify.',
-  },
-];
-
-export default function SnookSpeciesPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'Species', item: 'https://tackleapp.ai/species' },
-          { name: 'Snook', item: 'https://tackleapp.ai/species/snook' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="species-page">
-        <header className="page-header">
-          <h1>Snook Fishing Guide: Habitat, Behavior, and Techniques</h1>
-          <p className="page-intro">
-            Snook are one of Florida's most popular and challenging inshore gamefish. Known for their explosive strikes, powerful runs, and acrobatic jumps, snook provide exciting fishing opportunities throughout Florida's inshore waters. This guide covers snook habitat, behavior patterns, best times to catch them, and proven techniques for success.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1560997494-75629423e3f6?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Inshore fishing in Florida mangrove waters - prime snook habitat"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#about-snook">About Snook</a></li>
-            <li><a href="#habitat-behavior">Habitat & Behavior</a></li>
-            <li><a href="#when-they-bite">When They Bite Best</a></li>
-            <li><a href="#common-techniques">Common Techniques</a></li>
-            <li><a href="#tackle-gear">Tackle & Gear</a></li>
-            <li><a href="#best-locations">Best Locations</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Catch More Snook with Tackle"
-          copy="Get real-time conditions, best spots, and expert advice for snook fishing. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="species"
-          slug="snook"
-          species="snook"
-          className="my-8"
-        />
-
-        <section id="about-snook">
-          <h2>About Snook</h2>
-          <p>
-            Snook (Centropomus undecimalis) are a highly sought-after inshore gamefish found throughout Florida and the Gulf of Mexico. They're known for their aggressive feeding behavior, powerful fighting ability, and excellent table fare. Snook can grow to impressive sizes, with fish over 40 inches being considered trophy catches.
-          </p>
-          
-          <h3>Physical Characteristics</h3>
-          <p>
-            Snook are easily identified by their distinctive black lateral line that runs from head to tail. They have a sloping forehead, protruding lower jaw, and typically display a silvery body with yellow-tinted fins. The lateral line is the most distinguishing feature, making snook unmistakable among Florida's inshore species.
-          </p>
-          <p>
-            Snook can grow quite large, with the Florida state record exceeding 44 pounds. However, most snook caught by anglers range from 20 to 30 inches, with fish over 30 inches being considered quality catches.
-          </p>
-
-          <h3>Why Anglers Love Snook</h3>
-          <p>
-            Snook are popular among anglers for several reasons:
-          </p>
-          <ul>
-            <li><strong>Aggressive Strikes:</strong> Snook often hit lures and bait with explosive force</li>
-            <li><strong>Powerful Fights:</strong> They make strong runs and acrobatic jumps when hooked</li>
-            <li><strong>Accessibility:</strong> Found in inshore waters accessible to shore anglers and small boats</li>
-            <li><strong>Year-Round Fishing:</strong> Can be caught throughout the year in Florida</li>
-            <li><strong>Excellent Table Fare:</strong> Considered one of the best-tasting inshore fish</li>
-          </ul>
-        </section>
-
-        <section id="habitat-behavior">
-          <h2>Habitat & Behavior</h2>
-          <p>
-            Understanding snook habitat and behavior is key to finding and catching them consistently. Snook are structure-oriented fish that use their environment to ambush prey.
-          </p>
-          
-          <h3>Preferred Habitat</h3>
-          <p>
-            Snook are found in a variety of inshore habitats:
-          </p>
-          <ul>
-            <li><strong>Mangroves:</strong> Snook frequently position themselves along mangrove shorelines, especially during incoming tide when water covers the roots and provides cover for ambushing baitfish</li>
-            <li><strong>Bridges:</strong> Bridge pilings and structure provide excellent snook habitat, offering current breaks and ambush points</li>
-            <li><strong>Jetties and Rock Piles:</strong> Structure that creates current breaks and holds baitfish attracts snook</li>
-            <li><strong>Passes and Channels:</strong> Snook often position themselves in passes and channels where current concentrates baitfish</li>
-            <li><strong>Docks and Piers:</strong> Lighted docks and piers are productive, especially at night</li>
-            <li><strong>Backwater Areas:</strong> Snook move into backwaters and creeks, especially during spawning seasons</li>
-          </ul>
-          <p>
-            Snook prefer areas with some current flow, as moving water brings baitfish and creates ambush opportunities. They're often found near structure that breaks current flow, allowing them to conserve energy while waiting for prey.
-          </p>
-
-          <h3>Behavior Patterns</h3>
-          <p>
-            Snook behavior varies by season, tide, and time of day:
-          </p>
-          <ul>
-            <li><strong>Feeding Behavior:</strong> Snook are ambush predators that often strike aggressively. They typically position themselves near structure or current breaks and wait for baitfish to come within range</li>
-            <li><strong>Tidal Movement:</strong> Snook often move with tides, following baitfish into shallow areas during incoming tide and positioning near channels during outgoing tide</li>
-            <li><strong>Spawning Behavior:</strong> During spring and fall, snook migrate to passes and inlets for spawning. This creates excellent fishing opportunities as large numbers of fish concentrate in specific areas</li>
-            <li><strong>Temperature Sensitivity:</strong> Snook are sensitive to cold water. During winter cold fronts, they may move to deeper, warmer water or become less active</li>
-            <li><strong>Nocturnal Activity:</strong> Snook are often more active at night, especially around lighted docks and bridges where they can see and ambush baitfish</li>
-          </ul>
-        </section>
-
-        <section id="when-they-bite">
-          <h2>When They Bite Best</h2>
-          <p>
-            Timing is crucial for snook fishing success. Understanding when snook are most active helps you plan productive fishing trips.
-          </p>
-          
-          <h3>Time of Day</h3>
-          <p>
-            Snook feeding activity varies throughout the day:
-          </p>
-          <ul>
-            <li><strong>Early Morning:</strong> Dawn to mid-morning is often productive as snook feed actively after night. Low light conditions make them less cautious and more willing to move into shallow areas</li>
-            <li><strong>Late Afternoon to Evening:</strong> Evening hours, especially the last hour before dark, can be extremely productive. Snook often feed actively as light decreases</li>
-            <li><strong>Night:</strong> Night fishing can be excellent for snook, especially around lighted docks and bridges. Many anglers find their largest snook at night</li>
-            <li><strong>Midday:</strong> Midday fishing can be slower, especially in summer, but snook can still be caught near deeper structure or in areas with current</li>
-          </ul>
-
-          <h3>Seasonal Patterns</h3>
-          <p>
-            Snook fishing varies by season:
-          </p>
-          <ul>
-            <li><strong>Spring (March - May):</strong> Spring brings spawning activity and migrations. Snook move to passes and inlets, creating excellent fishing opportunities. This is often considered one of the best seasons for snook</li>
-            <li><strong>Summer (June - September):</strong> Summer offers good snook fishing, especially early morning and evening. Night fishing becomes more attractive as temperatures rise</li>
-            <li><strong>Fall (October - November):</strong> Fall is often excellent for snook as water temperatures cool and fish feed actively. This is another prime season</li>
-            <li><strong>Winter (December - February):</strong> Winter fishing can be productive, but snook may be less active during cold fronts. Focus on deeper water, structure, and warmest parts of the day</li>
-          </ul>
-
-          <h3>Tide Conditions</h3>
-          <p>
-            Tides significantly affect snook activity:
-          </p>
-          <ul>
-            <li><strong>Incoming Tide:</strong> Many anglers find incoming tide most productive, especially when fishing mangroves and shallow areas. Rising water brings snook into these areas to feed</li>
-            <li><strong>Outgoing Tide:</strong> Outgoing tide can also be excellent, especially when fishing channels, bridges, and structure. Current concentrates baitfish, creating feeding opportunities</li>
-            <li><strong>Moving Tides:</strong> Generally, moving tides (incoming or outgoing) are more productive than slack tide when water movement stops</li>
-            <li><strong>Spring Tides:</strong> Stronger tides during new and full moon periods often produce better fishing</li>
-          </ul>
-
-          <h3>Weather Factors</h3>
-          <p>
-            Weather conditions affect snook behavior:
-          </p>
-          <ul>
-            <li><strong>Barometric Pressure:</strong> Falling pressure before storms often triggers active feeding</li>
-            <li><strong>Cloud Cover:</strong> Overcast days can extend productive fishing times</li>
-            <li><strong>Wind:</strong> Light to moderate wind can improve fishing, but strong wind can make conditions difficult</li>
-            <li><strong>Temperature:</strong> Snook are most active when water temperatures are in their preferred range (typically 65-80°F)</li>
-          </ul>
-        </section>
-
-        <section id="common-techniques">
-          <h2>Common Techniques</h2>
-          <p>
-            Successful snook fishing requires matching techniques to location, conditions, and time of year. Here are proven methods for catching snook.
-          </p>
-          
-          <h3>Live Bait Fishing</h3>
-          <p>
-            Live bait is often the most effective method for snook:
-          </p>
-          <ul>
-            <li><strong>Pilchards:</strong> Small pilchards are excellent snook bait. Use them around structure, bridges, and in current where snook can ambush them</li>
-            <li><strong>Pinfish:</strong> Pinfish are durable and work well when fishing structure. They're especially effective around bridges and docks</li>
-            <li><strong>Shrimp:</strong> Live shrimp are versatile and work in many situations. They're particularly effective when fishing mangroves and shallow areas</li>
-            <li><strong>Mullet:</strong> Larger mullet work well for targeting bigger snook, especially around bridges and passes</li>
-          </ul>
-          <p>
-            When using live bait, present it naturally near structure or in current. Allow the bait to move naturally with the current, as snook often prefer moving targets.
-          </p>
-
-          <h3>Artificial Lures</h3>
-          <p>
-            Artificial lures can be highly effective for snook:
-          </p>
-          <ul>
-            <li><strong>Soft Plastics:</strong> Soft plastic jigs and swimbaits work well for snook. Use them around structure, in current, and when sight fishing. Match the size to available baitfish</li>
-            <li><strong>Topwater Lures:</strong> Topwater lures can produce exciting strikes, especially during early morning and evening. Walk-the-dog style lures and poppers are popular choices</li>
-            <li><strong>Jigs:</strong> Jigs work well when fishing structure and current. They allow you to work different depths and cover water effectively</li>
-            <li><strong>Spinnerbaits:</strong> Spinnerbaits can be effective around structure and in current, especially when targeting active fish</li>
-          </ul>
-          <p>
-            When using artificial lures, vary your retrieve speed and presentation until you find what snook want. They can be selective, so be prepared to experiment.
-          </p>
-
-          <h3>Sight Fishing</h3>
-          <p>
-            Sight fishing for snook on shallow flats can be extremely rewarding:
-          </p>
-          <ul>
-            <li>Look for snook cruising along mangrove edges or in shallow water</li>
-            <li>Use polarized sunglasses to spot fish</li>
-            <li>Make accurate casts ahead of moving fish</li>
-            <li>Use lighter tackle and smaller lures for better presentations</li>
-            <li>Be patient and wait for the right opportunity</li>
-          </ul>
-          <p>
-            Sight fishing requires clear water and calm conditions. Early morning often provides the best visibility and fish activity.
-          </p>
-
-          <h3>Structure Fishing</h3>
-          <p>
-            Fishing structure is a reliable method for snook:
-          </p>
-          <ul>
-            <li>Target bridge pilings, docks, and jetties</li>
-            <li>Cast near structure and work lures along edges</li>
-            <li>Use current to your advantage by casting upstream and letting lures drift naturally</li>
-            <li>Focus on current breaks where snook can ambush bait</li>
-            <li>Be patient—snook may take time to commit to a strike</li>
-          </ul>
-        </section>
-
-        <section id="tackle-gear">
-          <h2>Tackle & Gear</h2>
-          <p>
-            Proper tackle selection is important for snook fishing success. Snook are powerful fish that require appropriate gear.
-          </p>
-          
-          <h3>Rods and Reels</h3>
-          <p>
-            Recommended tackle for snook:
-          </p>
-          <ul>
-            <li><strong>Spinning Gear:</strong> Medium to medium-heavy spinning rods (7-8 feet) paired with 3000-4000 size reels work well for most snook fishing</li>
-            <li><strong>Baitcasting Gear:</strong> Medium-heavy baitcasting rods with appropriate reels are excellent for structure fishing and heavier applications</li>
-            <li><strong>Fly Fishing:</strong> 8-10 weight fly rods work well for snook, especially when sight fishing on flats</li>
-          </ul>
-
-          <h3>Line and Leader</h3>
-          <p>
-            Line selection is crucial:
-          </p>
-          <ul>
-            <li><strong>Main Line:</strong> 15-30 lb braided line provides strength and sensitivity</li>
-            <li><strong>Leader:</strong> 20-40 lb fluorocarbon leader is recommended. Snook have sharp gill plates that can cut lighter leaders</li>
-            <li><strong>Leader Length:</strong> 2-4 feet of leader is typically sufficient</li>
-          </ul>
-          <p>
-            Always use a strong leader when targeting snook, as their sharp gill plates can easily cut through lighter line.
-          </p>
-
-          <h3>Terminal Tackle</h3>
-          <p>
-            Essential terminal tackle:
-          </p>
-          <ul>
-            <li><strong>Hooks:</strong> Circle hooks for live bait (size 2/0 to 4/0), J-hooks for artificial lures</li>
-            <li><strong>Weights:</strong> Split shot or egg sinkers for live bait rigs</li>
-            <li><strong>Swivels:</strong> Quality swivels to prevent line twist</li>
-            <li><strong>Wire Leader:</strong> Optional but can help prevent cut-offs from sharp gill plates</li>
-          </ul>
-        </section>
-
-        <section id="best-locations">
-          <h2>Best Locations for Snook</h2>
-          <p>
-            Snook are found throughout Florida's inshore waters, but some areas are particularly productive.
-          </p>
-          
-          <h3>Top Snook Fishing Areas</h3>
-          <p>
-            Productive snook locations include:
-          </p>
-          <ul>
-            <li><strong>Mangrove Shorelines:</strong> Throughout Florida, especially during incoming tide</li>
-            <li><strong>Bridges:</strong> All major bridges provide snook habitat, especially those with current flow</li>
-            <li><strong>Passes and Inlets:</strong> Excellent during spawning seasons when snook concentrate</li>
-            <li><strong>Jetties:</strong> Rock jetties and structure hold snook year-round</li>
-            <li><strong>Docks and Piers:</strong> Lighted docks are especially productive at night</li>
-            <li><strong>Backwater Creeks:</strong> Productive during spawning seasons and when water temperatures are favorable</li>
-          </ul>
-
-          <h3>Regional Considerations</h3>
-          <p>
-            Snook fishing varies by region:
-          </p>
-          <ul>
-            <li><strong>South Florida:</strong> Year-round snook fishing with excellent opportunities in Miami, the Keys, and Everglades areas</li>
-            <li><strong>Central Florida:</strong> Productive snook fishing in Tampa Bay, Charlotte Harbor, and surrounding areas</li>
-            <li><strong>North Florida:</strong> Snook fishing is more seasonal, with best opportunities during warmer months</li>
-          </ul>
-          <p>
-            Understanding regional patterns helps you plan trips when snook are most active in your area.
-          </p>
-        </section>
-
-        <AppStorePreviewModule className="my-12" />
-
-        <PrimaryCTA
-          title="Track Your Snook Catches"
-          copy="Log every snook you catch with GPS location, photos, and conditions. Download Tackle for iPhone."
-          buttonText="download"
-          position="end"
-          pageType="species"
-          slug="snook"
-          species="snook"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related How-To Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Top Snook Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/miami">Fishing in Miami, Florida</Link></li>
-            <li><Link href="/locations/fl/tampa">Fishing in Tampa, Florida</Link></li>
-            <li><Link href="/locations/fl/naples">Fishing in Naples, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          stateCode="FL"
-          pageType="species"
-          slug="snook"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="species"
-          slug="snook"
-          species="snook"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -1,447 +0,0 @@
-/**
- * Speckled Trout Species Page
- */
-
-import { Metadata } from 'next';
-import { generateCanonical } from '@/lib/seo/canonical';
-import { PrimaryCTA } from '@/components/conversion/PrimaryCTA';
-import { StickyBottomCTA } from '@/components/conversion/StickyBottomCTA';
-import { AppStorePreviewModule } from '@/components/conversion/AppStorePreviewModule';
-import { RegulationsOutboundLinkBlock } from '@/components/conversion/RegulationsOutboundLinkBlock';
-import { AuthorSchema } from '@/components/seo/AuthorSchema';
-import { BreadcrumbSchema } from '@/components/seo/BreadcrumbSchema';
-import { FaqSchema } from '@/components/seo/FaqSchema';
-import { LastUpdated } from '@/components/content/LastUpdated';
-import Link from 'next/link';
-
-import Image from 'next/image';
-export const metadata: Metadata = {
-  title: 'Speckled Trout Fishing Guide: Habitat, Behavior, and Techniques',
-  description: 'Learn everything about speckled trout fishing including habitat, behavior, best times to catch them, and proven techniques. Expert guide for targeting speckled trout in Florida waters.',
-  alternates: {
-    canonical: generateCanonical('/species/speckled-trout'),
-  },
-  openGraph: {
-    title: 'Speckled Trout Fishing Guide: Habitat, Behavior, and Techniques',
-    description: 'Learn everything about speckled trout fishing including habitat, behavior, and proven techniques.',
-    url: generateCanonical('/species/speckled-trout'),
-    type: 'article',
-  },
-};
-
-const faqs = [
-  {
-    question: 'What is the best time of year to catch speckled trout?',
-    answer: 'Speckled trout fishing is productive year-round in Florida, but fall and spring are often considered prime seasons. Fall brings excellent feeding activity as water cools, and spring offers good fishing as water warms. Winter and summer also offer opportunities.',
-  },
-  {
-    question: 'Where do speckled trout live?',
-    answer: 'Speckled trout are found in inshore waters throughout Florida, including grass flats, channels, passes, and backwater areas. They prefer areas with grass beds and structure, often in 3-6 feet of water.',
-  },
-  {
-    question: 'What is the best time of day to catch speckled trout?',
-    answer: 'Early morning and late afternoon to evening are typically most productive for speckled trout. Many anglers find early morning especially productive. Night fishing can also be excellent, especially during summer months.',
-  },
-  {
-    question: 'What bait works best for speckled trout?',
-    answer: 'Live bait is often most effective for speckled trout, including shrimp, pilchards, and pinfish. Artificial lures like soft plastics, topwater lures, and jigs also work well. The best choice depends on location and conditions.',
-  },
-  {
-    question: 'Do speckled trout bite during incoming or outgoing tide?',
-    answer: 'Speckled trout can be caught during both tides, but many anglers find moving tides most productive. Incoming tide can bring trout into shallow areas, while outgoing tide can concentrate them in channels and deeper areas.',
-  },
-  {
-    question: 'What tackle do I need for speckled trout fishing?',
-    answer: 'Light to medium spinning gear works well for speckled trout. Use 8-15 lb braided line with a 12-20 lb fluorocarbon leader. Lighter tackle provides better sensitivity and allows for more natural presentations.',
-  },
-  {
-    question: 'How do I identify a speckled trout?',
-    answer: 'Speckled trout are easily identified by their silvery body with black spots scattered across the back and sides. They have a forked tail and typically display a yellowish tint on the fins. The black spots are the most distinguishing feature.',
-  },
-  {
-    question: 'Are speckled trout good to eat?',
-    answer: 'Speckled trout are considered excellent table fare. Always check current regulations for size limits, bag limits, and any seasonal closures. Regulations vary by location and season.',
-  },
-];
-
-export default function SpeckledTroutSpeciesPage() {
-  return (
-    <>
-      <AuthorSchema
-        author={{
-          name: 'Tackle Fishing Team',
-          url: '/authors/tackle-fishing-team',
-        }}
-      />
-      <BreadcrumbSchema
-        items={[
-          { name: 'Home', item: 'https://tackleapp.ai' },
-          { name: 'Species', item: 'https://tackleapp.ai/species' },
-          { name: 'Speckled Trout', item: 'https://tackleapp.ai/species/speckled-trout' },
-        ]}
-      />
-      <FaqSchema faqs={faqs} />
-
-      <article className="species-page">
-        <header className="page-header">
-          <h1>Speckled Trout Fishing Guide: Habitat, Behavior, and Techniques</h1>
-          <p className="page-intro">
-            Speckled trout, also known as spotted seatrout, are one of Florida's most popular inshore gamefish. Known for their distinctive black spots, aggressive strikes, and excellent table fare, speckled trout provide exciting fishing opportunities throughout Florida's inshore waters. This guide covers speckled trout habitat, behavior patterns, best times to catch them, and proven techniques for success.
-          </p>
-        </header>
-
-        {/* Hero Image */}
-        <div className="mb-8 -mx-4 sm:mx-0">
-          <div className="relative w-full aspect-[2/1] overflow-hidden rounded-none sm:rounded-xl">
-            <Image
-              src="https://images.unsplash.com/photo-1762625075186-b7f46767267a?w=1200&h=600&fit=crop&auto=format&q=80"
-              alt="Angler fishing from a boat near rocky shoreline - speckled trout waters"
-              fill
-              priority
-              className="object-cover"
-              sizes="(max-width: 768px) 100vw, (max-width: 1200px) 80vw, 1200px"
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-2 text-right">
-            Photo via <a href="https://unsplash.com/?utm_source=tackle&utm_medium=referral" target="_blank" rel="noopener noreferrer" className="underline hover:text-gray-600">Unsplash</a>
-          </p>
-        </div>
-
-
-        <nav className="table-of-contents">
-          <h2>Table of Contents</h2>
-          <ul>
-            <li><a href="#about-speckled-trout">About Speckled Trout</a></li>
-            <li><a href="#habitat-behavior">Habitat & Behavior</a></li>
-            <li><a href="#when-they-bite">When They Bite Best</a></li>
-            <li><a href="#common-techniques">Common Techniques</a></li>
-            <li><a href="#tackle-gear">Tackle & Gear</a></li>
-            <li><a href="#best-locations">Best Locations</a></li>
-          </ul>
-        </nav>
-
-        <PrimaryCTA
-          title="Catch More Speckled Trout with Tackle"
-          copy="Get real-time conditions, best spots, and expert advice for speckled trout fishing. Download Tackle for iPhone."
-          buttonText="default"
-          position="above_fold"
-          pageType="species"
-          slug="speckled-trout"
-          species="speckled trout"
-          className="my-8"
-        />
-
-        <section id="about-speckled-trout">
-          <h2>About Speckled Trout</h2>
-          <p>
-            Speckled trout (Cynoscion nebulosus) are a highly sought-after inshore gamefish found throughout Florida and the Gulf of Mexico. They're easily identified by their silvery body with distinctive black spots scattered across the back and sides. Speckled trout are known for their aggressive feeding behavior and are considered excellent table fare.
-          </p>
-          
-          <h3>Physical Characteristics</h3>
-          <p>
-            Speckled trout are easily identified by their distinctive appearance:
-          </p>
-          <ul>
-            <li><strong>Color:</strong> Silvery body with black spots scattered across the back and sides</li>
-            <li><strong>Spots:</strong> Black spots are the most distinguishing feature (though some fish may have fewer spots)</li>
-            <li><strong>Shape:</strong> Streamlined body with a forked tail</li>
-            <li><strong>Fins:</strong> Often display a yellowish tint on the fins</li>
-            <li><strong>Size:</strong> Most speckled trout caught range from 14 to 22 inches, with fish over 20 inches being quality catches</li>
-          </ul>
-          <p>
-            Speckled trout can grow to impressive sizes, with the Florida state record exceeding 15 pounds. However, most speckled trout caught by anglers range from 14 to 22 inches.
-          </p>
-
-          <h3>Why Anglers Love Speckled Trout</h3>
-          <p>
-            Speckled trout are popular among anglers for several reasons:
-          </p>
-          <ul>
-            <li><strong>Aggressive Strikes:</strong> Often hit lures and bait with enthusiasm</li>
-            <li><strong>Accessibility:</strong> Found in inshore waters accessible to shore anglers and small boats</li>
-            <li><strong>Year-Round Fishing:</strong> Can be caught throughout the year in Florida</li>
-            <li><strong>Excellent Table Fare:</strong> Considered one of the best-tasting inshore fish</li>
-            <li><strong>Light Tackle Friendly:</strong> Can be caught on light tackle, making them fun to target</li>
-          </ul>
-        </section>
-
-        <section id="habitat-behavior">
-          <h2>Habitat & Behavior</h2>
-          <p>
-            Understanding speckled trout habitat and behavior is key to finding and catching them consistently. Speckled trout prefer specific types of inshore habitat.
-          </p>
-          
-          <h3>Preferred Habitat</h3>
-          <p>
-            Speckled trout are found in a variety of inshore habitats:
-          </p>
-          <ul>
-            <li><strong>Grass Flats:</strong> Shallow grass flats are prime speckled trout habitat. They feed along grass edges and in potholes within grass beds</li>
-            <li><strong>Channels and Passes:</strong> Speckled trout often position themselves in channels and passes where current concentrates baitfish</li>
-            <li><strong>Backwater Areas:</strong> Shallow backwaters and creeks hold speckled trout, especially during favorable conditions</li>
-            <li><strong>Structure:</strong> Speckled trout are often found near structure including docks, bridges, and rock piles</li>
-            <li><strong>Beach Areas:</strong> Speckled trout can be found along beaches, especially near passes and inlets</li>
-            <li><strong>Deeper Holes:</strong> During hot weather or cold fronts, speckled trout may move to deeper holes</li>
-          </ul>
-          <p>
-            Speckled trout prefer areas with grass beds, as grass provides cover and attracts baitfish. They're typically found in 3-6 feet of water, though they can be found in shallower or deeper water depending on conditions.
-          </p>
-
-          <h3>Behavior Patterns</h3>
-          <p>
-            Speckled trout behavior varies by season, tide, and time of day:
-          </p>
-          <ul>
-            <li><strong>Feeding Behavior:</strong> Speckled trout are aggressive feeders that often school and feed actively. They typically feed on small fish, shrimp, and other crustaceans</li>
-            <li><strong>Schooling Behavior:</strong> Speckled trout often school, especially smaller fish. Finding one speckled trout often means more are nearby</li>
-            <li><strong>Tidal Movement:</strong> Speckled trout move with tides, following baitfish into shallow areas during incoming tide and positioning in channels during outgoing tide</li>
-            <li><strong>Temperature Sensitivity:</strong> Speckled trout are sensitive to extreme temperatures. During hot weather, they may move to deeper, cooler water. During cold fronts, they may become less active</li>
-            <li><strong>Nocturnal Activity:</strong> Speckled trout are often more active at night, especially during summer months</li>
-          </ul>
-        </section>
-
-        <section id="when-they-bite">
-          <h2>When They Bite Best</h2>
-          <p>
-            Timing is crucial for speckled trout fishing success. Understanding when speckled trout are most active helps you plan productive fishing trips.
-          </p>
-          
-          <h3>Time of Day</h3>
-          <p>
-            Speckled trout feeding activity varies throughout the day:
-          </p>
-          <ul>
-            <li><strong>Early Morning:</strong> Dawn to mid-morning is often most productive. Speckled trout feed actively during early morning hours, and low light conditions make them less cautious</li>
-            <li><strong>Late Afternoon to Evening:</strong> Evening hours can be productive as speckled trout move into shallow water to feed. The last hour before dark is often excellent</li>
-            <li><strong>Night:</strong> Night fishing can be excellent for speckled trout, especially during summer months. Many anglers find their best speckled trout fishing occurs at night</li>
-            <li><strong>Midday:</strong> Midday fishing can be productive, especially on overcast days or when fishing deeper areas. However, bright sun can make speckled trout more cautious in shallow water</li>
-          </ul>
-
-          <h3>Seasonal Patterns</h3>
-          <p>
-            Speckled trout fishing varies by season:
-          </p>
-          <ul>
-            <li><strong>Fall (October - November):</strong> Fall is often considered prime speckled trout season. Cooling water temperatures increase activity, and speckled trout feed heavily before winter</li>
-            <li><strong>Winter (December - February):</strong> Winter fishing can be productive for speckled trout. They remain active in cooler water and may school in deeper holes during cold fronts</li>
-            <li><strong>Spring (March - May):</strong> Spring brings increased activity as water warms. Speckled trout move into shallow areas and feed actively</li>
-            <li><strong>Summer (June - September):</strong> Summer offers good speckled trout fishing, especially early morning, evening, and night. Midday fishing may require focusing on deeper areas</li>
-          </ul>
-
-          <h3>Tide Conditions</h3>
-          <p>
-            Tides significantly affect speckled trout activity:
-          </p>
-          <ul>
-            <li><strong>Moving Tides:</strong> Generally, moving tides (incoming or outgoing) are more productive than slack tide. Speckled trout feed actively when water is moving</li>
-            <li><strong>Incoming Tide:</strong> Incoming tide can bring speckled trout into shallow areas where they feed actively</li>
-            <li><strong>Outgoing Tide:</strong> Outgoing tide can concentrate speckled trout in channels and deeper areas where baitfish are funneled</li>
-            <li><strong>Spring Tides:</strong> Stronger tides during new and full moon periods often produce better fishing</li>
-          </ul>
-
-          <h3>Weather Factors</h3>
-          <p>
-            Weather conditions affect speckled trout behavior:
-          </p>
-          <ul>
-            <li><strong>Barometric Pressure:</strong> Falling pressure before storms often triggers active feeding</li>
-            <li><strong>Cloud Cover:</strong> Overcast days can extend productive fishing times and make speckled trout less cautious</li>
-            <li><strong>Wind:</strong> Light to moderate wind can improve fishing, but strong wind can make conditions difficult</li>
-            <li><strong>Water Clarity:</strong> Speckled trout can be caught in various water clarity conditions, though clear water is often preferred</li>
-          </ul>
-        </section>
-
-        <section id="common-techniques">
-          <h2>Common Techniques</h2>
-          <p>
-            Successful speckled trout fishing requires matching techniques to location, conditions, and time of year. Here are proven methods for catching speckled trout.
-          </p>
-          
-          <h3>Live Bait Fishing</h3>
-          <p>
-            Live bait is highly effective for speckled trout:
-          </p>
-          <ul>
-            <li><strong>Shrimp:</strong> Live shrimp are excellent speckled trout bait. Use them on grass flats, around structure, and in current. Shrimp are versatile and work in many situations</li>
-            <li><strong>Pilchards:</strong> Small pilchards work well when fishing channels, passes, and areas with current</li>
-            <li><strong>Pinfish:</strong> Pinfish work well when fishing structure and deeper areas</li>
-            <li><strong>Mullet:</strong> Small mullet can be effective, especially for larger speckled trout</li>
-          </ul>
-          <p>
-            When using live bait, present it naturally near structure or in areas where speckled trout are feeding. Allow the bait to move naturally, as speckled trout often prefer moving targets.
-          </p>
-
-          <h3>Artificial Lures</h3>
-          <p>
-            Artificial lures can be highly effective for speckled trout:
-          </p>
-          <ul>
-            <li><strong>Soft Plastics:</strong> Soft plastic jigs and swimbaits work well for speckled trout. Use them on grass flats, around structure, and when fishing channels. Match colors to available baitfish</li>
-            <li><strong>Topwater Lures:</strong> Topwater lures can produce exciting strikes, especially during early morning and evening. Walk-the-dog style lures and poppers are popular choices</li>
-            <li><strong>Jigs:</strong> Jigs work well when fishing structure, channels, and deeper areas. They allow you to work different depths effectively</li>
-            <li><strong>Suspending Lures:</strong> Suspending lures can be effective when speckled trout are holding in specific depths</li>
-          </ul>
-          <p>
-            When using artificial lures, vary your retrieve speed and presentation. Speckled trout often respond well to lures that mimic natural prey movement.
-          </p>
-
-          <h3>Drift Fishing</h3>
-          <p>
-            Drift fishing can be effective for speckled trout:
-          </p>
-          <ul>
-            <li>Drift over grass flats and productive areas</li>
-            <li>Use live bait or artificial lures</li>
-            <li>Cover water to locate active fish</li>
-            <li>Adjust drift speed based on wind and current</li>
-          </ul>
-
-          <h3>Structure Fishing</h3>
-          <p>
-            Fishing structure is a reliable method for speckled trout:
-          </p>
-          <ul>
-            <li>Target docks, bridges, and rock piles</li>
-            <li>Cast near structure and work lures along edges</li>
-            <li>Use current to your advantage</li>
-            <li>Focus on areas where baitfish congregate</li>
-          </ul>
-        </section>
-
-        <section id="tackle-gear">
-          <h2>Tackle & Gear</h2>
-          <p>
-            Proper tackle selection is important for speckled trout fishing success. Speckled trout can be caught on light tackle, making them fun to target.
-          </p>
-          
-          <h3>Rods and Reels</h3>
-          <p>
-            Recommended tackle for speckled trout:
-          </p>
-          <ul>
-            <li><strong>Spinning Gear:</strong> Light to medium spinning rods (7-8 feet) paired with 2500-3000 size reels work well for most speckled trout fishing</li>
-            <li><strong>Baitcasting Gear:</strong> Medium baitcasting rods with appropriate reels are excellent for structure fishing and heavier applications</li>
-            <li><strong>Fly Fishing:</strong> 6-8 weight fly rods work well for speckled trout, especially when fishing shallow areas</li>
-          </ul>
-
-          <h3>Line and Leader</h3>
-          <p>
-            Line selection is important:
-          </p>
-          <ul>
-            <li><strong>Main Line:</strong> 8-15 lb braided line provides strength and sensitivity</li>
-            <li><strong>Leader:</strong> 12-20 lb fluorocarbon leader is recommended for most situations</li>
-            <li><strong>Leader Length:</strong> 2-4 feet of leader is typically sufficient</li>
-          </ul>
-          <p>
-            Lighter tackle provides better sensitivity and allows for more natural presentations, which can improve your success rate.
-          </p>
-
-          <h3>Terminal Tackle</h3>
-          <p>
-            Essential terminal tackle:
-          </p>
-          <ul>
-            <li><strong>Hooks:</strong> Circle hooks for live bait (size 1 to 2/0), J-hooks for artificial lures</li>
-            <li><strong>Weights:</strong> Split shot or small egg sinkers for live bait rigs</li>
-            <li><strong>Swivels:</strong> Quality swivels to prevent line twist</li>
-          </ul>
-        </section>
-
-        <section id="best-locations">
-          <h2>Best Locations for Speckled Trout</h2>
-          <p>
-            Speckled trout are found throughout Florida's inshore waters, but some areas are particularly productive.
-          </p>
-          
-          <h3>Top Speckled Trout Fishing Areas</h3>
-          <p>
-            Productive speckled trout locations include:
-          </p>
-          <ul>
-            <li><strong>Grass Flats:</strong> Throughout Florida, especially shallow grass flats with potholes</li>
-            <li><strong>Channels and Passes:</strong> Areas with current flow that concentrate baitfish</li>
-            <li><strong>Backwater Areas:</strong> Shallow backwaters and creeks throughout Florida</li>
-            <li><strong>Structure:</strong> Docks, bridges, and rock piles that hold baitfish</li>
-            <li><strong>Beach Areas:</strong> Near passes and inlets, especially during favorable conditions</li>
-          </ul>
-
-          <h3>Regional Considerations</h3>
-          <p>
-            Speckled trout fishing is productive throughout Florida:
-          </p>
-          <ul>
-            <li><strong>South Florida:</strong> Excellent year-round speckled trout fishing in shallow flats and channels</li>
-            <li><strong>Central Florida:</strong> Productive speckled trout fishing in Tampa Bay, Charlotte Harbor, and surrounding areas</li>
-            <li><strong>North Florida:</strong> Good speckled trout fishing, with some seasonal variations</li>
-          </ul>
-          <p>
-            Speckled trout are one of Florida's most accessible inshore species, found throughout the state's inshore waters.
-          </p>
-        </section>
-
-        <AppStorePreviewModule className="my-12" />
-
-        <PrimaryCTA
-          title="Track Your Speckled Trout Catches"
-          copy="Log every speckled trout you catch with GPS location, photos, and conditions. Download Tackle for iPhone."
-          buttonText="download"
-          position="end"
-          pageType="species"
-          slug="speckled-trout"
-          species="speckled trout"
-          className="my-12"
-        />
-
-        <section className="related-content">
-          <h2>Related How-To Guides</h2>
-          <ul>
-            <li><Link href="/how-to/best-fishing-times">Best Fishing Times</Link></li>
-            <li><Link href="/how-to/how-tides-affect-fishing">How Tides Affect Fishing</Link></li>
-            <li><Link href="/how-to/best-time-of-day-to-fish">Best Time of Day to Fish</Link></li>
-          </ul>
-        </section>
-
-        <section className="related-locations">
-          <h2>Top Speckled Trout Fishing Locations</h2>
-          <ul>
-            <li><Link href="/locations/fl/tampa">Fishing in Tampa, Florida</Link></li>
-            <li><Link href="/locations/fl/fort-myers">Fishing in Fort Myers, Florida</Link></li>
-            <li><Link href="/locations/fl/sarasota">Fishing in Sarasota, Florida</Link></li>
-          </ul>
-        </section>
-
-        <section className="faq-section">
-          <h2>Frequently Asked Questions</h2>
-          <div className="faq-list">
-            {faqs.map((faq, index) => (
-              <div key={index} className="faq-item">
-                <h3 className="faq-question">{faq.question}</h3>
-                <p className="faq-answer">{faq.answer}</p>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        <RegulationsOutboundLinkBlock
-          stateCode="FL"
-          pageType="species"
-          slug="speckled-trout"
-          className="my-8"
-        />
-
-        <LastUpdated
-          date="2024-01-15T00:00:00Z"
-          author="Tackle Fishing Team"
-        />
-
-        <StickyBottomCTA
-          pageType="species"
-          slug="speckled-trout"
-          species="speckled trout"
-        />
-      </article>
-    </>
-  );
-}
-
@@ -0,0 +1,636 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  RefreshCw,
+  Lock,
+  Unlock,
+  RotateCcw,
+  FastForward,
+  AlertCircle,
+  Check,
+  Activity,
+  Search,
+} from 'lucide-react';
+import type { Job, JobStatus } from '@/scripts/pipeline/types';
+import type { PublishMetrics } from '@/scripts/pipeline/metrics';
+import type { LockMetrics } from '@/scripts/pipeline/lock-metrics';
+import type { LockData } from '@/lib/content/index-lock';
+import type { DriftReport } from '@/lib/content/index-drift-validator';
+
+interface LockState {
+  locked: boolean;
+  lockData?: LockData;
+  ageMs?: number;
+  stale?: boolean;
+}
+
+interface PipelineStatus {
+  jobs: {
+    total: number;
+    counts: Record<JobStatus, number>;
+    backingOff: number;
+    items: Job[];
+  };
+  metrics: PublishMetrics;
+  locks: {
+    index: LockState;
+    queue: LockState;
+    metrics: LockMetrics;
+  };
+}
+
+const REFRESH_INTERVAL_MS = 15000;
+const STATUS_FILTERS: Array<JobStatus | 'all'> = ['all', 'pending', 'running', 'dead-letter', 'failed', 'completed', 'cancelled'];
+const RETRYABLE_STATUSES: JobStatus[] = ['dead-letter', 'failed', 'cancelled'];
+
+function formatAge(ms?: number): string {
+  if (ms === undefined) return '-';
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
+
+/**
+ * PipelinePanel Component
+ *
+ * Admin view of the content pipeline: job queue, publish metrics, index/queue locks
+ * and index drift. Can retry or requeue jobs and release stale locks.
+ */
+export function PipelinePanel() {
+  const [status, setStatus] = useState<PipelineStatus | null>(null);
+  const [drift, setDrift] = useState<DriftReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checkingDrift, setCheckingDrift] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [filter, setFilter] = useState<JobStatus | 'all'>('all');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const res = await fetch('/api/admin/pipeline', { cache: 'no-store' });
+      if (!res.ok) throw new Error('Failed to load pipeline status');
+      setStatus(await res.json());
+    } catch (error) {
+      console.error('Failed to load pipeline status:', error);
+      setMessage({ type: 'error', text: 'Failed to load pipeline status' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+    const timer = setInterval(loadStatus, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadStatus]);
+
+  function showMessage(type: 'success' | 'error', text: string) {
+    setMessage({ type, text });
+    setTimeout(() => setMessage(null), 4000);
+  }
+
+  async function checkDrift() {
+    setCheckingDrift(true);
+    try {
+      const res = await fetch('/api/admin/pipeline/drift', { cache: 'no-store' });
+      if (!res.ok) throw new Error('Drift check failed');
+      setDrift(await res.json());
+    } catch (error) {
+      showMessage('error', 'Failed to check index drift');
+    } finally {
+      setCheckingDrift(false);
+    }
+  }
+
+  async function updateJobs(action: 'retry' | 'requeue', jobIds: string[]) {
+    setBusy(`${action}:${jobIds.join(',')}`);
+    try {
+      const res = await fetch('/api/admin/pipeline/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, jobIds }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Request failed');
+      showMessage('success', `${action === 'retry' ? 'Retried' : 'Requeued'} ${data.updated.length} job(s)`);
+      await loadStatus();
+    } catch (error) {
+      showMessage('error', error instanceof Error ? error.message : 'Failed to update jobs');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function releaseLock(lock: 'index' | 'queue') {
+    setBusy(`lock:${lock}`);
+    try {
+      const res = await fetch('/api/admin/pipeline/locks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lock }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Request failed');
+      showMessage('success', `Released stale ${lock} lock`);
+      await loadStatus();
+    } catch (error) {
+      showMessage('error', error instanceof Error ? error.message : 'Failed to release lock');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="pipeline-loading">
+        <Activity size={20} />
+        <p>Loading pipeline status...</p>
+        <style jsx>{`
+          .pipeline-loading {
+            flex: 1;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 0.5rem;
+            color: rgba(255, 255, 255, 0.5);
+          }
+        `}</style>
+      </div>
+    );
+  }
+
+  const jobs = (status?.jobs.items || []).filter((job) => filter === 'all' || job.status === filter);
+  const deadLetterIds = (status?.jobs.items || []).filter((job) => job.status === 'dead-letter').map((job) => job.jobId);
+  const summary = status?.metrics.summary;
+  const revalidation = status?.metrics.revalidation;
+  const lastCleanup = status?.locks.metrics.recentCleanups[status.locks.metrics.recentCleanups.length - 1];
+
+  return (
+    <div className="pipeline">
+      {/* Header */}
+      <div className="pipeline-header">
+        <h2>Pipeline</h2>
+        <button className="pipeline-btn" onClick={loadStatus} disabled={busy !== null}>
+          <RefreshCw size={14} />
+          Refresh
+        </button>
+      </div>
+
+      {message && (
+        <div className={`pipeline-message pipeline-message-${message.type}`}>
+          {message.type === 'success' ? <Check size={16} /> : <AlertCircle size={16} />}
+          {message.text}
+        </div>
+      )}
+
+      {status && (
+        <div className="pipeline-body">
+          {/* Queue + Publish Metrics */}
+          <section className="pipeline-cards">
+            <div className="pipeline-card">
+              <h3>Job Queue</h3>
+              <p className="pipeline-stat">{status.jobs.total}</p>
+              <ul>
+                <li>Pending: {status.jobs.counts.pending} ({status.jobs.backingOff} backing off)</li>
+                <li>Running: {status.jobs.counts.running}</li>
+                <li>Completed: {status.jobs.counts.completed}</li>
+                <li className={status.jobs.counts['dead-letter'] > 0 ? 'pipeline-warn' : ''}>
+                  Dead letter: {status.jobs.counts['dead-letter']}
+                </li>
+                <li>Failed / cancelled: {status.jobs.counts.failed} / {status.jobs.counts.cancelled}</li>
+              </ul>
+            </div>
+
+            <div className="pipeline-card">
+              <h3>Publishing</h3>
+              <p className="pipeline-stat">
+                {summary && summary.totalAttempts > 0
+                  ? `${Math.round((summary.totalSuccesses / summary.totalAttempts) * 100)}%`
+                  : '-'}
+              </p>
+              <ul>
+                <li>Attempts: {summary?.totalAttempts ?? 0}</li>
+                <li>Successes: {summary?.totalSuccesses ?? 0}</li>
+                <li>Failures: {summary?.totalFailures ?? 0} (quarantined {summary?.totalQuarantined ?? 0})</li>
+                <li>Avg publish time: {summary ? `${Math.round(summary.averagePublishTimeMs)}ms` : '-'}</li>
+                <li>
+                  Failures: validation {status.metrics.failures.validation}, quality gate {status.metrics.failures.qualityGate},
+                  {' '}write {status.metrics.failures.write}, index {status.metrics.failures.indexUpdate}
+                </li>
+                {revalidation && (
+                  <li>Revalidation: {revalidation.totalSuccesses}/{revalidation.totalAttempts} ok</li>
+                )}
+              </ul>
+            </div>
+
+            {/* Locks */}
+            <div className="pipeline-card">
+              <h3>Locks</h3>
+              {(['index', 'queue'] as const).map((name) => {
+                const lock = status.locks[name];
+                return (
+                  <div key={name} className="pipeline-lock">
+                    <span className={lock.locked ? (lock.stale ? 'pipeline-warn' : 'pipeline-busy') : 'pipeline-ok'}>
+                      {lock.locked ? <Lock size={14} /> : <Unlock size={14} />}
+                      {name}: {lock.locked ? `${lock.stale ? 'stale' : 'held'} ${formatAge(lock.ageMs)}` : 'free'}
+                    </span>
+                    {lock.lockData && <small>{lock.lockData.processId}</small>}
+                    {lock.locked && (
+                      <button
+                        className="pipeline-btn pipeline-btn-small"
+                        onClick={() => releaseLock(name)}
+                        disabled={!lock.stale || busy !== null}
+                        title={lock.stale ? 'Remove the stale lock' : 'Only stale locks can be released'}
+                      >
+                        Release
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+              <ul>
+                <li>Stale lock cleanups: {status.locks.metrics.totalCleanups}</li>
+                {lastCleanup && (
+                  <li>Last: {new Date(lastCleanup.timestamp).toLocaleString()} ({formatAge(lastCleanup.ageMs)} old)</li>
+                )}
+              </ul>
+            </div>
+          </section>
+
+          {/* Index Drift */}
+          <section className="pipeline-section">
+            <div className="pipeline-section-header">
+              <h3>Index Drift</h3>
+              <button className="pipeline-btn" onClick={checkDrift} disabled={checkingDrift}>
+                <Search size={14} />
+                {checkingDrift ? 'Checking...' : 'Check drift'}
+              </button>
+            </div>
+            {drift ? (
+              <>
+                <p className={
+                  drift.summary.indexOnlyCount + drift.summary.fileOnlyCount + drift.summary.metadataMismatchCount
+                    + drift.summary.duplicateCount + drift.summary.invalidSchemaCount > 0 ? 'pipeline-warn' : 'pipeline-ok'
+                }>
+                  {drift.summary.validCount}/{drift.summary.totalIndexEntries} index entries valid •
+                  {' '}{drift.summary.indexOnlyCount} index-only • {drift.summary.fileOnlyCount} file-only •
+                  {' '}{drift.summary.metadataMismatchCount} mismatches • {drift.summary.duplicateCount} duplicates •
+                  {' '}{drift.summary.invalidSchemaCount} invalid schema
+                </p>
+                <ul className="pipeline-drift-list">
+                  {drift.indexOnly.slice(0, 10).map((item) => (
+                    <li key={`index-${item.slug}`}>Index only: {item.slug} - {item.reason}</li>
+                  ))}
+                  {drift.fileOnly.slice(0, 10).map((item) => (
+                    <li key={`file-${item.slug}`}>File only: {item.slug} - {item.reason}</li>
+                  ))}
+                  {drift.metadataMismatches.slice(0, 10).map((item) => (
+                    <li key={`meta-${item.slug}-${item.field}`}>Mismatch: {item.slug}.{item.field}</li>
+                  ))}
+                  {drift.invalidSchema.slice(0, 10).map((item) => (
+                    <li key={`schema-${item.slug}`}>Invalid: {item.slug} - {item.errors.join('; ')}</li>
+                  ))}
+                </ul>
+                {(drift.summary.indexOnlyCount > 0 || drift.summary.fileOnlyCount > 0) && (
+                  <p className="pipeline-hint">Fix with <code>npm run pipeline:validate-index -- --fix</code></p>
+                )}
+              </>
+            ) : (
+              <p className="pipeline-hint">Compares contentIndex.json with the files in content/ (reads every file).</p>
+            )}
+          </section>
+
+          {/* Jobs */}
+          <section className="pipeline-section">
+            <div className="pipeline-section-header">
+              <h3>Jobs</h3>
+              <div className="pipeline-section-actions">
+                <select value={filter} onChange={(e) => setFilter(e.target.value as JobStatus | 'all')}>
+                  {STATUS_FILTERS.map((value) => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+                <button
+                  className="pipeline-btn"
+                  onClick={() => updateJobs('retry', deadLetterIds)}
+                  disabled={deadLetterIds.length === 0 || busy !== null}
+                >
+                  <RotateCcw size={14} />
+                  Retry all dead letters
+                </button>
+              </div>
+            </div>
+
+            {jobs.length === 0 ? (
+              <p className="pipeline-hint">No jobs.</p>
+            ) : (
+              <table className="pipeline-table">
+                <thead>
+                  <tr>
+                    <th>Status</th>
+                    <th>Topic</th>
+                    <th>Stage</th>
+                    <th>Attempts</th>
+                    <th>Last error</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map((job) => {
+                    const backingOff = job.status === 'pending' && job.runAt && new Date(job.runAt).getTime() > Date.now();
+                    return (
+                      <tr key={job.jobId}>
+                        <td>
+                          <span className={`pipeline-status pipeline-status-${job.status}`}>{job.status}</span>
+                          {backingOff && <small>retry {new Date(job.runAt!).toLocaleTimeString()}</small>}
+                        </td>
+                        <td title={job.jobId}>{job.topicKey}</td>
+                        <td>{job.stage || '-'}</td>
+                        <td>{job.attempts}/{job.maxAttempts}</td>
+                        <td className="pipeline-error">
+                          {job.lastError && job.status !== 'completed'
+                            ? `[${job.lastErrorClass || 'unclassified'}] ${job.lastError}`
+                            : ''}
+                        </td>
+                        <td>
+                          {RETRYABLE_STATUSES.includes(job.status) && (
+                            <button
+                              className="pipeline-btn pipeline-btn-small"
+                              onClick={() => updateJobs('retry', [job.jobId])}
+                              disabled={busy !== null}
+                            >
+                              <RotateCcw size={12} />
+                              Retry
+                            </button>
+                          )}
+                          {(backingOff || job.status === 'running') && (
+                            <button
+                              className="pipeline-btn pipeline-btn-small"
+                              onClick={() => updateJobs('requeue', [job.jobId])}
+                              disabled={busy !== null}
+                            >
+                              <FastForward size={12} />
+                              Requeue
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </div>
+      )}
+
+      <style jsx>{`
+        .pipeline {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          min-width: 0;
+        }
+
+        .pipeline-header,
+        .pipeline-section-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 0.75rem;
+        }
+
+        .pipeline-header {
+          padding: 0.875rem 1.25rem;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.06);
+        }
+
+        .pipeline-header h2 {
+          font-size: 1rem;
+          font-weight: 600;
+          margin: 0;
+        }
+
+        .pipeline-body {
+          flex: 1;
+          overflow-y: auto;
+          padding: 1.25rem;
+        }
+
+        .pipeline-cards {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(240px, 1fr));
+          gap: 1rem;
+          margin-bottom: 1.5rem;
+        }
+
+        .pipeline-card,
+        .pipeline-section {
+          background: #141419;
+          border: 1px solid rgba(255, 255, 255, 0.06);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+
+        .pipeline-section {
+          margin-bottom: 1.5rem;
+        }
+
+        .pipeline-card h3,
+        .pipeline-section h3 {
+          font-size: 0.8125rem;
+          font-weight: 600;
+          text-transform: uppercase;
+          letter-spacing: 0.04em;
+          color: rgba(255, 255, 255, 0.5);
+          margin: 0 0 0.5rem;
+        }
+
+        .pipeline-card ul,
+        .pipeline-drift-list {
+          list-style: none;
+          margin: 0.5rem 0 0;
+          padding: 0;
+          font-size: 0.8125rem;
+          color: rgba(255, 255, 255, 0.7);
+        }
+
+        .pipeline-card li,
+        .pipeline-drift-list li {
+          padding: 0.125rem 0;
+        }
+
+        .pipeline-stat {
+          font-size: 1.75rem;
+          font-weight: 600;
+          margin: 0;
+        }
+
+        .pipeline-lock {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          font-size: 0.8125rem;
+          padding: 0.25rem 0;
+        }
+
+        .pipeline-lock span {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+        }
+
+        .pipeline-lock small {
+          color: rgba(255, 255, 255, 0.4);
+        }
+
+        .pipeline-section-actions {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .pipeline-section-actions select {
+          background: #0a0a0f;
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 5px;
+          color: white;
+          font-size: 0.8125rem;
+          padding: 0.35rem 0.5rem;
+        }
+
+        .pipeline-btn {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          padding: 0.4rem 0.75rem;
+          border-radius: 5px;
+          font-size: 0.8125rem;
+          font-weight: 500;
+          cursor: pointer;
+          background: transparent;
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          color: white;
+          transition: all 0.15s ease;
+        }
+
+        .pipeline-btn:hover {
+          background: rgba(255, 255, 255, 0.05);
+          border-color: rgba(255, 255, 255, 0.25);
+        }
+
+        .pipeline-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .pipeline-btn-small {
+          padding: 0.25rem 0.5rem;
+          font-size: 0.75rem;
+          background: rgba(59, 130, 246, 0.15);
+          border-color: rgba(59, 130, 246, 0.3);
+          color: #60a5fa;
+        }
+
+        .pipeline-message {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.625rem 1.25rem;
+          font-size: 0.8125rem;
+        }
+
+        .pipeline-message-success {
+          background: rgba(34, 197, 94, 0.1);
+          color: #4ade80;
+        }
+
+        .pipeline-message-error {
+          background: rgba(239, 68, 68, 0.1);
+          color: #f87171;
+        }
+
+        .pipeline-ok {
+          color: #4ade80;
+        }
+
+        .pipeline-busy {
+          color: #60a5fa;
+        }
+
+        .pipeline-warn {
+          color: #fbbf24;
+        }
+
+        .pipeline-hint {
+          font-size: 0.8125rem;
+          color: rgba(255, 255, 255, 0.5);
+          margin: 0.5rem 0 0;
+        }
+
+        .pipeline-table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.8125rem;
+          margin-top: 0.75rem;
+        }
+
+        .pipeline-table th {
+          text-align: left;
+          font-weight: 500;
+          color: rgba(255, 255, 255, 0.5);
+          padding: 0.375rem 0.5rem;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.06);
+        }
+
+        .pipeline-table td {
+          padding: 0.375rem 0.5rem;
+          border-bottom: 1px solid rgba(255, 255, 255, 0.04);
+          vertical-align: top;
+        }
+
+        .pipeline-table td small {
+          display: block;
+          color: rgba(255, 255, 255, 0.4);
+        }
+
+        .pipeline-table td:last-child {
+          display: flex;
+          gap: 0.375rem;
+          justify-content: flex-end;
+        }
+
+        .pipeline-error {
+          color: rgba(255, 255, 255, 0.6);
+          max-width: 360px;
+          word-break: break-word;
+        }
+
+        .pipeline-status {
+          font-size: 0.6875rem;
+          padding: 0.1rem 0.4rem;
+          border-radius: 4px;
+          background: rgba(255, 255, 255, 0.08);
+        }
+
+        .pipeline-status-completed {
+          background: rgba(34, 197, 94, 0.15);
+          color: #4ade80;
+        }
+
+        .pipeline-status-running {
+          background: rgba(59, 130, 246, 0.2);
+          color: #60a5fa;
+        }
+
+        .pipeline-status-dead-letter,
+        .pipeline-status-failed {
+          background: rgba(239, 68, 68, 0.15);
+          color: #f87171;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { History, RotateCcw, AlertCircle, Check } from 'lucide-react';
+import type { PageType } from '@/scripts/pipeline/types';
+import type { RevisionSummary, RevisionDiff } from '@/lib/content/revisions';
+
+interface RevisionHistoryProps {
+  pageType: PageType;
+  slug: string;
+  onRestored: () => void; // Reload the doc after a rollback
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+/**
+ * RevisionHistory Component
+ *
+ * Lists a doc's revisions (newest first), shows the diff of the selected one against
+ * the previous revision or the latest, and restores a revision in one click.
+ */
+export function RevisionHistory({ pageType, slug, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<'previous' | 'latest'>('previous');
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const query = `pageType=${encodeURIComponent(pageType)}&slug=${encodeURIComponent(slug)}`;
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/admin/revisions?${query}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load revisions');
+      setRevisions(data.revisions);
+      setSelected((current) => current ?? data.revisions[0]?.number ?? null);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load revisions' });
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    if (selected === null || revisions.length === 0) {
+      setDiff(null);
+      return;
+    }
+    const latest = revisions[0].number;
+    const url = compareTo === 'latest'
+      ? (selected === latest ? null : `/api/admin/revisions?${query}&from=${selected}&to=${latest}`)
+      : `/api/admin/revisions?${query}&revision=${selected}`;
+    if (!url) {
+      setDiff({ fields: [], body: [], added: 0, removed: 0 });
+      return;
+    }
+
+    fetch(url, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load diff');
+        setDiff(data.diff);
+      })
+      .catch((error) => setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load diff' }));
+  }, [selected, compareTo, revisions, query]);
+
+  async function restore(number: number) {
+    if (!confirm(`Restore revision ${number}? The current version stays in the history.`)) return;
+    setRestoring(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/admin/revisions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pageType, slug, revision: number }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Rollback failed');
+      setMessage({ type: 'success', text: `Restored revision ${number} as revision ${data.revision.number}` });
+      setSelected(data.revision.number);
+      await loadRevisions();
+      onRestored();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Rollback failed' });
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  const latestNumber = revisions[0]?.number;
+
+  return (
+    <div className="revisions">
+      {message && (
+        <div className={`revisions-message revisions-message-${message.type}`}>
+          {message.type === 'success' ? <Check size={16} /> : <AlertCircle size={16} />}
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="revisions-hint">Loading revisions...</p>
+      ) : revisions.length === 0 ? (
+        <p className="revisions-hint">No revisions yet. The next save records the current version as the baseline.</p>
+      ) : (
+        <div className="revisions-layout">
+          <ul className="revisions-list">
+            {revisions.map((revision) => (
+              <li key={revision.number}>
+                <button
+                  className={`revisions-item ${selected === revision.number ? 'active' : ''}`}
+                  onClick={() => setSelected(revision.number)}
+                >
+                  <span className="revisions-item-title">
+                    <History size={14} />
+                    #{revision.number} {revision.reason}
+                  </span>
+                  <small>
+                    {new Date(revision.createdAt).toLocaleString()} • {revision.source} • {revision.author}
+                    {' '}• +{revision.stats.added} −{revision.stats.removed}
+                    {revision.stats.fields > 0 ? ` • ${revision.stats.fields} field(s)` : ''}
+                  </small>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="revisions-diff">
+            {selected !== null && (
+              <div className="revisions-diff-header">
+                <select value={compareTo} onChange={(e) => setCompareTo(e.target.value as 'previous' | 'latest')}>
+                  <option value="previous">Changes in #{selected}</option>
+                  <option value="latest">#{selected} → latest (#{latestNumber})</option>
+                </select>
+                <button
+                  className="revisions-btn"
+                  onClick={() => restore(selected)}
+                  disabled={restoring || selected === latestNumber}
+                  title={selected === latestNumber ? 'This is the current version' : 'Restore this version'}
+                >
+                  <RotateCcw size={14} />
+                  {restoring ? 'Restoring...' : 'Restore'}
+                </button>
+              </div>
+            )}
+
+            {diff && (
+              <>
+                {diff.fields.length > 0 && (
+                  <table className="revisions-fields">
+                    <tbody>
+                      {diff.fields.map((change) => (
+                        <tr key={change.field}>
+                          <th>{change.field}</th>
+                          <td className="revisions-removed">{formatValue(change.before)}</td>
+                          <td className="revisions-added">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {diff.body.length === 0 && diff.fields.length === 0 && (
+                  <p className="revisions-hint">No changes.</p>
+                )}
+                {diff.body.map((hunk) => (
+                  <pre key={`${hunk.oldStart}-${hunk.newStart}`} className="revisions-hunk">
+                    <span className="revisions-hunk-header">
+                      @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+                    </span>
+                    {hunk.lines.map((line, i) => (
+                      <span
+                        key={i}
+                        className={line[0] === '+' ? 'revisions-added' : line[0] === '-' ? 'revisions-removed' : ''}
+                      >
+                        {line}
+                      </span>
+                    ))}
+                  </pre>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      <style jsx>{`
+        .revisions {
+          padding: 1.25rem;
+        }
+
+        .revisions-layout {
+          display: grid;
+          grid-template-columns: minmax(220px, 320px) 1fr;
+          gap: 1rem;
+        }
+
+        .revisions-list {
+          list-style: none;
+          margin: 0;
+          padding: 0;
+        }
+
+        .revisions-item {
+          width: 100%;
+          display: flex;
+          flex-direction: column;
+          gap: 0.25rem;
+          text-align: left;
+          padding: 0.5rem 0.625rem;
+          border-radius: 6px;
+          border: 1px solid transparent;
+          background: transparent;
+          color: white;
+          cursor: pointer;
+          font-size: 0.8125rem;
+        }
+
+        .revisions-item:hover,
+        .revisions-item.active {
+          background: #141419;
+          border-color: rgba(255, 255, 255, 0.08);
+        }
+
+        .revisions-item-title {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+        }
+
+        .revisions-item small {
+          color: rgba(255, 255, 255, 0.45);
+        }
+
+        .revisions-diff {
+          min-width: 0;
+          background: #141419;
+          border: 1px solid rgba(255, 255, 255, 0.06);
+          border-radius: 8px;
+          padding: 1rem;
+        }
+
+        .revisions-diff-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 0.75rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .revisions-diff-header select {
+          background: #0a0a0f;
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 5px;
+          color: white;
+          font-size: 0.8125rem;
+          padding: 0.35rem 0.5rem;
+        }
+
+        .revisions-btn {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          padding: 0.4rem 0.75rem;
+          border-radius: 5px;
+          font-size: 0.8125rem;
+          cursor: pointer;
+          background: rgba(59, 130, 246, 0.15);
+          border: 1px solid rgba(59, 130, 246, 0.3);
+          color: #60a5fa;
+        }
+
+        .revisions-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .revisions-fields {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 0.75rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .revisions-fields th {
+          text-align: left;
+          font-weight: 500;
+          color: rgba(255, 255, 255, 0.5);
+          padding: 0.25rem 0.5rem 0.25rem 0;
+          vertical-align: top;
+          white-space: nowrap;
+        }
+
+        .revisions-fields td {
+          padding: 0.25rem 0.5rem;
+          word-break: break-word;
+        }
+
+        .revisions-hunk {
+          margin: 0 0 0.75rem;
+          font-size: 0.75rem;
+          line-height: 1.5;
+          white-space: pre-wrap;
+          word-break: break-word;
+        }
+
+        .revisions-hunk span {
+          display: block;
+        }
+
+        .revisions-hunk-header {
+          color: rgba(255, 255, 255, 0.4);
+        }
+
+        .revisions-added {
+          background: rgba(34, 197, 94, 0.1);
+          color: #4ade80;
+        }
+
+        .revisions-removed {
+          background: rgba(239, 68, 68, 0.1);
+          color: #f87171;
+        }
+
+        .revisions-message {
+          display: flex;
+          align-items: center;
+          gap: 0.5rem;
+          padding: 0.625rem 0;
+          font-size: 0.8125rem;
+        }
+
+        .revisions-message-success {
+          color: #4ade80;
+        }
+
+        .revisions-message-error {
+          color: #f87171;
+        }
+
+        .revisions-hint {
+          font-size: 0.8125rem;
+          color: rgba(255, 255, 255, 0.5);
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Send, CheckCircle, Undo2, CalendarClock, Rocket, EyeOff, AlertCircle } from 'lucide-react';
+import type { EditorialState, EditorialStatus, PageType } from '@/scripts/pipeline/types';
+import type { WorkflowAction } from '@/lib/content/workflow';
+
+interface WorkflowControlsProps {
+  pageType: PageType;
+  slug: string;
+  onChanged: () => void; // Reload the doc and list after a transition
+}
+
+const STATUS_LABELS: Record<EditorialStatus, string> = {
+  draft: 'Draft',
+  'in-review': 'In review',
+  scheduled: 'Scheduled',
+  published: 'Published',
+};
+
+const ACTIONS: Record<WorkflowAction, { label: string; icon: React.ReactNode; confirm?: string }> = {
+  submit: { label: 'Submit for review', icon: <Send size={14} /> },
+  'request-changes': { label: 'Request changes', icon: <Undo2 size={14} /> },
+  approve: { label: 'Approve', icon: <CheckCircle size={14} /> },
+  unschedule: { label: 'Unschedule', icon: <Undo2 size={14} /> },
+  publish: { label: 'Publish now', icon: <Rocket size={14} />, confirm: 'Publish this post now instead of at its scheduled time?' },
+  unpublish: { label: 'Unpublish', icon: <EyeOff size={14} />, confirm: 'Take this post off the site and back to draft?' },
+};
+
+const NAME_STORAGE_KEY = 'admin-editor-name';
+
+/**
+ * WorkflowControls Component
+ *
+ * Shows a doc's editorial status and moves it through draft → in review → scheduled → published.
+ * Approving with a date schedules the post; without one it goes live immediately.
+ */
+export function WorkflowControls({ pageType, slug, onChanged }: WorkflowControlsProps) {
+  const [editorial, setEditorial] = useState<EditorialState | null>(null);
+  const [actions, setActions] = useState<WorkflowAction[]>([]);
+  const [name, setName] = useState('');
+  const [reviewer, setReviewer] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadState = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/admin/workflow?pageType=${encodeURIComponent(pageType)}&slug=${encodeURIComponent(slug)}`,
+        { cache: 'no-store' }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load workflow state');
+      setEditorial(data.editorial);
+      setActions(data.actions);
+      setReviewer(data.editorial.reviewer || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load workflow state');
+    }
+  }, [pageType, slug]);
+
+  useEffect(() => {
+    setName(localStorage.getItem(NAME_STORAGE_KEY) || '');
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    loadState();
+  }, [loadState]);
+
+  async function run(action: WorkflowAction) {
+    const confirmText = ACTIONS[action].confirm;
+    if (confirmText && !confirm(confirmText)) return;
+    if (!name.trim()) {
+      setError('Enter your name first');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    localStorage.setItem(NAME_STORAGE_KEY, name.trim());
+    try {
+      const res = await fetch('/api/admin/workflow', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          pageType,
+          slug,
+          action,
+          by: name.trim(),
+          reviewer: action === 'submit' ? reviewer : undefined,
+          // datetime-local has no timezone: interpret it in the editor's local time
+          scheduledFor: action === 'approve' && scheduledFor ? new Date(scheduledFor).toISOString() : undefined,
+          note,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Workflow action failed');
+      setEditorial(data.editorial);
+      setActions(data.actions);
+      setNote('');
+      setScheduledFor('');
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Workflow action failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!editorial) {
+    return error ? <div className="workflow-error"><AlertCircle size={14} /> {error}</div> : null;
+  }
+
+  const lastChange = editorial.history[editorial.history.length - 1];
+
+  return (
+    <div className="workflow">
+      <div className="workflow-status">
+        <span className={`workflow-badge workflow-badge-${editorial.status}`}>{STATUS_LABELS[editorial.status]}</span>
+        {editorial.reviewer && <span>Reviewer: {editorial.reviewer}</span>}
+        {editorial.scheduledFor && (
+          <span>
+            <CalendarClock size={13} /> Goes live {new Date(editorial.scheduledFor).toLocaleString()}
+          </span>
+        )}
+        {editorial.approvedBy && <span>Approved by {editorial.approvedBy}</span>}
+        {lastChange && (
+          <span className="workflow-muted">
+            Last change by {lastChange.by}, {new Date(lastChange.at).toLocaleString()}
+            {lastChange.note ? ` — "${lastChange.note}"` : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="workflow-controls">
+        <input type="text" placeholder="Your name" value={name} onChange={(e) => setName(e.target.value)} />
+        {actions.includes('submit') && (
+          <input type="text" placeholder="Reviewer" value={reviewer} onChange={(e) => setReviewer(e.target.value)} />
+        )}
+        {actions.includes('approve') && (
+          <input
+            type="datetime-local"
+            title="Leave empty to publish on approval"
+            value={scheduledFor}
+            onChange={(e) => setScheduledFor(e.target.value)}
+          />
+        )}
+        <input type="text" placeholder="Note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+        {actions.map((action) => (
+          <button key={action} className="workflow-btn" onClick={() => run(action)} disabled={busy}>
+            {ACTIONS[action].icon}
+            {action === 'approve' && scheduledFor ? 'Approve & schedule' : ACTIONS[action].label}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="workflow-error"><AlertCircle size={14} /> {error}</div>}
+
+      <style jsx>{`
+        .workflow {
+          display: flex;
+          flex-direction: column;
+          gap: 0.625rem;
+          padding: 0.875rem 1rem;
+          margin-bottom: 1.5rem;
+          background: #141419;
+          border: 1px solid rgba(255, 255, 255, 0.06);
+          border-radius: 8px;
+        }
+
+        .workflow-status {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 0.75rem;
+          font-size: 0.8125rem;
+          color: rgba(255, 255, 255, 0.7);
+        }
+
+        .workflow-status span {
+          display: inline-flex;
+          align-items: center;
+          gap: 0.25rem;
+        }
+
+        .workflow-badge {
+          padding: 0.125rem 0.5rem;
+          border-radius: 999px;
+          font-size: 0.75rem;
+          font-weight: 500;
+        }
+
+        .workflow-badge-draft {
+          background: rgba(255, 255, 255, 0.08);
+          color: rgba(255, 255, 255, 0.7);
+        }
+
+        .workflow-badge-in-review {
+          background: rgba(234, 179, 8, 0.15);
+          color: #facc15;
+        }
+
+        .workflow-badge-scheduled {
+          background: rgba(59, 130, 246, 0.15);
+          color: #60a5fa;
+        }
+
+        .workflow-badge-published {
+          background: rgba(34, 197, 94, 0.15);
+          color: #4ade80;
+        }
+
+        .workflow-muted {
+          color: rgba(255, 255, 255, 0.45);
+        }
+
+        .workflow-controls {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.5rem;
+        }
+
+        .workflow-controls input {
+          background: #0a0a0f;
+          border: 1px solid rgba(255, 255, 255, 0.15);
+          border-radius: 5px;
+          color: white;
+          font-size: 0.8125rem;
+          padding: 0.35rem 0.5rem;
+          color-scheme: dark;
+        }
+
+        .workflow-btn {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          padding: 0.4rem 0.75rem;
+          border-radius: 5px;
+          font-size: 0.8125rem;
+          cursor: pointer;
+          background: rgba(59, 130, 246, 0.15);
+          border: 1px solid rgba(59, 130, 246, 0.3);
+          color: #60a5fa;
+        }
+
+        .workflow-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .workflow-error {
+          display: flex;
+          align-items: center;
+          gap: 0.375rem;
+          font-size: 0.8125rem;
+          color: #f87171;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Doc Markdown Component
+ * Renders a content doc's markdown body (species, how-to and location pages) with
+ * heading ids from doc.headings for the table of contents and citation footnote links
+ */
+
+import { isValidElement, type ReactNode } from 'react';
+import ReactMarkdown from 'react-markdown';
+import Link from 'next/link';
+import type { Heading } from '@/scripts/pipeline/types';
+
+interface DocMarkdownProps {
+  body: string;
+  headings: Heading[];
+}
+
+/**
+ * Comparable form of a heading: doc.headings keeps the raw markdown ("Use `slack` [tides](/how-to/x)"),
+ * rendered headings only have their text ("Use slack tides")
+ */
+function headingKey(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[`*_~]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Plain text of rendered children (inline code, emphasis and links arrive as elements)
+ */
+function textOf(children: ReactNode): string {
+  if (typeof children === 'string' || typeof children === 'number') {
+    return String(children);
+  }
+  if (Array.isArray(children)) {
+    return children.map(textOf).join('');
+  }
+  if (isValidElement(children)) {
+    return textOf((children.props as { children?: ReactNode }).children);
+  }
+  return '';
+}
+
+export function DocMarkdown({ body, headings }: DocMarkdownProps) {
+  const headingIds = new Map(headings.filter((h) => h.id).map((h) => [headingKey(h.text), h.id]));
+  const idFor = (children: ReactNode) => headingIds.get(headingKey(textOf(children)));
+
+  const components = {
+    h2: ({ children }: any) => <h2 id={idFor(children)}>{children}</h2>,
+    h3: ({ children }: any) => <h3 id={idFor(children)}>{children}</h3>,
+    a: ({ children, href, title }: any) => {
+      // Footnote link from linkCitations - the title carries the citation's anchor id
+      if (href?.startsWith('#source-')) {
+        return (
+          <sup id={title} className="citation">
+            <a href={href}>[{children}]</a>
+          </sup>
+        );
+      }
+      return href?.startsWith('/') ? <Link href={href}>{children}</Link> : <a href={href} title={title}>{children}</a>;
+    },
+  };
+
+  return <ReactMarkdown components={components}>{body}</ReactMarkdown>;
+}
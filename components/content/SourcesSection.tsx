@@ -1,16 +1,18 @@
 /**
  * Sources Section Component
- * Displays "Sources Consulted" section
+ * Displays "Sources Consulted" section as numbered footnotes
+ * (numbers match the inline citation links built by linkCitations)
  */
 
 import { Source } from '@/scripts/pipeline/types';
 
 interface SourcesSectionProps {
   sources: Source[];
+  citations?: Record<string, string[]>; // Source id → anchor ids of its inline citations
   className?: string;
 }
 
-export function SourcesSection({ sources, className = '' }: SourcesSectionProps) {
+export function SourcesSection({ sources, citations = {}, className = '' }: SourcesSectionProps) {
   if (sources.length === 0) {
     return null;
   }
@@ -31,9 +33,9 @@ export function SourcesSection({ sources, className = '' }: SourcesSectionProps)
       <p className="sources-intro">
         The following sources were consulted in creating this guide:
       </p>
-      <ul className="sources-list">
+      <ol className="sources-list">
         {sources.map((source, index) => (
-          <li key={index} className="source-item">
+          <li key={index} id={`source-${index + 1}`} className="source-item">
             <strong>{source.label}</strong>
             {source.publisher && ` (${source.publisher})`}
             {source.url && (
@@ -55,9 +57,20 @@ export function SourcesSection({ sources, className = '' }: SourcesSectionProps)
             {source.notes && (
               <span className="source-notes"> – {source.notes}</span>
             )}
+            {source.id && citations[source.id]?.map((anchorId, citeIndex) => (
+              <a
+                key={anchorId}
+                href={`#${anchorId}`}
+                className="source-backlink"
+                aria-label={`Back to citation ${citeIndex + 1}`}
+              >
+                {' ↩'}
+                {citations[source.id!].length > 1 && <sup>{citeIndex + 1}</sup>}
+              </a>
+            ))}
           </li>
         ))}
-      </ul>
+      </ol>
       <p className="sources-disclaimer">
         <em>
           Note: Information is summarized and explained in our own words. Always verify current regulations with official sources.
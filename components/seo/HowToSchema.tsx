@@ -0,0 +1,71 @@
+/**
+ * HowTo Schema Component
+ * Adds HowTo JSON-LD schema for how-to guides (alongside ArticleSchema and FaqSchema)
+ * Steps, tools, supplies and total time come from the doc's howToMeta
+ */
+
+import { absoluteUrl } from '@/lib/seo/utils';
+
+interface HowToSchemaStep {
+  name: string;
+  text: string;
+  url?: string; // Step anchor, e.g. /how-to/slug#planning-around-tides
+}
+
+interface HowToSchemaProps {
+  name: string;
+  description: string;
+  url: string;
+  steps?: HowToSchemaStep[];
+  tools?: string[];
+  supplies?: string[];
+  totalTime?: string; // ISO 8601 duration
+  image?: string;
+}
+
+export function HowToSchema({
+  name,
+  description,
+  url,
+  steps,
+  tools,
+  supplies,
+  totalTime,
+  image,
+}: HowToSchemaProps) {
+  // A HowTo without steps is invalid structured data
+  if (!steps || steps.length === 0) return null;
+
+  const schema = {
+    '@context': 'https://schema.org',
+    '@type': 'HowTo',
+    name,
+    description,
+    mainEntityOfPage: {
+      '@type': 'WebPage',
+      '@id': absoluteUrl(url),
+    },
+    ...(image && { image: absoluteUrl(image) }),
+    ...(totalTime && { totalTime }),
+    ...(tools && tools.length > 0 && {
+      tool: tools.map((tool) => ({ '@type': 'HowToTool', name: tool })),
+    }),
+    ...(supplies && supplies.length > 0 && {
+      supply: supplies.map((supply) => ({ '@type': 'HowToSupply', name: supply })),
+    }),
+    step: steps.map((step, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      name: step.name,
+      text: step.text,
+      ...(step.url && { url: absoluteUrl(step.url) }),
+    })),
+  };
+
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(schema) }}
+    />
+  );
+}
@@ -3,7 +3,7 @@
  * These are generated automatically when content is published
  */
 
-import { getAllSpeciesDocs, getAllHowToDocs, getAllLocationDocs, loadContentIndex } from './index';
+import { getAllSpeciesDocs, getAllHowToDocs, getAllLocationDocs, loadContentIndex, isLive } from './index';
 import { getBlogPostBySlug } from './blog';
 import { BlogPostDoc, SpeciesDoc, HowToDoc, LocationDoc } from '@/scripts/pipeline/types';
 import fs from 'fs/promises';
@@ -141,8 +141,7 @@ export async function getAutoLinksForBlog(slug: string): Promise<LinkSuggestion[
             entry &&
             entry.slug &&
             entry.title &&
-            !entry.flags?.draft &&
-            !entry.flags?.noindex &&
+            isLive(entry) &&
             entry.slug !== slug &&
             entry.category === post.categorySlug
           )
@@ -3,7 +3,7 @@
  * All operations use index only (no file reads)
  */
 
-import { loadContentIndex, BlogPostIndexEntry } from './index';
+import { loadContentIndex, isLive, BlogPostIndexEntry } from './index';
 import { BlogPostDisplay } from './blog';
 
 export interface PaginationOptions {
@@ -46,8 +46,8 @@ export async function getPaginatedBlogPosts(
 
   // Filter posts from index
   let posts = index.blogPosts.filter((entry) => {
-    // Filter out drafts and noindex
-    if (entry.flags?.draft || entry.flags?.noindex) {
+    // Filter out drafts, noindex and posts scheduled for later
+    if (!isLive(entry)) {
       return false;
     }
     // Filter by category if specified
@@ -121,7 +121,7 @@ export async function getTotalBlogPostCount(category?: string): Promise<number>
   const index = await loadContentIndex();
 
   let count = index.blogPosts.filter((entry) => {
-    if (entry.flags?.draft || entry.flags?.noindex) {
+    if (!isLive(entry)) {
       return false;
     }
     if (category && entry.category !== category) {
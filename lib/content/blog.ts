@@ -3,7 +3,7 @@
  * Reads blog posts from the content system
  */
 
-import { loadContentDoc, loadContentIndex, BlogPostIndexEntry } from './index';
+import { loadContentDoc, loadContentIndex, isLive, BlogPostIndexEntry } from './index';
 import { BlogPostDoc } from '@/scripts/pipeline/types';
 import fs from 'fs/promises';
 import path from 'path';
@@ -41,8 +41,8 @@ export async function loadAllBlogPosts(): Promise<BlogPostDisplay[]> {
   
   return index.blogPosts
     .filter((entry) => {
-      // Only include published posts
-      if (entry.flags?.draft || entry.flags?.noindex) {
+      // Only include live posts (scheduled posts appear once their time has come)
+      if (!isLive(entry)) {
         return false;
       }
       
@@ -198,8 +198,8 @@ export async function getBlogPostBySlug(slug: string): Promise<BlogPostDoc | nul
     return null;
   }
   
-  // Filter out drafts and noindex (these are valid states, not errors)
-  if (validatedDoc.flags.draft || validatedDoc.flags.noindex) {
+  // Filter out drafts, noindex and posts scheduled for later (these are valid states, not errors)
+  if (!isLive(validatedDoc)) {
     // Don't log this as an error - it's expected behavior
     return null;
   }
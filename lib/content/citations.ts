@@ -0,0 +1,129 @@
+/**
+ * Fact-level citations
+ *
+ * Generated bodies mark cited claims with `[^source-id]`, where source-id is a `doc.sources[].id`.
+ * Markers can sit before or after the sentence's final punctuation ("...20 inches[^src-006]." or
+ * "...20 inches.[^src-006]"). At render time markers become numbered footnote links
+ * (number = position in doc.sources) and SourcesSection links each footnote back to its markers.
+ */
+
+import { Source } from '@/scripts/pipeline/types';
+
+export const CITATION_MARKER_PATTERN = /\[\^([A-Za-z0-9][\w-]*)\]/g;
+
+// Sentences stating a measurement, count, percentage, date range or price
+const NUMERIC_CLAIM_PATTERN =
+  /\b\d+(?:[.,]\d+)?\s*(?:%|percent|inch(?:es)?|feet|foot|ft\b|yards?|miles?|meters?|cm\b|mm\b|pounds?|lbs?\b|ounces?|oz\b|kg\b|grams?|°\s?[FC]?|degrees?|years?|months?|days?|hours?|fish\b|per\b|\$)|\$\s?\d/i;
+
+// Sentences stating a rule (limits, seasons, licenses, permits, penalties)
+const REGULATORY_CLAIM_PATTERN =
+  /\b(?:bag|size|slot|possession|creel|daily|catch)\s+limits?\b|\b(?:closed|open)\s+seasons?\b|\bseason\s+(?:is\s+)?(?:closed|open)\b|\blicen[cs]es?\s+(?:is\s+|are\s+)?(?:required|costs?)\b|\bpermits?\s+(?:is\s+|are\s+)?required\b|\b(?:illegal|unlawful|prohibited)\b|\bfines?\s+(?:of|up to)\b/i;
+
+// Pointers to regulations are not claims about them
+const REGULATION_POINTER_PATTERN =
+  /\b(?:check|consult|verify|see|review|confirm)\b[^.]*\b(?:regulations?|rules|official sources?|wildlife agency)\b/i;
+
+export interface CitationLinks {
+  body: string; // Markers replaced with footnote links
+  backlinks: Record<string, string[]>; // Source id → anchor ids of its markers (in order)
+  unknownIds: string[]; // Markers whose id is not in doc.sources (dropped)
+}
+
+/**
+ * Source ids cited in a text (in order of appearance, with repeats)
+ */
+export function extractCitationIds(text: string): string[] {
+  return Array.from(text.matchAll(CITATION_MARKER_PATTERN), (match) => match[1]);
+}
+
+/**
+ * Remove citation markers (for word counts, descriptions, similarity checks)
+ */
+export function stripCitationMarkers(text: string): string {
+  return text.replace(CITATION_MARKER_PATTERN, '');
+}
+
+/**
+ * Footnote number for each source (position in doc.sources, 1-based)
+ */
+export function getSourceNumbers(sources: Source[]): Map<string, number> {
+  const numbers = new Map<string, number>();
+  sources.forEach((source, index) => {
+    if (source.id) {
+      numbers.set(source.id, index + 1);
+    }
+  });
+  return numbers;
+}
+
+/**
+ * Does a sentence state a numeric or regulatory fact that needs a citation
+ */
+export function isCitableClaim(sentence: string): boolean {
+  const text = stripCitationMarkers(sentence)
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Links/images → their text
+    .trim();
+  if (!text || REGULATION_POINTER_PATTERN.test(text)) {
+    return false;
+  }
+  return NUMERIC_CLAIM_PATTERN.test(text) || REGULATORY_CLAIM_PATTERN.test(text);
+}
+
+/**
+ * Split a markdown body into prose sentences (headings, images, tables and code are skipped)
+ */
+export function splitIntoSentences(body: string): string[] {
+  const sentences: string[] = [];
+  let inCode = false;
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('```')) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || !line || line.startsWith('#') || line.startsWith('|') || /^!\[[^\]]*\]\([^)]*\)$/.test(line)) {
+      continue;
+    }
+
+    const prose = line.replace(/^(?:[-*+]|\d+\.)\s+/, '').replace(/^>\s*/, '');
+    // A marker after the final punctuation belongs to the sentence before the break
+    sentences.push(...prose.split(/(?<=[.!?](?:\[\^[\w-]+\])*)\s+/).filter((s) => s.trim().length > 0));
+  }
+
+  return sentences;
+}
+
+/**
+ * Numeric/regulatory sentences without a citation marker
+ */
+export function findUncitedClaims(body: string): string[] {
+  return splitIntoSentences(body).filter(
+    (sentence) => isCitableClaim(sentence) && extractCitationIds(sentence).length === 0
+  );
+}
+
+/**
+ * Replace markers with numbered footnote links for rendering
+ * `[^src-006]` → `[2](#source-2 "cite-2-1")` - the link title is the marker's anchor id,
+ * which SourcesSection links back to.
+ */
+export function linkCitations(body: string, sources: Source[]): CitationLinks {
+  const numbers = getSourceNumbers(sources);
+  const backlinks: Record<string, string[]> = {};
+  const unknownIds: string[] = [];
+
+  const linked = body.replace(CITATION_MARKER_PATTERN, (_, id: string) => {
+    const number = numbers.get(id);
+    if (!number) {
+      unknownIds.push(id);
+      return '';
+    }
+    const anchors = (backlinks[id] = backlinks[id] || []);
+    const anchorId = `cite-${number}-${anchors.length + 1}`;
+    anchors.push(anchorId);
+    return `[${number}](#source-${number} "${anchorId}")`;
+  });
+
+  return { body: linked, backlinks, unknownIds };
+}
@@ -0,0 +1,166 @@
+/**
+ * How-to structured data
+ *
+ * HowTo JSON-LD needs steps, tools, supplies and a total time. Generated docs store them in
+ * doc.howToMeta (extracted from the body by the how-to generator); older docs fall back to
+ * the same extraction at render time.
+ *
+ * Body conventions:
+ * - Steps: "### Step 1: Check the tide" headings (text = the paragraph below), otherwise the
+ *   first numbered list, otherwise the H2 sections
+ * - Tools/supplies: bullets under "## What You'll Need" ("### Tools" / "### Supplies"
+ *   subsections; bullets without a subsection count as tools)
+ * - Total time: a "**Total time:** 45 minutes" line
+ */
+
+import { HowToDoc, HowToStep } from '@/scripts/pipeline/types';
+import { stripCitationMarkers } from './citations';
+
+export type HowToMeta = NonNullable<HowToDoc['howToMeta']>;
+
+const STEP_HEADING_PATTERN = /^###\s+Step\s+\d+\s*[:.-]\s*(.+)$/i;
+const NEEDS_HEADING_PATTERN = /^##\s+(?:what you'?ll need|what you need|gear needed|tools and supplies)\b/i;
+const TOTAL_TIME_PATTERN = /^\*{0,2}(?:total|estimated)\s+time:?\*{0,2}:?\s*(.+)$/i;
+
+/**
+ * Markdown → plain text for schema values (links, emphasis, citation markers removed)
+ */
+function toPlainText(markdown: string): string {
+  return stripCitationMarkers(markdown)
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * First paragraph after a line index (stops at the next heading)
+ */
+function paragraphAfter(lines: string[], start: number): string {
+  const paragraph: string[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line.startsWith('#')) break;
+    if (!line) {
+      if (paragraph.length > 0) break;
+      continue;
+    }
+    paragraph.push(line.replace(/^(?:[-*+]|\d+\.)\s+/, ''));
+  }
+  return toPlainText(paragraph.join(' '));
+}
+
+/**
+ * Extract steps from a how-to body
+ */
+export function extractHowToSteps(body: string): HowToStep[] {
+  const lines = body.split('\n');
+
+  // 1. Explicit "### Step N: Name" headings
+  const headingSteps = lines
+    .map((line, index) => ({ match: line.trim().match(STEP_HEADING_PATTERN), index }))
+    .filter(({ match }) => match)
+    .map(({ match, index }) => ({ name: toPlainText(match![1]), text: paragraphAfter(lines, index) }));
+  if (headingSteps.length > 0) {
+    return headingSteps.map((step) => ({ name: step.name, text: step.text || step.name }));
+  }
+
+  // 2. First numbered list
+  const listStart = lines.findIndex((line) => /^\d+\.\s+/.test(line.trim()));
+  if (listStart !== -1) {
+    const steps: HowToStep[] = [];
+    for (let i = listStart; i < lines.length && /^\d+\.\s+/.test(lines[i].trim()); i++) {
+      const text = toPlainText(lines[i].trim().replace(/^\d+\.\s+/, ''));
+      const [name] = text.split(/:\s+/);
+      steps.push({ name: name.length <= 80 ? name : text.substring(0, 80), text });
+    }
+    if (steps.length >= 2) {
+      return steps;
+    }
+  }
+
+  // 3. H2 sections (FAQ/related sections are not steps)
+  return lines
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line.startsWith('## ') && !/faq|frequently asked|related|sources|what to do next/i.test(line))
+    .map(({ line, index }) => ({ name: toPlainText(line.substring(3)), text: paragraphAfter(lines, index) }))
+    .filter((step) => step.text);
+}
+
+/**
+ * Extract tools and supplies from a "What You'll Need" section
+ */
+export function extractHowToNeeds(body: string): Pick<HowToMeta, 'tools' | 'supplies'> {
+  const tools: string[] = [];
+  const supplies: string[] = [];
+  let inNeeds = false;
+  let target = tools;
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('## ')) {
+      inNeeds = NEEDS_HEADING_PATTERN.test(line);
+      target = tools;
+      continue;
+    }
+    if (!inNeeds) continue;
+    if (line.startsWith('### ')) {
+      target = /suppl|bait|consumable/i.test(line) ? supplies : tools;
+      continue;
+    }
+    if (/^[-*+]\s+/.test(line)) {
+      const item = toPlainText(line.replace(/^[-*+]\s+/, '')).split(/:\s+/)[0];
+      if (item) target.push(item);
+    }
+  }
+
+  return {
+    ...(tools.length > 0 && { tools }),
+    ...(supplies.length > 0 && { supplies }),
+  };
+}
+
+/**
+ * "1 hour 30 minutes" → "PT1H30M" (undefined when no duration is found)
+ */
+export function toIsoDuration(text: string): string | undefined {
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)\b/i);
+  const minutes = text.match(/(\d+)\s*(?:minutes?|mins?|m)\b/i);
+  if (!hours && !minutes) return undefined;
+
+  const totalMinutes = Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1], 10) : 0));
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `PT${h ? `${h}H` : ''}${m ? `${m}M` : ''}`;
+}
+
+/**
+ * Extract all how-to structured data from a body
+ */
+export function extractHowToMeta(body: string): HowToMeta {
+  const timeLine = body
+    .split('\n')
+    .map((line) => line.trim().match(TOTAL_TIME_PATTERN))
+    .find((match) => match);
+  const totalTime = timeLine ? toIsoDuration(timeLine[1]) : undefined;
+
+  return {
+    steps: extractHowToSteps(body),
+    ...extractHowToNeeds(body),
+    ...(totalTime && { totalTime }),
+  };
+}
+
+/**
+ * Stored howToMeta, with anything missing extracted from the body
+ */
+export function resolveHowToMeta(doc: HowToDoc): HowToMeta {
+  const extracted = extractHowToMeta(doc.body);
+  const stored = doc.howToMeta || {};
+  return {
+    steps: stored.steps && stored.steps.length > 0 ? stored.steps : extracted.steps,
+    tools: stored.tools || extracted.tools,
+    supplies: stored.supplies || extracted.supplies,
+    totalTime: stored.totalTime || extracted.totalTime,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * How-to content access functions
+ * Reads how-to guides (HowToDoc) from the content system
+ */
+
+import { getAllHowToDocs, loadContentDoc, isLive } from './index';
+import { HowToDoc } from '@/scripts/pipeline/types';
+import fs from 'fs/promises';
+import path from 'path';
+
+export type HowToCategory = HowToDoc['category'];
+
+/**
+ * Category labels for filters and badges (in display order)
+ */
+export const HOW_TO_CATEGORIES: Record<HowToCategory, string> = {
+  beginner: 'Beginner',
+  inshore: 'Inshore',
+  'pier-bank': 'Pier & Bank',
+  kayak: 'Kayak',
+  advanced: 'Advanced',
+};
+
+export function isHowToCategory(value: string | undefined): value is HowToCategory {
+  return !!value && value in HOW_TO_CATEGORIES;
+}
+
+/**
+ * How-to data for listing
+ */
+export interface HowToDisplay {
+  slug: string;
+  title: string;
+  description: string;
+  category: HowToCategory;
+  heroImage?: string;
+}
+
+/**
+ * Load all published how-to guides (drafts/noindex excluded by getAllHowToDocs)
+ * Sorted by title
+ */
+export async function loadAllHowTos(): Promise<HowToDisplay[]> {
+  const docs = (await getAllHowToDocs()).filter((doc): doc is HowToDoc => doc.pageType === 'how-to');
+
+  return docs
+    .map((doc) => ({
+      slug: doc.slug,
+      title: doc.title,
+      description: doc.description,
+      category: doc.category,
+      heroImage: doc.heroImage,
+    }))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Get how-to guide by slug
+ * Loads the full doc file directly (the index has no body)
+ * Logs all failures with slug, file path, and error reason
+ */
+export async function getHowToBySlug(slug: string): Promise<HowToDoc | null> {
+  const filePath = path.join(process.cwd(), 'content', 'how-to', `${slug}.json`);
+
+  try {
+    await fs.access(filePath);
+  } catch (error) {
+    const { logContentLoadError } = await import('./logger');
+    const fileError = error as NodeJS.ErrnoException;
+    logContentLoadError({
+      slug,
+      filePath,
+      reason: fileError.code === 'ENOENT' ? 'File not found' : 'Cannot access file',
+      error: fileError,
+    });
+    return null;
+  }
+
+  const doc = await loadContentDoc(filePath);
+  if (!doc) {
+    // loadContentDoc already logged the error
+    return null;
+  }
+
+  // Runtime schema validation - protects renderer from bad JSON
+  const { validateAndQuarantine } = await import('./schema-validator');
+  const validatedDoc = validateAndQuarantine(doc, slug, filePath, 'how-to');
+  if (!validatedDoc) {
+    return null;
+  }
+
+  if (validatedDoc.slug !== slug) {
+    const { logContentValidationError } = await import('./logger');
+    logContentValidationError({
+      slug,
+      filePath,
+      reason: 'Slug mismatch',
+      validationErrors: [`Expected slug="${slug}", got "${validatedDoc.slug}"`],
+    });
+    return null;
+  }
+
+  // Drafts, noindex and docs scheduled for later are valid states, not errors
+  if (!isLive(validatedDoc)) {
+    return null;
+  }
+
+  return validatedDoc as HowToDoc;
+}
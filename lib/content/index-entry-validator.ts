@@ -81,6 +81,15 @@ export function sanitizeIndexEntry(entry: any): BlogPostIndexEntry {
   if (entry.featuredImage) {
     sanitized.featuredImage = entry.featuredImage;
   }
+  if (entry.readability) {
+    sanitized.readability = entry.readability;
+  }
+  if (entry.status) {
+    sanitized.status = entry.status;
+  }
+  if (entry.scheduledFor) {
+    sanitized.scheduledFor = entry.scheduledFor;
+  }
 
   // Limit keywords array
   if (entry.keywords && Array.isArray(entry.keywords)) {
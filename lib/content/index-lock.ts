@@ -295,6 +295,30 @@ export async function isIndexLocked(): Promise<boolean> {
   }
 }
 
+/**
+ * Current lock holder and age (null if unlocked)
+ */
+export async function getIndexLockStatus(): Promise<{ lockData: LockData; ageMs: number; stale: boolean } | null> {
+  const lockData = await readLockFile();
+  if (!lockData) {
+    return null;
+  }
+  const ageMs = Date.now() - new Date(lockData.createdAt).getTime();
+  return { lockData, ageMs, stale: ageMs > STALE_LOCK_THRESHOLD_MS };
+}
+
+/**
+ * Release the lock only if it is stale (safe to call while a publish may be running)
+ * Returns true if a stale lock was removed
+ */
+export async function releaseStaleLock(): Promise<boolean> {
+  const lockData = await readLockFile();
+  if (!lockData) {
+    return false;
+  }
+  return cleanupStaleLock(lockData);
+}
+
 /**
  * Force release lock (use with caution - only if you're sure no process is using it)
  * Logs the lock information before releasing
@@ -8,6 +8,7 @@ import path from 'path';
 import { ContentIndex, BlogPostIndexEntry } from './index';
 import { loadContentDoc } from './index';
 import { validateAndQuarantine } from './schema-validator';
+import { summarizeReadability } from '../editorial/guardrails';
 import { logContentLoadError, logContentValidationError } from './logger';
 
 const CONTENT_DIR = path.join(process.cwd(), 'content');
@@ -99,8 +100,11 @@ export async function rebuildIndexFromFiles(): Promise<{
           // Check if draft or noindex
           if (validatedDoc.flags.draft || validatedDoc.flags.noindex) {
             stats.draftPosts++;
-            // Only log in verbose mode (console output handled by command)
-            continue;
+            // Drafts in the editorial workflow stay listed (hidden by flags) so the admin can review them
+            if (validatedDoc.flags.noindex || !validatedDoc.editorial) {
+              // Only log in verbose mode (console output handled by command)
+              continue;
+            }
           }
 
           // Build index entry with ONLY listing data (no body, FAQs, sources, etc.)
@@ -125,6 +129,9 @@ export async function rebuildIndexFromFiles(): Promise<{
             keywords: [validatedDoc.primaryKeyword, ...validatedDoc.secondaryKeywords].slice(0, 10),
             // Limit tags to first 5 (for listing/filtering)
             tags: 'tags' in validatedDoc && validatedDoc.tags ? validatedDoc.tags.slice(0, 5) : undefined,
+            readability: summarizeReadability(validatedDoc.body, validatedDoc.angle),
+            status: validatedDoc.editorial?.status,
+            scheduledFor: validatedDoc.editorial?.scheduledFor,
           };
           
           // Validate index entry (ensures no heavy data)
@@ -168,6 +175,16 @@ export async function rebuildIndexFromFiles(): Promise<{
       );
     }
 
+    // Rebuild species/how-to indexes (listing data lives in the docs - entries only carry slug + keywords)
+    index.species = await rebuildSlugEntries('species', 'species');
+    console.log(`🐟 Species indexed: ${index.species.length}\n`);
+
+    index.howTo = await rebuildSlugEntries('how-to', 'how-to');
+    console.log(`📘 How-to guides indexed: ${index.howTo.length}\n`);
+
+    index.locations = await rebuildLocationEntries();
+    console.log(`📍 Locations indexed: ${index.locations.length}\n`);
+
     return { index, stats };
   } catch (error) {
     console.error(
@@ -177,6 +194,83 @@ export async function rebuildIndexFromFiles(): Promise<{
   }
 }
 
+/**
+ * Scan content/{dirName} for valid, published docs (species, how-to)
+ * Invalid docs are quarantined (logged by validateAndQuarantine) and left out
+ */
+async function rebuildSlugEntries(
+  dirName: string,
+  pageType: 'species' | 'how-to'
+): Promise<ContentIndex['howTo']> {
+  const contentDir = path.join(CONTENT_DIR, dirName);
+  let files: string[];
+  try {
+    files = (await fs.readdir(contentDir)).filter((f) => f.endsWith('.json'));
+  } catch {
+    return []; // No directory for this page type yet
+  }
+
+  const entries: ContentIndex['howTo'] = [];
+  for (const file of files) {
+    const slug = file.replace('.json', '');
+    const filePath = path.join(contentDir, file);
+    const doc = await loadContentDoc(filePath);
+    const validatedDoc = doc ? validateAndQuarantine(doc, slug, filePath, pageType) : null;
+
+    if (!validatedDoc || validatedDoc.flags.draft || validatedDoc.flags.noindex) {
+      continue;
+    }
+    entries.push({
+      slug: validatedDoc.slug,
+      keywords: [validatedDoc.primaryKeyword, ...validatedDoc.secondaryKeywords].slice(0, 10),
+      readability: summarizeReadability(validatedDoc.body, validatedDoc.angle),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Scan content/locations/{state}/{city}.json for valid, published location docs
+ */
+async function rebuildLocationEntries(): Promise<ContentIndex['locations']> {
+  const locationsDir = path.join(CONTENT_DIR, 'locations');
+  let stateDirs: string[];
+  try {
+    stateDirs = await fs.readdir(locationsDir);
+  } catch {
+    return []; // No locations directory yet
+  }
+
+  const entries: ContentIndex['locations'] = [];
+  for (const stateSlug of stateDirs) {
+    let files: string[];
+    try {
+      files = (await fs.readdir(path.join(locationsDir, stateSlug))).filter((f) => f.endsWith('.json'));
+    } catch {
+      continue; // Not a state directory
+    }
+
+    for (const file of files) {
+      const slug = `${stateSlug}/${file.replace('.json', '')}`;
+      const filePath = path.join(locationsDir, stateSlug, file);
+      const doc = await loadContentDoc(filePath);
+      const validatedDoc = doc ? validateAndQuarantine(doc, slug, filePath, 'location') : null;
+
+      if (!validatedDoc || validatedDoc.pageType !== 'location' || validatedDoc.flags.draft || validatedDoc.flags.noindex) {
+        continue;
+      }
+      entries.push({
+        slug: validatedDoc.slug,
+        state: validatedDoc.stateSlug,
+        city: validatedDoc.citySlug,
+        keywords: [validatedDoc.primaryKeyword, ...validatedDoc.secondaryKeywords].slice(0, 10),
+        readability: summarizeReadability(validatedDoc.body, validatedDoc.angle),
+      });
+    }
+  }
+  return entries;
+}
+
 /**
  * Save rebuilt index to file
  * WITH LOCKING: Prevents concurrent updates during rebuild
@@ -5,7 +5,8 @@
 
 import fs from 'fs/promises';
 import path from 'path';
-import { GeneratedDoc } from '@/scripts/pipeline/types';
+import { GeneratedDoc, EditorialState, EditorialStatus } from '@/scripts/pipeline/types';
+import type { ReadabilitySummary } from '@/lib/editorial/guardrails';
 
 const CONTENT_INDEX_PATH = path.join(process.cwd(), 'content', '_system', 'contentIndex.json');
 const CONTENT_DIR = path.join(process.cwd(), 'content');
@@ -30,6 +31,24 @@ export interface BlogPostIndexEntry {
     draft?: boolean;
     noindex?: boolean;
   };
+  status?: EditorialStatus; // Editorial workflow status (absent = published)
+  scheduledFor?: string; // ISO 8601 - hidden from listings until then
+  readability?: ReadabilitySummary; // Scored at publish / rebuild time
+}
+
+/**
+ * Whether a doc or index entry is live on the site:
+ * not a draft, not noindex, and not scheduled for a later time
+ */
+export function isLive(
+  item: { flags?: { draft?: boolean; noindex?: boolean }; scheduledFor?: string; editorial?: Pick<EditorialState, 'scheduledFor'> },
+  now: Date = new Date()
+): boolean {
+  if (item.flags?.draft || item.flags?.noindex) {
+    return false;
+  }
+  const scheduledFor = item.scheduledFor ?? item.editorial?.scheduledFor;
+  return !scheduledFor || new Date(scheduledFor).getTime() <= now.getTime();
 }
 
 /**
@@ -38,9 +57,9 @@ export interface BlogPostIndexEntry {
 export interface ContentIndex {
   version: string;
   lastUpdated: string;
-  species: Array<{ slug: string; keywords: string[]; tags?: string[] }>;
-  howTo: Array<{ slug: string; keywords: string[]; tags?: string[] }>;
-  locations: Array<{ slug: string; state: string; city: string; keywords: string[] }>;
+  species: Array<{ slug: string; keywords: string[]; tags?: string[]; readability?: ReadabilitySummary }>;
+  howTo: Array<{ slug: string; keywords: string[]; tags?: string[]; readability?: ReadabilitySummary }>;
+  locations: Array<{ slug: string; state: string; city: string; keywords: string[]; readability?: ReadabilitySummary }>;
   blogPosts: BlogPostIndexEntry[];
 }
 
@@ -256,9 +275,9 @@ export async function getAllLocationSlugs(): Promise<string[]> {
 export async function getAllPostSlugs(): Promise<string[]> {
   try {
     const index = await loadContentIndex();
-    // Only return slugs for published posts (non-draft, non-noindex)
+    // Only return slugs for live posts (non-draft, non-noindex, not scheduled for later)
     return index.blogPosts
-      .filter((p) => !p.flags?.draft && !p.flags?.noindex)
+      .filter((p) => isLive(p))
       .map((p) => p.slug);
   } catch (error) {
     console.error('[getAllPostSlugs] Failed to load slugs:', error);
@@ -278,7 +297,7 @@ export async function getAllCategorySlugs(): Promise<string[]> {
     }
     const categories = new Set(
       index.blogPosts
-        .filter((p) => p && p.category && !p.flags?.draft && !p.flags?.noindex)
+        .filter((p) => p && p.category && isLive(p))
         .map((p) => p.category)
     );
     return Array.from(categories);
@@ -308,7 +327,7 @@ export async function getAllSpeciesDocs(): Promise<GeneratedDoc[]> {
           continue;
         }
         
-        if (doc.flags.draft || doc.flags.noindex) {
+        if (!isLive(doc)) {
           // Valid state, not an error
           continue;
         }
@@ -348,7 +367,7 @@ export async function getAllHowToDocs(): Promise<GeneratedDoc[]> {
           continue;
         }
         
-        if (doc.flags.draft || doc.flags.noindex) {
+        if (!isLive(doc)) {
           // Valid state, not an error
           continue;
         }
@@ -393,7 +412,7 @@ export async function getAllLocationDocs(): Promise<GeneratedDoc[]> {
           continue;
         }
         
-        if (doc.flags.draft || doc.flags.noindex) {
+        if (!isLive(doc)) {
           // Valid state, not an error
           continue;
         }
@@ -430,7 +449,7 @@ export async function getAllBlogPostDocs(): Promise<GeneratedDoc[]> {
       continue;
     }
     
-    if (doc.flags.draft || doc.flags.noindex) {
+    if (!isLive(doc)) {
       // Valid state, not an error
       continue;
     }
@@ -0,0 +1,144 @@
+/**
+ * Location content access functions
+ * Reads location guides (LocationDoc) from the content system and groups them into state hubs
+ */
+
+import { getAllLocationDocs, loadContentDoc, isLive } from './index';
+import { LocationDoc } from '@/scripts/pipeline/types';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Location data for listings (locations index and state hubs)
+ */
+export interface LocationDisplay {
+  slug: string; // "fl/tampa"
+  stateSlug: string;
+  citySlug: string;
+  city: string;
+  state: string;
+  stateCode: string;
+  title: string;
+  description: string;
+  heroImage?: string;
+}
+
+/**
+ * Cities of one state, for /locations and /locations/[state]
+ */
+export interface StateHub {
+  stateSlug: string;
+  state: string;
+  stateCode: string;
+  locations: LocationDisplay[];
+}
+
+function toLocationDisplay(doc: LocationDoc): LocationDisplay {
+  return {
+    slug: doc.slug,
+    stateSlug: doc.stateSlug,
+    citySlug: doc.citySlug,
+    city: doc.geo.city,
+    state: doc.geo.state,
+    stateCode: doc.geo.stateCode,
+    title: doc.title,
+    description: doc.description,
+    heroImage: doc.heroImage,
+  };
+}
+
+/**
+ * Load all published location guides (drafts/noindex excluded by getAllLocationDocs)
+ * Sorted by state, then city
+ */
+export async function loadAllLocations(): Promise<LocationDisplay[]> {
+  const docs = (await getAllLocationDocs()).filter((doc): doc is LocationDoc => doc.pageType === 'location');
+
+  return docs
+    .map(toLocationDisplay)
+    .sort((a, b) => a.state.localeCompare(b.state) || a.city.localeCompare(b.city));
+}
+
+/**
+ * Group published locations into state hubs (sorted by state name)
+ */
+export async function loadStateHubs(): Promise<StateHub[]> {
+  const hubs = new Map<string, StateHub>();
+
+  for (const location of await loadAllLocations()) {
+    const hub = hubs.get(location.stateSlug) || {
+      stateSlug: location.stateSlug,
+      state: location.state,
+      stateCode: location.stateCode,
+      locations: [],
+    };
+    hub.locations.push(location);
+    hubs.set(location.stateSlug, hub);
+  }
+
+  return Array.from(hubs.values());
+}
+
+/**
+ * Get one state hub by its URL slug ("fl")
+ * Returns null when the state has no published locations
+ */
+export async function getStateHub(stateSlug: string): Promise<StateHub | null> {
+  const hubs = await loadStateHubs();
+  return hubs.find((hub) => hub.stateSlug === stateSlug) || null;
+}
+
+/**
+ * Get location guide by state and city slug
+ * Loads the full doc file directly (the index has no body)
+ * Logs all failures with slug, file path, and error reason
+ */
+export async function getLocationBySlug(stateSlug: string, citySlug: string): Promise<LocationDoc | null> {
+  const slug = `${stateSlug}/${citySlug}`;
+  const filePath = path.join(process.cwd(), 'content', 'locations', stateSlug, `${citySlug}.json`);
+
+  try {
+    await fs.access(filePath);
+  } catch (error) {
+    const { logContentLoadError } = await import('./logger');
+    const fileError = error as NodeJS.ErrnoException;
+    logContentLoadError({
+      slug,
+      filePath,
+      reason: fileError.code === 'ENOENT' ? 'File not found' : 'Cannot access file',
+      error: fileError,
+    });
+    return null;
+  }
+
+  const doc = await loadContentDoc(filePath);
+  if (!doc) {
+    // loadContentDoc already logged the error
+    return null;
+  }
+
+  // Runtime schema validation - protects renderer from bad JSON
+  const { validateAndQuarantine } = await import('./schema-validator');
+  const validatedDoc = validateAndQuarantine(doc, slug, filePath, 'location');
+  if (!validatedDoc) {
+    return null;
+  }
+
+  if (validatedDoc.slug !== slug) {
+    const { logContentValidationError } = await import('./logger');
+    logContentValidationError({
+      slug,
+      filePath,
+      reason: 'Slug mismatch',
+      validationErrors: [`Expected slug="${slug}", got "${validatedDoc.slug}"`],
+    });
+    return null;
+  }
+
+  // Drafts, noindex and docs scheduled for later are valid states, not errors
+  if (!isLive(validatedDoc)) {
+    return null;
+  }
+
+  return validatedDoc as LocationDoc;
+}
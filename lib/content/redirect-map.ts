@@ -0,0 +1,75 @@
+/**
+ * Redirect map - Resolving redirect rules, without fs so middleware (edge runtime) can use it
+ *
+ * The rules are managed by redirects.ts; middleware.ts imports redirects.json at build time
+ * and serves resolveRedirectMap() of it.
+ */
+
+export const MAX_REDIRECT_HOPS = 10;
+
+export type RedirectReason = 'rename' | 'merge' | 'prune' | 'manual';
+
+export interface RedirectRule {
+  from: string; // URL path, e.g. /blog/old-slug
+  to?: string; // URL path - absent for 410 Gone
+  status: 301 | 410;
+  reason: RedirectReason;
+  createdAt: string; // ISO 8601
+  createdBy?: string;
+  note?: string;
+}
+
+/**
+ * Canonical form of a path: leading slash, no trailing slash, no query or hash, lowercase
+ */
+export function normalizePath(urlPath: string): string {
+  const pathname = urlPath.split(/[?#]/)[0].trim().toLowerCase();
+  const withSlash = pathname.startsWith('/') ? pathname : `/${pathname}`;
+  return withSlash.length > 1 ? withSlash.replace(/\/+$/, '') : withSlash;
+}
+
+/**
+ * Follow a path through the rules (null when no rule matches it)
+ */
+export function resolveRedirect(
+  rules: RedirectRule[],
+  urlPath: string
+): { status: 301 | 410; to?: string; hops: number; loop: boolean } | null {
+  const byFrom = new Map(rules.map((r) => [r.from, r]));
+  let current = normalizePath(urlPath);
+  const seen = new Set([current]);
+  let rule = byFrom.get(current);
+  if (!rule) {
+    return null;
+  }
+
+  let hops = 0;
+  while (rule) {
+    hops++;
+    if (rule.status === 410 || !rule.to) {
+      return { status: 410, hops, loop: false };
+    }
+    current = rule.to;
+    if (seen.has(current) || hops >= MAX_REDIRECT_HOPS) {
+      return { status: 301, to: current, hops, loop: true };
+    }
+    seen.add(current);
+    rule = byFrom.get(current);
+  }
+  return { status: 301, to: current, hops, loop: false };
+}
+
+/**
+ * Final status and target for every rule source (what middleware serves - one hop per request)
+ * Looping rules are left out.
+ */
+export function resolveRedirectMap(rules: RedirectRule[]): Record<string, { status: 301 | 410; to?: string }> {
+  const map: Record<string, { status: 301 | 410; to?: string }> = {};
+  for (const rule of rules) {
+    const resolved = resolveRedirect(rules, rule.from);
+    if (resolved && !resolved.loop) {
+      map[rule.from] = resolved.to ? { status: resolved.status, to: resolved.to } : { status: resolved.status };
+    }
+  }
+  return map;
+}
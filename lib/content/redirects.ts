@@ -0,0 +1,333 @@
+/**
+ * Redirects - 301 / 410 rules for URLs that changed or went away
+ *
+ * Store: content/_system/redirects.json (tracked), built into middleware.ts (redirect-map.ts).
+ *
+ * Every URL change goes through this module so it leaves a redirect behind:
+ * - renameDoc: slug renamed in the admin → 301 old → new
+ * - retireDoc: post merged into another (301) or pruned (410 Gone)
+ *
+ * Rules are kept chain-free: adding old → new rewrites every rule that pointed at old,
+ * and a rule whose source is live again (renamed back) is dropped.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { PageType } from '@/scripts/pipeline/types';
+import { MAX_REDIRECT_HOPS, normalizePath, resolveRedirect, RedirectRule } from './redirect-map';
+import { contentFilePath, moveRevisionHistory, recordRevision, saveDoc, RevisionDoc, RevisionSummary } from './revisions';
+
+export { normalizePath, resolveRedirect, resolveRedirectMap } from './redirect-map';
+export type { RedirectReason, RedirectRule } from './redirect-map';
+
+const REDIRECTS_PATH = path.join(process.cwd(), 'content', '_system', 'redirects.json');
+const CONTENT_INDEX_PATH = path.join(process.cwd(), 'content', '_system', 'contentIndex.json');
+
+const URL_PREFIXES: Record<PageType, string> = { blog: '/blog', species: '/species', 'how-to': '/how-to', location: '/locations' };
+const INDEX_KEYS: Record<PageType, 'blogPosts' | 'species' | 'howTo' | 'locations'> = {
+  blog: 'blogPosts',
+  species: 'species',
+  'how-to': 'howTo',
+  location: 'locations',
+};
+
+export interface RedirectStore {
+  version: string;
+  lastUpdated: string;
+  redirects: RedirectRule[];
+}
+
+export interface RedirectChain {
+  from: string;
+  hops: string[]; // Every path after `from`, in order
+  status: 301 | 410; // Status at the end of the chain
+  loop: boolean;
+}
+
+export class RedirectError extends Error {
+  constructor(message: string, public code: 'INVALID_RULE' | 'LOOP' | 'CONFLICT' | 'NOT_FOUND') {
+    super(message);
+    this.name = 'RedirectError';
+  }
+}
+
+/**
+ * Public URL path of a doc (location slugs are "<state>/<city>")
+ */
+export function docUrlPath(pageType: PageType, slug: string): string {
+  return `${URL_PREFIXES[pageType]}/${slug}`;
+}
+
+export async function loadRedirects(): Promise<RedirectStore> {
+  try {
+    const store = JSON.parse(await fs.readFile(REDIRECTS_PATH, 'utf-8'));
+    return { ...store, redirects: Array.isArray(store.redirects) ? store.redirects : [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: '1.0.0', lastUpdated: new Date().toISOString(), redirects: [] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * ATOMIC WRITE: temp file → rename, so middleware never reads a partial file
+ */
+async function saveRedirects(store: RedirectStore): Promise<void> {
+  store.lastUpdated = new Date().toISOString();
+  store.redirects.sort((a, b) => a.from.localeCompare(b.from));
+  const tempPath = `${REDIRECTS_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(store, null, 2) + '\n', 'utf-8');
+  await fs.rename(tempPath, REDIRECTS_PATH);
+}
+
+/**
+ * Add (or replace) the rule for a path, collapsing chains through it.
+ * targetIsLive: the target is a doc on the site, so any rule redirecting it away is stale.
+ */
+export async function addRedirect(
+  rule: Omit<RedirectRule, 'createdAt'> & { createdAt?: string },
+  options: { targetIsLive?: boolean } = {}
+): Promise<RedirectRule> {
+  const from = normalizePath(rule.from);
+  const to = rule.to ? normalizePath(rule.to) : undefined;
+  if (rule.status === 301 && !to) {
+    throw new RedirectError(`301 from ${from} needs a target`, 'INVALID_RULE');
+  }
+  if (rule.status === 410 && to) {
+    throw new RedirectError(`410 from ${from} cannot have a target`, 'INVALID_RULE');
+  }
+  if (from === to) {
+    throw new RedirectError(`Redirect from ${from} to itself`, 'LOOP');
+  }
+
+  const store = await loadRedirects();
+  const others = store.redirects.filter((r) => r.from !== from && !(options.targetIsLive && r.from === to));
+
+  const added: RedirectRule = { ...rule, from, to, createdAt: rule.createdAt ?? new Date().toISOString() };
+  // Point straight at the end of any chain the target starts
+  const resolved = to ? resolveRedirect(others, to) : null;
+  if (resolved) {
+    if (resolved.loop || resolved.to === from) {
+      throw new RedirectError(`Redirect ${from} → ${to} would create a loop`, 'LOOP');
+    }
+    added.status = resolved.status;
+    added.to = resolved.to;
+  }
+  if (added.status === 410 || !added.to) {
+    delete added.to;
+  }
+
+  // Rules that pointed at `from` now follow it to its new target (or are gone with it)
+  store.redirects = others.map((r) => {
+    if (r.to !== from) {
+      return r;
+    }
+    const followed: RedirectRule = { ...r, status: added.status, to: added.to };
+    if (!followed.to) {
+      delete followed.to;
+    }
+    return followed;
+  });
+  store.redirects.push(added);
+  await saveRedirects(store);
+  return added;
+}
+
+export async function removeRedirect(from: string): Promise<boolean> {
+  const store = await loadRedirects();
+  const normalized = normalizePath(from);
+  const remaining = store.redirects.filter((r) => r.from !== normalized);
+  if (remaining.length === store.redirects.length) {
+    return false;
+  }
+  store.redirects = remaining;
+  await saveRedirects(store);
+  return true;
+}
+
+/**
+ * Rules that take more than one hop to settle, and loops (rules edited by hand or from older versions)
+ */
+export function findRedirectChains(rules: RedirectRule[]): RedirectChain[] {
+  const byFrom = new Map(rules.map((r) => [r.from, r]));
+  const chains: RedirectChain[] = [];
+
+  for (const rule of rules) {
+    if (!rule.to || !byFrom.has(rule.to)) {
+      continue;
+    }
+    const hops: string[] = [];
+    const seen = new Set([rule.from]);
+    let current: RedirectRule | undefined = rule;
+    let loop = false;
+    let status: 301 | 410 = 301;
+    while (current) {
+      if (current.status === 410 || !current.to) {
+        status = 410;
+        break;
+      }
+      hops.push(current.to);
+      if (seen.has(current.to) || hops.length >= MAX_REDIRECT_HOPS) {
+        loop = true;
+        break;
+      }
+      seen.add(current.to);
+      current = byFrom.get(current.to);
+    }
+    chains.push({ from: rule.from, hops, status, loop });
+  }
+  return chains;
+}
+
+/**
+ * Rename a doc: moves its file, revision history and index entry to the new slug
+ * and leaves a 301 from the old URL. options.doc saves edits made alongside the rename
+ * in the same revision.
+ */
+export async function renameDoc(
+  pageType: PageType,
+  fromSlug: string,
+  toSlug: string,
+  options: { by: string; doc?: RevisionDoc; reason?: string }
+): Promise<{ redirect: RedirectRule; revision: RevisionSummary }> {
+  const fromPath = contentFilePath(pageType, fromSlug);
+  const toPath = contentFilePath(pageType, toSlug);
+  if (fromSlug === toSlug) {
+    throw new RedirectError(`${pageType}/${fromSlug} already has that slug`, 'INVALID_RULE');
+  }
+
+  const doc = await readDoc(fromPath, pageType, fromSlug);
+  const taken = await fs.stat(toPath).then(() => true, () => false);
+  if (taken) {
+    throw new RedirectError(`A ${pageType} doc with slug "${toSlug}" already exists`, 'CONFLICT');
+  }
+
+  // Baseline the current content first (no-op when history already has it), so the move keeps it
+  await recordRevision(pageType, fromSlug, doc, { source: 'admin', author: options.by, reason: 'Before rename' }, doc);
+  await moveRevisionHistory(pageType, fromSlug, toSlug);
+  await updateIndex(pageType, fromSlug, (entry) => {
+    entry.slug = toSlug;
+    if (pageType === 'location') {
+      [entry.state, entry.city] = toSlug.split('/');
+    }
+    return entry;
+  });
+  const revision = await saveDoc(pageType, toSlug, { ...(options.doc ?? doc), slug: toSlug }, {
+    source: 'admin',
+    author: options.by,
+    reason: options.reason ? `${options.reason} (renamed from ${fromSlug})` : `Renamed from ${fromSlug}`,
+  });
+  await fs.unlink(fromPath);
+
+  const redirect = await addRedirect({
+    from: docUrlPath(pageType, fromSlug),
+    to: docUrlPath(pageType, toSlug),
+    status: 301,
+    reason: 'rename',
+    createdBy: options.by,
+  }, { targetIsLive: true });
+  return { redirect, revision };
+}
+
+/**
+ * Take a doc off the site: 301 to the doc it was merged into, or 410 Gone when pruned.
+ * Its revision history stays, so it can be restored by hand.
+ */
+export async function retireDoc(
+  pageType: PageType,
+  slug: string,
+  options: { by: string; mergeInto?: { pageType: PageType; slug: string }; note?: string; source?: 'admin' | 'pipeline' }
+): Promise<RedirectRule> {
+  const filePath = contentFilePath(pageType, slug);
+  const doc = await readDoc(filePath, pageType, slug);
+
+  if (options.mergeInto) {
+    const target = options.mergeInto;
+    if (target.pageType === pageType && target.slug === slug) {
+      throw new RedirectError(`Cannot merge ${pageType}/${slug} into itself`, 'LOOP');
+    }
+    await readDoc(contentFilePath(target.pageType, target.slug), target.pageType, target.slug);
+  }
+
+  // Make sure the final content is in history before the file goes
+  await recordRevision(pageType, slug, doc, {
+    source: options.source ?? 'pipeline',
+    author: options.by,
+    reason: options.mergeInto ? 'Merged' : 'Pruned',
+  }, doc);
+
+  await updateIndex(pageType, slug, () => null);
+  await fs.unlink(filePath);
+
+  const rule = await addRedirect({
+    from: docUrlPath(pageType, slug),
+    ...(options.mergeInto
+      ? { to: docUrlPath(options.mergeInto.pageType, options.mergeInto.slug), status: 301 as const, reason: 'merge' as const }
+      : { status: 410 as const, reason: 'prune' as const }),
+    createdBy: options.by,
+    ...(options.note ? { note: options.note } : {}),
+  }, { targetIsLive: true });
+
+  // NON-BLOCKING: listings and sitemaps drop the doc on their next render anyway
+  try {
+    const { revalidateBlogPost, revalidateContent } = await import('./revalidation');
+    if (pageType === 'blog') {
+      await revalidateBlogPost(slug, (doc.categorySlug ?? doc.category) as string | undefined);
+    } else {
+      await revalidateContent(pageType, slug);
+    }
+  } catch (error) {
+    console.warn(`[REDIRECTS] Revalidation after retiring ${pageType}/${slug} failed:`, error);
+  }
+
+  return rule;
+}
+
+async function readDoc(filePath: string, pageType: PageType, slug: string): Promise<RevisionDoc> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new RedirectError(`No ${pageType} doc with slug "${slug}"`, 'NOT_FOUND');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rewrite (or remove, when update returns null) a doc's index entry
+ * WITH LOCKING + BACKUP, like every other index write
+ */
+async function updateIndex(
+  pageType: PageType,
+  slug: string,
+  update: (entry: Record<string, unknown>) => Record<string, unknown> | null
+): Promise<void> {
+  const { backupContentIndex } = await import('./index-recovery');
+  const { withIndexLock } = await import('./index-lock');
+  await backupContentIndex();
+
+  await withIndexLock(async () => {
+    const index = JSON.parse(await fs.readFile(CONTENT_INDEX_PATH, 'utf-8'));
+    const key = INDEX_KEYS[pageType];
+    const entries: Array<Record<string, unknown>> = index[key] || [];
+    const position = entries.findIndex((e) => e.slug === slug);
+    if (position < 0) {
+      return; // Not listed (e.g. a draft left out by rebuild-index)
+    }
+
+    const updated = update(entries[position]);
+    if (updated) {
+      entries[position] = updated;
+    } else {
+      entries.splice(position, 1);
+    }
+    index[key] = entries;
+    index.lastUpdated = new Date().toISOString();
+
+    const tempPath = `${CONTENT_INDEX_PATH}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index, null, 2), 'utf-8');
+    await fs.rename(tempPath, CONTENT_INDEX_PATH);
+  });
+}
@@ -0,0 +1,518 @@
+/**
+ * Revision history - Immutable snapshots of every saved content doc
+ *
+ * Each save (publisher, admin editor, rollback, workflow transition) writes
+ * content/_system/revisions/<pageType>/<slug>/<NNNN>.json with the full doc, who saved it
+ * and why, and the diff from the previous revision. Revision files are never rewritten:
+ * they are created with a hard link, which fails if the number is already taken.
+ *
+ * A doc changed outside this module (hand edit, git checkout) gets an "untracked"
+ * revision for its state before the next save, so history has no gaps.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { ContentBrief, PageType } from '@/scripts/pipeline/types';
+import { summarizeReadability } from '../editorial/guardrails';
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+const CONTENT_INDEX_PATH = path.join(CONTENT_DIR, '_system', 'contentIndex.json');
+const REVISIONS_DIR = path.join(CONTENT_DIR, '_system', 'revisions');
+
+const CONTENT_DIRS: Record<PageType, string> = { blog: 'blog', species: 'species', 'how-to': 'how-to', location: 'locations' };
+const INDEX_KEYS: Record<PageType, 'blogPosts' | 'species' | 'howTo' | 'locations'> = {
+  blog: 'blogPosts',
+  species: 'species',
+  'how-to': 'howTo',
+  location: 'locations',
+};
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const DIFF_CONTEXT_LINES = 3;
+const MAX_DIFF_CELLS = 4_000_000; // Line pairs compared before a body diff falls back to "replace everything"
+
+export type RevisionDoc = Record<string, unknown>;
+export type RevisionSource = 'pipeline' | 'admin' | 'untracked';
+
+export interface RevisionMeta {
+  source: RevisionSource;
+  author: string;
+  reason: string;
+  restoredFrom?: number; // Set by rollbacks
+}
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[]; // " context", "-removed", "+added"
+}
+
+export interface RevisionDiff {
+  fields: FieldChange[]; // Top-level fields other than body
+  body: DiffHunk[];
+  added: number; // Body lines
+  removed: number;
+}
+
+export interface RevisionSummary extends RevisionMeta {
+  number: number;
+  pageType: PageType;
+  slug: string;
+  createdAt: string;
+  contentHash: string;
+  stats: { added: number; removed: number; fields: number };
+}
+
+export interface Revision extends RevisionSummary {
+  diff: RevisionDiff; // From the previous revision (everything added for the first one)
+  doc: RevisionDoc;
+}
+
+export class RevisionError extends Error {
+  constructor(message: string, public code: 'INVALID_REF' | 'NOT_FOUND') {
+    super(message);
+    this.name = 'RevisionError';
+  }
+}
+
+/**
+ * Content file for a doc (location slugs are "<state>/<city>")
+ */
+export function contentFilePath(pageType: PageType, slug: string): string {
+  assertValidRef(pageType, slug);
+  return path.join(CONTENT_DIR, CONTENT_DIRS[pageType], `${slug}.json`);
+}
+
+/**
+ * Page types and slugs reach this module from API requests - they become paths
+ */
+function assertValidRef(pageType: PageType, slug: string): void {
+  if (!(pageType in CONTENT_DIRS)) {
+    throw new RevisionError(`Unknown page type: ${pageType}`, 'INVALID_REF');
+  }
+  const parts = typeof slug === 'string' ? slug.split('/') : [];
+  const expectedParts = pageType === 'location' ? 2 : 1;
+  if (parts.length !== expectedParts || !parts.every((part) => SLUG_PATTERN.test(part))) {
+    throw new RevisionError(`Invalid ${pageType} slug: ${slug}`, 'INVALID_REF');
+  }
+}
+
+function revisionDir(pageType: PageType, slug: string): string {
+  assertValidRef(pageType, slug);
+  return path.join(REVISIONS_DIR, pageType, slug);
+}
+
+function revisionFileName(number: number): string {
+  return `${String(number).padStart(4, '0')}.json`;
+}
+
+export function hashDoc(doc: RevisionDoc): string {
+  return crypto.createHash('sha256').update(JSON.stringify(doc)).digest('hex');
+}
+
+function summarize(revision: Revision): RevisionSummary {
+  const { diff, doc, ...summary } = revision;
+  return summary;
+}
+
+/**
+ * Revisions of a doc, newest first (without snapshots or diffs)
+ */
+export async function listRevisions(pageType: PageType, slug: string): Promise<RevisionSummary[]> {
+  const dir = revisionDir(pageType, slug);
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => /^\d+\.json$/.test(f));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const revisions = await Promise.all(
+    files.map(async (file) => summarize(JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8')) as Revision))
+  );
+  return revisions.sort((a, b) => b.number - a.number);
+}
+
+/**
+ * One revision with its snapshot and diff
+ */
+export async function loadRevision(pageType: PageType, slug: string, number: number): Promise<Revision> {
+  const filePath = path.join(revisionDir(pageType, slug), revisionFileName(number));
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as Revision;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new RevisionError(`Revision ${number} of ${pageType}/${slug} not found`, 'NOT_FOUND');
+    }
+    throw error;
+  }
+}
+
+async function loadLatestRevision(pageType: PageType, slug: string): Promise<Revision | null> {
+  const [latest] = await listRevisions(pageType, slug);
+  return latest ? loadRevision(pageType, slug, latest.number) : null;
+}
+
+/**
+ * Write the next revision file - numbers are claimed with link(), so two writers never share one
+ */
+async function writeRevision(
+  pageType: PageType,
+  slug: string,
+  doc: RevisionDoc,
+  meta: RevisionMeta,
+  previous: Revision | null
+): Promise<Revision> {
+  const dir = revisionDir(pageType, slug);
+  await fs.mkdir(dir, { recursive: true });
+
+  const diff = diffDocs(previous?.doc ?? null, doc);
+  let number = (previous?.number ?? 0) + 1;
+
+  for (let attempt = 0; attempt < 5; attempt++, number++) {
+    const revision: Revision = {
+      number,
+      pageType,
+      slug,
+      createdAt: new Date().toISOString(),
+      contentHash: hashDoc(doc),
+      ...meta,
+      stats: { added: diff.added, removed: diff.removed, fields: diff.fields.length },
+      diff,
+      doc,
+    };
+    const tempPath = path.join(dir, `.${number}.${process.pid}.${Date.now()}.tmp`);
+    await fs.writeFile(tempPath, JSON.stringify(revision, null, 2), 'utf-8');
+    try {
+      await fs.link(tempPath, path.join(dir, revisionFileName(number)));
+      return revision;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      // Another writer took this number - try the next one
+    } finally {
+      await fs.unlink(tempPath).catch(() => {});
+    }
+  }
+  throw new Error(`Could not claim a revision number for ${pageType}/${slug}`);
+}
+
+/**
+ * Record a save. `previous` is the doc as it was on disk before the save (null if new):
+ * if it does not match the latest revision it is recorded first as "untracked".
+ * Saving content identical to the latest revision records nothing and returns that revision.
+ */
+export async function recordRevision(
+  pageType: PageType,
+  slug: string,
+  doc: RevisionDoc,
+  meta: RevisionMeta,
+  previous: RevisionDoc | null = null
+): Promise<RevisionSummary> {
+  let latest = await loadLatestRevision(pageType, slug);
+
+  if (previous && hashDoc(previous) !== latest?.contentHash) {
+    latest = await writeRevision(pageType, slug, previous, {
+      source: 'untracked',
+      author: 'unknown',
+      reason: latest ? 'Changed outside revision history' : 'Baseline (before revision history)',
+    }, latest);
+  }
+
+  if (latest && latest.contentHash === hashDoc(doc)) {
+    return summarize(latest);
+  }
+  return summarize(await writeRevision(pageType, slug, doc, meta, latest));
+}
+
+/**
+ * Diff between two revisions of a doc (from → to)
+ */
+export async function diffRevisions(pageType: PageType, slug: string, from: number, to: number): Promise<RevisionDiff> {
+  const [before, after] = await Promise.all([loadRevision(pageType, slug, from), loadRevision(pageType, slug, to)]);
+  return diffDocs(before.doc, after.doc);
+}
+
+/**
+ * Field changes + line diff of the markdown body
+ */
+export function diffDocs(before: RevisionDoc | null, after: RevisionDoc): RevisionDiff {
+  const fields: FieldChange[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after)]);
+  for (const field of keys) {
+    if (field === 'body') {
+      continue;
+    }
+    const was = before?.[field];
+    const now = after[field];
+    if (JSON.stringify(was) !== JSON.stringify(now)) {
+      fields.push({ field, before: was, after: now });
+    }
+  }
+
+  const beforeBody = typeof before?.body === 'string' ? before.body : '';
+  const afterBody = typeof after.body === 'string' ? after.body : '';
+  return { fields, ...diffLines(beforeBody, afterBody) };
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number };
+
+/**
+ * Unified-style line diff (LCS over the lines between the common prefix and suffix)
+ */
+function diffLines(before: string, after: string): { body: DiffHunk[]; added: number; removed: number } {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) ops.push({ type: ' ', text: a[i], oldLine: i + 1, newLine: i + 1 });
+
+  if (midA.length * midB.length <= MAX_DIFF_CELLS) {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ type: ' ', text: midA[i], oldLine: prefix + i + 1, newLine: prefix + j + 1 });
+        i++;
+        j++;
+      } else if (j < midB.length && (i === midA.length || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+        ops.push({ type: '+', text: midB[j], oldLine: prefix + i, newLine: prefix + j + 1 });
+        j++;
+      } else {
+        ops.push({ type: '-', text: midA[i], oldLine: prefix + i + 1, newLine: prefix + j });
+        i++;
+      }
+    }
+  } else {
+    midA.forEach((text, i) => ops.push({ type: '-', text, oldLine: prefix + i + 1, newLine: prefix }));
+    midB.forEach((text, j) => ops.push({ type: '+', text, oldLine: prefix + midA.length, newLine: prefix + j + 1 }));
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    ops.push({ type: ' ', text: a[a.length - suffix + k], oldLine: a.length - suffix + k + 1, newLine: b.length - suffix + k + 1 });
+  }
+
+  return {
+    body: toHunks(ops),
+    added: ops.filter((op) => op.type === '+').length,
+    removed: ops.filter((op) => op.type === '-').length,
+  };
+}
+
+/**
+ * Group changed lines with DIFF_CONTEXT_LINES of context, merging hunks whose context overlaps
+ */
+function toHunks(ops: DiffOp[]): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: { start: number; end: number } | null = null;
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  ops.forEach((op, index) => {
+    if (op.type === ' ') {
+      return;
+    }
+    const start = Math.max(0, index - DIFF_CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, index + DIFF_CONTEXT_LINES);
+    if (current && start <= current.end + 1) {
+      current.end = end;
+    } else {
+      current = { start, end };
+      ranges.push(current);
+    }
+  });
+
+  for (const { start, end } of ranges) {
+    const slice = ops.slice(start, end + 1);
+    const first = slice[0];
+    hunks.push({
+      oldStart: first.type === '+' ? first.oldLine + 1 : first.oldLine,
+      oldLines: slice.filter((op) => op.type !== '+').length,
+      newStart: first.type === '-' ? first.newLine + 1 : first.newLine,
+      newLines: slice.filter((op) => op.type !== '-').length,
+      lines: slice.map((op) => `${op.type}${op.text}`),
+    });
+  }
+  return hunks;
+}
+
+/**
+ * Restore a revision: rewrite the content file, record the rollback as a new revision,
+ * refresh the doc's content index entry and revalidate its pages
+ */
+export async function rollbackToRevision(
+  pageType: PageType,
+  slug: string,
+  number: number,
+  options: { author: string; reason?: string }
+): Promise<RevisionSummary> {
+  const target = await loadRevision(pageType, slug, number);
+  // Revisions from before a rename still carry the old slug
+  const doc = target.doc.slug === undefined || target.doc.slug === slug ? target.doc : { ...target.doc, slug };
+  return saveDoc(pageType, slug, doc, {
+    source: 'admin',
+    author: options.author,
+    reason: options.reason || `Rollback to revision ${number}`,
+    restoredFrom: number,
+  });
+}
+
+/**
+ * Move a doc's revision history to its new slug, so a renamed doc keeps its history
+ */
+export async function moveRevisionHistory(pageType: PageType, fromSlug: string, toSlug: string): Promise<void> {
+  const fromDir = revisionDir(pageType, fromSlug);
+  const toDir = revisionDir(pageType, toSlug);
+
+  const targetExists = await fs.stat(toDir).then(() => true, () => false);
+  if (targetExists) {
+    throw new RevisionError(`Revision history already exists for ${pageType}/${toSlug}`, 'INVALID_REF');
+  }
+
+  await fs.mkdir(path.dirname(toDir), { recursive: true });
+  try {
+    await fs.rename(fromDir, toDir);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+    // No history yet - the next save records a baseline
+  }
+}
+
+/**
+ * Save a doc through revision history: atomic file write, a new revision,
+ * the doc's content index entry refreshed and its pages revalidated
+ */
+export async function saveDoc(
+  pageType: PageType,
+  slug: string,
+  doc: RevisionDoc,
+  meta: RevisionMeta
+): Promise<RevisionSummary> {
+  const filePath = contentFilePath(pageType, slug);
+
+  let current: RevisionDoc | null = null;
+  try {
+    current = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  // Atomic write: temp file → rename
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(doc, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+
+  const revision = await recordRevision(pageType, slug, doc, meta, current);
+
+  await updateIndexEntry(pageType, slug, doc);
+
+  // NON-BLOCKING: the doc is on disk even if revalidation fails
+  try {
+    const { revalidateBlogPost, revalidateContent } = await import('./revalidation');
+    if (pageType === 'blog') {
+      await revalidateBlogPost(slug, (doc.categorySlug ?? doc.category) as string | undefined);
+    } else {
+      await revalidateContent(pageType, slug);
+    }
+  } catch (error) {
+    console.warn(`[REVISIONS] Revalidation after saving ${pageType}/${slug} failed:`, error);
+  }
+
+  return revision;
+}
+
+/**
+ * Listing fields of a doc's index entry (both generated docs and legacy admin-edited posts)
+ * undefined leaves the entry's value alone, null removes the field
+ */
+function indexFields(pageType: PageType, doc: RevisionDoc): Record<string, unknown> {
+  const d = doc as Record<string, any>;
+  const body = typeof d.body === 'string' ? d.body : undefined;
+  const common = {
+    keywords: d.primaryKeyword ? [d.primaryKeyword, ...(d.secondaryKeywords || [])].slice(0, 10) : undefined,
+    readability: body ? summarizeReadability(body, d.angle as ContentBrief['angle'] | undefined) : undefined,
+  };
+  if (pageType !== 'blog') {
+    return common;
+  }
+  return {
+    ...common,
+    title: d.title,
+    description: d.description,
+    category: d.categorySlug ?? d.category,
+    publishedAt: d.dates?.publishedAt ?? d.publishedAt,
+    updatedAt: d.dates?.updatedAt ?? d.updatedAt,
+    heroImage: d.heroImage,
+    featuredImage: d.featuredImage,
+    videoUrl: d.videoUrl ?? null,
+    wordCount: body ? body.split(/\s+/).length : undefined,
+    flags: d.flags ? { draft: d.flags.draft || false, noindex: d.flags.noindex || false } : undefined,
+    status: d.editorial?.status ?? null,
+    scheduledFor: d.editorial?.scheduledFor ?? null,
+  };
+}
+
+/**
+ * Update the doc's existing index entry in place (docs not in the index, e.g. unlisted drafts, are left out)
+ * WITH LOCKING + BACKUP, like every other index write
+ */
+async function updateIndexEntry(pageType: PageType, slug: string, doc: RevisionDoc): Promise<void> {
+  const { backupContentIndex } = await import('./index-recovery');
+  const { withIndexLock } = await import('./index-lock');
+  await backupContentIndex();
+
+  await withIndexLock(async () => {
+    const index = JSON.parse(await fs.readFile(CONTENT_INDEX_PATH, 'utf-8'));
+    const entries: Array<Record<string, unknown>> = index[INDEX_KEYS[pageType]] || [];
+    const entry = entries.find((e) => e.slug === slug);
+    if (!entry) {
+      return;
+    }
+
+    for (const [field, value] of Object.entries(indexFields(pageType, doc))) {
+      if (value === null) {
+        delete entry[field];
+      } else if (value !== undefined) {
+        entry[field] = value;
+      }
+    }
+    index.lastUpdated = new Date().toISOString();
+
+    const tempPath = `${CONTENT_INDEX_PATH}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(index, null, 2), 'utf-8');
+    await fs.rename(tempPath, CONTENT_INDEX_PATH);
+  });
+}
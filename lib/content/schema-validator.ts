@@ -115,6 +115,28 @@ export function validateDocumentSchema(doc: any, expectedPageType?: string): Val
     }
   }
 
+  // How-to-specific validation (category drives the /how-to filters)
+  if (doc.pageType === 'how-to') {
+    if (!doc.category || typeof doc.category !== 'string') {
+      errors.push('Missing or invalid required field for how-to: category (must be string)');
+    }
+  }
+
+  // Location-specific validation (route params and regulation links come from these)
+  if (doc.pageType === 'location') {
+    if (!doc.stateSlug || typeof doc.stateSlug !== 'string') {
+      errors.push('Missing or invalid required field for location: stateSlug (must be string)');
+    }
+    if (!doc.citySlug || typeof doc.citySlug !== 'string') {
+      errors.push('Missing or invalid required field for location: citySlug (must be string)');
+    }
+    if (!doc.geo || typeof doc.geo !== 'object') {
+      errors.push('Missing or invalid required field for location: geo (must be object)');
+    } else if (!doc.geo.stateCode || typeof doc.geo.stateCode !== 'string') {
+      errors.push('Missing or invalid required field for location: geo.stateCode (must be string)');
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -0,0 +1,101 @@
+/**
+ * Species content access functions
+ * Reads species guides (SpeciesDoc) from the content system
+ */
+
+import { getAllSpeciesDocs, loadContentDoc, isLive } from './index';
+import { SpeciesDoc } from '@/scripts/pipeline/types';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Species data for listing
+ */
+export interface SpeciesDisplay {
+  slug: string;
+  name: string;
+  title: string;
+  description: string;
+  scientificName?: string;
+  heroImage?: string;
+}
+
+/**
+ * Display name for a species ("Redfish"), from its common names or title
+ */
+export function getSpeciesName(doc: SpeciesDoc): string {
+  return doc.speciesMeta?.commonNames?.[0] || doc.title.split(':')[0].replace(/\s+fishing guide$/i, '').trim();
+}
+
+/**
+ * Load all published species guides (drafts/noindex excluded by getAllSpeciesDocs)
+ * Sorted by name
+ */
+export async function loadAllSpecies(): Promise<SpeciesDisplay[]> {
+  const docs = (await getAllSpeciesDocs()).filter((doc): doc is SpeciesDoc => doc.pageType === 'species');
+
+  return docs
+    .map((doc) => ({
+      slug: doc.slug,
+      name: getSpeciesName(doc),
+      title: doc.title,
+      description: doc.description,
+      scientificName: doc.speciesMeta?.scientificName,
+      heroImage: doc.heroImage,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get species guide by slug
+ * Loads the full doc file directly (the index has no body)
+ * Logs all failures with slug, file path, and error reason
+ */
+export async function getSpeciesBySlug(slug: string): Promise<SpeciesDoc | null> {
+  const filePath = path.join(process.cwd(), 'content', 'species', `${slug}.json`);
+
+  try {
+    await fs.access(filePath);
+  } catch (error) {
+    const { logContentLoadError } = await import('./logger');
+    const fileError = error as NodeJS.ErrnoException;
+    logContentLoadError({
+      slug,
+      filePath,
+      reason: fileError.code === 'ENOENT' ? 'File not found' : 'Cannot access file',
+      error: fileError,
+    });
+    return null;
+  }
+
+  const doc = await loadContentDoc(filePath);
+  if (!doc) {
+    // loadContentDoc already logged the error
+    return null;
+  }
+
+  // Runtime schema validation - protects renderer from bad JSON
+  const { validateAndQuarantine } = await import('./schema-validator');
+  const validatedDoc = validateAndQuarantine(doc, slug, filePath, 'species');
+  if (!validatedDoc) {
+    return null;
+  }
+
+  if (validatedDoc.slug !== slug) {
+    const { logContentValidationError } = await import('./logger');
+    logContentValidationError({
+      slug,
+      filePath,
+      reason: 'Slug mismatch',
+      validationErrors: [`Expected slug="${slug}", got "${validatedDoc.slug}"`],
+    });
+    return null;
+  }
+
+  // Drafts, noindex and docs scheduled for later are valid states, not errors
+  if (!isLive(validatedDoc)) {
+    return null;
+  }
+
+  return validatedDoc as SpeciesDoc;
+}
@@ -0,0 +1,289 @@
+/**
+ * Editorial workflow - draft → in-review → scheduled → published
+ *
+ * A doc's status lives in doc.editorial, and flags.draft mirrors it (true while the doc is a
+ * draft or in review) so every reader that already skips drafts keeps working. Scheduled
+ * docs are not drafts: listings and pages hide them until editorial.scheduledFor (isLive),
+ * and the release-scheduled command flips them to published and revalidates their pages.
+ *
+ * Every transition is saved through revision history (saveDoc), which also refreshes the
+ * doc's content index entry.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { EditorialState, EditorialStatus, PageType } from '@/scripts/pipeline/types';
+import { saveDoc, contentFilePath, RevisionDoc, RevisionSummary } from './revisions';
+
+const CONTENT_DIR = path.join(process.cwd(), 'content');
+
+export type WorkflowAction = 'submit' | 'request-changes' | 'approve' | 'unschedule' | 'publish' | 'unpublish';
+
+export interface WorkflowActionOptions {
+  by: string;
+  reviewer?: string; // submit
+  scheduledFor?: string; // approve - ISO 8601, publishes immediately when absent or past
+  note?: string;
+}
+
+export interface WorkflowResult {
+  status: EditorialStatus;
+  editorial: EditorialState;
+  revision: RevisionSummary;
+}
+
+export interface ScheduledDoc {
+  pageType: PageType;
+  slug: string;
+  title?: string;
+  scheduledFor: string;
+}
+
+export class WorkflowError extends Error {
+  constructor(message: string, public code: 'INVALID_TRANSITION' | 'INVALID_INPUT') {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+/**
+ * Statuses each action can start from, and how it reads in history
+ */
+const TRANSITIONS: Record<WorkflowAction, { from: EditorialStatus[]; label: string }> = {
+  submit: { from: ['draft'], label: 'Submitted for review' },
+  'request-changes': { from: ['in-review'], label: 'Changes requested' },
+  approve: { from: ['in-review'], label: 'Approved' },
+  unschedule: { from: ['scheduled'], label: 'Unscheduled' },
+  publish: { from: ['scheduled'], label: 'Published' },
+  unpublish: { from: ['published'], label: 'Unpublished' },
+};
+
+const CONTENT_DIRS: Record<PageType, string> = { blog: 'blog', species: 'species', 'how-to': 'how-to', location: 'locations' };
+
+/**
+ * Current workflow status (docs from before the workflow only have flags.draft)
+ */
+export function editorialStatus(doc: { flags?: { draft?: boolean }; editorial?: Pick<EditorialState, 'status'> }): EditorialStatus {
+  return doc.editorial?.status ?? (doc.flags?.draft ? 'draft' : 'published');
+}
+
+/**
+ * Actions allowed from a status (for the admin controls)
+ */
+export function availableActions(status: EditorialStatus): WorkflowAction[] {
+  return (Object.keys(TRANSITIONS) as WorkflowAction[]).filter((action) => TRANSITIONS[action].from.includes(status));
+}
+
+/**
+ * Apply an action to a doc and return the updated doc (pure - nothing is written)
+ * Approving with a future scheduledFor schedules the doc, otherwise it goes live now.
+ * Going live sets publishedAt to the go-live time so listings sort it as new.
+ */
+export function applyWorkflowAction(
+  doc: RevisionDoc,
+  action: WorkflowAction,
+  options: WorkflowActionOptions,
+  now: Date = new Date()
+): RevisionDoc {
+  const transition = TRANSITIONS[action];
+  if (!transition) {
+    throw new WorkflowError(`Unknown workflow action: ${action}`, 'INVALID_INPUT');
+  }
+  if (!options.by?.trim()) {
+    throw new WorkflowError('Every workflow action needs a "by" name', 'INVALID_INPUT');
+  }
+
+  const d = doc as Record<string, any>;
+  const from = editorialStatus(d);
+  if (!transition.from.includes(from)) {
+    throw new WorkflowError(
+      `Cannot ${action} a doc that is ${from} (allowed from: ${transition.from.join(', ')})`,
+      'INVALID_TRANSITION'
+    );
+  }
+
+  const at = now.toISOString();
+  const editorial: EditorialState = { ...(d.editorial ?? {}), status: from, history: [...(d.editorial?.history ?? [])] };
+  let to: EditorialStatus;
+  let goLiveAt: string | undefined;
+
+  switch (action) {
+    case 'submit': {
+      const reviewer = options.reviewer?.trim() || editorial.reviewer;
+      if (!reviewer) {
+        throw new WorkflowError('Submitting for review needs a reviewer', 'INVALID_INPUT');
+      }
+      editorial.reviewer = reviewer;
+      to = 'in-review';
+      break;
+    }
+    case 'request-changes':
+      to = 'draft';
+      break;
+    case 'approve': {
+      editorial.approvedBy = options.by;
+      editorial.approvedAt = at;
+      const scheduledFor = options.scheduledFor ? new Date(options.scheduledFor) : null;
+      if (scheduledFor && isNaN(scheduledFor.getTime())) {
+        throw new WorkflowError(`Invalid scheduledFor: ${options.scheduledFor}`, 'INVALID_INPUT');
+      }
+      if (scheduledFor && scheduledFor > now) {
+        editorial.scheduledFor = scheduledFor.toISOString();
+        goLiveAt = editorial.scheduledFor;
+        to = 'scheduled';
+      } else {
+        delete editorial.scheduledFor;
+        goLiveAt = at;
+        to = 'published';
+      }
+      break;
+    }
+    case 'unschedule':
+      delete editorial.scheduledFor;
+      delete editorial.approvedBy;
+      delete editorial.approvedAt;
+      to = 'draft';
+      break;
+    case 'publish':
+      // Early release keeps nothing in the future; a due release goes live at its scheduled time
+      goLiveAt = editorial.scheduledFor && new Date(editorial.scheduledFor) <= now ? editorial.scheduledFor : at;
+      delete editorial.scheduledFor;
+      to = 'published';
+      break;
+    case 'unpublish':
+      delete editorial.approvedBy;
+      delete editorial.approvedAt;
+      to = 'draft';
+      break;
+  }
+
+  editorial.status = to;
+  editorial.history.push({ from, to, by: options.by, at, ...(options.note ? { note: options.note } : {}) });
+
+  const updated: Record<string, any> = {
+    ...d,
+    editorial,
+    flags: { ...(d.flags ?? { noindex: false }), draft: to === 'draft' || to === 'in-review' },
+  };
+  if (goLiveAt) {
+    if (updated.dates) {
+      updated.dates = { ...updated.dates, publishedAt: goLiveAt };
+    }
+    if ('publishedAt' in updated) {
+      updated.publishedAt = goLiveAt; // Legacy admin-edited posts
+    }
+  }
+  return updated;
+}
+
+/**
+ * Run a workflow action on a saved doc: updates the file, records a revision,
+ * refreshes the index entry and revalidates the doc's pages
+ */
+export async function transitionDoc(
+  pageType: PageType,
+  slug: string,
+  action: WorkflowAction,
+  options: WorkflowActionOptions & { source?: 'admin' | 'pipeline' }
+): Promise<WorkflowResult> {
+  const filePath = contentFilePath(pageType, slug);
+  let doc: RevisionDoc;
+  try {
+    doc = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new WorkflowError(`No ${pageType} doc with slug "${slug}"`, 'INVALID_INPUT');
+    }
+    throw error;
+  }
+
+  const updated = applyWorkflowAction(doc, action, options);
+  const editorial = updated.editorial as EditorialState;
+  const reason = `${TRANSITIONS[action].label}${editorial.status === 'scheduled' ? ` for ${editorial.scheduledFor}` : ''}` +
+    (options.note ? `: ${options.note}` : '');
+
+  const revision = await saveDoc(pageType, slug, updated, {
+    source: options.source ?? 'admin',
+    author: options.by,
+    reason,
+  });
+  return { status: editorial.status, editorial, revision };
+}
+
+/**
+ * Scheduled docs across all page types, soonest first
+ */
+export async function listScheduledDocs(): Promise<ScheduledDoc[]> {
+  const scheduled: ScheduledDoc[] = [];
+
+  for (const [pageType, dirName] of Object.entries(CONTENT_DIRS) as Array<[PageType, string]>) {
+    for (const filePath of await listJsonFiles(path.join(CONTENT_DIR, dirName))) {
+      let doc: Record<string, any>;
+      try {
+        doc = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      } catch {
+        continue; // Unreadable docs are reported by validate-index
+      }
+      if (doc.editorial?.status === 'scheduled' && doc.editorial.scheduledFor) {
+        const relative = path.relative(path.join(CONTENT_DIR, dirName), filePath).replace(/\.json$/, '');
+        scheduled.push({
+          pageType,
+          slug: relative.split(path.sep).join('/'),
+          title: doc.title,
+          scheduledFor: doc.editorial.scheduledFor,
+        });
+      }
+    }
+  }
+
+  return scheduled.sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+}
+
+/**
+ * Publish every scheduled doc whose time has come (run by the release-scheduled schedule)
+ * One failing doc does not stop the others.
+ */
+export async function releaseDueDocs(now: Date = new Date()): Promise<{
+  released: Array<ScheduledDoc & { revision: number }>;
+  failed: Array<ScheduledDoc & { error: string }>;
+  pending: ScheduledDoc[];
+}> {
+  const released: Array<ScheduledDoc & { revision: number }> = [];
+  const failed: Array<ScheduledDoc & { error: string }> = [];
+  const pending: ScheduledDoc[] = [];
+
+  for (const doc of await listScheduledDocs()) {
+    if (new Date(doc.scheduledFor) > now) {
+      pending.push(doc);
+      continue;
+    }
+    try {
+      const result = await transitionDoc(doc.pageType, doc.slug, 'publish', { by: 'scheduler', source: 'pipeline' });
+      released.push({ ...doc, revision: result.revision.number });
+    } catch (error) {
+      failed.push({ ...doc, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { released, failed, pending };
+}
+
+async function listJsonFiles(dir: string): Promise<string[]> {
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return []; // No directory for this page type yet
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listJsonFiles(fullPath)));
+    } else if (entry.name.endsWith('.json')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
@@ -2,6 +2,10 @@
  * Editorial Guardrails - Hard rules to block bad content
  */
 
+import type { ContentBrief } from '@/scripts/pipeline/types';
+
+type ContentAngle = ContentBrief['angle'];
+
 interface GuardrailResult {
   passed: boolean;
   errors: string[];
@@ -161,10 +165,204 @@ export function checkSentenceVariety(content: string): {
   };
 }
 
+/**
+ * Readability metrics for a markdown body
+ */
+export interface ReadabilityScores {
+  fleschKincaidGrade: number; // US school grade
+  fleschReadingEase: number; // 0-100, higher is easier
+  passiveVoiceRatio: number; // 0-1, share of sentences in passive voice
+  paragraphWords: {
+    average: number;
+    median: number;
+    p90: number;
+    max: number;
+  };
+  jargonDensity: number; // Jargon terms per 100 words
+  sentenceCount: number;
+  wordCount: number;
+}
+
+/**
+ * Readability limits for one content angle
+ */
+export interface ReadabilityThresholds {
+  maxGrade: number;
+  minReadingEase: number;
+  maxPassiveRatio: number;
+  maxAverageParagraphWords: number;
+  maxParagraphWords: number; // Single paragraph
+  maxJargonDensity: number;
+}
+
+/**
+ * Thresholds per brief angle - beginner content reads easiest, advanced may be denser
+ */
+export const READABILITY_THRESHOLDS: Record<ContentAngle | 'default', ReadabilityThresholds> = {
+  beginner: { maxGrade: 8, minReadingEase: 60, maxPassiveRatio: 0.1, maxAverageParagraphWords: 70, maxParagraphWords: 120, maxJargonDensity: 1.5 },
+  seasonal: { maxGrade: 9, minReadingEase: 55, maxPassiveRatio: 0.12, maxAverageParagraphWords: 80, maxParagraphWords: 140, maxJargonDensity: 2.5 },
+  'location-focused': { maxGrade: 9, minReadingEase: 55, maxPassiveRatio: 0.12, maxAverageParagraphWords: 80, maxParagraphWords: 140, maxJargonDensity: 2.5 },
+  'gear-focused': { maxGrade: 10, minReadingEase: 50, maxPassiveRatio: 0.12, maxAverageParagraphWords: 90, maxParagraphWords: 150, maxJargonDensity: 4 },
+  'technique-focused': { maxGrade: 10, minReadingEase: 50, maxPassiveRatio: 0.12, maxAverageParagraphWords: 90, maxParagraphWords: 150, maxJargonDensity: 4 },
+  advanced: { maxGrade: 12, minReadingEase: 40, maxPassiveRatio: 0.15, maxAverageParagraphWords: 100, maxParagraphWords: 170, maxJargonDensity: 5 },
+  default: { maxGrade: 10, minReadingEase: 50, maxPassiveRatio: 0.12, maxAverageParagraphWords: 90, maxParagraphWords: 150, maxJargonDensity: 3 },
+};
+
+// Technical terms a beginner may not know (matched as whole words, case-insensitive)
+const JARGON_TERMS = [
+  'thermocline', 'fluorocarbon', 'monofilament', 'drop shot', 'carolina rig', 'texas rig', 'ned rig',
+  'jerkbait', 'crankbait', 'swimbait', 'spinnerbait', 'chatterbait', 'baitcaster', 'gear ratio',
+  'fast action', 'moderate action', 'backbone', 'tippet', 'dropper loop', 'palomar', 'uni knot',
+  'fg knot', 'bimini twist', 'snell', 'circle hook', 'split shot', 'bottom bouncer', 'side imaging',
+  'down imaging', 'transducer', 'breakline', 'laydown', 'riprap', 'barometric pressure', 'solunar',
+  'slack tide', 'current seam', 'eddy', 'forage', 'pelagic', 'benthic', 'littoral', 'hypolimnion',
+];
+
+// be/get + optional adverb + past participle
+const PASSIVE_PATTERN =
+  /\b(?:am|is|are|was|were|be|been|being|gets?|got|gotten)\s+(?:\w+ly\s+)?(?:\w+ed|known|seen|caught|made|done|given|taken|found|held|built|shown|written|thrown|kept|left|brought|bought|told|sold|hidden|driven|eaten|chosen|broken|spoken|worn|torn|drawn|grown|hung|set|put)\b/i;
+
+/**
+ * Markdown to plain prose: paragraphs only (no headings, tables or images), links reduced to their text
+ */
+function toProseParagraphs(content: string): string[] {
+  return content
+    .split(/\n\s*\n/)
+    .map((block) =>
+      block
+        .split('\n')
+        .filter((line) => !/^\s*(?:#|\||!\[|```|<)/.test(line))
+        .map((line) => line.replace(/^\s*(?:[-*+]|\d+\.|>)\s+/, ''))
+        .join(' ')
+        .replace(/\[\^[^\]]+\]/g, '') // Citation markers
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/[*_`]/g, '')
+        .trim()
+    )
+    .filter((p) => p.length > 0);
+}
+
+function countSyllables(word: string): number {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (w.length <= 3) {
+    return w.length > 0 ? 1 : 0;
+  }
+  const groups = w.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups ? groups.length : 1);
+}
+
+/**
+ * Flesch-Kincaid grade, reading ease, passive voice, paragraph lengths and jargon density
+ */
+export function scoreReadability(content: string): ReadabilityScores {
+  const paragraphs = toProseParagraphs(content);
+  // Lines without end punctuation (list items) count as sentences of their own
+  const sentences = paragraphs.flatMap((p) => p.split(/[.!?]+(?:\s+|$)/)).filter((s) => /[a-z]/i.test(s));
+  const words = sentences.flatMap((s) => s.split(/\s+/).filter((w) => /[a-z]/i.test(w)));
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+
+  const wordsPerSentence = words.length / Math.max(sentences.length, 1);
+  const syllablesPerWord = syllables / Math.max(words.length, 1);
+
+  const paragraphLengths = paragraphs.map((p) => p.split(/\s+/).length).sort((a, b) => a - b);
+  const at = (q: number) => paragraphLengths[Math.min(paragraphLengths.length - 1, Math.floor(q * paragraphLengths.length))] || 0;
+
+  const prose = ` ${paragraphs.join(' ').toLowerCase()} `;
+  const jargonCount = JARGON_TERMS.reduce(
+    (sum, term) => sum + (prose.match(new RegExp(`\\b${term.replace(/ /g, '\\s+')}s?\\b`, 'g')) || []).length,
+    0
+  );
+
+  const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+  return {
+    fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+    fleschReadingEase: round(206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord),
+    passiveVoiceRatio: round(sentences.filter((s) => PASSIVE_PATTERN.test(s)).length / Math.max(sentences.length, 1), 3),
+    paragraphWords: {
+      average: round(paragraphLengths.reduce((a, b) => a + b, 0) / Math.max(paragraphLengths.length, 1)),
+      median: at(0.5),
+      p90: at(0.9),
+      max: paragraphLengths[paragraphLengths.length - 1] || 0,
+    },
+    jargonDensity: round((jargonCount / Math.max(words.length, 1)) * 100, 2),
+    sentenceCount: sentences.length,
+    wordCount: words.length,
+  };
+}
+
+/**
+ * Compare readability scores with the thresholds for an angle
+ * Grade level and reading ease are errors; passive voice, paragraph length and jargon are warnings
+ */
+export function checkReadability(scores: ReadabilityScores, angle?: ContentAngle): GuardrailResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const label = angle || 'default';
+  const limits = READABILITY_THRESHOLDS[label];
+
+  if (scores.fleschKincaidGrade > limits.maxGrade) {
+    errors.push(`Reading level too high for ${label} content: grade ${scores.fleschKincaidGrade} (maximum: ${limits.maxGrade})`);
+  }
+  if (scores.fleschReadingEase < limits.minReadingEase) {
+    errors.push(`Reading ease too low for ${label} content: ${scores.fleschReadingEase} (minimum: ${limits.minReadingEase})`);
+  }
+  if (scores.passiveVoiceRatio > limits.maxPassiveRatio) {
+    warnings.push(
+      `Passive voice in ${(scores.passiveVoiceRatio * 100).toFixed(0)}% of sentences (maximum: ${(limits.maxPassiveRatio * 100).toFixed(0)}%)`
+    );
+  }
+  if (scores.paragraphWords.average > limits.maxAverageParagraphWords) {
+    warnings.push(`Paragraphs average ${scores.paragraphWords.average} words (maximum: ${limits.maxAverageParagraphWords})`);
+  }
+  if (scores.paragraphWords.max > limits.maxParagraphWords) {
+    warnings.push(`Longest paragraph has ${scores.paragraphWords.max} words (maximum: ${limits.maxParagraphWords})`);
+  }
+  if (scores.jargonDensity > limits.maxJargonDensity) {
+    warnings.push(`Jargon density ${scores.jargonDensity} per 100 words for ${label} content (maximum: ${limits.maxJargonDensity})`);
+  }
+
+  return {
+    passed: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Readability scores + check result as stored with content index entries (admin UI)
+ */
+export interface ReadabilitySummary {
+  angle: ContentAngle | 'default'; // Thresholds used
+  grade: number;
+  readingEase: number;
+  passiveRatio: number;
+  averageParagraphWords: number;
+  maxParagraphWords: number;
+  jargonDensity: number;
+  passed: boolean;
+  issues: string[]; // checkReadability errors, then warnings
+}
+
+export function summarizeReadability(content: string, angle?: ContentAngle): ReadabilitySummary {
+  const scores = scoreReadability(content);
+  const check = checkReadability(scores, angle);
+  return {
+    angle: angle || 'default',
+    grade: scores.fleschKincaidGrade,
+    readingEase: scores.fleschReadingEase,
+    passiveRatio: scores.passiveVoiceRatio,
+    averageParagraphWords: scores.paragraphWords.average,
+    maxParagraphWords: scores.paragraphWords.max,
+    jargonDensity: scores.jargonDensity,
+    passed: check.passed,
+    issues: [...check.errors, ...check.warnings],
+  };
+}
+
 /**
  * Run all guardrails
  */
-export function runGuardrails(content: string, wordCount: number, h2Count: number, internalLinkCount: number, sourcesCount: number, hasSeasonalContent: boolean): GuardrailResult {
+export function runGuardrails(content: string, wordCount: number, h2Count: number, internalLinkCount: number, sourcesCount: number, hasSeasonalContent: boolean, angle?: ContentAngle): GuardrailResult {
   const errors: string[] = [];
   const warnings: string[] = [];
   
@@ -212,6 +410,11 @@ export function runGuardrails(content: string, wordCount: number, h2Count: numbe
     warnings.push(`Lexical diversity is low: ${(lexicalDiversity * 100).toFixed(1)}% (recommended: >35%)`);
   }
   
+  // 9. Readability (thresholds depend on the brief's angle)
+  const readability = checkReadability(scoreReadability(content), angle);
+  errors.push(...readability.errors);
+  warnings.push(...readability.warnings);
+  
   return {
     passed: errors.length === 0,
     errors,
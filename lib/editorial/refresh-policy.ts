@@ -2,7 +2,8 @@
  * Content Refresh Policy - Scheduling and lifecycle management
  */
 
-import { GeneratedDoc } from '@/scripts/pipeline/types';
+import { GeneratedDoc, PageType } from '@/scripts/pipeline/types';
+import type { RedirectRule } from '@/lib/content/redirects';
 
 export interface RefreshSchedule {
   pageType: 'blog' | 'species' | 'how-to' | 'location';
@@ -115,5 +116,42 @@ export function identifyPruningCandidates(
   return candidates;
 }
 
+/**
+ * Apply a pruning candidate. noindex keeps the page but drops it from listings and sitemaps;
+ * merge/redirect retire it with a 301 to targetSlug, delete with a 410 Gone.
+ */
+export async function applyPruningCandidate(
+  candidate: PruningCandidate,
+  options: { by: string }
+): Promise<{ action: PruningCandidate['action']; redirect?: RedirectRule; revision?: number }> {
+  const pageType = candidate.pageType as PageType;
+  const note = `Pruning: ${candidate.reason}`;
 
+  if (candidate.action === 'noindex') {
+    const fs = await import('fs/promises');
+    const { contentFilePath, saveDoc } = await import('../content/revisions');
+    const doc = JSON.parse(await fs.readFile(contentFilePath(pageType, candidate.slug), 'utf-8'));
+    const revision = await saveDoc(pageType, candidate.slug, { ...doc, flags: { ...doc.flags, noindex: true } }, {
+      source: 'pipeline',
+      author: options.by,
+      reason: note,
+    });
+    return { action: 'noindex', revision: revision.number };
+  }
 
+  const { retireDoc } = await import('../content/redirects');
+  if (candidate.action === 'merge' || candidate.action === 'redirect') {
+    if (!candidate.targetSlug) {
+      throw new Error(`Pruning candidate ${candidate.pageType}/${candidate.slug} (${candidate.action}) has no targetSlug`);
+    }
+    const redirect = await retireDoc(pageType, candidate.slug, {
+      by: options.by,
+      mergeInto: { pageType, slug: candidate.targetSlug },
+      note,
+    });
+    return { action: candidate.action, redirect };
+  }
+
+  const redirect = await retireDoc(pageType, candidate.slug, { by: options.by, note });
+  return { action: 'delete', redirect };
+}
@@ -0,0 +1,38 @@
+/**
+ * Middleware - Serves redirects from content/_system/redirects.json
+ *
+ * 301 for renamed / merged URLs, 410 Gone for pruned ones (see lib/content/redirects.ts).
+ * Middleware runs on the edge runtime without fs, so redirects.json is imported and resolved
+ * at build time: no request per page load, and nothing to fail at runtime. `next dev` rebuilds
+ * on every change to the file; in production new rules apply with the next build.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveRedirectMap, RedirectRule } from '@/lib/content/redirect-map';
+import store from './content/_system/redirects.json';
+
+const REDIRECT_MAP = resolveRedirectMap(store.redirects as RedirectRule[]);
+
+export function middleware(request: NextRequest) {
+  const pathname = request.nextUrl.pathname.toLowerCase().replace(/\/+$/, '') || '/';
+  const rule = REDIRECT_MAP[pathname];
+  if (!rule) {
+    return NextResponse.next();
+  }
+
+  if (rule.status === 410 || !rule.to) {
+    return new NextResponse('This page has been removed.', {
+      status: 410,
+      headers: { 'Content-Type': 'text/plain; charset=utf-8', 'X-Robots-Tag': 'noindex' },
+    });
+  }
+
+  const target = request.nextUrl.clone();
+  target.pathname = rule.to;
+  return NextResponse.redirect(target, 301);
+}
+
+export const config = {
+  // Pages only: no API routes, Next internals or files with an extension
+  matcher: ['/((?!api/|_next/|.*\\..*).*)'],
+};
@@ -0,0 +1,325 @@
+/**
+ * API Response Cache - Disk-backed cache for keyword research calls
+ *
+ * Keyed by endpoint + payload (same normalized hash as cassettes), with per-endpoint TTLs
+ * from API_CACHE_CONFIG. Only successful responses are cached.
+ *
+ * Entries: content/_system/api-cache/<hash>.json
+ * Stats:   content/_system/api-cache-stats.json (hits/misses per endpoint family)
+ *
+ * The cache is bypassed while recording/replaying cassettes so cassettes always
+ * capture (and replay) the real request sequence.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from './logger';
+import { API_CACHE_CONFIG } from './config';
+import { cassetteFetch, getCassetteMode, hashRequest, isReplaying, CassetteService } from './cassette';
+import { assertWithinBudget, recordCost, estimateDataForSEOCost } from './cost-tracker';
+
+const API_CACHE_DIR = path.join(process.cwd(), 'content', '_system', 'api-cache');
+const API_CACHE_STATS_PATH = path.join(process.cwd(), 'content', '_system', 'api-cache-stats.json');
+
+export type ApiCacheEndpoint = keyof typeof API_CACHE_CONFIG.ttlDays;
+
+export interface ApiCacheEntry {
+  version: string;
+  endpoint: ApiCacheEndpoint;
+  url: string;
+  createdAt: string; // ISO 8601
+  expiresAt: string; // ISO 8601
+  response: {
+    status: number;
+    contentType: string | null;
+    body: string;
+  };
+}
+
+export interface ApiCacheStats {
+  version: string;
+  lastUpdated: string;
+  byEndpoint: Record<string, { hits: number; misses: number; writes: number }>;
+}
+
+export interface ApiCachePruneResult {
+  scanned: number;
+  removed: number;
+  remaining: number;
+  bytesFreed: number;
+}
+
+const DEFAULT_STATS: ApiCacheStats = {
+  version: '1.0.0',
+  lastUpdated: new Date().toISOString(),
+  byEndpoint: {},
+};
+
+/**
+ * Classify a request URL into an endpoint family (drives TTL)
+ */
+export function classifyEndpoint(url: string): ApiCacheEndpoint {
+  if (url.includes('/keywords_for_keywords') || url.includes('/search_volume')) {
+    return 'volume';
+  }
+  if (url.includes('/bulk_keyword_difficulty')) {
+    return 'difficulty';
+  }
+  if (url.includes('/search_intent')) {
+    return 'intent';
+  }
+  if (url.includes('/serp/')) {
+    return 'serp';
+  }
+  return 'default';
+}
+
+/**
+ * Load cache stats from file
+ */
+export async function loadApiCacheStats(): Promise<ApiCacheStats> {
+  try {
+    const data = await fs.readFile(API_CACHE_STATS_PATH, 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    return { ...DEFAULT_STATS, byEndpoint: {} };
+  }
+}
+
+/**
+ * Reset cache stats (entries are kept)
+ */
+export async function resetApiCacheStats(): Promise<void> {
+  await saveApiCacheStats({ ...DEFAULT_STATS, lastUpdated: new Date().toISOString(), byEndpoint: {} });
+}
+
+async function saveApiCacheStats(stats: ApiCacheStats): Promise<void> {
+  await fs.mkdir(path.dirname(API_CACHE_STATS_PATH), { recursive: true });
+  const tempPath = `${API_CACHE_STATS_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(stats, null, 2), 'utf-8');
+  await fs.rename(tempPath, API_CACHE_STATS_PATH);
+}
+
+// Serialize stats writes within this process (callers use Promise.all)
+let statsQueue: Promise<void> = Promise.resolve();
+
+function recordStat(endpoint: ApiCacheEndpoint, field: 'hits' | 'misses' | 'writes'): Promise<void> {
+  statsQueue = statsQueue
+    .then(async () => {
+      const stats = await loadApiCacheStats();
+      const entry = stats.byEndpoint[endpoint] || { hits: 0, misses: 0, writes: 0 };
+      entry[field]++;
+      stats.byEndpoint[endpoint] = entry;
+      stats.lastUpdated = new Date().toISOString();
+      await saveApiCacheStats(stats);
+    })
+    .catch((error) => {
+      // Stats are best-effort - never fail an API call because of them
+      logger.debug('Failed to record API cache stats:', error);
+    });
+  return statsQueue;
+}
+
+function getEntryPath(hash: string): string {
+  return path.join(API_CACHE_DIR, `${hash}.json`);
+}
+
+async function readEntry(hash: string): Promise<ApiCacheEntry | null> {
+  try {
+    const data = await fs.readFile(getEntryPath(hash), 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+async function writeEntry(hash: string, entry: ApiCacheEntry): Promise<void> {
+  await fs.mkdir(API_CACHE_DIR, { recursive: true });
+  const entryPath = getEntryPath(hash);
+  const tempPath = `${entryPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(entry), 'utf-8');
+  await fs.rename(tempPath, entryPath);
+}
+
+function isExpired(entry: ApiCacheEntry, now: number = Date.now()): boolean {
+  return new Date(entry.expiresAt).getTime() <= now;
+}
+
+/**
+ * DataForSEO responses report errors in-band (HTTP 200 with status_code >= 40000)
+ */
+function isCacheableBody(body: string): boolean {
+  try {
+    const data = JSON.parse(body);
+    return !(data && typeof data.status_code === 'number' && data.status_code >= 40000);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Network call with budget check + cost accounting (cache misses only)
+ */
+async function fetchWithCost(
+  service: CassetteService,
+  endpoint: ApiCacheEndpoint,
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  if (service !== 'dataforseo' || isReplaying()) {
+    return cassetteFetch(service, url, init);
+  }
+  const costUsd = estimateDataForSEOCost(endpoint);
+  assertWithinBudget('dataforseo', costUsd);
+  const response = await cassetteFetch(service, url, init);
+  await recordCost('dataforseo', endpoint, costUsd);
+  return response;
+}
+
+/**
+ * Paid call that must reach the API (connection tests) - skips the cache but is still
+ * budget-checked and recorded like every other call
+ */
+export function uncachedFetch(service: CassetteService, url: string, init: RequestInit = {}): Promise<Response> {
+  return fetchWithCost(service, classifyEndpoint(url), url, init);
+}
+
+/**
+ * fetch() wrapper with a persistent TTL cache in front of cassetteFetch
+ */
+export async function cachedFetch(
+  service: CassetteService,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  const endpoint = classifyEndpoint(url);
+
+  if (!API_CACHE_CONFIG.enabled || getCassetteMode() !== 'off') {
+    return fetchWithCost(service, endpoint, url, init);
+  }
+
+  const hash = hashRequest(service, url, init);
+  const cached = await readEntry(hash);
+
+  if (cached && !isExpired(cached)) {
+    logger.debug(`API cache hit: ${endpoint}/${hash}`);
+    await recordStat(endpoint, 'hits');
+    return new Response(cached.response.body, {
+      status: cached.response.status,
+      headers: cached.response.contentType ? { 'Content-Type': cached.response.contentType } : {},
+    });
+  }
+
+  logger.debug(`API cache miss: ${endpoint}/${hash}`);
+  await recordStat(endpoint, 'misses');
+
+  const response = await fetchWithCost(service, endpoint, url, init);
+  const body = await response.text();
+
+  if (response.ok && isCacheableBody(body)) {
+    const ttlMs = API_CACHE_CONFIG.ttlDays[endpoint] * 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    try {
+      await writeEntry(hash, {
+        version: '1.0.0',
+        endpoint,
+        url,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlMs).toISOString(),
+        response: {
+          status: response.status,
+          contentType: response.headers.get('content-type'),
+          body,
+        },
+      });
+      await recordStat(endpoint, 'writes');
+    } catch (error) {
+      logger.warn('Failed to write API cache entry:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const contentType = response.headers.get('content-type');
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: contentType ? { 'Content-Type': contentType } : {},
+  });
+}
+
+/**
+ * Remove expired cache entries (or all entries with { all: true })
+ */
+export async function pruneApiCache(options: { all?: boolean } = {}): Promise<ApiCachePruneResult> {
+  const result: ApiCachePruneResult = { scanned: 0, removed: 0, remaining: 0, bytesFreed: 0 };
+
+  let files: string[];
+  try {
+    files = await fs.readdir(API_CACHE_DIR);
+  } catch {
+    return result; // No cache yet
+  }
+
+  const now = Date.now();
+  for (const file of files) {
+    if (!file.endsWith('.json') && !file.endsWith('.tmp')) {
+      continue;
+    }
+    result.scanned++;
+    const filePath = path.join(API_CACHE_DIR, file);
+
+    let remove = options.all || file.endsWith('.tmp');
+    if (!remove) {
+      try {
+        const entry: ApiCacheEntry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        remove = isExpired(entry, now);
+      } catch {
+        remove = true; // Corrupted entry
+      }
+    }
+
+    if (remove) {
+      try {
+        const { size } = await fs.stat(filePath);
+        await fs.unlink(filePath);
+        result.removed++;
+        result.bytesFreed += size;
+      } catch (error) {
+        logger.warn(`Failed to remove cache entry ${file}:`, error);
+      }
+    } else {
+      result.remaining++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Print cache hit/miss summary (used by pipeline:metrics)
+ */
+export function printApiCacheSummary(stats: ApiCacheStats): void {
+  const endpoints = Object.entries(stats.byEndpoint);
+
+  console.log('\n🗄️  API Cache (DataForSEO):');
+  if (endpoints.length === 0) {
+    console.log('   No cache activity recorded yet.');
+    return;
+  }
+
+  let totalHits = 0;
+  let totalMisses = 0;
+  endpoints
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .forEach(([endpoint, counts]) => {
+      totalHits += counts.hits;
+      totalMisses += counts.misses;
+      const lookups = counts.hits + counts.misses;
+      const hitRate = lookups > 0 ? ((counts.hits / lookups) * 100).toFixed(1) : '0.0';
+      console.log(`   ${endpoint}: ${counts.hits} hits / ${counts.misses} misses (${hitRate}% hit rate, ${counts.writes} writes)`);
+    });
+
+  const totalLookups = totalHits + totalMisses;
+  if (totalLookups > 0) {
+    console.log(`   📊 Overall Hit Rate: ${((totalHits / totalLookups) * 100).toFixed(1)}% (${totalHits}/${totalLookups})`);
+  }
+}
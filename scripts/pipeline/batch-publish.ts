@@ -5,11 +5,15 @@
 
 import { generateBlogIdeas } from './ideation';
 import { blogIdeaToBrief } from './blog-brief-builder';
-import { generateBlogPost } from './generators/blog';
-import { validateDoc } from './validator';
+import { generateBestBlogPost } from './multi-draft';
+import { runFactCheck } from './fact-check';
+import { repairDoc, formatRepairFailure } from './repair';
 import { publishDoc, PublishError } from './publisher';
 import { topicKeyExists } from './dedupe';
+import { findIdeaOverlaps, formatOverlap } from './near-duplicates';
+import { loadKeywordRegistry } from './keyword-registry';
 import { filterIdeasByCadence, checkDailyLimit, CadenceControls, DEFAULT_CADENCE_CONTROLS } from './cadence-controls';
+import { throwIfBudgetExhausted, BudgetExceededError } from './cost-tracker';
 import { logger } from './logger';
 
 /**
@@ -23,6 +27,7 @@ export interface BatchPublishResult {
   publishedPosts: Array<{ slug: string; title: string; route: string }>;
   rejected: Array<{ title: string; reason: string }>;
   errors: Array<{ title: string; error: string }>;
+  budgetExceeded?: string; // Set when --max-cost stopped the batch early
 }
 
 /**
@@ -88,7 +93,7 @@ export async function batchPublishBlogs(
     logger.info(`  Allowed categories: ${controls.allowedCategories.join(', ')}`);
   }
 
-  const { passed: filteredIdeas, rejected } = filterIdeasByCadence(allIdeas, controls);
+  const { passed: filteredIdeas, rejected } = filterIdeasByCadence(allIdeas, controls, await loadKeywordRegistry());
 
   logger.info(`\n✅ ${filteredIdeas.length} ideas passed cadence controls`);
   logger.info(`❌ ${rejected.length} ideas rejected\n`);
@@ -110,12 +115,16 @@ export async function batchPublishBlogs(
   logger.info('Step 3: Publishing posts...\n');
   const publishedPosts: Array<{ slug: string; title: string; route: string }> = [];
   const errors: Array<{ title: string; error: string }> = [];
+  let budgetExceeded: string | undefined;
 
   for (let i = 0; i < filteredIdeas.length; i++) {
     const idea = filteredIdeas[i];
     logger.info(`[${i + 1}/${filteredIdeas.length}] Publishing: ${idea.title}`);
 
     try {
+      // Stop before spending more once the run budget is gone
+      throwIfBudgetExhausted();
+
       // Check if already exists
       const topicKey = `blog::${idea.slug}`;
       if (await topicKeyExists(topicKey)) {
@@ -127,26 +136,34 @@ export async function batchPublishBlogs(
         continue;
       }
 
+      // Don't publish a post that competes with an existing one for the same query
+      const overlaps = await findIdeaOverlaps(idea);
+      if (overlaps.length > 0) {
+        logger.warn(`  ⚠️  ${formatOverlap(overlaps)}, skipping`);
+        errors.push({
+          title: idea.title,
+          error: formatOverlap(overlaps),
+        });
+        continue;
+      }
+
       // Convert to brief
       const brief = await blogIdeaToBrief(idea);
 
       // Generate post
-      const doc = await generateBlogPost(brief);
+      const generated = await generateBestBlogPost(brief);
 
-      // Validate
-      const validation = validateDoc(doc);
-      if (!validation.passed) {
-        throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
-      }
+      // Fact check (verdicts are stored on the doc for the quality gate)
+      generated.factCheck = await runFactCheck(generated);
 
-      // Quality Gate (runs automatically in publisher, but check here for early feedback)
-      const { runQualityGate } = await import('./quality-gate');
-      const qualityGate = runQualityGate(doc);
-      if (qualityGate.blocked) {
-        throw new Error(`Quality gate BLOCKED: ${qualityGate.errors.join('; ')}`);
+      // Validation + quality gate (also runs in publisher) - failures get targeted repairs
+      const repair = await repairDoc(generated, brief);
+      if (!repair.passed) {
+        throw new Error(formatRepairFailure(repair));
       }
-      if (qualityGate.warnings.length > 0) {
-        logger.warn(`Quality gate warnings for "${doc.title}":`, qualityGate.warnings);
+      const doc = repair.doc;
+      if (repair.qualityGate.warnings.length > 0) {
+        logger.warn(`Quality gate warnings for "${doc.title}":`, repair.qualityGate.warnings);
       }
 
       // Publish
@@ -166,6 +183,11 @@ export async function batchPublishBlogs(
         break;
       }
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        logger.warn(`  🛑 ${error.message}. Stopping batch publish.`);
+        budgetExceeded = error.message;
+        break;
+      }
       const errorMessage = error instanceof PublishError ? error.message : error instanceof Error ? error.message : 'Unknown error';
       logger.error(`  ❌ Failed: ${errorMessage}`);
       errors.push({
@@ -182,6 +204,9 @@ export async function batchPublishBlogs(
   logger.info(`Successfully published: ${publishedPosts.length}`);
   logger.info(`Failed: ${errors.length}`);
   logger.info(`Rejected by filters: ${rejected.length}`);
+  if (budgetExceeded) {
+    logger.info(`Stopped early: ${budgetExceeded}`);
+  }
 
   return {
     totalGenerated: allIdeas.length,
@@ -191,5 +216,6 @@ export async function batchPublishBlogs(
     publishedPosts,
     rejected: rejected.map((r) => ({ title: r.idea.title, reason: r.reason })),
     errors,
+    budgetExceeded,
   };
 }
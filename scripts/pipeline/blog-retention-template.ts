@@ -4,6 +4,7 @@
  */
 
 import { OutlineItem } from './types';
+import { formatSourcesForPrompt, buildCitationRules } from './citations';
 
 /**
  * Generate 12-section retention-focused outline
@@ -91,7 +92,7 @@ export function generateRetentionPrompt(brief: {
   locationFocus?: string;
   internalLinks: string[];
   keyFacts: string[];
-  sources: Array<{ label: string; url: string }>;
+  sources: Array<{ id?: string; label: string; url: string }>;
   minWordCount: number;
 }): string {
   const outline = generateRetentionOutline({
@@ -178,8 +179,10 @@ ${brief.keyFacts.map(f => `- ${f}`).join('\n')}
 === INTERNAL LINKS (USE ALL) ===
 ${brief.internalLinks.join('\n')}
 
-=== SOURCES (CITE AT END) ===
-${brief.sources.map(s => `- ${s.label}: ${s.url}`).join('\n')}
+=== SOURCES (CITE INLINE WITH THEIR MARKERS) ===
+${formatSourcesForPrompt(brief.sources).join('\n')}
+
+${buildCitationRules(brief.sources)}
 
 === VALIDATION CHECKLIST ===
 Before submitting, verify:
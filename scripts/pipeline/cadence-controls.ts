@@ -4,6 +4,7 @@
  */
 
 import { BlogIdea } from './ideation';
+import { KeywordRegistry, keywordKey, primaryOwner } from './keyword-registry';
 import { logger } from './logger';
 
 /**
@@ -118,25 +119,44 @@ export function passesCadenceControls(
 
 /**
  * Filter blog ideas by cadence controls
+ * With a keyword registry, ideas whose keyword a published doc already owns are rejected.
+ * Ideas sharing a keyword with a higher-scoring idea are always rejected (one post per keyword).
  */
 export function filterIdeasByCadence(
   ideas: BlogIdea[],
-  controls: CadenceControls
+  controls: CadenceControls,
+  keywordRegistry?: KeywordRegistry
 ): { passed: BlogIdea[]; rejected: Array<{ idea: BlogIdea; reason: string }> } {
-  const passed: BlogIdea[] = [];
+  const candidates: BlogIdea[] = [];
   const rejected: Array<{ idea: BlogIdea; reason: string }> = [];
 
   for (const idea of ideas) {
     const result = passesCadenceControls(idea, controls);
-    if (result.passed) {
-      passed.push(idea);
+    const owner = result.passed && keywordRegistry ? primaryOwner(keywordRegistry, idea.keyword) : null;
+    if (owner && owner.slug !== idea.slug) {
+      rejected.push({ idea, reason: `Keyword "${idea.keyword}" is owned by ${owner.pageType}/${owner.slug}` });
+    } else if (result.passed) {
+      candidates.push(idea);
     } else {
       rejected.push({ idea, reason: result.reason || 'Unknown reason' });
     }
   }
 
   // Sort passed ideas by opportunity score (highest first)
-  passed.sort((a, b) => b.opportunityScore - a.opportunityScore);
+  candidates.sort((a, b) => b.opportunityScore - a.opportunityScore);
+
+  const passed: BlogIdea[] = [];
+  const claimed = new Map<string, BlogIdea>();
+  for (const idea of candidates) {
+    const key = keywordKey(idea.keyword);
+    const winner = key ? claimed.get(key) : undefined;
+    if (winner) {
+      rejected.push({ idea, reason: `Same keyword as higher-scoring idea "${winner.title}"` });
+      continue;
+    }
+    claimed.set(key, idea);
+    passed.push(idea);
+  }
 
   // Apply max posts per run limit
   const limited = passed.slice(0, controls.maxPostsPerRun);
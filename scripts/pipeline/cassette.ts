@@ -0,0 +1,213 @@
+/**
+ * Cassettes - Record/replay for paid API calls (DataForSEO, Perplexity, LLM)
+ *
+ * MODES:
+ * - off: Pass-through to fetch (default)
+ * - record: Call the real API and store the request/response pair (2xx only - a 429 or 500
+ *   recorded once would otherwise replay forever)
+ * - replay: Serve stored responses only - never touches the network
+ *
+ * Cassettes live at content/_system/cassettes/<service>/<requestHash>.json
+ * and are keyed by a normalized request hash (method + URL + body with sorted keys).
+ * Headers are excluded from the key so credentials never affect (or leak into) cassettes.
+ *
+ * Mode is set with the global --record / --replay CLI flags or PIPELINE_CASSETTE_MODE.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+export type CassetteService = 'dataforseo' | 'perplexity' | 'llm';
+
+const CASSETTES_DIR = path.join(process.cwd(), 'content', '_system', 'cassettes');
+
+export interface Cassette {
+  version: string;
+  service: CassetteService;
+  recordedAt: string; // ISO 8601
+  request: {
+    method: string;
+    url: string;
+    body: any;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    body: string; // Raw response text (replayed byte-for-byte)
+  };
+}
+
+let cassetteMode: CassetteMode = parseCassetteMode(process.env.PIPELINE_CASSETTE_MODE);
+
+function parseCassetteMode(value: string | undefined): CassetteMode {
+  return value === 'record' || value === 'replay' ? value : 'off';
+}
+
+/**
+ * Set cassette mode for this process
+ */
+export function setCassetteMode(mode: CassetteMode): void {
+  cassetteMode = mode;
+  if (mode !== 'off') {
+    logger.info(`Cassette mode: ${mode} (${CASSETTES_DIR})`);
+  }
+}
+
+/**
+ * Get current cassette mode
+ */
+export function getCassetteMode(): CassetteMode {
+  return cassetteMode;
+}
+
+/**
+ * True when responses come from cassettes (API credentials are not needed)
+ */
+export function isReplaying(): boolean {
+  return cassetteMode === 'replay';
+}
+
+/**
+ * Stable JSON stringify (sorted object keys) for hashing
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Normalize request body (parse JSON when possible)
+ */
+function normalizeBody(body: RequestInit['body']): any {
+  if (body === undefined || body === null) {
+    return null;
+  }
+  const text = typeof body === 'string' ? body : String(body);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Normalized request hash used as the cassette key
+ */
+export function hashRequest(service: CassetteService, url: string, init: RequestInit = {}): string {
+  const parsedUrl = new URL(url);
+  parsedUrl.searchParams.sort();
+  const normalized = stableStringify({
+    service,
+    method: (init.method || 'GET').toUpperCase(),
+    url: parsedUrl.toString(),
+    body: normalizeBody(init.body),
+  });
+  return crypto.createHash('sha256').update(normalized).digest('hex').substring(0, 24);
+}
+
+function getCassettePath(service: CassetteService, hash: string): string {
+  return path.join(CASSETTES_DIR, service, `${hash}.json`);
+}
+
+/**
+ * Load a cassette (null if missing)
+ */
+async function loadCassette(service: CassetteService, hash: string): Promise<Cassette | null> {
+  try {
+    const data = await fs.readFile(getCassettePath(service, hash), 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save a cassette
+ * ATOMIC WRITE: temp file → rename
+ */
+async function saveCassette(hash: string, cassette: Cassette): Promise<void> {
+  const cassettePath = getCassettePath(cassette.service, hash);
+  await fs.mkdir(path.dirname(cassettePath), { recursive: true });
+  const tempPath = `${cassettePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(cassette, null, 2), 'utf-8');
+  await fs.rename(tempPath, cassettePath);
+}
+
+function toResponse(cassette: Cassette): Response {
+  const headers: Record<string, string> = {};
+  if (cassette.response.contentType) {
+    headers['Content-Type'] = cassette.response.contentType;
+  }
+  return new Response(cassette.response.body, {
+    status: cassette.response.status,
+    statusText: cassette.response.statusText,
+    headers,
+  });
+}
+
+/**
+ * fetch() wrapper that honors the cassette mode
+ */
+export async function cassetteFetch(
+  service: CassetteService,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> {
+  if (cassetteMode === 'off') {
+    return fetch(url, init);
+  }
+
+  const hash = hashRequest(service, url, init);
+
+  if (cassetteMode === 'replay') {
+    const cassette = await loadCassette(service, hash);
+    if (!cassette) {
+      throw new Error(
+        `No cassette recorded for ${service} request ${hash} (${(init.method || 'GET').toUpperCase()} ${url}). ` +
+        `Re-run with --record to capture it.`
+      );
+    }
+    logger.debug(`Cassette replay: ${service}/${hash}`);
+    return toResponse(cassette);
+  }
+
+  // Record mode: call through, store, and return an equivalent response
+  const response = await fetch(url, init);
+  const body = await response.text();
+  const cassette: Cassette = {
+    version: '1.0.0',
+    service,
+    recordedAt: new Date().toISOString(),
+    request: {
+      method: (init.method || 'GET').toUpperCase(),
+      url,
+      body: normalizeBody(init.body),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      contentType: response.headers.get('content-type'),
+      body,
+    },
+  };
+  if (response.ok) {
+    await saveCassette(hash, cassette);
+    logger.debug(`Cassette recorded: ${service}/${hash}`);
+  } else {
+    logger.warn(`Cassette not recorded: ${service}/${hash} returned ${response.status} ${response.statusText}`);
+  }
+  return toResponse(cassette);
+}
@@ -0,0 +1,80 @@
+/**
+ * Citations - Ties generated claims to brief sources
+ *
+ * Facts carry their source URLs (extractor.ts); sources carry ids (sourceResolver.ts).
+ * Prompts list each fact with the `[^id]` marker of its source so the LLM can cite it
+ * inline; the body is then cleaned of markers that point at unknown sources.
+ * Rendering and claim detection live in lib/content/citations.ts.
+ */
+
+import { Fact, Source } from './types';
+import { extractCitationIds, CITATION_MARKER_PATTERN } from '../../lib/content/citations';
+import { logger } from './logger';
+
+export { stripCitationMarkers } from '../../lib/content/citations';
+
+type CitableSource = Pick<Source, 'id' | 'label' | 'url'>;
+
+/**
+ * Sources that can be cited (only sources with an id get a marker)
+ */
+export function getCitableSources<T extends CitableSource>(sources: T[]): T[] {
+  return sources.filter((source) => !!source.id);
+}
+
+/**
+ * Source ids backing a fact (matched by URL)
+ */
+export function getFactSourceIds(fact: Fact, sources: Source[]): string[] {
+  return getCitableSources(sources)
+    .filter((source) => fact.supportingSources.includes(source.url))
+    .map((source) => source.id!);
+}
+
+/**
+ * Key fact lines for a prompt: "- claim [^src-001]"
+ */
+export function formatKeyFactsForPrompt(facts: Fact[], sources: Source[]): string[] {
+  return facts.map((fact) => {
+    const markers = getFactSourceIds(fact, sources).map((id) => `[^${id}]`).join('');
+    return markers ? `${fact.claim} ${markers}` : fact.claim;
+  });
+}
+
+/**
+ * Source lines for a prompt: "- [^src-001] Label: url"
+ */
+export function formatSourcesForPrompt(sources: CitableSource[]): string[] {
+  return sources.map((s) => (s.id ? `- [^${s.id}] ${s.label}: ${s.url}` : `- ${s.label}: ${s.url}`));
+}
+
+/**
+ * Citation instructions for a prompt (empty when no source has an id)
+ */
+export function buildCitationRules(sources: CitableSource[]): string {
+  const ids = getCitableSources(sources).map((s) => `[^${s.id}]`);
+  if (ids.length === 0) {
+    return '';
+  }
+
+  return `CITATIONS (REQUIRED):
+- Every sentence that states a number (size, weight, depth, temperature, percentage, count, date range) or a rule must end with the marker of the source that supports it, e.g. "...up to 20 inches long[^${getCitableSources(sources)[0].id}]."
+- Key facts above already show their markers - keep the marker when you use the fact
+- Only use these markers: ${ids.join(', ')}
+- Never invent a marker; if no source supports a number, leave the number out`;
+}
+
+/**
+ * Drop markers for ids that are not in the doc's sources
+ */
+export function finalizeCitations(body: string, sources: Source[]): string {
+  const knownIds = new Set(getCitableSources(sources).map((s) => s.id!));
+  const unknownIds = extractCitationIds(body).filter((id) => !knownIds.has(id));
+
+  if (unknownIds.length === 0) {
+    return body;
+  }
+
+  logger.warn(`Removed ${unknownIds.length} citation marker(s) with unknown source ids: ${Array.from(new Set(unknownIds)).join(', ')}`);
+  return body.replace(CITATION_MARKER_PATTERN, (marker, id: string) => (knownIds.has(id) ? marker : ''));
+}
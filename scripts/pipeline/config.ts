@@ -2,6 +2,11 @@
  * Pipeline configuration
  */
 
+import path from 'path';
+import type { LLMProviderName } from './llm-providers';
+import type { FactCheckerName } from './fact-check';
+import type { BlogDraftVariant, JobErrorClass, JobStage, PageType } from './types';
+
 // Try to import state regulation links, use empty object if not available
 let STATE_REGULATION_LINKS: Record<string, string> = {};
 try {
@@ -19,6 +24,46 @@ export const DEFAULT_AUTHOR_NAME = 'Tackle Team';
 export const DEFAULT_AUTHOR_URL = '/about';
 export const FAILURE_STOP_THRESHOLD = 3; // Stop after N consecutive failures
 
+/**
+ * Job leases - a running job must heartbeat before its lease expires,
+ * otherwise another worker re-queues it (crashed/killed runs)
+ */
+export const JOB_LEASE_CONFIG = {
+  leaseMs: 5 * 60 * 1000,
+  heartbeatMs: 30 * 1000,
+};
+
+/**
+ * Job retries - failed attempts are rescheduled with exponential backoff until
+ * maxAttempts, then moved to 'dead-letter'. Non-retryable classes dead-letter immediately.
+ */
+export const JOB_RETRY_CONFIG: {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryable: Record<JobErrorClass, boolean>;
+} = {
+  baseDelayMs: 5 * 60 * 1000, // 5 min, 10 min, 20 min, ...
+  maxDelayMs: 6 * 60 * 60 * 1000,
+  retryable: {
+    transient: true,
+    'quality-gate': true,
+    validation: false,
+    permanent: false,
+    unknown: true,
+  },
+};
+
+/**
+ * Stage jobs per page type, in dependency order (each stage depends on the previous one).
+ * Blog pipelines without a chosen topic start at 'ideate'; every other pipeline starts at 'brief'.
+ */
+export const PIPELINE_STAGES: Record<PageType, JobStage[]> = {
+  blog: ['ideate', 'brief', 'generate', 'fact-check', 'gate', 'publish', 'revalidate'],
+  species: ['brief', 'generate', 'fact-check', 'gate', 'publish', 'revalidate'],
+  'how-to': ['brief', 'generate', 'fact-check', 'gate', 'publish', 'revalidate'],
+  location: ['brief', 'generate', 'fact-check', 'gate', 'publish', 'revalidate'],
+};
+
 /**
  * Minimum word counts by page type
  */
@@ -72,15 +117,140 @@ export const QUALITY_THRESHOLDS = {
 
 /**
  * LLM configuration
+ * Provider is selected via LLM_PROVIDER (openai | openai-compatible | fixture)
  */
 export const LLM_CONFIG = {
-  model: 'gpt-4o',
+  provider: (process.env.LLM_PROVIDER || 'openai') as LLMProviderName,
+  model: process.env.LLM_MODEL || 'gpt-4o',
+  baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1', // openai-compatible only
+  fixturesDir: process.env.LLM_FIXTURES_DIR || path.join(process.cwd(), 'content', '_system', 'llm-fixtures'),
   maxTokens: 4000,
   temperature: 0.7,
   maxRetries: 3,
   retryDelayMs: 1000,
 };
 
+/**
+ * Fact-check stage (fact-check.ts) - verdicts on numeric/regulatory claims, enforced by the quality gate
+ * Checker is selected via FACT_CHECKER (stub | perplexity)
+ */
+export const FACT_CHECK_CONFIG = {
+  checker: (process.env.FACT_CHECKER || 'stub') as FactCheckerName,
+  minConfidence: 0.6, // Verdicts below this are low confidence
+  lowConfidenceAction: (process.env.FACT_CHECK_LOW_CONFIDENCE || 'flag') as 'block' | 'flag',
+  maxClaims: 25, // Claims checked per doc (in body order)
+};
+
+/**
+ * Multi-draft blog generation (multi-draft.ts) - N drafts per brief, the best-scoring one is published
+ * Drafts cycle through the variants; runners-up are archived for editorial review
+ */
+export const MULTI_DRAFT_CONFIG: {
+  drafts: number;
+  maxDrafts: number;
+  variants: BlogDraftVariant[];
+  archiveDir: string;
+} = {
+  drafts: parseInt(process.env.BLOG_DRAFTS || '1', 10), // 1 = single draft, no scoring
+  maxDrafts: 5,
+  variants: [
+    { temperature: 0.6 }, // Brief's own angle
+    { temperature: 0.8, angle: 'technique-focused' },
+    { temperature: 0.9, angle: 'gear-focused' },
+    { temperature: 0.7, angle: 'beginner' },
+    { temperature: 1.0, angle: 'seasonal' },
+  ],
+  archiveDir: path.join(process.cwd(), 'content', '_system', 'draft-archive'),
+};
+
+/**
+ * Section-by-section generation (section-generator.ts) - one LLM call per outline section
+ * Lifts the LLM_CONFIG.maxTokens cap on body length; quality-gate-flagged sections are regenerated alone
+ */
+export const SECTION_GENERATION_CONFIG = {
+  enabled: process.env.SECTIONED_GENERATION === 'true',
+  minOutlineSections: 3, // Shorter outlines are generated in one call
+  minSectionWords: 150,
+  factsPerSection: 6, // Brief facts offered to a section whose outline item has none
+};
+
+/**
+ * Targeted repairs (repair.ts) - validation/quality gate errors mapped to section rewrites
+ * Each round repairs what it can, then validation and the gate run again
+ */
+export const REPAIR_CONFIG = {
+  maxRounds: parseInt(process.env.REPAIR_ROUNDS || '2', 10), // 0 = fail on the first blocked gate
+  maxSectionsPerRound: 3, // Word-count and AI-pattern repairs rewrite at most this many sections
+};
+
+/**
+ * Near-duplicate detection (near-duplicates.ts) - overlap = max(topic token Jaccard, body MinHash Jaccard)
+ * 0.6 flags "how to catch trout" vs "how to catch rainbow trout" but not "texas rig" vs "wacky rig"
+ */
+export const NEAR_DUPLICATE_CONFIG = {
+  threshold: parseFloat(process.env.NEAR_DUPLICATE_THRESHOLD || '0.6'),
+  shingleSize: 5, // Words per body shingle
+  signatureSize: 128, // MinHash values per body
+  ideaCheckPageTypes: ['blog', 'how-to'] as PageType[], // Species/location pages are expected to share topics with posts
+};
+
+/**
+ * Keyword ownership (keyword-registry.ts) - publishDoc blocks a doc whose primary keyword another doc
+ * already targets, or whose secondary keywords are near-identical to another doc's
+ */
+export const KEYWORD_OWNERSHIP_CONFIG = {
+  minSharedSecondary: 2, // Shared secondary keywords before the sets count as near-identical...
+  maxSharedSecondaryRatio: 0.5, // ...and the share of the smaller set they make up
+};
+
+/**
+ * Editorial workflow (lib/content/workflow.ts) - status publishDoc gives pipeline docs.
+ * 'in-review' holds them as drafts until a reviewer approves them in the admin.
+ */
+export const EDITORIAL_CONFIG = {
+  pipelineStatus: (process.env.PIPELINE_PUBLISH_STATUS === 'in-review' ? 'in-review' : 'published') as 'in-review' | 'published',
+  reviewer: process.env.EDITORIAL_REVIEWER || undefined, // Assigned to pipeline docs sent to review
+};
+
+/**
+ * Persistent API response cache (DataForSEO)
+ * TTLs are per endpoint family - volume/intent data moves slowly, SERPs change weekly
+ */
+export const API_CACHE_CONFIG = {
+  enabled: process.env.API_CACHE_DISABLED !== 'true',
+  ttlDays: {
+    volume: 30,
+    difficulty: 14,
+    intent: 30,
+    serp: 7,
+    default: 7,
+  },
+};
+
+/**
+ * API pricing used for per-run cost accounting (USD)
+ * See docs/BLOG-GENERATION-COST-ANALYSIS.md - update both when vendor pricing changes
+ */
+export const COST_CONFIG = {
+  openai: {
+    // Per 1M tokens
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  } as Record<string, { input: number; output: number }>,
+  perplexity: {
+    perRequest: 0.005,
+    perMillionTokens: 1,
+  },
+  dataforseo: {
+    // Per live task, by endpoint family (see api-cache.ts classifyEndpoint)
+    volume: 0.075,
+    difficulty: 0.01,
+    intent: 0.001,
+    serp: 0.002,
+    default: 0.01,
+  } as Record<string, number>,
+};
+
 /**
  * Rate limiting configuration
  */
@@ -89,6 +259,15 @@ export const RATE_LIMIT_CONFIG = {
   maxConcurrentFetches: 5,
 };
 
+/**
+ * Source resolution for queued jobs (see sourceResolver.ts)
+ */
+export const SOURCE_RESOLUTION_CONFIG = {
+  maxUrlsPerJob: 8, // Candidate URLs fetched per job
+  minFacts: 3, // Fail the job rather than generate from fewer grounded facts
+  maxFacts: 30,
+};
+
 /**
  * Cadence controls (imported from cadence-controls.ts)
  * These control how many posts are published and quality thresholds
@@ -0,0 +1,277 @@
+/**
+ * Cost Tracker - Per-run cost accounting and budget ceilings
+ *
+ * Every paid call (OpenAI, Perplexity, DataForSEO) records its estimated cost
+ * against the active run. When a run has a budget (--max-cost), calls are checked
+ * BEFORE they are made and a BudgetExceededError is thrown instead of overspending.
+ *
+ * Cache hits, cassette replays and local/fixture LLM providers cost nothing.
+ *
+ * ROLLING WINDOW: Ledger keeps the last 50 runs; aggregate totals are unbounded counters.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+import { COST_CONFIG } from './config';
+
+const COST_LEDGER_PATH = path.join(process.cwd(), 'content', '_system', 'cost-ledger.json');
+const MAX_RECENT_RUNS = 50;
+
+export type CostService = 'openai' | 'perplexity' | 'dataforseo';
+
+export interface ServiceCost {
+  calls: number;
+  costUsd: number;
+}
+
+export interface CostRun {
+  runId: string;
+  command: string;
+  startedAt: string; // ISO 8601
+  endedAt?: string; // ISO 8601
+  status: 'running' | 'completed' | 'aborted' | 'failed';
+  maxCostUsd?: number;
+  totalCostUsd: number;
+  byService: Partial<Record<CostService, ServiceCost>>;
+}
+
+export interface CostLedger {
+  version: string;
+  lastUpdated: string;
+  totals: {
+    runs: number;
+    calls: number;
+    costUsd: number;
+    byService: Partial<Record<CostService, ServiceCost>>;
+  };
+  recentRuns: CostRun[];
+}
+
+/**
+ * Thrown before a call that would push the run over its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string, public spentUsd: number, public maxCostUsd: number) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const DEFAULT_LEDGER: CostLedger = {
+  version: '1.0.0',
+  lastUpdated: new Date().toISOString(),
+  totals: { runs: 0, calls: 0, costUsd: 0, byService: {} },
+  recentRuns: [],
+};
+
+let activeRun: CostRun | null = null;
+let budgetExhausted = false;
+
+/**
+ * Load cost ledger from file
+ */
+export async function loadCostLedger(): Promise<CostLedger> {
+  try {
+    const data = await fs.readFile(COST_LEDGER_PATH, 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    return { ...DEFAULT_LEDGER, totals: { ...DEFAULT_LEDGER.totals, byService: {} }, recentRuns: [] };
+  }
+}
+
+/**
+ * Save cost ledger
+ * ATOMIC WRITE: temp file → rename
+ */
+async function saveCostLedger(ledger: CostLedger): Promise<void> {
+  await fs.mkdir(path.dirname(COST_LEDGER_PATH), { recursive: true });
+  const tempPath = `${COST_LEDGER_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(ledger, null, 2), 'utf-8');
+  await fs.rename(tempPath, COST_LEDGER_PATH);
+}
+
+// Serialize ledger writes within this process (paid calls run in parallel batches)
+let ledgerQueue: Promise<void> = Promise.resolve();
+
+function persistRun(run: CostRun, delta?: { service: CostService; costUsd: number }): Promise<void> {
+  const snapshot: CostRun = { ...run, byService: { ...run.byService } };
+  ledgerQueue = ledgerQueue
+    .then(async () => {
+      const ledger = await loadCostLedger();
+      const index = ledger.recentRuns.findIndex((r) => r.runId === snapshot.runId);
+      if (index === -1) {
+        ledger.recentRuns.unshift(snapshot);
+        ledger.totals.runs++;
+      } else {
+        ledger.recentRuns[index] = snapshot;
+      }
+      if (ledger.recentRuns.length > MAX_RECENT_RUNS) {
+        ledger.recentRuns = ledger.recentRuns.slice(0, MAX_RECENT_RUNS);
+      }
+      if (delta) {
+        const serviceTotals = ledger.totals.byService[delta.service] || { calls: 0, costUsd: 0 };
+        serviceTotals.calls++;
+        serviceTotals.costUsd += delta.costUsd;
+        ledger.totals.byService[delta.service] = serviceTotals;
+        ledger.totals.calls++;
+        ledger.totals.costUsd += delta.costUsd;
+      }
+      ledger.lastUpdated = new Date().toISOString();
+      await saveCostLedger(ledger);
+    })
+    .catch((error) => {
+      // Accounting is best-effort on disk - the in-memory budget check still applies
+      logger.warn('Failed to persist cost ledger:', error instanceof Error ? error.message : String(error));
+    });
+  return ledgerQueue;
+}
+
+/**
+ * Start a cost run (one per CLI command invocation)
+ */
+export function beginCostRun(options: { command: string; maxCostUsd?: number }): CostRun {
+  activeRun = {
+    runId: `run-${Date.now()}-${crypto.randomBytes(3).toString('hex')}`,
+    command: options.command,
+    startedAt: new Date().toISOString(),
+    status: 'running',
+    maxCostUsd: options.maxCostUsd,
+    totalCostUsd: 0,
+    byService: {},
+  };
+  budgetExhausted = false;
+
+  if (options.maxCostUsd !== undefined) {
+    logger.info(`Cost budget for ${options.command}: $${options.maxCostUsd.toFixed(2)} (run ${activeRun.runId})`);
+  }
+  return activeRun;
+}
+
+/**
+ * Finish the active run (only persisted if it spent anything)
+ */
+export async function finishCostRun(status: CostRun['status']): Promise<CostRun | null> {
+  const run = activeRun;
+  if (!run) {
+    return null;
+  }
+  run.status = status;
+  run.endedAt = new Date().toISOString();
+  if (Object.keys(run.byService).length > 0) {
+    await persistRun(run);
+  }
+  activeRun = null;
+  return run;
+}
+
+/**
+ * Get the active run (implicitly started for code paths outside the CLI)
+ */
+export function getActiveCostRun(): CostRun {
+  return activeRun || beginCostRun({ command: process.argv[2] || 'ad-hoc' });
+}
+
+/**
+ * True once any call has been refused for budget reasons in this run
+ */
+export function isBudgetExhausted(): boolean {
+  return budgetExhausted;
+}
+
+/**
+ * Throw if an earlier call was refused (use at stage boundaries so runs stop cleanly
+ * even when an intermediate step swallowed the BudgetExceededError)
+ */
+export function throwIfBudgetExhausted(): void {
+  const run = activeRun;
+  if (budgetExhausted && run && run.maxCostUsd !== undefined) {
+    throw new BudgetExceededError(
+      `Budget of $${run.maxCostUsd.toFixed(2)} exhausted ($${run.totalCostUsd.toFixed(4)} spent)`,
+      run.totalCostUsd,
+      run.maxCostUsd
+    );
+  }
+}
+
+/**
+ * Check that a call with the given estimated cost fits in the remaining budget
+ */
+export function assertWithinBudget(service: CostService, estimatedCostUsd: number): void {
+  const run = getActiveCostRun();
+  if (run.maxCostUsd === undefined) {
+    return;
+  }
+  if (run.totalCostUsd + estimatedCostUsd > run.maxCostUsd) {
+    budgetExhausted = true;
+    throw new BudgetExceededError(
+      `Budget exceeded: ${service} call (~$${estimatedCostUsd.toFixed(4)}) would bring run ${run.runId} to ` +
+      `$${(run.totalCostUsd + estimatedCostUsd).toFixed(4)} (max $${run.maxCostUsd.toFixed(2)})`,
+      run.totalCostUsd,
+      run.maxCostUsd
+    );
+  }
+}
+
+/**
+ * Record the cost of a completed call against the active run
+ */
+export async function recordCost(service: CostService, operation: string, costUsd: number): Promise<void> {
+  const run = getActiveCostRun();
+  const serviceCost = run.byService[service] || { calls: 0, costUsd: 0 };
+  serviceCost.calls++;
+  serviceCost.costUsd += costUsd;
+  run.byService[service] = serviceCost;
+  run.totalCostUsd += costUsd;
+
+  logger.debug(`Cost: ${service} ${operation} $${costUsd.toFixed(5)} (run total $${run.totalCostUsd.toFixed(4)})`);
+  await persistRun(run, { service, costUsd });
+}
+
+/**
+ * Estimate OpenAI cost from token counts (unknown models are priced as gpt-4o)
+ */
+export function estimateOpenAICost(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = COST_CONFIG.openai[model] || COST_CONFIG.openai['gpt-4o'];
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Estimate Perplexity cost (request fee + tokens)
+ */
+export function estimatePerplexityCost(totalTokens: number): number {
+  return COST_CONFIG.perplexity.perRequest + (totalTokens * COST_CONFIG.perplexity.perMillionTokens) / 1_000_000;
+}
+
+/**
+ * Estimate DataForSEO cost for one live task
+ */
+export function estimateDataForSEOCost(endpoint: string): number {
+  return COST_CONFIG.dataforseo[endpoint] ?? COST_CONFIG.dataforseo.default;
+}
+
+/**
+ * Print cost section (the metrics command prints it after printMetricsSummary)
+ */
+export function printCostSummary(ledger: CostLedger): void {
+  console.log('\n💰 API Cost:');
+  if (ledger.totals.calls === 0) {
+    console.log('   No paid API calls recorded yet.');
+    return;
+  }
+
+  console.log(`   Total: $${ledger.totals.costUsd.toFixed(4)} across ${ledger.totals.calls} calls (${ledger.totals.runs} runs)`);
+  (Object.entries(ledger.totals.byService) as Array<[CostService, ServiceCost]>).forEach(([service, cost]) => {
+    console.log(`   ${service}: $${cost.costUsd.toFixed(4)} (${cost.calls} calls)`);
+  });
+
+  if (ledger.recentRuns.length > 0) {
+    console.log('\n   Recent Runs (last 5):');
+    ledger.recentRuns.slice(0, 5).forEach((run) => {
+      const statusIcon = run.status === 'completed' ? '✅' : run.status === 'aborted' ? '🛑' : run.status === 'failed' ? '❌' : '⏳';
+      const budget = run.maxCostUsd !== undefined ? ` / max $${run.maxCostUsd.toFixed(2)}` : '';
+      console.log(`   ${statusIcon} ${run.command} - $${run.totalCostUsd.toFixed(4)}${budget} [${run.runId}]`);
+    });
+  }
+}
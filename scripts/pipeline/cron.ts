@@ -0,0 +1,142 @@
+/**
+ * Cron - Minimal 5-field cron expression parser (minute hour day-of-month month day-of-week)
+ *
+ * Supports: *, numbers, ranges (1-5), lists (1,15), steps (*\/15, 8-20/2) and
+ * @hourly / @daily / @weekly / @monthly. Day-of-week 0 and 7 are Sunday.
+ * Evaluated in the host's local time, like crontab.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day-of-month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day-of-week', min: 0, max: 7 },
+];
+
+// Upper bound on search steps (each step skips at least a minute, usually a day or month)
+const MAX_SEARCH_STEPS = 100000;
+
+function parseField(field: string, spec: { name: string; min: number; max: number }): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : parseInt(stepPart, 10);
+    if (isNaN(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} field: "${part}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      [start, end] = rangePart.split('-').map((n) => parseInt(n, 10));
+    } else {
+      start = parseInt(rangePart, 10);
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (isNaN(start) || isNaN(end) || start < spec.min || end > spec.max || start > end) {
+      throw new Error(`Invalid ${spec.name} field: "${part}" (allowed ${spec.min}-${spec.max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression (throws on invalid input)
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Vixie cron: a field starting with "*" (including "*/2") leaves the day unrestricted
+    domRestricted: !fields[2].startsWith('*'),
+    dowRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  // crontab semantics: if both are restricted, either may match
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time strictly after `after` that matches the schedule
+ */
+export function nextCronOccurrence(schedule: CronSchedule, after: Date = new Date()): Date {
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  for (let steps = 0; steps < MAX_SEARCH_STEPS; steps++) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
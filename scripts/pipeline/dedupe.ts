@@ -2,7 +2,7 @@
  * Deduplication - Prevents duplicate content
  */
 
-import { TopicIndexRecord } from './types';
+import { PageType, TopicIndexRecord } from './types';
 import { loadTopicIndex } from './topicIndex';
 import { logger } from './logger';
 import crypto from 'crypto';
@@ -96,18 +96,23 @@ export async function resolveSlugCollision(
   const existing = index.find(
     (r) => r.slug === desiredSlug && r.pageType === pageType && r.status === 'published'
   );
+
+  // Renamed / merged / pruned URLs keep redirecting - a new doc there would be unreachable
+  const { loadRedirects, docUrlPath } = await import('../../lib/content/redirects');
+  const redirected = new Set((await loadRedirects()).redirects.map((r) => r.from));
+  const isRedirected = (slug: string) => redirected.has(docUrlPath(pageType as PageType, slug));
   
-  if (!existing) {
+  if (!existing && !isRedirected(desiredSlug)) {
     return desiredSlug; // No collision
   }
   
   // Collision detected - append suffix
-  logger.warn(`Slug collision detected: ${desiredSlug}, appending suffix`);
+  logger.warn(`Slug collision detected: ${desiredSlug}${existing ? '' : ' (redirected URL)'}, appending suffix`);
   
   let counter = 2;
   let newSlug = `${desiredSlug}-${counter}`;
   
-  while (index.some((r) => r.slug === newSlug && r.status === 'published')) {
+  while (index.some((r) => r.slug === newSlug && r.status === 'published') || isRedirected(newSlug)) {
     counter++;
     newSlug = `${desiredSlug}-${counter}`;
   }
@@ -261,6 +261,11 @@ function calculateQualityScore(raw: RawDocument): number {
 export function extract(raw: RawDocument): RawDocument {
   logger.info(`Extracting from: ${raw.url}`);
   
+  // HTML fetches hand us markup as text - strip it so sentences are prose
+  if (raw.html && raw.text === raw.html) {
+    raw.text = htmlToText(raw.html);
+  }
+  
   // Extract title
   raw.title = extractTitle(raw);
   
@@ -314,6 +319,17 @@ function cleanText(text: string): string {
     .trim();
 }
 
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|nav|header|footer)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<\/(p|div|li|h[1-6]|tr|section|article)>/gi, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .split('\n')
+    .map((line) => cleanText(line))
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
 function slugify(text: string): string {
   return text
     .toLowerCase()
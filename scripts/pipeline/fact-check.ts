@@ -0,0 +1,185 @@
+/**
+ * Fact Check - Verifies numeric/regulatory claims in a generated doc before the quality gate
+ *
+ * CHECKERS:
+ * - stub: Local and deterministic, never touches the network. Trusts claims cited to one of
+ *   the doc's sources, marks everything else unverified (regulatory claims lowest).
+ * - perplexity: Asks Perplexity to fact-check each claim (factCheck in perplexity.ts)
+ *
+ * The report is stored on the doc (doc.factCheck) and enforced by runQualityGate:
+ * refuted claims block, low-confidence claims block or warn (FACT_CHECK_CONFIG.lowConfidenceAction).
+ */
+
+import { FactCheckReport, FactCheckVerdict, GeneratedDoc, Source } from './types';
+import { FACT_CHECK_CONFIG } from './config';
+import { logger } from './logger';
+import {
+  splitIntoSentences,
+  isCitableClaim,
+  extractCitationIds,
+  stripCitationMarkers,
+} from '../../lib/content/citations';
+
+export type FactCheckerName = 'stub' | 'perplexity';
+
+export interface VerifiableClaim {
+  text: string;
+  category: FactCheckVerdict['category'];
+  citedSourceIds: string[];
+}
+
+export interface FactChecker {
+  name: FactCheckerName;
+  check(
+    claim: VerifiableClaim,
+    context: { sources: Source[] }
+  ): Promise<Pick<FactCheckVerdict, 'verdict' | 'confidence' | 'explanation' | 'evidence'>>;
+}
+
+const CLAIM_CATEGORY_PATTERNS: Array<{ category: FactCheckVerdict['category']; pattern: RegExp }> = [
+  { category: 'limit', pattern: /\b(?:bag|size|slot|possession|creel|daily|catch)\s+limits?\b|\bper\s+(?:day|person|angler)\b|\blicen[cs]e|\bpermit/i },
+  { category: 'season', pattern: /\bseasons?\b|\b(?:january|february|march|april|may|june|july|august|september|october|november|december)\b/i },
+  { category: 'temperature', pattern: /°|\bdegrees?\b|\bwater temp/i },
+  { category: 'size', pattern: /\b\d+(?:[.,]\d+)?\s*(?:inch(?:es)?|feet|foot|ft\b|pounds?|lbs?\b|ounces?|oz\b|kg\b|grams?|cm\b|mm\b)/i },
+];
+
+/**
+ * Categorize a claim (first matching pattern wins - limits before sizes)
+ */
+function categorizeClaim(text: string): FactCheckVerdict['category'] {
+  return CLAIM_CATEGORY_PATTERNS.find(({ pattern }) => pattern.test(text))?.category || 'other';
+}
+
+/**
+ * Pull verifiable claims (sizes, limits, seasons, water temps, other numbers) from a body
+ */
+export function extractVerifiableClaims(body: string, maxClaims: number = FACT_CHECK_CONFIG.maxClaims): VerifiableClaim[] {
+  const seen = new Set<string>();
+  const claims: VerifiableClaim[] = [];
+
+  for (const sentence of splitIntoSentences(body)) {
+    if (!isCitableClaim(sentence)) {
+      continue;
+    }
+    const text = stripCitationMarkers(sentence).trim();
+    if (seen.has(text)) {
+      continue;
+    }
+    seen.add(text);
+    claims.push({
+      text,
+      category: categorizeClaim(text),
+      citedSourceIds: Array.from(new Set(extractCitationIds(sentence))),
+    });
+  }
+
+  if (claims.length > maxClaims) {
+    logger.warn(`Fact check: ${claims.length} claims found, checking the first ${maxClaims}`);
+  }
+  return claims.slice(0, maxClaims);
+}
+
+/**
+ * Stub checker - deterministic, offline
+ */
+export function createStubChecker(): FactChecker {
+  return {
+    name: 'stub',
+    async check(claim, { sources }) {
+      const cited = sources.filter((s) => s.id && claim.citedSourceIds.includes(s.id));
+      if (cited.length > 0) {
+        return {
+          verdict: 'supported',
+          confidence: 0.75,
+          explanation: `Cited to ${cited.map((s) => s.label).join(', ')} (not independently verified)`,
+          evidence: cited.map((s) => s.url),
+        };
+      }
+
+      const regulatory = claim.category === 'limit' || claim.category === 'season';
+      return {
+        verdict: 'unverified',
+        confidence: regulatory ? 0.2 : 0.4,
+        explanation: 'No supporting source cited',
+        evidence: [],
+      };
+    },
+  };
+}
+
+/**
+ * Perplexity checker - one research call per claim
+ */
+export function createPerplexityChecker(): FactChecker {
+  return {
+    name: 'perplexity',
+    async check(claim) {
+      const { factCheck } = await import('./perplexity');
+      const result = await factCheck(claim.text);
+      return {
+        // factCheck reports "not verified" with 0.8 confidence only when the answer says false
+        verdict: result.verified ? 'supported' : result.confidence >= 0.8 ? 'refuted' : 'unverified',
+        confidence: result.confidence,
+        explanation: result.explanation.substring(0, 500),
+        evidence: result.sources,
+      };
+    },
+  };
+}
+
+/**
+ * Resolve checker from FACT_CHECK_CONFIG.checker
+ */
+export function getFactChecker(name: FactCheckerName = FACT_CHECK_CONFIG.checker): FactChecker {
+  switch (name) {
+    case 'stub':
+      return createStubChecker();
+    case 'perplexity':
+      return createPerplexityChecker();
+    default:
+      throw new Error(`Unknown fact checker: ${name}`);
+  }
+}
+
+/**
+ * Fact-check a doc's verifiable claims (sequential - checkers may be rate limited)
+ */
+export async function runFactCheck(doc: GeneratedDoc, checker: FactChecker = getFactChecker()): Promise<FactCheckReport> {
+  const claims = extractVerifiableClaims(doc.body);
+  logger.info(`Fact-checking ${claims.length} claim(s) in ${doc.pageType}:${doc.slug} (${checker.name})`);
+
+  const verdicts: FactCheckVerdict[] = [];
+  for (const claim of claims) {
+    const result = await checker.check(claim, { sources: doc.sources });
+    verdicts.push({
+      claim: claim.text,
+      category: claim.category,
+      citedSourceIds: claim.citedSourceIds,
+      ...result,
+    });
+  }
+
+  const refuted = verdicts.filter((v) => v.verdict === 'refuted').length;
+  const lowConfidence = verdicts.filter((v) => isLowConfidence(v)).length;
+  logger.info(`Fact check: ${verdicts.length} checked, ${refuted} refuted, ${lowConfidence} low confidence`);
+
+  return {
+    checker: checker.name,
+    checkedAt: new Date().toISOString(),
+    verdicts,
+  };
+}
+
+/**
+ * Verdict the quality gate cannot trust (unverified, or any verdict below minConfidence)
+ */
+export function isLowConfidence(verdict: FactCheckVerdict, minConfidence: number = FACT_CHECK_CONFIG.minConfidence): boolean {
+  return verdict.verdict === 'unverified' || verdict.confidence < minConfidence;
+}
+
+/**
+ * Refuted with enough confidence to block publishing
+ */
+export function isRefuted(verdict: FactCheckVerdict, minConfidence: number = FACT_CHECK_CONFIG.minConfidence): boolean {
+  return verdict.verdict === 'refuted' && verdict.confidence >= minConfidence;
+}
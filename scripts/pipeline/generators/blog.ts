@@ -3,8 +3,9 @@
  * Updated to use 12-section retention-focused template
  */
 
-import { BlogPostDoc, ContentBrief, CTA } from '../types';
+import { BlogPostDoc, BlogDraftVariant, ContentBrief, CTA } from '../types';
 import { generateWithLLM } from '../llm';
+import { generateSectionedBody, shouldGenerateBySection } from '../section-generator';
 import { DEFAULT_AUTHOR_NAME, DEFAULT_AUTHOR_URL } from '../config';
 import { logger } from '../logger';
 import { generateVibeTest } from '../vibe-test';
@@ -14,16 +15,27 @@ import {
   addImagesToPost,
   validateRetentionStructure,
 } from '../blog-retention-template';
+import { formatKeyFactsForPrompt, formatSourcesForPrompt, buildCitationRules, finalizeCitations, stripCitationMarkers } from '../citations';
 import crypto from 'crypto';
 
+const ANGLE_GUIDANCE: Record<ContentBrief['angle'], string> = {
+  beginner: 'Write for someone on their first few trips - explain every term and keep gear simple',
+  advanced: 'Write for experienced anglers - skip basics, go deep on subtle adjustments',
+  seasonal: 'Organize advice around how fish and tactics change through the seasons',
+  'gear-focused': 'Go deep on exact rods, reels, line, terminal tackle and lure choices',
+  'location-focused': 'Anchor every tip in specific kinds of water and spots the reader can find',
+  'technique-focused': 'Lead with presentation and retrieve details, step by step',
+};
+
 /**
  * Generate blog post document
+ * A variant (multi-draft.ts) sets the temperature and an optional angle for this draft
  */
-export async function generateBlogPost(brief: ContentBrief): Promise<BlogPostDoc> {
+export async function generateBlogPost(brief: ContentBrief, variant?: BlogDraftVariant): Promise<BlogPostDoc> {
   logger.info(`Generating blog post with 12-section retention structure: ${brief.slug}`);
 
   // Use retention-focused prompt instead of old buildPrompt()
-  const prompt = generateRetentionPrompt({
+  const retentionPrompt = generateRetentionPrompt({
     title: brief.title,
     primaryKeyword: brief.primaryKeyword,
     secondaryKeywords: brief.secondaryKeywords,
@@ -35,15 +47,23 @@ export async function generateBlogPost(brief: ContentBrief): Promise<BlogPostDoc
       ...(brief.internalLinksToInclude.locationSlugs || []).map((l) => `- Location: /locations/${l}`),
       ...(brief.internalLinksToInclude.postSlugs || []).map((p) => `- Blog: /blog/${p}`),
     ],
-    keyFacts: brief.keyFacts.slice(0, 10).map((f) => f.claim),
+    keyFacts: formatKeyFactsForPrompt(brief.keyFacts.slice(0, 10), brief.sources),
     sources: brief.sources,
     minWordCount: Math.max(brief.minWordCount, 1500),
   });
+  const angleGuidance = variant ? ANGLE_GUIDANCE[variant.angle || brief.angle] : undefined;
+  const prompt = angleGuidance
+    ? `${retentionPrompt}\n\nANGLE FOR THIS DRAFT (keep the required structure): ${angleGuidance}`
+    : retentionPrompt;
 
   // Generate content using LLM with retention-focused system prompt
-  const generated = await generateWithLLM({
-    prompt,
-    systemPrompt: `You are an expert fishing content writer specializing in high-retention blog posts.
+  // (long-form: one call per retention section - see section-generator.ts)
+  const generated = shouldGenerateBySection(brief)
+    ? await generateSectionedBody(brief, { temperature: variant?.temperature, angleGuidance })
+    : await generateWithLLM({
+        prompt,
+        temperature: variant?.temperature,
+        systemPrompt: `You are an expert fishing content writer specializing in high-retention blog posts.
 
 CRITICAL STRUCTURE (NON-NEGOTIABLE):
 - Follow the exact 12-section retention structure provided in the prompt
@@ -78,10 +98,10 @@ ALWAYS INCLUDE:
 ✓ Focus on techniques, gear, and strategies (NOT regulations)
 
 Write in a conversational, helpful tone with specific actionable advice.`,
-  });
+      });
 
   // Parse generated content
-  let body = typeof generated === 'string' ? generated : generated.body || '';
+  let body = finalizeCitations(typeof generated === 'string' ? generated : generated.body || '', brief.sources);
 
   // Add real image URLs to replace placeholders
   body = addImagesToPost(body, brief.speciesFocus, brief.locationFocus);
@@ -161,7 +181,7 @@ Write in a conversational, helpful tone with specific actionable advice.`,
     pageType: 'blog',
     slug: brief.slug,
     title: brief.title,
-    description: generateDescription(brief, body),
+    description: generateDescription(brief, stripCitationMarkers(body)),
     body, // Body should NOT contain CTA text - CTAs are structured
     headings,
     primaryKeyword: brief.primaryKeyword,
@@ -183,6 +203,7 @@ Write in a conversational, helpful tone with specific actionable advice.`,
       draft: false,
       noindex: false,
     },
+    angle: variant?.angle || brief.angle,
     ctas, // Structured CTAs - validated by quality gate
     vibeTest,
     alternativeRecommendations,
@@ -294,9 +315,8 @@ function buildPrompt(brief: ContentBrief): string {
     ...(brief.internalLinksToInclude.postSlugs || []).map((p) => `- Blog: /blog/${p}`),
   ].join('\n');
 
-  const keyFacts = brief.keyFacts
-    .slice(0, 10)
-    .map((f) => `- ${f.claim}`)
+  const keyFacts = formatKeyFactsForPrompt(brief.keyFacts.slice(0, 10), brief.sources)
+    .map((f) => `- ${f}`)
     .join('\n');
 
   const minWords = Math.max(brief.minWordCount, 1000);
@@ -332,8 +352,10 @@ ${keyFacts}
 INTERNAL LINKS TO INCLUDE (USE ALL OF THESE - link naturally in relevant sections):
 ${internalLinks}
 
-SOURCES CONSULTED (cite at end, don't copy):
-${brief.sources.map((s) => `- ${s.label}: ${s.url}`).join('\n')}
+SOURCES CONSULTED (cite inline with their markers, don't copy):
+${formatSourcesForPrompt(brief.sources).join('\n')}
+
+${buildCitationRules(brief.sources)}
 
 DISCLAIMERS TO INCLUDE:
 ${brief.disclaimers.join('\n')}
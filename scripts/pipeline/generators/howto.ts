@@ -4,9 +4,12 @@
 
 import { HowToDoc, ContentBrief } from '../types';
 import { generateWithLLM } from '../llm';
+import { generateSectionedBody, shouldGenerateBySection } from '../section-generator';
 import { DEFAULT_AUTHOR_NAME, DEFAULT_AUTHOR_URL } from '../config';
 import { logger } from '../logger';
 import { generateVibeTest } from '../vibe-test';
+import { formatKeyFactsForPrompt, formatSourcesForPrompt, buildCitationRules, finalizeCitations, stripCitationMarkers } from '../citations';
+import { extractHowToMeta } from '../../../lib/content/howto-meta';
 import crypto from 'crypto';
 
 /**
@@ -17,21 +20,29 @@ export async function generateHowTo(brief: ContentBrief): Promise<HowToDoc> {
   
   const prompt = buildPrompt(brief);
   
-  // Generate content using LLM
-  const generated = await generateWithLLM({
-    prompt,
-    systemPrompt: `You are a fishing content writer. Generate original, SEO-optimized how-to guides.
+  // Generate content using LLM (long-form: one call per outline section)
+  const generated = shouldGenerateBySection(brief)
+    ? await generateSectionedBody(brief)
+    : await generateWithLLM({
+        prompt,
+        systemPrompt: `You are a fishing content writer. Generate original, SEO-optimized how-to guides.
 Never copy text verbatim from sources. Write step-by-step instructions clearly.
 Include all required sections, FAQs, and internal links naturally in the content.`,
-  });
+      });
   
   // Parse generated content
-  const body = typeof generated === 'string' ? generated : generated.body || '';
+  const body = finalizeCitations(typeof generated === 'string' ? generated : generated.body || '', brief.sources);
   const faqs = generated.faqs || [];
   const headings = extractHeadings(body);
   
   // Determine category from slug
   const category = determineCategory(brief.slug);
+
+  // Steps, tools, supplies and total time for HowTo structured data
+  const howToMeta = extractHowToMeta(body);
+  if (!howToMeta.steps || howToMeta.steps.length === 0) {
+    logger.warn(`No steps found in how-to body for ${brief.slug} - HowTo schema will be omitted`);
+  }
   
   // Generate Vibe Test (Effectiveness Score for techniques)
   let vibeTest;
@@ -53,12 +64,13 @@ Include all required sections, FAQs, and internal links naturally in the content
     pageType: 'how-to',
     slug: brief.slug,
     title: brief.title,
-    description: generateDescription(brief, body),
+    description: generateDescription(brief, stripCitationMarkers(body)),
     body,
     headings,
     primaryKeyword: brief.primaryKeyword,
     secondaryKeywords: brief.secondaryKeywords,
     category,
+    howToMeta,
     faqs: faqs.length >= 5 ? faqs.slice(0, 8) : generateDefaultFaqs(brief),
     sources: brief.sources,
     related: brief.internalLinksToInclude,
@@ -74,6 +86,7 @@ Include all required sections, FAQs, and internal links naturally in the content
       draft: false,
       noindex: false,
     },
+    angle: brief.angle,
     vibeTest,
   };
   
@@ -144,9 +157,8 @@ function buildPrompt(brief: ContentBrief): string {
     ...(brief.internalLinksToInclude.howToSlugs || []).map((h) => `- Related guide: /how-to/${h}`),
   ].join('\n');
   
-  const keyFacts = brief.keyFacts
-    .slice(0, 15)
-    .map((f) => `- ${f.claim}`)
+  const keyFacts = formatKeyFactsForPrompt(brief.keyFacts.slice(0, 15), brief.sources)
+    .map((f) => `- ${f}`)
     .join('\n');
   
   return `Write an SEO-optimized how-to guide with the following requirements:
@@ -158,14 +170,16 @@ SECONDARY KEYWORDS: ${brief.secondaryKeywords.join(', ')}
 REQUIREMENTS:
 1. Write original, step-by-step guide (minimum ${brief.minWordCount} words)
 2. Use beginner-friendly language
-3. Include numbered steps if applicable
-4. Include "Tips & Tricks" section
-5. Include "Common Mistakes" section
-6. Include "Best Conditions" section
-7. Never copy text verbatim from sources
-8. Include 5-8 FAQs at the end
-9. Include a "What to do next" CTA pointing to /download
-10. Include a "See local regulations" outbound link block (no legal advice)
+3. Include a "Step-by-Step Guide" section with one "### Step N: <short name>" heading per step
+4. Include a "What You'll Need" section with "### Tools" and "### Supplies" bullet lists
+5. If the task takes a predictable amount of time, add a "**Total time:** <duration>" line after the intro
+6. Include "Tips & Tricks" section
+7. Include "Common Mistakes" section
+8. Include "Best Conditions" section
+9. Never copy text verbatim from sources
+10. Include 5-8 FAQs at the end
+11. Include a "What to do next" CTA pointing to /download
+12. Include a "See local regulations" outbound link block (no legal advice)
 
 OUTLINE (must include all sections):
 ${brief.outline.map((o) => `- ${o.title}: ${o.description}`).join('\n')}
@@ -176,8 +190,10 @@ ${keyFacts}
 INTERNAL LINKS TO INCLUDE (link naturally in content):
 ${internalLinks}
 
-SOURCES CONSULTED (cite at end, don't copy):
-${brief.sources.map((s) => `- ${s.label}: ${s.url}`).join('\n')}
+SOURCES CONSULTED (cite inline with their markers, don't copy):
+${formatSourcesForPrompt(brief.sources).join('\n')}
+
+${buildCitationRules(brief.sources)}
 
 DISCLAIMERS TO INCLUDE:
 ${brief.disclaimers.join('\n')}
@@ -185,7 +201,7 @@ ${brief.disclaimers.join('\n')}
 OUTPUT FORMAT:
 - Markdown format
 - Use H2 for main sections
-- Include numbered steps if applicable
+- Steps as "### Step N: <short name>" headings, each followed by a short paragraph
 - Include internal links naturally
 - End with FAQs section (5-8 questions)
 - End with "What to do next" CTA linking to /download
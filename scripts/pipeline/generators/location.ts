@@ -6,7 +6,9 @@ import { LocationDoc, ContentBrief } from '../types';
 import { DEFAULT_AUTHOR_NAME, DEFAULT_AUTHOR_URL } from '../config';
 import { logger } from '../logger';
 import { generateWithLLM } from '../llm';
+import { generateSectionedBody, shouldGenerateBySection } from '../section-generator';
 import { generateVibeTest } from '../vibe-test';
+import { formatKeyFactsForPrompt, formatSourcesForPrompt, buildCitationRules, finalizeCitations, stripCitationMarkers } from '../citations';
 import crypto from 'crypto';
 
 /**
@@ -20,16 +22,18 @@ export async function generateLocation(brief: ContentBrief): Promise<LocationDoc
   
   const prompt = buildPrompt(brief, stateSlug, citySlug);
   
-  // Generate content using LLM
-  const generated = await generateWithLLM({
-    prompt,
-    systemPrompt: `You are a fishing content writer. Generate original, SEO-optimized location guides.
+  // Generate content using LLM (long-form: one call per outline section)
+  const generated = shouldGenerateBySection(brief)
+    ? await generateSectionedBody(brief)
+    : await generateWithLLM({
+        prompt,
+        systemPrompt: `You are a fishing content writer. Generate original, SEO-optimized location guides.
 Never copy text verbatim from sources. Write helpful, location-specific information.
 Include all required sections, FAQs, and internal links naturally in the content.`,
-  });
+      });
   
   // Parse generated content
-  const body = typeof generated === 'string' ? generated : generated.body || '';
+  const body = finalizeCitations(typeof generated === 'string' ? generated : generated.body || '', brief.sources);
   const faqs = generated.faqs || [];
   const headings = extractHeadings(body);
   
@@ -57,7 +61,7 @@ Include all required sections, FAQs, and internal links naturally in the content
     stateSlug,
     citySlug,
     title: brief.title,
-    description: generateDescription(brief, body),
+    description: generateDescription(brief, stripCitationMarkers(body)),
     body,
     headings,
     primaryKeyword: brief.primaryKeyword,
@@ -78,6 +82,7 @@ Include all required sections, FAQs, and internal links naturally in the content
       draft: false,
       noindex: false,
     },
+    angle: brief.angle,
     vibeTest,
   };
   
@@ -110,9 +115,8 @@ function buildPrompt(brief: ContentBrief, stateSlug: string, citySlug: string):
     ...(brief.internalLinksToInclude.postSlugs || []).map((p) => `- Blog: /blog/${p}`),
   ].join('\n');
   
-  const keyFacts = brief.keyFacts
-    .slice(0, 15)
-    .map((f) => `- ${f.claim}`)
+  const keyFacts = formatKeyFactsForPrompt(brief.keyFacts.slice(0, 15), brief.sources)
+    .map((f) => `- ${f}`)
     .join('\n');
   
   return `Write an SEO-optimized fishing location guide for ${citySlug}, ${stateSlug} with the following requirements:
@@ -142,8 +146,10 @@ ${keyFacts}
 INTERNAL LINKS TO INCLUDE (link naturally in content):
 ${internalLinks}
 
-SOURCES CONSULTED (cite at end, don't copy):
-${brief.sources.map((s) => `- ${s.label}: ${s.url}`).join('\n')}
+SOURCES CONSULTED (cite inline with their markers, don't copy):
+${formatSourcesForPrompt(brief.sources).join('\n')}
+
+${buildCitationRules(brief.sources)}
 
 DISCLAIMERS TO INCLUDE:
 ${brief.disclaimers.join('\n')}
@@ -179,7 +185,11 @@ function extractGeoInfo(stateSlug: string, citySlug: string): LocationDoc['geo']
     'new-york': { name: 'New York', code: 'NY' },
   };
   
-  const stateInfo = stateMap[stateSlug] || { name: stateSlug, code: stateSlug.toUpperCase().substring(0, 2) };
+  // Accept full names ("florida") and the two-letter slugs the site routes use ("fl")
+  const stateInfo =
+    stateMap[stateSlug] ||
+    Object.values(stateMap).find((info) => info.code.toLowerCase() === stateSlug) ||
+    { name: stateSlug, code: stateSlug.toUpperCase().substring(0, 2) };
   const cityName = citySlug.split('-').map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
   
   return {
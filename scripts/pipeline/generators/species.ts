@@ -4,10 +4,12 @@
 
 import { SpeciesDoc, ContentBrief } from '../types';
 import { generateWithLLM } from '../llm';
+import { generateSectionedBody, shouldGenerateBySection } from '../section-generator';
 import { DEFAULT_AUTHOR_NAME, DEFAULT_AUTHOR_URL } from '../config';
 import { logger } from '../logger';
 import { generateVibeTest } from '../vibe-test';
 import { generateAlternativeRecommendations } from '../alternative-recommendations';
+import { formatKeyFactsForPrompt, formatSourcesForPrompt, buildCitationRules, finalizeCitations, stripCitationMarkers } from '../citations';
 import crypto from 'crypto';
 
 /**
@@ -18,16 +20,18 @@ export async function generateSpecies(brief: ContentBrief): Promise<SpeciesDoc>
   
   const prompt = buildPrompt(brief);
   
-  // Generate content using LLM
-  const generated = await generateWithLLM({
-    prompt,
-    systemPrompt: `You are a fishing content writer. Generate original, SEO-optimized species guides.
+  // Generate content using LLM (long-form: one call per outline section)
+  const generated = shouldGenerateBySection(brief)
+    ? await generateSectionedBody(brief)
+    : await generateWithLLM({
+        prompt,
+        systemPrompt: `You are a fishing content writer. Generate original, SEO-optimized species guides.
 Never copy text verbatim from sources. Write beginner-friendly explanations.
 Include all required sections, FAQs, and internal links naturally in the content.`,
-  });
+      });
   
   // Parse generated content
-  const body = typeof generated === 'string' ? generated : generated.body || '';
+  const body = finalizeCitations(typeof generated === 'string' ? generated : generated.body || '', brief.sources);
   const faqs = generated.faqs || [];
   const headings = extractHeadings(body);
   
@@ -69,7 +73,7 @@ Include all required sections, FAQs, and internal links naturally in the content
     pageType: 'species',
     slug: brief.slug,
     title: brief.title,
-    description: generateDescription(brief, body),
+    description: generateDescription(brief, stripCitationMarkers(body)),
     body,
     headings,
     primaryKeyword: brief.primaryKeyword,
@@ -90,6 +94,7 @@ Include all required sections, FAQs, and internal links naturally in the content
       draft: false,
       noindex: false,
     },
+    angle: brief.angle,
     vibeTest,
     alternativeRecommendations,
   };
@@ -124,9 +129,8 @@ function buildPrompt(brief: ContentBrief): string {
     ...(brief.internalLinksToInclude.postSlugs || []).map((p) => `- Blog: /blog/${p}`),
   ].join('\n');
   
-  const keyFacts = brief.keyFacts
-    .slice(0, 15)
-    .map((f) => `- ${f.claim}`)
+  const keyFacts = formatKeyFactsForPrompt(brief.keyFacts.slice(0, 15), brief.sources)
+    .map((f) => `- ${f}`)
     .join('\n');
   
   return `Write an SEO-optimized species fishing guide with the following requirements:
@@ -153,8 +157,10 @@ ${keyFacts}
 INTERNAL LINKS TO INCLUDE (link naturally in content):
 ${internalLinks}
 
-SOURCES CONSULTED (cite at end, don't copy):
-${brief.sources.map((s) => `- ${s.label}: ${s.url}`).join('\n')}
+SOURCES CONSULTED (cite inline with their markers, don't copy):
+${formatSourcesForPrompt(brief.sources).join('\n')}
+
+${buildCitationRules(brief.sources)}
 
 DISCLAIMERS TO INCLUDE:
 ${brief.disclaimers.join('\n')}
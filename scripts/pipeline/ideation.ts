@@ -20,6 +20,9 @@
  */
 
 import { logger } from './logger';
+import { isReplaying } from './cassette';
+import { cachedFetch, uncachedFetch } from './api-cache';
+import { BudgetExceededError } from './cost-tracker';
 
 const DATAFORSEO_API_URL = 'https://api.dataforseo.com';
 const DATAFORSEO_LOGIN = process.env.DATAFORSEO_LOGIN || process.env.DATAFORSEO_EMAIL;
@@ -70,7 +73,7 @@ export async function generateBlogIdeas(options: {
 }): Promise<BlogIdea[]> {
   logger.info(`Generating blog ideas for category: ${options.category}`);
   
-  if (!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) {
+  if ((!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) && !isReplaying()) {
     throw new Error('DataForSEO credentials not found. Set DATAFORSEO_LOGIN and DATAFORSEO_PASSWORD environment variables.');
   }
   
@@ -410,7 +413,7 @@ export async function fetchKeywordSuggestions(
     for (const endpoint of endpoints) {
       try {
         logger.info(`Trying endpoint: ${endpoint.path}${endpoint.expectsDifficulty ? ' (expects keyword_difficulty)' : ''}`);
-        const response = await fetch(`${DATAFORSEO_API_URL}${endpoint.path}`, {
+        const response = await cachedFetch('dataforseo', `${DATAFORSEO_API_URL}${endpoint.path}`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -619,7 +622,7 @@ async function fetchBulkKeywordDifficulty(
   locationCode: number,
   languageCode: string
 ): Promise<Map<string, number>> {
-  if (!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) {
+  if ((!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) && !isReplaying()) {
     logger.warn('DataForSEO credentials not available for Bulk Keyword Difficulty API');
     return new Map();
   }
@@ -633,7 +636,7 @@ async function fetchBulkKeywordDifficulty(
     // Use Bulk Keyword Difficulty endpoint from DataForSEO Labs API
     // This endpoint is specifically designed to return keyword_difficulty (0-100)
     // According to docs, it's available at: /v3/dataforseo_labs/google/bulk_keyword_difficulty/live
-    const response = await fetch(`${DATAFORSEO_API_URL}/v3/dataforseo_labs/google/bulk_keyword_difficulty/live`, {
+    const response = await cachedFetch('dataforseo', `${DATAFORSEO_API_URL}/v3/dataforseo_labs/google/bulk_keyword_difficulty/live`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -797,7 +800,7 @@ async function fetchKeywordsFromSERP(
     try {
       logger.info(`Fetching SERP for: ${seedKeyword}`);
       
-      const response = await fetch(`${DATAFORSEO_API_URL}/v3/serp/google/organic/live/advanced`, {
+      const response = await cachedFetch('dataforseo', `${DATAFORSEO_API_URL}/v3/serp/google/organic/live/advanced`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -936,7 +939,7 @@ export async function filterByIntent(
   try {
     const keywordList = keywords.slice(0, 100).map(k => k.keyword);
 
-    const response = await fetch(`${DATAFORSEO_API_URL}/v3/dataforseo_labs/google/search_intent/live/advanced`, {
+    const response = await cachedFetch('dataforseo', `${DATAFORSEO_API_URL}/v3/dataforseo_labs/google/search_intent/live/advanced`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -1281,7 +1284,7 @@ export async function testDataForSEOConnection(): Promise<boolean> {
       logger.info(`\nTrying: ${endpoint.name}`);
       logger.info(`Endpoint: ${endpoint.path}`);
       
-      const response = await fetch(`${DATAFORSEO_API_URL}${endpoint.path}`, {
+      const response = await uncachedFetch('dataforseo', `${DATAFORSEO_API_URL}${endpoint.path}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -1318,6 +1321,10 @@ export async function testDataForSEOConnection(): Promise<boolean> {
       lastError = new Error(`Unexpected response from ${endpoint.name}`);
       
     } catch (err) {
+      // Out of budget is not an endpoint failure - trying the next endpoint would only spend more
+      if (err instanceof BudgetExceededError) {
+        throw err;
+      }
       logger.warn(`  ❌ Error: ${err instanceof Error ? err.message : String(err)}`);
       lastError = err instanceof Error ? err : new Error(String(err));
       continue;
@@ -11,11 +11,20 @@ const CONTENT_INDEX_PATH = path.join(process.cwd(), 'content', '_system', 'conte
 
 /**
  * Load site content index
+ * Blog posts that are not live (drafts, in review, scheduled for later) are left out so
+ * generated docs never link to them, unless includeUnlisted is set.
  */
-export async function loadSiteIndex(): Promise<SiteIndex> {
+export async function loadSiteIndex(options: { includeUnlisted?: boolean } = {}): Promise<SiteIndex> {
   try {
     const data = await fs.readFile(CONTENT_INDEX_PATH, 'utf-8');
-    return JSON.parse(data);
+    const index = JSON.parse(data);
+    if (!options.includeUnlisted && Array.isArray(index.blogPosts)) {
+      const now = Date.now();
+      index.blogPosts = index.blogPosts.filter((p: any) =>
+        !p.flags?.draft && !p.flags?.noindex && !(p.scheduledFor && new Date(p.scheduledFor).getTime() > now)
+      );
+    }
+    return index;
   } catch (error) {
     logger.warn('Content index not found, using empty index');
     return {
@@ -235,7 +244,7 @@ export async function updateContentIndex(doc: {
 }): Promise<void> {
   logger.warn('updateContentIndex is deprecated - publisher.ts now handles atomic index updates');
   
-  const index = await loadSiteIndex();
+  const index = await loadSiteIndex({ includeUnlisted: true });
   
   // Check for duplicates before adding
   switch (doc.pageType) {
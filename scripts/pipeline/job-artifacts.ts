@@ -0,0 +1,114 @@
+/**
+ * Job Artifacts - Persisted output of each pipeline stage
+ *
+ * Layout: content/_system/artifacts/<pipelineId>/<stage>.json
+ * A stage reads its upstream artifact and writes its own, so a retried stage
+ * resumes from the last good output (e.g. a failed publish re-uses the gated doc
+ * instead of calling the LLM again).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { JobStage, TopicKey } from './types';
+import { logger } from './logger';
+
+const ARTIFACTS_DIR = path.join(process.cwd(), 'content', '_system', 'artifacts');
+
+export interface StageArtifact<T = unknown> {
+  pipelineId: string;
+  stage: JobStage;
+  jobId: string;
+  topicKey: TopicKey;
+  createdAt: string; // ISO 8601
+  data: T;
+}
+
+export class ArtifactMissingError extends Error {
+  constructor(message: string, public pipelineId: string, public stage: JobStage) {
+    super(message);
+    this.name = 'ArtifactMissingError';
+  }
+}
+
+function getArtifactPath(pipelineId: string, stage: JobStage): string {
+  return path.join(ARTIFACTS_DIR, pipelineId, `${stage}.json`);
+}
+
+/**
+ * Save a stage's output (atomic write: temp file → rename)
+ * Returns the path relative to the repo root (stored in job.outputs.artifactPath)
+ */
+export async function saveStageArtifact<T>(artifact: Omit<StageArtifact<T>, 'createdAt'>): Promise<string> {
+  const artifactPath = getArtifactPath(artifact.pipelineId, artifact.stage);
+  await fs.mkdir(path.dirname(artifactPath), { recursive: true });
+
+  const tempPath = `${artifactPath}.${process.pid}.tmp`;
+  const content: StageArtifact<T> = { ...artifact, createdAt: new Date().toISOString() };
+  await fs.writeFile(tempPath, JSON.stringify(content, null, 2), 'utf-8');
+  await fs.rename(tempPath, artifactPath);
+
+  logger.debug(`Saved ${artifact.stage} artifact for pipeline ${artifact.pipelineId}`);
+  return path.relative(process.cwd(), artifactPath);
+}
+
+/**
+ * Load a stage's output
+ * Throws ArtifactMissingError if the stage never completed (or its artifact was purged)
+ */
+export async function loadStageArtifact<T>(pipelineId: string, stage: JobStage): Promise<StageArtifact<T>> {
+  try {
+    const data = await fs.readFile(getArtifactPath(pipelineId, stage), 'utf-8');
+    return JSON.parse(data) as StageArtifact<T>;
+  } catch (error) {
+    throw new ArtifactMissingError(
+      `Missing ${stage} artifact for pipeline ${pipelineId}: ${error instanceof Error ? error.message : String(error)}`,
+      pipelineId,
+      stage
+    );
+  }
+}
+
+/**
+ * Check if a stage artifact exists
+ */
+export async function hasStageArtifact(pipelineId: string, stage: JobStage): Promise<boolean> {
+  try {
+    await fs.access(getArtifactPath(pipelineId, stage));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stages with a saved artifact for a pipeline
+ */
+export async function listPipelineArtifacts(pipelineId: string): Promise<JobStage[]> {
+  try {
+    const files = await fs.readdir(path.join(ARTIFACTS_DIR, pipelineId));
+    return files.filter((f) => f.endsWith('.json')).map((f) => f.replace(/\.json$/, '') as JobStage);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remove artifact directories of pipelines that no longer have jobs in the queue
+ */
+export async function pruneOrphanArtifacts(livePipelineIds: Set<string>): Promise<string[]> {
+  let pipelineIds: string[];
+  try {
+    pipelineIds = await fs.readdir(ARTIFACTS_DIR);
+  } catch {
+    return [];
+  }
+
+  const orphans = pipelineIds.filter((id) => !livePipelineIds.has(id));
+  for (const pipelineId of orphans) {
+    await fs.rm(path.join(ARTIFACTS_DIR, pipelineId), { recursive: true, force: true });
+  }
+  if (orphans.length > 0) {
+    logger.info(`Removed artifacts for ${orphans.length} purged pipeline(s)`);
+  }
+  return orphans;
+}
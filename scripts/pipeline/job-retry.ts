@@ -0,0 +1,82 @@
+/**
+ * Job Retry Policy - Error classification and exponential backoff
+ *
+ * ERROR CLASSES:
+ * - transient: network/API/rate-limit/lock/write-verification problems - retry with backoff
+ * - quality-gate: generated doc was blocked - regeneration may pass, retry with backoff
+ * - validation: doc/brief failed schema validation - dead-letter immediately
+ * - permanent: retrying cannot help (slug conflict, no grounded facts, missing upstream artifact) - dead-letter immediately
+ * - unknown: anything else - retried like transient until maxAttempts
+ */
+
+import { JobErrorClass } from './types';
+import { JOB_RETRY_CONFIG } from './config';
+import { PublishError } from './publisher';
+import { SourceResolutionError } from './sourceResolver';
+import { ArtifactMissingError } from './job-artifacts';
+
+const PUBLISH_ERROR_CLASSES: Record<string, JobErrorClass> = {
+  QUALITY_GATE_FAILED: 'quality-gate',
+  VALIDATION_ERROR: 'validation',
+  INVALID_JSON: 'validation',
+  SLUG_TOPICKEY_CONFLICT: 'permanent',
+  KEYWORD_CONFLICT: 'permanent',
+  EXISTING_FILE_INVALID: 'permanent',
+  WRITE_VERIFICATION_ERROR: 'transient',
+  INDEX_WRITE_VERIFICATION_ERROR: 'transient',
+  INVALID_INDEX_UPDATE: 'transient',
+  EXISTING_FILE_VERIFICATION_FAILED: 'transient',
+  PUBLISH_FAILED: 'transient',
+};
+
+const TRANSIENT_PATTERNS = [
+  /\b(ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE)\b/,
+  /fetch failed|socket hang up|network|timed? ?out/i,
+  /rate limit|too many requests|\b429\b/i,
+  /API error: 5\d\d|\b50[0234]\b/,
+  /lock within \d+ms/i,
+];
+
+/**
+ * Classify a job failure
+ */
+export function classifyJobError(error: unknown): JobErrorClass {
+  if (error instanceof PublishError) {
+    return PUBLISH_ERROR_CLASSES[error.code] || 'unknown';
+  }
+  if (error instanceof SourceResolutionError) {
+    // Fetches failing is an outage; pages that simply lack facts will not change on retry
+    return error.failed.length > 0 ? 'transient' : 'permanent';
+  }
+  if (error instanceof ArtifactMissingError) {
+    // The upstream stage has to run again - retrying this stage alone cannot find it
+    return 'permanent';
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (/quality gate blocked/i.test(message)) {
+    return 'quality-gate';
+  }
+  if (/^validation failed/i.test(message)) {
+    return 'validation';
+  }
+  if (TRANSIENT_PATTERNS.some((pattern) => pattern.test(message))) {
+    return 'transient';
+  }
+  return 'unknown';
+}
+
+/**
+ * Should a job with this error class be retried at all
+ */
+export function isRetryable(errorClass: JobErrorClass): boolean {
+  return JOB_RETRY_CONFIG.retryable[errorClass];
+}
+
+/**
+ * Backoff before the next attempt (attempt 1 failed → baseDelay, doubling, capped)
+ */
+export function computeBackoffMs(attempts: number): number {
+  const exponent = Math.max(0, attempts - 1);
+  return Math.min(JOB_RETRY_CONFIG.baseDelayMs * 2 ** exponent, JOB_RETRY_CONFIG.maxDelayMs);
+}
@@ -0,0 +1,288 @@
+/**
+ * Job Stages - Runs one stage of a job pipeline
+ *
+ * ideate → brief → generate → fact-check → gate → publish → revalidate
+ *
+ * Each stage loads its upstream artifact, does one step and saves its own artifact
+ * (job-artifacts.ts). Retrying a stage never repeats the stages before it, so a failed
+ * publish or revalidation re-uses the gated doc instead of calling the LLM again.
+ */
+
+import { BlogIdea, generateBlogIdeas } from './ideation';
+import { blogIdeaToBrief } from './blog-brief-builder';
+import { buildBrief } from './briefBuilder';
+import { generateBestBlogPost } from './multi-draft';
+import { generateSpecies } from './generators/species';
+import { generateHowTo } from './generators/howto';
+import { generateLocation } from './generators/location';
+import { validateDoc } from './validator';
+import { runQualityGate } from './quality-gate';
+import { repairDoc } from './repair';
+import { runFactCheck } from './fact-check';
+import { publishDoc } from './publisher';
+import { topicKeyExists, resolveSlugCollision } from './dedupe';
+import { findIdeaOverlaps, formatOverlap } from './near-duplicates';
+import { loadKeywordRegistry } from './keyword-registry';
+import { filterIdeasByCadence, DEFAULT_CADENCE_CONTROLS } from './cadence-controls';
+import { resolveSourcesForTopic } from './sourceResolver';
+import { assignPipelineTopic } from './scheduler';
+import { saveStageArtifact, loadStageArtifact, hasStageArtifact } from './job-artifacts';
+import { ContentBrief, GeneratedDoc, Job, JobStage, PageType, TopicKey } from './types';
+import { DEFAULT_REVALIDATE_ENDPOINT, DEFAULT_REVALIDATE_SECRET_NAME } from './config';
+import { logger } from './logger';
+
+export interface StageResult {
+  outputs: NonNullable<Job['outputs']>;
+  skipReason?: string; // Set when the downstream stages should not run (topic already published)
+}
+
+/**
+ * Build the brief for a queued topic: approved sources → facts → brief
+ */
+export async function buildJobBrief(type: PageType, topicKey: TopicKey): Promise<ContentBrief> {
+  const [, ...identifiers] = topicKey.split('::');
+  const slug = await resolveSlugCollision(identifiers.join('-'), type);
+  const { facts, sources } = await resolveSourcesForTopic(type, topicKey);
+
+  return buildBrief({
+    pageType: type,
+    topicKey,
+    slug,
+    title: `Guide to ${slug.replace(/-/g, ' ')}`,
+    primaryKeyword: slug.replace(/-/g, ' '),
+    secondaryKeywords: [slug, type],
+    facts,
+    sources,
+  });
+}
+
+/**
+ * Generate a doc with the generator for its page type
+ */
+export async function generateDocForBrief(type: PageType, brief: ContentBrief): Promise<GeneratedDoc> {
+  switch (type) {
+    case 'blog':
+      return generateBestBlogPost(brief);
+    case 'species':
+      return generateSpecies(brief);
+    case 'how-to':
+      return generateHowTo(brief);
+    case 'location':
+      return generateLocation(brief);
+    default:
+      throw new Error(`Unknown page type: ${type}`);
+  }
+}
+
+/**
+ * Ask the site to revalidate paths (throws on failure so the stage can be retried)
+ */
+export async function revalidatePaths(paths: string[]): Promise<void> {
+  const secret = process.env[DEFAULT_REVALIDATE_SECRET_NAME] || process.env.REVALIDATION_SECRET;
+  const endpoint = process.env.NEXT_PUBLIC_URL
+    ? `${process.env.NEXT_PUBLIC_URL}${DEFAULT_REVALIDATE_ENDPOINT}`
+    : `http://localhost:3000${DEFAULT_REVALIDATE_ENDPOINT}`;
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${secret}`,
+    },
+    body: JSON.stringify({ paths }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Revalidation failed: ${response.status}`);
+  }
+
+  logger.info(`Revalidated paths: ${paths.join(', ')}`);
+}
+
+async function loadUpstream<T>(job: Job, stage: JobStage): Promise<T> {
+  return (await loadStageArtifact<T>(job.pipelineId!, stage)).data;
+}
+
+async function saveOutput<T>(job: Job, data: T): Promise<string> {
+  return saveStageArtifact({
+    pipelineId: job.pipelineId!,
+    stage: job.stage!,
+    jobId: job.jobId,
+    topicKey: job.topicKey,
+    data,
+  });
+}
+
+/**
+ * ideate: pick the best unclaimed blog idea that passes cadence controls
+ */
+async function runIdeateStage(job: Job): Promise<StageResult> {
+  const params = job.params || {};
+  const ideas = await generateBlogIdeas({
+    category: String(params.category || 'fishing-tips'),
+    location: params.location ? String(params.location) : undefined,
+    maxIdeas: Number(params.maxIdeas) || 20,
+    minSearchVolume: DEFAULT_CADENCE_CONTROLS.minSearchVolume,
+    maxDifficulty: DEFAULT_CADENCE_CONTROLS.maxKeywordDifficulty,
+  });
+
+  const { passed } = filterIdeasByCadence(ideas, {
+    ...DEFAULT_CADENCE_CONTROLS,
+    minOpportunityScore: Number(params.minScore) || DEFAULT_CADENCE_CONTROLS.minOpportunityScore,
+  }, await loadKeywordRegistry());
+  passed.sort((a, b) => b.opportunityScore - a.opportunityScore);
+
+  for (const idea of passed) {
+    const topicKey = `blog::${idea.slug}`;
+    if (await topicKeyExists(topicKey)) {
+      continue;
+    }
+    const overlaps = await findIdeaOverlaps(idea);
+    if (overlaps.length > 0) {
+      logger.info(`Skipping idea ${idea.slug}: ${formatOverlap(overlaps)}`);
+      continue;
+    }
+    // Another pipeline may be working on the same idea
+    if (!(await assignPipelineTopic(job.pipelineId!, topicKey))) {
+      continue;
+    }
+
+    logger.info(`Selected idea: ${idea.title} (score: ${idea.opportunityScore})`);
+    const artifactPath = await saveOutput({ ...job, topicKey }, { idea });
+    return { outputs: { slug: idea.slug, artifactPath } };
+  }
+
+  throw new Error(`No unclaimed blog ideas passed cadence controls (${ideas.length} generated)`);
+}
+
+/**
+ * brief: idea → brief for ideated blog posts, approved sources → brief otherwise
+ */
+async function runBriefStage(job: Job): Promise<StageResult> {
+  if (await topicKeyExists(job.topicKey)) {
+    return { outputs: {}, skipReason: `Topic already published: ${job.topicKey}` };
+  }
+
+  const brief = job.type === 'blog' && (await hasStageArtifact(job.pipelineId!, 'ideate'))
+    ? await blogIdeaToBrief((await loadUpstream<{ idea: BlogIdea }>(job, 'ideate')).idea)
+    : await buildJobBrief(job.type, job.topicKey);
+
+  const artifactPath = await saveOutput(job, { brief });
+  return { outputs: { slug: brief.slug, artifactPath } };
+}
+
+/**
+ * generate: brief → doc (the only LLM stage)
+ * Sent back by the gate: the previous doc gets targeted repairs first (repair.ts), a fresh doc only if they fail
+ */
+async function runGenerateStage(job: Job): Promise<StageResult> {
+  const { brief } = await loadUpstream<{ brief: ContentBrief }>(job, 'brief');
+  const doc = (await repairPreviousDoc(job, brief)) || (await generateDocForBrief(job.type, brief));
+
+  const artifactPath = await saveOutput(job, { doc });
+  return { outputs: { slug: doc.slug, artifactPath } };
+}
+
+/**
+ * Repair the doc from the previous generate round (with its fact check, if it got that far)
+ * Null = no previous round, or the repairs could not get it past validation and the gate
+ */
+async function repairPreviousDoc(job: Job, brief: ContentBrief): Promise<GeneratedDoc | null> {
+  if (!(await hasStageArtifact(job.pipelineId!, 'generate'))) {
+    return null;
+  }
+
+  const upstream: JobStage = (await hasStageArtifact(job.pipelineId!, 'fact-check')) ? 'fact-check' : 'generate';
+  const { doc: previous } = await loadUpstream<{ doc: GeneratedDoc }>(job, upstream);
+  const repair = await repairDoc(previous, brief);
+  if (!repair.passed) {
+    logger.warn(`Repairs did not pass the gate for ${previous.slug} - generating a fresh doc`);
+    return null;
+  }
+
+  logger.info(`Repaired ${previous.slug} in ${repair.rounds} round(s)`);
+  return repair.doc;
+}
+
+/**
+ * fact-check: verify the doc's numeric/regulatory claims and store the verdicts on the doc
+ */
+async function runFactCheckStage(job: Job): Promise<StageResult> {
+  const { doc } = await loadUpstream<{ doc: GeneratedDoc }>(job, 'generate');
+  const factCheck = await runFactCheck(doc);
+
+  const artifactPath = await saveOutput(job, { doc: { ...doc, factCheck } });
+  return { outputs: { slug: doc.slug, artifactPath } };
+}
+
+/**
+ * gate: schema validation + quality gate (a blocked doc sends the pipeline back to generate)
+ * Pipelines queued before the fact-check stage existed gate the generated doc directly.
+ */
+async function runGateStage(job: Job): Promise<StageResult> {
+  const upstream: JobStage = (await hasStageArtifact(job.pipelineId!, 'fact-check')) ? 'fact-check' : 'generate';
+  const { doc } = await loadUpstream<{ doc: GeneratedDoc }>(job, upstream);
+
+  const validation = validateDoc(doc);
+  if (!validation.passed) {
+    throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
+  }
+
+  const qualityGate = runQualityGate(doc);
+  if (qualityGate.blocked) {
+    throw new Error(`Quality gate BLOCKED: ${qualityGate.errors.join('; ')}`);
+  }
+
+  const warnings = [...validation.warnings, ...qualityGate.warnings];
+  if (warnings.length > 0) {
+    logger.warn(`Gate warnings for "${doc.title}":`, warnings);
+  }
+
+  const artifactPath = await saveOutput(job, { doc, warnings });
+  return { outputs: { slug: doc.slug, errors: warnings.length > 0 ? warnings : undefined, artifactPath } };
+}
+
+/**
+ * publish: gated doc → content file + index
+ */
+async function runPublishStage(job: Job): Promise<StageResult> {
+  const { doc } = await loadUpstream<{ doc: GeneratedDoc }>(job, 'gate');
+  const { routePath, slug } = await publishDoc(doc);
+
+  const artifactPath = await saveOutput(job, { routePath, slug });
+  return { outputs: { slug, url: routePath, artifactPath } };
+}
+
+/**
+ * revalidate: refresh the published page and its listing page
+ */
+async function runRevalidateStage(job: Job): Promise<StageResult> {
+  const { routePath, slug } = await loadUpstream<{ routePath: string; slug: string }>(job, 'publish');
+  const paths = [routePath, `/${job.type}`];
+  await revalidatePaths(paths);
+
+  const artifactPath = await saveOutput(job, { paths });
+  return { outputs: { slug, url: routePath, artifactPath } };
+}
+
+const STAGE_RUNNERS: Record<JobStage, (job: Job) => Promise<StageResult>> = {
+  ideate: runIdeateStage,
+  brief: runBriefStage,
+  generate: runGenerateStage,
+  'fact-check': runFactCheckStage,
+  gate: runGateStage,
+  publish: runPublishStage,
+  revalidate: runRevalidateStage,
+};
+
+/**
+ * Run a claimed stage job
+ */
+export async function runJobStage(job: Job): Promise<StageResult> {
+  if (!job.stage || !job.pipelineId) {
+    throw new Error(`Job ${job.jobId} is not a pipeline stage job`);
+  }
+
+  logger.info(`Running ${job.stage} stage for ${job.topicKey} (pipeline ${job.pipelineId})`);
+  return STAGE_RUNNERS[job.stage](job);
+}
@@ -0,0 +1,328 @@
+/**
+ * Keyword Registry - Which published doc owns each keyword (cannibalization guard)
+ *
+ * Derived from the content index: an entry's keywords are [primaryKeyword, ...secondaryKeywords].
+ * Keywords are compared by their normalized tokens (near-duplicates.ts), so "bass lures" and
+ * "best lures for bass fishing" differ but "tampa fishing" and "fishing in tampa" are the same.
+ *
+ * Ownership: a primary keyword beats a secondary one, evergreen pages (species, how-to,
+ * location) beat blog posts, then the earliest published post wins.
+ */
+
+import type { ContentIndex } from '../../lib/content/index';
+import { PageType } from './types';
+import { normalizeTokens } from './near-duplicates';
+import { KEYWORD_OWNERSHIP_CONFIG } from './config';
+
+const ROUTE_DIRS: Record<PageType, string> = { blog: 'blog', species: 'species', 'how-to': 'how-to', location: 'locations' };
+const PAGE_TYPE_RANK: Record<PageType, number> = { species: 0, 'how-to': 1, location: 2, blog: 3 };
+
+export interface KeywordDocRef {
+  pageType: PageType;
+  slug: string;
+  route: string;
+}
+
+/**
+ * A published doc's keywords as registered
+ */
+export interface RegisteredDoc extends KeywordDocRef {
+  primaryKeyword: string;
+  secondaryKeywords: string[];
+  publishedAt?: string; // Blog posts only
+}
+
+export interface KeywordClaim extends KeywordDocRef {
+  keyword: string; // As written in the doc
+  role: 'primary' | 'secondary';
+}
+
+export interface RegistryEntry {
+  key: string; // Normalized keyword
+  owner: KeywordClaim;
+  claims: KeywordClaim[]; // Owner first
+}
+
+export interface KeywordRegistry {
+  docs: RegisteredDoc[];
+  keywords: Map<string, RegistryEntry>;
+}
+
+/**
+ * A doc targeting a keyword another doc owns
+ *   primary              - same primary keyword (blocks publishing)
+ *   secondary-overlap    - near-identical secondary keyword sets (blocks publishing)
+ *   primary-as-secondary - one doc's primary keyword is the other's secondary (warning)
+ */
+export interface KeywordConflict {
+  kind: 'primary' | 'secondary-overlap' | 'primary-as-secondary';
+  severity: 'block' | 'warn';
+  keyword: string;
+  owner: KeywordDocRef;
+  other: KeywordDocRef;
+  sharedKeywords: string[];
+  message: string;
+}
+
+export interface ConflictSuggestion {
+  action: 'merge' | 'redirect' | 'retarget';
+  from: string; // Route of the doc to change
+  to: string; // Route of the owner
+  detail: string;
+}
+
+/**
+ * Doc to check before publishing (or an idea, which has no secondary keywords yet)
+ */
+export interface KeywordCandidate {
+  pageType: PageType;
+  slug: string;
+  primaryKeyword: string;
+  secondaryKeywords?: string[];
+}
+
+/**
+ * Normalized form keywords are compared on ("" for keywords with no content words)
+ */
+export function keywordKey(keyword: string): string {
+  return normalizeTokens(keyword).join(' ');
+}
+
+function docRef(pageType: PageType, slug: string): KeywordDocRef {
+  return { pageType, slug, route: `/${ROUTE_DIRS[pageType]}/${slug}` };
+}
+
+function sameDoc(a: KeywordDocRef, b: KeywordDocRef): boolean {
+  return a.pageType === b.pageType && a.slug === b.slug;
+}
+
+function docLabel(ref: KeywordDocRef): string {
+  return `${ref.pageType}/${ref.slug}`;
+}
+
+/**
+ * Ordering for ownership - lower wins
+ */
+function compareClaims(a: KeywordClaim & { publishedAt?: string }, b: KeywordClaim & { publishedAt?: string }): number {
+  if (a.role !== b.role) {
+    return a.role === 'primary' ? -1 : 1;
+  }
+  if (a.pageType !== b.pageType) {
+    return PAGE_TYPE_RANK[a.pageType] - PAGE_TYPE_RANK[b.pageType];
+  }
+  const dates = (a.publishedAt || '').localeCompare(b.publishedAt || '');
+  return dates !== 0 ? dates : a.slug.localeCompare(b.slug);
+}
+
+/**
+ * Build the registry from a content index
+ * Blog entries carry their category/tags in keywords for listing - those are not keywords a post targets.
+ * Legacy entries without keywords are registered under their slug ("how-to-catch-trout" → "how to catch trout").
+ */
+export function buildKeywordRegistry(index: ContentIndex): KeywordRegistry {
+  const docs: RegisteredDoc[] = [];
+  const add = (pageType: PageType, entry: { slug: string; keywords?: string[]; tags?: string[]; category?: string; publishedAt?: string }) => {
+    const labels = new Set([...(entry.tags || []), entry.category].filter(Boolean));
+    const listed = (entry.keywords || []).filter((k) => k && !labels.has(k));
+    const keywords = listed.length > 0 ? listed : [entry.slug.split('/').pop()!.replace(/-/g, ' ')];
+    docs.push({
+      ...docRef(pageType, entry.slug),
+      primaryKeyword: keywords[0],
+      secondaryKeywords: keywords.slice(1),
+      publishedAt: entry.publishedAt,
+    });
+  };
+  index.blogPosts.forEach((entry) => add('blog', entry));
+  index.species.forEach((entry) => add('species', entry));
+  index.howTo.forEach((entry) => add('how-to', entry));
+  index.locations.forEach((entry) => add('location', entry));
+
+  const claimsByKey = new Map<string, Array<KeywordClaim & { publishedAt?: string }>>();
+  for (const doc of docs) {
+    const claims: Array<[string, 'primary' | 'secondary']> = [
+      [doc.primaryKeyword, 'primary'],
+      ...doc.secondaryKeywords.map((k): [string, 'secondary'] => [k, 'secondary']),
+    ];
+    for (const [keyword, role] of claims) {
+      const key = keywordKey(keyword);
+      const existing = claimsByKey.get(key) || [];
+      // A doc claims a keyword once, with its strongest role
+      if (!key || existing.some((c) => sameDoc(c, doc))) {
+        continue;
+      }
+      claimsByKey.set(key, [...existing, { ...docRef(doc.pageType, doc.slug), keyword, role, publishedAt: doc.publishedAt }]);
+    }
+  }
+
+  const keywords = new Map<string, RegistryEntry>();
+  for (const [key, claims] of claimsByKey) {
+    const sorted = [...claims].sort(compareClaims).map(({ publishedAt, ...claim }) => claim);
+    keywords.set(key, { key, owner: sorted[0], claims: sorted });
+  }
+  return { docs, keywords };
+}
+
+/**
+ * Registry for the current content index
+ */
+export async function loadKeywordRegistry(): Promise<KeywordRegistry> {
+  const { loadContentIndex } = await import('../../lib/content/index');
+  return buildKeywordRegistry(await loadContentIndex());
+}
+
+/**
+ * Doc that owns a keyword as its primary keyword (null if unowned or only used as a secondary)
+ */
+export function primaryOwner(registry: KeywordRegistry, keyword: string): KeywordDocRef | null {
+  const entry = registry.keywords.get(keywordKey(keyword));
+  return entry && entry.owner.role === 'primary' ? entry.owner : null;
+}
+
+/**
+ * Conflicts between a candidate and every other registered doc (the candidate's own entry is ignored)
+ */
+export function checkKeywordOwnership(candidate: KeywordCandidate, registry: KeywordRegistry): KeywordConflict[] {
+  const self = docRef(candidate.pageType, candidate.slug);
+  const primaryKey = keywordKey(candidate.primaryKeyword);
+  const secondaryKeys = new Set(
+    (candidate.secondaryKeywords || []).map(keywordKey).filter((key) => key && key !== primaryKey)
+  );
+  const conflicts: KeywordConflict[] = [];
+
+  for (const doc of registry.docs) {
+    if (sameDoc(doc, self)) {
+      continue;
+    }
+    const otherPrimaryKey = keywordKey(doc.primaryKeyword);
+    const otherSecondary = new Map(doc.secondaryKeywords.map((k) => [keywordKey(k), k]));
+
+    if (primaryKey && primaryKey === otherPrimaryKey) {
+      conflicts.push({
+        kind: 'primary',
+        severity: 'block',
+        keyword: doc.primaryKeyword,
+        owner: docRef(doc.pageType, doc.slug),
+        other: self,
+        sharedKeywords: [doc.primaryKeyword],
+        message: `Primary keyword "${candidate.primaryKeyword}" is already the primary keyword of ${docLabel(doc)} ("${doc.primaryKeyword}")`,
+      });
+      continue;
+    }
+
+    const shared = [...secondaryKeys].filter((key) => otherSecondary.has(key));
+    const smallerSet = Math.min(secondaryKeys.size, otherSecondary.size);
+    if (
+      shared.length >= KEYWORD_OWNERSHIP_CONFIG.minSharedSecondary &&
+      shared.length / smallerSet >= KEYWORD_OWNERSHIP_CONFIG.maxSharedSecondaryRatio
+    ) {
+      const sharedKeywords = shared.map((key) => otherSecondary.get(key)!);
+      conflicts.push({
+        kind: 'secondary-overlap',
+        severity: 'block',
+        keyword: sharedKeywords[0],
+        owner: docRef(doc.pageType, doc.slug),
+        other: self,
+        sharedKeywords,
+        message: `${shared.length} secondary keywords are also targeted by ${docLabel(doc)}: ${sharedKeywords.map((k) => `"${k}"`).join(', ')}`,
+      });
+    }
+
+    if (primaryKey && otherSecondary.has(primaryKey)) {
+      conflicts.push({
+        kind: 'primary-as-secondary',
+        severity: 'warn',
+        keyword: candidate.primaryKeyword,
+        owner: self,
+        other: docRef(doc.pageType, doc.slug),
+        sharedKeywords: [otherSecondary.get(primaryKey)!],
+        message: `Primary keyword "${candidate.primaryKeyword}" is a secondary keyword of ${docLabel(doc)}`,
+      });
+    }
+    if (otherPrimaryKey && secondaryKeys.has(otherPrimaryKey)) {
+      conflicts.push({
+        kind: 'primary-as-secondary',
+        severity: 'warn',
+        keyword: doc.primaryKeyword,
+        owner: docRef(doc.pageType, doc.slug),
+        other: self,
+        sharedKeywords: [doc.primaryKeyword],
+        message: `Secondary keyword "${doc.primaryKeyword}" is the primary keyword of ${docLabel(doc)}`,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Conflicts between published docs, each reported once from the point of view of its owner
+ */
+export function findKeywordConflicts(registry: KeywordRegistry): KeywordConflict[] {
+  const conflicts: KeywordConflict[] = [];
+  const seen = new Set<string>();
+
+  for (const doc of registry.docs) {
+    for (const conflict of checkKeywordOwnership(doc, registry)) {
+      // Checking the other doc reports the same conflict with the roles the registry assigns
+      if (!ownsContestedKeyword(conflict, registry)) {
+        continue;
+      }
+      const pair = [docLabel(conflict.owner), docLabel(conflict.other)].sort().join(' ');
+      // Two docs can each use the other's primary keyword as a secondary - those are separate conflicts
+      const id = conflict.kind === 'primary-as-secondary' ? `${conflict.kind} ${keywordKey(conflict.keyword)} ${pair}` : `${conflict.kind} ${pair}`;
+      if (seen.has(id)) {
+        continue;
+      }
+      seen.add(id);
+      conflicts.push(conflict);
+    }
+  }
+
+  const severityRank = { block: 0, warn: 1 };
+  return conflicts.sort((a, b) => severityRank[a.severity] - severityRank[b.severity] || a.keyword.localeCompare(b.keyword));
+}
+
+/**
+ * Of the two docs in a conflict, the conflict's owner is the one the registry ranks first for the keyword
+ */
+function ownsContestedKeyword(conflict: KeywordConflict, registry: KeywordRegistry): boolean {
+  const entry = registry.keywords.get(keywordKey(conflict.keyword));
+  const first = entry?.claims.find((c) => sameDoc(c, conflict.owner) || sameDoc(c, conflict.other));
+  return !first || sameDoc(first, conflict.owner);
+}
+
+/**
+ * What to do about a conflict between published docs
+ */
+export function suggestResolution(conflict: KeywordConflict): ConflictSuggestion {
+  const { owner, other } = conflict;
+  switch (conflict.kind) {
+    case 'primary':
+      return owner.pageType === other.pageType
+        ? {
+            action: 'merge',
+            from: other.route,
+            to: owner.route,
+            detail: `Merge ${docLabel(other)} into ${docLabel(owner)}, then 301 ${other.route} → ${owner.route}`,
+          }
+        : {
+            action: 'redirect',
+            from: other.route,
+            to: owner.route,
+            detail: `301 ${other.route} → ${owner.route} (or retarget ${docLabel(other)} to a different primary keyword)`,
+          };
+    case 'secondary-overlap':
+      return {
+        action: 'merge',
+        from: other.route,
+        to: owner.route,
+        detail: `Merge the overlapping sections of ${docLabel(other)} into ${docLabel(owner)}, or drop the shared secondary keywords from ${docLabel(other)}`,
+      };
+    case 'primary-as-secondary':
+      return {
+        action: 'retarget',
+        from: other.route,
+        to: owner.route,
+        detail: `Drop "${conflict.sharedKeywords[0]}" from the secondary keywords of ${docLabel(other)} and link to ${owner.route} instead`,
+      };
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * LLM Providers - Pluggable backends behind generateWithLLM
+ *
+ * PROVIDERS:
+ * - openai: OpenAI chat completions API (requires OPENAI_API_KEY)
+ * - openai-compatible: Any local/self-hosted server speaking the OpenAI chat API
+ *   (Ollama, LM Studio, vLLM, llama.cpp server) at LLM_CONFIG.baseUrl
+ * - fixture: Deterministic, offline provider for tests and dev runs.
+ *   Serves recorded fixtures when present, otherwise synthesizes stable output.
+ *
+ * Every provider reports token usage and latency back to the caller.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+import { LLM_CONFIG } from './config';
+import { cassetteFetch, isReplaying } from './cassette';
+
+export type LLMProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
+export interface LLMRequest {
+  prompt: string;
+  systemPrompt: string;
+  jsonSchema?: any;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // True when the provider did not return usage and it was approximated
+}
+
+export interface LLMCompletion {
+  content: string; // Raw text returned by the model (JSON string when jsonSchema is set)
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+/**
+ * Rough token estimate (~4 chars per token) for providers without usage data
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateUsage(request: LLMRequest, content: string): LLMUsage {
+  const promptTokens = estimateTokens(request.systemPrompt) + estimateTokens(request.prompt);
+  const completionTokens = estimateTokens(content);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
+
+/**
+ * Build provider backed by an OpenAI-style /chat/completions endpoint
+ */
+function createChatCompletionsProvider(config: {
+  name: LLMProviderName;
+  baseUrl: string;
+  apiKey?: string;
+  requireApiKey: boolean;
+}): LLMProvider {
+  return {
+    name: config.name,
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      if (config.requireApiKey && !config.apiKey && !isReplaying()) {
+        throw new Error('OPENAI_API_KEY environment variable is required');
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      const startTime = Date.now();
+      const response = await cassetteFetch('llm', `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: request.model,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: request.prompt },
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: request.jsonSchema ? {
+            type: 'json_schema',
+            json_schema: {
+              name: 'response_schema',
+              strict: true,
+              schema: request.jsonSchema,
+            },
+          } : undefined,
+        }),
+      });
+      const latencyMs = Date.now() - startTime;
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`${config.name} API error: ${response.status} ${error}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error(`No content returned from ${config.name}`);
+      }
+
+      const usage: LLMUsage = data.usage
+        ? {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+            totalTokens: data.usage.total_tokens || 0,
+            estimated: false,
+          }
+        : estimateUsage(request, content);
+
+      return {
+        content,
+        provider: config.name,
+        model: data.model || request.model,
+        usage,
+        latencyMs,
+      };
+    },
+  };
+}
+
+/**
+ * OpenAI provider
+ */
+export function createOpenAIProvider(): LLMProvider {
+  return createChatCompletionsProvider({
+    name: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    requireApiKey: true,
+  });
+}
+
+/**
+ * OpenAI-compatible local server provider (API key optional)
+ */
+export function createOpenAICompatibleProvider(): LLMProvider {
+  return createChatCompletionsProvider({
+    name: 'openai-compatible',
+    baseUrl: LLM_CONFIG.baseUrl,
+    apiKey: process.env.LLM_API_KEY,
+    requireApiKey: false,
+  });
+}
+
+/**
+ * Hash a request for fixture lookup (model/temperature excluded so fixtures survive config changes)
+ */
+export function hashLLMRequest(request: Pick<LLMRequest, 'prompt' | 'systemPrompt' | 'jsonSchema'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      systemPrompt: request.systemPrompt.trim(),
+      prompt: request.prompt.trim(),
+      jsonSchema: request.jsonSchema || null,
+    }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Build a deterministic value that satisfies a JSON schema
+ */
+function synthesizeFromSchema(schema: any, key: string = 'value'): any {
+  if (!schema || typeof schema !== 'object') {
+    return null;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[0];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const [prop, propSchema] of Object.entries<any>(schema.properties || {})) {
+        result[prop] = synthesizeFromSchema(propSchema, prop);
+      }
+      return result;
+    }
+    case 'array': {
+      const count = Math.max(schema.minItems || 0, 3);
+      return Array.from({ length: count }, (_, i) => synthesizeFromSchema(schema.items, `${key}-${i + 1}`));
+    }
+    case 'number':
+    case 'integer': {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : 0;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : 100;
+      return Math.round((min + max) / 2);
+    }
+    case 'boolean':
+      return true;
+    case 'string':
+    default:
+      return `Fixture ${key}`;
+  }
+}
+
+/**
+ * Build deterministic markdown for prompts without a schema
+ */
+function synthesizeMarkdown(request: LLMRequest): string {
+  const titleMatch = request.prompt.match(/^TITLE:\s*(.+)$/m);
+  const title = titleMatch ? titleMatch[1].trim() : 'Fixture Content';
+  const sentence = `This fixture paragraph about ${title.toLowerCase()} is generated deterministically for offline runs.`;
+  const paragraph = Array.from({ length: 6 }, () => sentence).join(' ');
+
+  const sections = ['Overview', 'Gear and Setup', 'Technique', 'Conditions', 'Common Mistakes', 'Next Steps']
+    .map((heading) => `## ${heading}\n\n${paragraph}\n\n${paragraph}`)
+    .join('\n\n');
+
+  const faqs = Array.from({ length: 5 }, (_, i) =>
+    `### Fixture question ${i + 1} about ${title}?\n\n${sentence}`
+  ).join('\n\n');
+
+  return `# ${title}\n\n${sections}\n\n## Frequently Asked Questions\n\n${faqs}\n`;
+}
+
+/**
+ * Fixture provider - deterministic, never touches the network
+ *
+ * Lookup order:
+ * 1. <fixturesDir>/<requestHash>.json ({ "content": "..." })
+ * 2. Synthesized output (schema-shaped JSON or template markdown)
+ */
+export function createFixtureProvider(fixturesDir: string = LLM_CONFIG.fixturesDir): LLMProvider {
+  return {
+    name: 'fixture',
+    async complete(request: LLMRequest): Promise<LLMCompletion> {
+      const startTime = Date.now();
+      const hash = hashLLMRequest(request);
+      const fixturePath = path.join(fixturesDir, `${hash}.json`);
+
+      let content: string;
+      try {
+        const fixture = JSON.parse(await fs.readFile(fixturePath, 'utf-8'));
+        content = typeof fixture.content === 'string' ? fixture.content : JSON.stringify(fixture.content);
+        logger.debug(`LLM fixture hit: ${hash}`);
+      } catch {
+        logger.debug(`LLM fixture miss: ${hash} - synthesizing output`);
+        content = request.jsonSchema
+          ? JSON.stringify(synthesizeFromSchema(request.jsonSchema))
+          : synthesizeMarkdown(request);
+      }
+
+      return {
+        content,
+        provider: 'fixture',
+        model: 'fixture',
+        usage: estimateUsage(request, content),
+        latencyMs: Date.now() - startTime,
+      };
+    },
+  };
+}
+
+/**
+ * Resolve provider from LLM_CONFIG.provider
+ */
+export function getLLMProvider(name: LLMProviderName = LLM_CONFIG.provider): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider();
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
@@ -1,5 +1,6 @@
 /**
- * LLM Client - Generates content using OpenAI
+ * LLM Client - Generates content through the configured provider
+ * See llm-providers.ts for available providers (LLM_CONFIG.provider)
  */
 
 // Ensure dotenv is loaded before accessing process.env
@@ -9,13 +10,19 @@ dotenv.config({ path: resolve(process.cwd(), '.env.local') });
 
 import { logger } from './logger';
 import { LLM_CONFIG } from './config';
+import { getLLMProvider, LLMCompletion } from './llm-providers';
+import { isReplaying } from './cassette';
+import { assertWithinBudget, recordCost, estimateOpenAICost, BudgetExceededError } from './cost-tracker';
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-if (!OPENAI_API_KEY) {
+if (LLM_CONFIG.provider === 'openai' && !process.env.OPENAI_API_KEY) {
   logger.warn('OPENAI_API_KEY not set - LLM generation will fail');
 }
 
+const DEFAULT_SYSTEM_PROMPT = `You are a helpful fishing content writer. 
+Generate original, SEO-optimized content based on the provided facts and outline.
+Never copy text verbatim from sources - always write original explanations.
+Include all required sections, FAQs, and internal links as specified.`;
+
 /**
  * Retry with exponential backoff
  */
@@ -30,6 +37,9 @@ async function retryWithBackoff<T>(
     try {
       return await fn();
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error; // Retrying cannot help - abort immediately
+      }
       lastError = error as Error;
       if (attempt < maxRetries - 1) {
         const waitTime = delayMs * Math.pow(2, attempt);
@@ -43,76 +53,85 @@ async function retryWithBackoff<T>(
 }
 
 /**
- * Generate content with LLM
+ * LLM result with provider usage/latency attached
  */
-export async function generateWithLLM(input: {
+export interface LLMResult<T = any> {
+  data: T; // Parsed JSON when jsonSchema is set, otherwise markdown/text
+  completion: LLMCompletion;
+}
+
+/**
+ * Generate content with LLM and return usage/latency alongside the output
+ */
+export async function generateWithLLMResult(input: {
   prompt: string;
   jsonSchema?: any;
   systemPrompt?: string;
-}): Promise<any> {
-  if (!OPENAI_API_KEY) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
-  }
+  temperature?: number;
+}): Promise<LLMResult> {
+  const provider = getLLMProvider();
+  const request = {
+    prompt: input.prompt,
+    systemPrompt: input.systemPrompt || DEFAULT_SYSTEM_PROMPT,
+    jsonSchema: input.jsonSchema,
+    model: LLM_CONFIG.model,
+    temperature: input.temperature ?? LLM_CONFIG.temperature,
+    maxTokens: LLM_CONFIG.maxTokens,
+  };
   
-  const systemPrompt = input.systemPrompt || `You are a helpful fishing content writer. 
-Generate original, SEO-optimized content based on the provided facts and outline.
-Never copy text verbatim from sources - always write original explanations.
-Include all required sections, FAQs, and internal links as specified.`;
+  // Only OpenAI calls are billed - local servers, fixtures and cassette replays are free
+  const billable = provider.name === 'openai' && !isReplaying();
   
   return retryWithBackoff(async () => {
-    logger.info('Calling OpenAI API...');
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: LLM_CONFIG.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: input.prompt },
-        ],
-        temperature: LLM_CONFIG.temperature,
-        max_tokens: LLM_CONFIG.maxTokens,
-        response_format: input.jsonSchema ? {
-          type: 'json_schema',
-          json_schema: {
-            name: 'response_schema',
-            strict: true,
-            schema: input.jsonSchema
-          }
-        } : undefined,
-      }),
-    });
-    
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI API error: ${response.status} ${error}`);
+    if (billable) {
+      // Worst case: full prompt + maxTokens of output
+      const promptTokens = Math.ceil((request.systemPrompt.length + request.prompt.length) / 4);
+      assertWithinBudget('openai', estimateOpenAICost(request.model, promptTokens, request.maxTokens));
     }
     
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+    logger.info(`Calling LLM provider: ${provider.name} (${request.model})...`);
     
-    if (!content) {
-      throw new Error('No content returned from OpenAI');
+    const completion = await provider.complete(request);
+    logger.debug(
+      `LLM ${completion.provider} responded in ${completion.latencyMs}ms ` +
+      `(${completion.usage.totalTokens} tokens${completion.usage.estimated ? ', estimated' : ''})`
+    );
+    
+    if (billable) {
+      await recordCost(
+        'openai',
+        'chat.completions',
+        estimateOpenAICost(request.model, completion.usage.promptTokens, completion.usage.completionTokens)
+      );
     }
     
     // Parse JSON if schema was provided
     if (input.jsonSchema) {
       try {
-        return JSON.parse(content);
+        return { data: JSON.parse(completion.content), completion };
       } catch (error) {
-        logger.error('Failed to parse JSON response:', content);
+        logger.error('Failed to parse JSON response:', completion.content);
         throw new Error('Invalid JSON response from LLM');
       }
     }
     
-    return content;
+    return { data: completion.content, completion };
   });
 }
 
+/**
+ * Generate content with LLM
+ */
+export async function generateWithLLM(input: {
+  prompt: string;
+  jsonSchema?: any;
+  systemPrompt?: string;
+  temperature?: number;
+}): Promise<any> {
+  const result = await generateWithLLMResult(input);
+  return result.data;
+}
+
 /**
  * Generate structured content (with JSON schema)
  */
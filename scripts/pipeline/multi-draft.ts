@@ -0,0 +1,241 @@
+/**
+ * Multi-Draft - Generate several blog drafts per brief and publish the best one
+ *
+ * Each draft uses one MULTI_DRAFT_CONFIG variant (temperature + angle) and is scored with
+ * the checks publishing already runs: validateBlogPost (base score), runQualityGate,
+ * runGuardrails and validateRetentionStructure (penalties). Drafts the quality gate would
+ * block only win when every draft is blocked.
+ *
+ * Runners-up are archived for editorial review:
+ * content/_system/draft-archive/<slug>/<runId>/draft-<n>.json (+ summary.json)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { BlogDraftVariant, BlogPostDoc, ContentBrief } from './types';
+import { MULTI_DRAFT_CONFIG } from './config';
+import { logger } from './logger';
+import { generateBlogPost } from './generators/blog';
+import { runQualityGate } from './quality-gate';
+import { validateRetentionStructure } from './blog-retention-template';
+import { BudgetExceededError } from './cost-tracker';
+import { stripCitationMarkers } from './citations';
+import { validateBlogPost } from '../../lib/editorial/content-validator';
+import { runGuardrails } from '../../lib/editorial/guardrails';
+
+// Points deducted per finding (validateBlogPost's own score is the 0-100 base)
+const PENALTIES = {
+  gateError: 10,
+  gateWarning: 2,
+  guardrailError: 5,
+  guardrailWarning: 1,
+  retentionError: 3,
+};
+
+export interface DraftScore {
+  score: number; // 0-100, higher is better
+  blocked: boolean; // The quality gate would block publishing this draft
+  breakdown: {
+    validation: number; // validateBlogPost score
+    qualityGate: number; // Penalties (negative)
+    guardrails: number;
+    retention: number;
+  };
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ScoredDraft {
+  draftNumber: number; // 1-based, in generation order
+  variant: BlogDraftVariant;
+  doc: BlogPostDoc;
+  score: DraftScore;
+}
+
+export interface DraftArchiveSummary {
+  slug: string;
+  runId: string;
+  createdAt: string; // ISO 8601
+  winner: number; // draftNumber
+  drafts: Array<{
+    draftNumber: number;
+    variant: BlogDraftVariant;
+    score: number;
+    blocked: boolean;
+    title: string;
+    file?: string; // Archived runners-up only (the winner is published)
+  }>;
+}
+
+/**
+ * Score a blog draft with the publishing checks
+ */
+export function scoreBlogDraft(doc: BlogPostDoc): DraftScore {
+  const text = stripCitationMarkers(doc.body);
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const h2Count = doc.headings.filter((h) => h.level === 2).length;
+  const internalLinkCount = (text.match(/\]\(\/[^)]*\)/g) || []).length;
+  const hasSeasonalContent = /\b(?:spring|summer|fall|autumn|winter|seasonal|season)\b/i.test(text);
+
+  const validation = validateBlogPost(doc);
+  const gate = runQualityGate(doc);
+  const guardrails = runGuardrails(text, wordCount, h2Count, internalLinkCount, doc.sources.length, hasSeasonalContent, doc.angle);
+  const retention = validateRetentionStructure(doc.body);
+
+  const breakdown = {
+    validation: validation.score,
+    qualityGate: -(gate.errors.length * PENALTIES.gateError + gate.warnings.length * PENALTIES.gateWarning),
+    guardrails: -(guardrails.errors.length * PENALTIES.guardrailError + guardrails.warnings.length * PENALTIES.guardrailWarning),
+    retention: -(retention.errors.length * PENALTIES.retentionError),
+  };
+  const total = breakdown.validation + breakdown.qualityGate + breakdown.guardrails + breakdown.retention;
+
+  return {
+    score: Math.max(0, Math.min(100, total)),
+    blocked: gate.blocked,
+    breakdown,
+    errors: [...validation.errors, ...gate.errors, ...guardrails.errors, ...retention.errors],
+    warnings: [...validation.warnings, ...gate.warnings, ...guardrails.warnings],
+  };
+}
+
+/**
+ * Best draft first: unblocked before blocked, then by score, then generation order
+ */
+export function rankDrafts(drafts: ScoredDraft[]): ScoredDraft[] {
+  return [...drafts].sort(
+    (a, b) =>
+      Number(a.score.blocked) - Number(b.score.blocked) ||
+      b.score.score - a.score.score ||
+      a.draftNumber - b.draftNumber
+  );
+}
+
+/**
+ * Archive runners-up (and a summary of the whole run) for editorial review
+ */
+export async function archiveDrafts(slug: string, winner: ScoredDraft, runnersUp: ScoredDraft[]): Promise<string> {
+  const runId = new Date().toISOString().replace(/[:.]/g, '-');
+  const runDir = path.join(MULTI_DRAFT_CONFIG.archiveDir, slug, runId);
+  await fs.mkdir(runDir, { recursive: true });
+
+  const summary: DraftArchiveSummary = {
+    slug,
+    runId,
+    createdAt: new Date().toISOString(),
+    winner: winner.draftNumber,
+    drafts: [],
+  };
+
+  for (const draft of [winner, ...runnersUp]) {
+    const entry: DraftArchiveSummary['drafts'][number] = {
+      draftNumber: draft.draftNumber,
+      variant: draft.variant,
+      score: draft.score.score,
+      blocked: draft.score.blocked,
+      title: draft.doc.title,
+    };
+
+    if (draft !== winner) {
+      const file = `draft-${draft.draftNumber}.json`;
+      await writeJsonAtomic(path.join(runDir, file), {
+        slug,
+        runId,
+        draftNumber: draft.draftNumber,
+        variant: draft.variant,
+        score: draft.score,
+        doc: draft.doc,
+      });
+      entry.file = file;
+    }
+    summary.drafts.push(entry);
+  }
+
+  summary.drafts.sort((a, b) => a.draftNumber - b.draftNumber);
+  await writeJsonAtomic(path.join(runDir, 'summary.json'), summary);
+
+  return path.relative(process.cwd(), runDir);
+}
+
+/**
+ * Archived draft runs for a slug (newest first)
+ */
+export async function listDraftArchives(slug: string): Promise<DraftArchiveSummary[]> {
+  const slugDir = path.join(MULTI_DRAFT_CONFIG.archiveDir, slug);
+  let runIds: string[];
+  try {
+    runIds = await fs.readdir(slugDir);
+  } catch {
+    return []; // No archived drafts for this slug
+  }
+
+  const summaries: DraftArchiveSummary[] = [];
+  for (const runId of runIds) {
+    try {
+      const data = await fs.readFile(path.join(slugDir, runId, 'summary.json'), 'utf-8');
+      summaries.push(JSON.parse(data) as DraftArchiveSummary);
+    } catch {
+      logger.warn(`Skipping draft run without a readable summary: ${slug}/${runId}`);
+    }
+  }
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Generate a blog post, optionally as N drafts with the best one returned
+ * draftCount <= 1 is the plain single-draft generateBlogPost
+ */
+export async function generateBestBlogPost(
+  brief: ContentBrief,
+  draftCount: number = MULTI_DRAFT_CONFIG.drafts
+): Promise<BlogPostDoc> {
+  const count = Math.min(Math.max(1, Math.floor(draftCount) || 1), MULTI_DRAFT_CONFIG.maxDrafts);
+  if (count === 1) {
+    return generateBlogPost(brief);
+  }
+
+  logger.info(`Generating ${count} drafts for ${brief.slug}`);
+  const drafts: ScoredDraft[] = [];
+
+  // Sequential - drafts share the LLM budget and rate limits
+  for (let i = 0; i < count; i++) {
+    const variant = MULTI_DRAFT_CONFIG.variants[i % MULTI_DRAFT_CONFIG.variants.length];
+    try {
+      const doc = await generateBlogPost(brief, variant);
+      const score = scoreBlogDraft(doc);
+      drafts.push({ draftNumber: i + 1, variant, doc, score });
+      logger.info(
+        `Draft ${i + 1}/${count} (temp ${variant.temperature}, ${variant.angle || brief.angle}): ` +
+        `score ${score.score}${score.blocked ? ' (blocked by quality gate)' : ''}`
+      );
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      logger.warn(`Draft ${i + 1}/${count} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (drafts.length === 0) {
+    throw new Error(`All ${count} drafts failed for ${brief.slug}`);
+  }
+
+  const [winner, ...runnersUp] = rankDrafts(drafts);
+  logger.info(`Picked draft ${winner.draftNumber} (score ${winner.score.score}) for ${brief.slug}`);
+  if (winner.score.blocked) {
+    logger.warn('Every draft is blocked by the quality gate - publishing will fail on the best one');
+  }
+
+  if (runnersUp.length > 0) {
+    const archivePath = await archiveDrafts(brief.slug, winner, runnersUp);
+    logger.info(`Archived ${runnersUp.length} runner-up draft(s) to ${archivePath}`);
+  }
+
+  return winner.doc;
+}
+
+async function writeJsonAtomic(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,343 @@
+/**
+ * Near Duplicates - Corpus-wide overlap detection (keyword cannibalization)
+ *
+ * dedupe.ts only catches exact duplicates. Two pages can compete for the same query
+ * without sharing a sentence ("how-to-catch-trout" vs "how-to-catch-rainbow-trout"),
+ * or share most of their text under different titles, so each doc gets two signatures:
+ *
+ *   topic  - normalized tokens of the primary keyword + title (before any subtitle)
+ *   body   - MinHash over word shingles of the body (estimates shingle Jaccard)
+ *
+ * Overlap is the higher of the two similarities. Signatures are kept in
+ * content/_system/near-duplicate-index.json (gitignored) and only recomputed for
+ * docs whose content hash changed.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { GeneratedDoc, PageType } from './types';
+import { contentHash } from './dedupe';
+import { listPublishedDocs } from './publisher';
+import { NEAR_DUPLICATE_CONFIG } from './config';
+import { logger } from './logger';
+
+const NEAR_DUPLICATE_INDEX_PATH = path.join(process.cwd(), 'content', '_system', 'near-duplicate-index.json');
+const INDEX_VERSION = 1;
+
+// Words that say nothing about which query a page targets
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from',
+  'is', 'are', 'was', 'be', 'it', 'its', 'this', 'that', 'you', 'your', 'can', 'will', 'when', 'how',
+  'what', 'why', 'where', 'which', 'who', 'do', 'does', 'vs', 'versus', 'into', 'about', 'more', 'most',
+  // Site-wide vocabulary (every page is about fishing)
+  'fishing', 'fish', 'angler', 'anglers', 'guide', 'complete', 'ultimate', 'tips', 'tip', 'everything',
+]);
+
+export interface NearDuplicateEntry {
+  pageType: PageType;
+  slug: string;
+  title: string;
+  contentHash: string;
+  topicTokens: string[];
+  signature: number[]; // MinHash, empty for docs without a body
+}
+
+interface NearDuplicateIndexFile {
+  version: number;
+  updatedAt: string;
+  entries: NearDuplicateEntry[];
+}
+
+/**
+ * What a candidate (idea or doc) is compared on - body is optional (ideas have none yet)
+ */
+export interface OverlapCandidate {
+  slug: string;
+  title: string;
+  keyword?: string;
+  body?: string;
+}
+
+export interface OverlapMatch {
+  pageType: PageType;
+  slug: string;
+  title: string;
+  score: number; // max(topicSimilarity, bodySimilarity)
+  topicSimilarity: number;
+  bodySimilarity?: number;
+  sharedTokens: string[];
+}
+
+export interface CannibalizationPair {
+  a: Pick<NearDuplicateEntry, 'pageType' | 'slug' | 'title'>;
+  b: Pick<NearDuplicateEntry, 'pageType' | 'slug' | 'title'>;
+  score: number;
+  topicSimilarity: number;
+  bodySimilarity: number;
+  sharedTokens: string[];
+}
+
+/**
+ * Tokens that identify the query a page targets ("How to Catch Rainbow Trout: A Guide" → catch, rainbow, trout)
+ */
+export function topicTokens(candidate: Pick<OverlapCandidate, 'slug' | 'title' | 'keyword'>): string[] {
+  const titleHead = candidate.title.split(/:|\s[-–—|]\s/)[0];
+  const keyword = candidate.keyword || candidate.slug.split('/').pop()!.replace(/-/g, ' ');
+  return normalizeTokens(`${keyword} ${titleHead}`);
+}
+
+/**
+ * Distinct, singular, sorted content words of a phrase ("Best Bass Lures for Fishing" → bass, best, lure)
+ */
+export function normalizeTokens(text: string): string[] {
+  const tokens = text.toLowerCase().match(/[a-z0-9']+/g) || [];
+
+  return Array.from(
+    new Set(
+      tokens
+        .map((t) => t.replace(/'s$/, '').replace(/'/g, ''))
+        .filter((t) => t.length > 2 && !STOPWORDS.has(t))
+        .map(singularize)
+    )
+  ).sort();
+}
+
+function singularize(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) {
+    return `${token.slice(0, -3)}y`;
+  }
+  if (token.length > 3 && token.endsWith('s') && !/(ss|us|is)$/.test(token)) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+/**
+ * 32-bit FNV-1a hash, optionally seeded
+ */
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * MinHash signature over word shingles of a body
+ * The k-th hash is derived from two base hashes (h1 + k·h2), which is as good as
+ * k independent hash functions for MinHash and far cheaper
+ */
+export function minHashSignature(body: string): number[] {
+  const { shingleSize, signatureSize } = NEAR_DUPLICATE_CONFIG;
+  const words = body
+    .toLowerCase()
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Link text only
+    .match(/[a-z0-9']+/g) || [];
+  if (words.length < shingleSize) {
+    return [];
+  }
+
+  const signature = new Array<number>(signatureSize).fill(0xffffffff);
+  const seen = new Set<string>();
+  for (let i = 0; i + shingleSize <= words.length; i++) {
+    const shingle = words.slice(i, i + shingleSize).join(' ');
+    if (seen.has(shingle)) {
+      continue;
+    }
+    seen.add(shingle);
+
+    const h1 = fnv1a(shingle);
+    const h2 = fnv1a(shingle, 0x9747b28c) | 1;
+    for (let k = 0; k < signatureSize; k++) {
+      const value = (h1 + Math.imul(k, h2)) >>> 0;
+      if (value < signature[k]) {
+        signature[k] = value;
+      }
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated shingle Jaccard of two MinHash signatures (0 if either is empty)
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+/**
+ * Jaccard similarity of two topic token sets
+ */
+export function topicSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  const setB = new Set(b);
+  const shared = a.filter((t) => setB.has(t)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+function toEntry(doc: GeneratedDoc): NearDuplicateEntry {
+  return {
+    pageType: doc.pageType,
+    slug: doc.slug,
+    title: doc.title,
+    contentHash: contentHash(`${doc.title}\n${doc.primaryKeyword || ''}\n${doc.body || ''}`),
+    topicTokens: topicTokens({ slug: doc.slug, title: doc.title, keyword: doc.primaryKeyword }),
+    signature: doc.body ? minHashSignature(doc.body) : [],
+  };
+}
+
+async function loadIndexFile(): Promise<NearDuplicateIndexFile | null> {
+  try {
+    const file = JSON.parse(await fs.readFile(NEAR_DUPLICATE_INDEX_PATH, 'utf-8')) as NearDuplicateIndexFile;
+    return file.version === INDEX_VERSION ? file : null; // Older signatures are not comparable
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    logger.warn(`Near-duplicate index unreadable, rebuilding: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Bring the index in line with the published corpus and return its entries
+ * Unchanged docs (same content hash) keep their signatures; removed docs drop out
+ */
+export async function refreshNearDuplicateIndex(): Promise<NearDuplicateEntry[]> {
+  const existing = await loadIndexFile();
+  const byKey = new Map((existing?.entries || []).map((e) => [`${e.pageType}::${e.slug}`, e]));
+
+  let updated = 0;
+  const entries: NearDuplicateEntry[] = [];
+  for (const doc of await listPublishedDocs()) {
+    const key = `${doc.pageType}::${doc.slug}`;
+    const previous = byKey.get(key);
+    byKey.delete(key);
+    const hash = contentHash(`${doc.title}\n${doc.primaryKeyword || ''}\n${doc.body || ''}`);
+    if (previous && previous.contentHash === hash) {
+      entries.push(previous);
+    } else {
+      entries.push(toEntry(doc));
+      updated++;
+    }
+  }
+
+  const removed = byKey.size; // Entries left over are docs that no longer exist
+  if (!existing || updated > 0 || removed > 0) {
+    await saveIndexFile({ version: INDEX_VERSION, updatedAt: new Date().toISOString(), entries });
+    logger.info(`Near-duplicate index: ${entries.length} docs (${updated} updated, ${removed} removed)`);
+  }
+  return entries;
+}
+
+/**
+ * ATOMIC WRITE: temp file → rename
+ */
+async function saveIndexFile(file: NearDuplicateIndexFile): Promise<void> {
+  await fs.mkdir(path.dirname(NEAR_DUPLICATE_INDEX_PATH), { recursive: true });
+  const tempPath = `${NEAR_DUPLICATE_INDEX_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(file), 'utf-8');
+  await fs.rename(tempPath, NEAR_DUPLICATE_INDEX_PATH);
+}
+
+/**
+ * Published docs a candidate overlaps at or above the threshold, highest first
+ * The candidate's own slug is never a match (regenerating a post is not cannibalization)
+ */
+export function findOverlaps(
+  candidate: OverlapCandidate,
+  entries: NearDuplicateEntry[],
+  options: { threshold?: number; pageTypes?: PageType[] } = {}
+): OverlapMatch[] {
+  const threshold = options.threshold ?? NEAR_DUPLICATE_CONFIG.threshold;
+  const tokens = topicTokens(candidate);
+  const signature = candidate.body ? minHashSignature(candidate.body) : undefined;
+
+  const matches: OverlapMatch[] = [];
+  for (const entry of entries) {
+    if (entry.slug === candidate.slug || (options.pageTypes && !options.pageTypes.includes(entry.pageType))) {
+      continue;
+    }
+    const topic = topicSimilarity(tokens, entry.topicTokens);
+    const body = signature ? signatureSimilarity(signature, entry.signature) : undefined;
+    const score = Math.max(topic, body ?? 0);
+    if (score >= threshold) {
+      matches.push({
+        pageType: entry.pageType,
+        slug: entry.slug,
+        title: entry.title,
+        score,
+        topicSimilarity: topic,
+        bodySimilarity: body,
+        sharedTokens: tokens.filter((t) => entry.topicTokens.includes(t)),
+      });
+    }
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pre-generation check: published posts an idea would compete with (refreshes the index)
+ */
+export async function findIdeaOverlaps(
+  idea: { slug: string; title: string; keyword: string },
+  threshold?: number
+): Promise<OverlapMatch[]> {
+  const entries = await refreshNearDuplicateIndex();
+  return findOverlaps(idea, entries, { threshold, pageTypes: NEAR_DUPLICATE_CONFIG.ideaCheckPageTypes });
+}
+
+/**
+ * One-line reason for rejecting an idea ("Overlaps blog/how-to-catch-trout (0.67)")
+ */
+export function formatOverlap(matches: OverlapMatch[]): string {
+  const top = matches[0];
+  const more = matches.length > 1 ? ` and ${matches.length - 1} more` : '';
+  return `Overlaps ${top.pageType}/${top.slug} (${top.score.toFixed(2)})${more}`;
+}
+
+/**
+ * Every pair of published docs at or above the threshold, highest first
+ */
+export function findCannibalizationPairs(
+  entries: NearDuplicateEntry[],
+  options: { threshold?: number; pageType?: PageType } = {}
+): CannibalizationPair[] {
+  const threshold = options.threshold ?? NEAR_DUPLICATE_CONFIG.threshold;
+  const pool = options.pageType ? entries.filter((e) => e.pageType === options.pageType) : entries;
+
+  const pairs: CannibalizationPair[] = [];
+  for (let i = 0; i < pool.length; i++) {
+    for (let j = i + 1; j < pool.length; j++) {
+      const a = pool[i];
+      const b = pool[j];
+      const topic = topicSimilarity(a.topicTokens, b.topicTokens);
+      const body = signatureSimilarity(a.signature, b.signature);
+      const score = Math.max(topic, body);
+      if (score >= threshold) {
+        pairs.push({
+          a: { pageType: a.pageType, slug: a.slug, title: a.title },
+          b: { pageType: b.pageType, slug: b.slug, title: b.title },
+          score,
+          topicSimilarity: topic,
+          bodySimilarity: body,
+          sharedTokens: a.topicTokens.filter((t) => b.topicTokens.includes(t)),
+        });
+      }
+    }
+  }
+  return pairs.sort((x, y) => y.score - x.score);
+}
@@ -4,6 +4,8 @@
  */
 
 import { logger } from './logger';
+import { cassetteFetch, isReplaying } from './cassette';
+import { assertWithinBudget, recordCost, estimatePerplexityCost, BudgetExceededError } from './cost-tracker';
 
 const PERPLEXITY_API_KEY = process.env.PERPLEXITY_API_KEY;
 const PERPLEXITY_API_URL = 'https://api.perplexity.ai/chat/completions';
@@ -51,7 +53,7 @@ export async function researchTopic(
   query: string,
   options: PerplexityOptions = {}
 ): Promise<PerplexityResponse> {
-  if (!PERPLEXITY_API_KEY) {
+  if (!PERPLEXITY_API_KEY && !isReplaying()) {
     throw new Error('PERPLEXITY_API_KEY environment variable is required');
   }
 
@@ -81,7 +83,11 @@ export async function researchTopic(
     try {
       logger.debug(`Trying Perplexity model: ${model}`);
       
-      const response = await fetch(PERPLEXITY_API_URL, {
+      if (!isReplaying()) {
+        assertWithinBudget('perplexity', estimatePerplexityCost(Math.ceil(query.length / 4) + maxTokens));
+      }
+      
+      const response = await cassetteFetch('perplexity', PERPLEXITY_API_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -125,6 +131,10 @@ export async function researchTopic(
       logger.info(`✅ Successfully used Perplexity model: ${model}`);
       const data = await response.json();
 
+      if (!isReplaying()) {
+        await recordCost('perplexity', model, estimatePerplexityCost(data.usage?.total_tokens || 0));
+      }
+
       // Extract answer
       const answer = data.choices[0]?.message?.content || '';
       
@@ -166,6 +176,11 @@ export async function researchTopic(
       return result;
       
     } catch (error) {
+      // Budget refusals apply to every model - stop trying
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
+      
       // If this is the last model to try, throw the error
       if (model === modelsToTry[modelsToTry.length - 1]) {
         logger.error('All Perplexity models failed. Last error:', error);
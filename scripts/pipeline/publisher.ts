@@ -3,10 +3,11 @@
  * WITH SAFEGUARDS: Prevents duplicates, validates fields, atomic index updates
  */
 
-import { GeneratedDoc } from './types';
+import { GeneratedDoc, PageType } from './types';
 import { markPublished } from './topicIndex';
 import { contentHash, topicKeyExists } from './dedupe';
 import { logger } from './logger';
+import { summarizeReadability } from '../../lib/editorial/guardrails';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -321,6 +322,33 @@ export async function publishDoc(doc: GeneratedDoc): Promise<{ routePath: string
   // If topicKey is published with same slug, we already returned above
   // If topicKey is published with different slug, that's a conflict (handled above)
 
+  // SAFEGUARD 3.5: Keyword ownership - one doc per primary keyword (cannibalization guard)
+  const { buildKeywordRegistry, checkKeywordOwnership } = await import('./keyword-registry');
+  const keywordConflicts = checkKeywordOwnership(doc, buildKeywordRegistry(contentIndex));
+  const blockingConflicts = keywordConflicts.filter((c) => c.severity === 'block');
+  if (blockingConflicts.length > 0) {
+    throw new PublishError(
+      `Keyword conflict:\n${blockingConflicts.map((c) => `  - ${c.message}`).join('\n')}`,
+      'KEYWORD_CONFLICT'
+    );
+  }
+  keywordConflicts.forEach((c) => logger.warn(`Keyword overlap: ${c.message}`));
+
+  // Editorial workflow: pipeline docs go live now, or wait for review (EDITORIAL_CONFIG.pipelineStatus)
+  if (!fileExists && !doc.editorial) {
+    const { EDITORIAL_CONFIG } = await import('./config');
+    const status = doc.flags.draft ? 'draft' : EDITORIAL_CONFIG.pipelineStatus;
+    doc.editorial = {
+      status,
+      ...(status === 'in-review' && EDITORIAL_CONFIG.reviewer ? { reviewer: EDITORIAL_CONFIG.reviewer } : {}),
+      history: status === 'draft' ? [] : [{ from: 'draft', to: status, by: 'pipeline', at: new Date().toISOString() }],
+    };
+    doc.flags = { ...doc.flags, draft: status !== 'published' };
+    if (status === 'in-review') {
+      logger.info(`📝 Publishing as in-review${EDITORIAL_CONFIG.reviewer ? ` (reviewer: ${EDITORIAL_CONFIG.reviewer})` : ''} - approve it in the admin to go live`);
+    }
+  }
+
   // SAFEGUARD 4: Validate JSON structure before writing
   logger.info('Validating JSON structure...');
   validateJSON(doc);
@@ -338,6 +366,19 @@ export async function publishDoc(doc: GeneratedDoc): Promise<{ routePath: string
       await atomicWrite(filePath, JSON.stringify(doc, null, 2));
       fileWritten = true;
       logger.info(`✅ File written successfully`);
+
+      // Revision history (non-blocking - a missing revision is recorded as untracked on the next save)
+      try {
+        const { recordRevision } = await import('../../lib/content/revisions');
+        const revision = await recordRevision(doc.pageType, doc.slug, doc as unknown as Record<string, unknown>, {
+          source: 'pipeline',
+          author: 'pipeline',
+          reason: 'Published',
+        });
+        logger.info(`✅ Recorded revision ${revision.number}`);
+      } catch (error) {
+        logger.warn('Recording revision failed (non-blocking):', error);
+      }
     } else {
       logger.info(`⏭️  File already exists, skipping write: ${filePath}`);
       // Verify existing file is valid (sanity check)
@@ -391,6 +432,7 @@ export async function publishDoc(doc: GeneratedDoc): Promise<{ routePath: string
             category: 'categorySlug' in doc ? doc.categorySlug : 'category' in doc ? doc.category : undefined,
             keywords: [doc.primaryKeyword, ...doc.secondaryKeywords],
             tags: 'tags' in doc ? doc.tags : undefined,
+            readability: summarizeReadability(doc.body, doc.angle),
           };
 
           switch (doc.pageType) {
@@ -447,6 +489,7 @@ export async function publishDoc(doc: GeneratedDoc): Promise<{ routePath: string
                   draft: blogDoc.flags.draft || false,
                   noindex: blogDoc.flags.noindex || false,
                 },
+                status: blogDoc.editorial?.status,
                 // Optional fields (limited arrays)
                 heroImage: blogDoc.heroImage,
                 featuredImage: blogDoc.featuredImage,
@@ -454,6 +497,7 @@ export async function publishDoc(doc: GeneratedDoc): Promise<{ routePath: string
                 keywords: [blogDoc.primaryKeyword, ...blogDoc.secondaryKeywords].slice(0, 10),
                 // Limit tags to first 5 (for listing/filtering)
                 tags: blogDoc.tags ? blogDoc.tags.slice(0, 5) : undefined,
+                readability: summarizeReadability(blogDoc.body, blogDoc.angle),
               };
               
               // Validate index entry (ensures no heavy data) - imported before callback
@@ -583,6 +627,67 @@ export async function publishDoc(doc: GeneratedDoc): Promise<{ routePath: string
   }
 }
 
+/**
+ * Load a published doc by slug (location slugs are "<state>/<city>")
+ * Looks in every page type's directory unless pageType is given; null if not found
+ */
+export async function loadPublishedDoc(slug: string, pageType?: PageType): Promise<GeneratedDoc | null> {
+  const dirs: Record<PageType, string> = { blog: 'blog', species: 'species', 'how-to': 'how-to', location: 'locations' };
+  const pageTypes = pageType ? [pageType] : (Object.keys(dirs) as PageType[]);
+
+  for (const type of pageTypes) {
+    const filePath = path.join(process.cwd(), 'content', dirs[type], `${slug}.json`);
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8')) as GeneratedDoc;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Every published doc (optionally of one page type), skipping files that do not parse
+ */
+export async function listPublishedDocs(pageType?: PageType): Promise<GeneratedDoc[]> {
+  const dirs: Record<PageType, string> = { blog: 'blog', species: 'species', 'how-to': 'how-to', location: 'locations' };
+  const pageTypes = pageType ? [pageType] : (Object.keys(dirs) as PageType[]);
+  const docs: GeneratedDoc[] = [];
+
+  const readDir = async (dir: string): Promise<string[]> => {
+    try {
+      return await fs.readdir(dir);
+    } catch {
+      return []; // No directory for this page type yet
+    }
+  };
+  const readDoc = async (filePath: string): Promise<void> => {
+    try {
+      docs.push(JSON.parse(await fs.readFile(filePath, 'utf-8')) as GeneratedDoc);
+    } catch (error) {
+      logger.warn(`Skipping unreadable doc ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  for (const type of pageTypes) {
+    const baseDir = path.join(process.cwd(), 'content', dirs[type]);
+    if (type === 'location') {
+      for (const stateSlug of await readDir(baseDir)) {
+        for (const file of (await readDir(path.join(baseDir, stateSlug))).filter((f) => f.endsWith('.json'))) {
+          await readDoc(path.join(baseDir, stateSlug, file));
+        }
+      }
+      continue;
+    }
+    for (const file of (await readDir(baseDir)).filter((f) => f.endsWith('.json'))) {
+      await readDoc(path.join(baseDir, file));
+    }
+  }
+  return docs;
+}
+
 /**
  * Get file path for document
  */
@@ -1,10 +1,23 @@
 /**
  * Quality Gate - Fast, automated pre-publish checks
  * Blocks publishing if content fails critical quality checks
+ *
+ * The checks are named rules (quality-rules.ts). Which rules run for a page type,
+ * their severity and options come from the rule defaults, overridden by
+ * content/_system/quality-gate.json (tracked):
+ *
+ *   rules.<id>             enabled / severity / options / pageTypes (rule set membership)
+ *   pageTypes.<type>.<id>  enabled / severity / options for one page type
  */
 
-import { GeneratedDoc } from './types';
+import fs from 'fs';
+import path from 'path';
+import { GeneratedDoc, PageType } from './types';
 import { logger } from './logger';
+import { QUALITY_RULES, QualityRule, RuleOptions, RuleSeverity } from './quality-rules';
+
+const RULES_CONFIG_PATH = path.join(process.cwd(), 'content', '_system', 'quality-gate.json');
+const PAGE_TYPES: PageType[] = ['blog', 'species', 'how-to', 'location'];
 
 /**
  * Quality gate result
@@ -14,530 +27,195 @@ export interface QualityGateResult {
   blocked: boolean; // If true, publishing should be blocked
   errors: string[];
   warnings: string[];
+  flaggedSections: FlaggedSection[]; // Blocking errors traced to H2 sections (regenerable one by one)
+  rules: RuleOutcome[]; // Every rule, including the ones that did not run
 }
 
 /**
- * Run quality gate checks before publishing
- * Fast, automated checks that block bad posts
+ * H2 section of the body that caused blocking errors
  */
-export function runQualityGate(doc: GeneratedDoc): QualityGateResult {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  const bodyLower = doc.body.toLowerCase();
-  const bodyText = doc.body;
-
-  // ============================================
-  // 1. MISSING CTA BLOCKS CHECK (REQUIRED FOR BLOG POSTS)
-  // ============================================
-  logger.info('Quality Gate: Checking for CTA blocks...');
-
-  if (doc.pageType === 'blog') {
-    // FIRST: Check for structured CTAs (preferred method)
-    const blogDoc = doc as Extract<GeneratedDoc, { pageType: 'blog' }>;
-    const hasStructuredCTAs = blogDoc.ctas && Array.isArray(blogDoc.ctas) && blogDoc.ctas.length > 0;
-    const hasTopStructuredCTA = hasStructuredCTAs && blogDoc.ctas!.some(cta => cta.position === 'top');
-    const hasEndStructuredCTA = hasStructuredCTAs && blogDoc.ctas!.some(cta => cta.position === 'end');
-    
-    // If structured CTAs exist, use them (they're rendered by AppCTA component)
-    let hasTopHalfCTA = hasTopStructuredCTA;
-    let hasBottomHalfCTA = hasEndStructuredCTA;
-    
-    // FALLBACK: Check body text for CTA patterns (for backwards compatibility)
-    if (!hasTopHalfCTA || !hasBottomHalfCTA) {
-      const ctaPatterns = [
-        /download tackle|tackle app|get tackle|install tackle/i,
-        /\[download tackle\]|\[get tackle\]|\[install tackle\]/i,
-        /\/download/i,
-        /what to do next.*download/i,
-        /ready to.*download/i,
-        /get.*tackle.*iphone/i,
-      ];
+export interface FlaggedSection {
+  heading: string;
+  errors: string[];
+}
 
-      // Split content into halves for placement checking
-      const wordCount = bodyText.split(/\s+/).length;
-      const midPoint = Math.floor(wordCount / 2);
-      const words = bodyText.split(/\s+/);
-      const topHalf = words.slice(0, midPoint).join(' ');
-      
-      // Check for CTA in top half (if not already found in structured CTAs)
-      if (!hasTopHalfCTA) {
-        for (const pattern of ctaPatterns) {
-          if (pattern.test(topHalf)) {
-            hasTopHalfCTA = true;
-            break;
-          }
-        }
-      }
+/**
+ * What one rule did for a doc
+ */
+export interface RuleOutcome {
+  id: string;
+  description: string;
+  severity: RuleSeverity;
+  status: 'passed' | 'failed' | 'warned' | 'skipped'; // failed = blocked publishing
+  skipReason?: 'disabled' | 'not in page type rule set';
+  findings: string[]; // As reported in errors / warnings
+}
 
-      // Check for CTA in bottom half (last 40% of content)
-      if (!hasBottomHalfCTA) {
-        const bottomStart = Math.floor(wordCount * 0.6);
-        const bottomSection = words.slice(bottomStart).join(' ');
-        for (const pattern of ctaPatterns) {
-          if (pattern.test(bottomSection)) {
-            hasBottomHalfCTA = true;
-            break;
-          }
-        }
-      }
-    }
+/**
+ * Override for one rule (all fields optional)
+ */
+export interface RuleOverride {
+  enabled?: boolean;
+  severity?: RuleSeverity;
+  options?: RuleOptions;
+  pageTypes?: PageType[] | 'all'; // Global overrides only
+}
 
-    // Check for value proposition in CTA
-    const hasValueProp = 
-      /real-time|live conditions|tide|wind|weather|ai fish|fish id|log catch|track|personalized/i.test(bodyText);
+export interface QualityGateConfigFile {
+  version: string;
+  rules?: Record<string, RuleOverride>;
+  pageTypes?: Partial<Record<PageType, Record<string, Omit<RuleOverride, 'pageTypes'>>>>;
+}
 
-    // BLOCKING: Must have CTA in top half
-    if (!hasTopHalfCTA) {
-      errors.push(
-        'BLOCKED: Missing required App CTA in top half of content. ' +
-        'Blog posts must include at least one call-to-action for the Tackle app in the first half of the content.'
-      );
-    }
+/**
+ * A rule as configured for one page type
+ */
+export interface ResolvedRule {
+  rule: QualityRule;
+  enabled: boolean;
+  inRuleSet: boolean; // Page type is in the rule's rule set
+  severity: RuleSeverity;
+  options: RuleOptions;
+}
 
-    // BLOCKING: Must have CTA near the end
-    if (!hasBottomHalfCTA) {
-      errors.push(
-        'BLOCKED: Missing required App CTA near the end. ' +
-        'Blog posts must include at least one call-to-action for the Tackle app in the last 40% of the content.'
-      );
-    }
+let cachedConfig: QualityGateConfigFile | null = null;
 
-    // WARNING: Missing value proposition
-    if (hasTopHalfCTA && hasBottomHalfCTA && !hasValueProp) {
-      warnings.push('CTA found but missing value proposition (real-time conditions, AI fish ID, etc.)');
-    }
+/**
+ * Load and validate content/_system/quality-gate.json (no file = rule defaults)
+ * Cached for the process - the gate runs synchronously and often (multi-draft scoring)
+ */
+export function loadQualityGateConfig(): QualityGateConfigFile {
+  if (cachedConfig) {
+    return cachedConfig;
   }
 
-  // ============================================
-  // 2. REGULATIONS BLOCK CHECK (REQUIRED FOR BLOG POSTS)
-  // ============================================
-  logger.info('Quality Gate: Checking for regulations block...');
-
-  if (doc.pageType === 'blog') {
-    // Check for neutral "See local regulations" text (required)
-    // NOTE: RegulationsBlock component renders this automatically, so this is just a warning
-    const hasRegulationsBlock = 
-      /see local regulations|check.*local regulations|consult.*local regulations|see.*regulations/i.test(bodyText) ||
-      /regulations.*change|always verify.*regulations|check.*regulations.*official/i.test(bodyText);
-
-    // WARNING: RegulationsBlock component should handle this, but check body text as fallback
-    if (!hasRegulationsBlock) {
-      warnings.push(
-        'Body text does not mention regulations - ensure RegulationsBlock component is rendered on the page.'
-      );
+  let file: QualityGateConfigFile;
+  try {
+    file = JSON.parse(fs.readFileSync(RULES_CONFIG_PATH, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return (cachedConfig = { version: '1.0.0' });
     }
+    throw new Error(`Failed to load ${RULES_CONFIG_PATH}: ${error instanceof Error ? error.message : String(error)}`);
   }
 
-  // ============================================
-  // 3. REGULATIONS SPECIFICS CHECK (CRITICAL - BLOCK IF FOUND)
-  // Uses robust blocklist with allowlist for safe neutral reminders
-  // ============================================
-  logger.info('Quality Gate: Checking for regulations specifics...');
-
-  // ALLOWLIST: Safe neutral phrases that should NOT trigger blocklist
-  // These are exempt from regulations detection
-  const safeAllowlistPatterns = [
-    /see local regulations/i,
-    /check local regulations/i,
-    /consult local regulations/i,
-    /see.*local.*rules/i,
-    /check.*local.*rules/i,
-    /verify.*local.*regulations/i,
-    /always verify.*regulations/i,
-    /check.*regulations.*official/i,
-    /regulations.*change/i,
-    /regulations.*vary/i,
-    /local.*regulations.*apply/i,
-    /regulations.*differ/i,
-    /check.*official.*regulations/i,
-    /consult.*official.*sources/i,
-    /refer.*to.*local.*regulations/i,
-  ];
-
-  // Check if text contains safe allowlist phrases
-  const hasSafePhrase = safeAllowlistPatterns.some(pattern => pattern.test(bodyText));
-
-  // BAG LIMIT PATTERNS - "X fish per day" variations
-  const bagLimitPatterns = [
-    // Direct patterns: "5 fish per day", "10 fish per person"
-    /\d+\s+fish\s+per\s+(day|person|angler|trip)/i,
-    /\d+\s+fish\s+(per|each)\s+(day|person|angler|trip)/i,
-    // Limit patterns: "bag limit of 5", "daily limit 10"
-    /bag limit.*\d+/i,
-    /daily limit.*\d+/i,
-    /harvest limit.*\d+/i,
-    /possession limit.*\d+/i,
-    /creel limit.*\d+/i,
-    /catch limit.*\d+/i,
-    // Action patterns: "keep 5 fish", "take up to 10"
-    /keep.*\d+\s+fish/i,
-    /take.*\d+\s+fish/i,
-    /retain.*\d+\s+fish/i,
-    /maximum.*\d+\s+fish/i,
-    /limit.*\d+\s+fish/i,
-    /up to.*\d+\s+fish/i,
-    // Possession patterns
-    /possess.*\d+\s+fish/i,
-    /possession.*\d+/i,
-    // Combined patterns
-    /\d+\s+fish.*limit/i,
-    /limit.*\d+.*fish/i,
-  ];
-
-  // SIZE LIMIT PATTERNS - "minimum X inches" variations
-  // Only catch fish size limits, not hook/lure/gear sizes
-  // Exclude contexts like "hook size", "line size", "lure size" - these are gear specs, not regulations
-  const bodyForSizeCheck = bodyText.replace(/hook size|line size|lure size|rod size|reel size|gear size|equipment size|leader size/gi, '');
-  const sizeLimitPatterns = [
-    // Slot patterns (always about fish)
-    /slot limit.*\d+/i,
-    /slot.*\d+.*\d+/i,
-    // Fish size limit patterns (must mention fish species)
-    /(fish|snook|redfish|bass|trout|tarpon|grouper|snapper).*size limit.*\d+/i,
-    /size limit.*\d+.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    // Minimum patterns for fish: "minimum 14 inches" when about fish
-    /minimum.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /at least.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /no less than.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /must be.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /must measure.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    // Maximum patterns for fish
-    /maximum.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /no more than.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /must not exceed.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    // Slot patterns: "14-20 inch slot" when about fish
-    /\d+\s*-\s*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /\d+\s*to\s*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /between.*\d+.*and.*\d+.*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /from.*\d+.*to.*\d+.*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    // Measurement patterns for fish
-    /\d+\s*inch.*minimum.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /\d+\s*inch.*maximum.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-    /\d+\s*inch.*limit.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
-  ];
-
-  // POSSESSION LIMIT PATTERNS - "possession limit" variations
-  const possessionLimitPatterns = [
-    /possession limit.*\d+/i,
-    /possess.*\d+\s+fish/i,
-    /possession.*\d+/i,
-    /total possession.*\d+/i,
-    /combined possession.*\d+/i,
-    /aggregate possession.*\d+/i,
+  const knownIds = new Set(QUALITY_RULES.map((r) => r.id));
+  const overrides: Array<[string, RuleOverride]> = [
+    ...Object.entries(file.rules || {}),
+    ...Object.values(file.pageTypes || {}).flatMap((rules) => Object.entries(rules || {})),
   ];
-
-  // SEASON/DATE PATTERNS - "closed season" variations
-  const seasonPatterns = [
-    // Closed season patterns
-    /closed.*season/i,
-    /closed.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    /closed.*from.*to/i,
-    /closed.*between/i,
-    /no fishing.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    /fishing.*closed.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    // Open season patterns
-    /open.*season/i,
-    /open.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    /season runs.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    /fishing.*open.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    // Date range patterns
-    /season.*(january|february|march|april|may|june|july|august|september|october|november|december).*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
-    /closed.*\d+\/\d+.*\d+\/\d+/i, // Closed 1/1 to 3/31
-    /open.*\d+\/\d+.*\d+\/\d+/i, // Open 4/1 to 12/31
-  ];
-
-  // LEGAL CLAIM PATTERNS
-  const legalClaimPatterns = [
-    /illegal to/i,
-    /illegal.*fish/i,
-    /against the law/i,
-    /violation.*fine/i,
-    /subject to fine/i,
-    /fined.*\d+/i,
-    /penalty.*\d+/i,
-    /must have.*license/i,
-    /required.*permit/i,
-    /required.*license/i,
-    /legal requirement/i,
-    /mandatory.*license/i,
-    /mandatory.*permit/i,
-    /law requires/i,
-    /legally required/i,
-    /prohibited by law/i,
-  ];
-
-  /**
-   * Check if a match is in a safe context (near allowlist phrase)
-   * This prevents false positives when safe phrases are nearby
-   */
-  function isInSafeContext(matchIndex: number, matchLength: number, text: string): boolean {
-    if (hasSafePhrase) {
-      // If safe phrase exists anywhere, check if match is in same sentence/paragraph
-      const contextStart = Math.max(0, matchIndex - 200); // 200 chars before
-      const contextEnd = Math.min(text.length, matchIndex + matchLength + 200); // 200 chars after
-      const context = text.substring(contextStart, contextEnd);
-      
-      // If context contains safe phrase, it's likely a false positive
-      return safeAllowlistPatterns.some(pattern => pattern.test(context));
+  for (const [id, override] of overrides) {
+    if (!knownIds.has(id)) {
+      throw new Error(`Unknown quality gate rule in ${RULES_CONFIG_PATH}: ${id}`);
     }
-    return false;
-  }
-
-  /**
-   * Check patterns with context awareness
-   */
-  function checkPatternsWithContext(patterns: RegExp[], errorMessage: string): void {
-    for (const pattern of patterns) {
-      const matches = [...bodyText.matchAll(new RegExp(pattern.source, pattern.flags + 'g'))];
-      
-      for (const match of matches) {
-        if (match.index !== undefined) {
-          // Check if match is in safe context
-          if (!isInSafeContext(match.index, match[0].length, bodyText)) {
-            errors.push(errorMessage);
-            return; // Only report once per category
-          }
-        }
-      }
-    }
-  }
-
-  // Check for bag limits (with allowlist protection)
-  checkPatternsWithContext(
-    bagLimitPatterns,
-    'BLOCKED: Content contains specific bag limit information (e.g., "X fish per day"). Remove all bag limit numbers. Use "See local regulations" instead.'
-  );
-
-  // Check for size limits (with allowlist protection)
-  // Use filtered text that excludes gear sizes
-  // Create a modified checkPatternsWithContext that uses bodyForSizeCheck
-  for (const pattern of sizeLimitPatterns) {
-    const matches = [...bodyForSizeCheck.matchAll(new RegExp(pattern.source, pattern.flags + 'g'))];
-    
-    for (const match of matches) {
-      if (match.index !== undefined) {
-        // Check if match is in safe context (using original bodyText for context check)
-        if (!isInSafeContext(match.index, match[0].length, bodyText)) {
-          errors.push('BLOCKED: Content contains specific size limit information (e.g., "minimum X inches"). Remove all size measurements. Use "See local regulations" instead.');
-          break; // Only report once
-        }
-      }
+    if (override.severity && override.severity !== 'block' && override.severity !== 'warn') {
+      throw new Error(`Rule ${id} has invalid severity "${override.severity}" (block | warn)`);
     }
-    if (errors.some(e => e.includes('size limit'))) break; // Stop checking if we found one
   }
-
-  // Check for possession limits (with allowlist protection)
-  checkPatternsWithContext(
-    possessionLimitPatterns,
-    'BLOCKED: Content contains specific possession limit information. Remove all possession limit numbers. Use "See local regulations" instead.'
-  );
-
-  // Check for closed seasons (with allowlist protection)
-  checkPatternsWithContext(
-    seasonPatterns,
-    'BLOCKED: Content contains specific season/date information (e.g., "closed season", specific months). Remove all specific dates. Use "See local regulations" instead.'
-  );
-
-  // Check for legal claims (with allowlist protection)
-  checkPatternsWithContext(
-    legalClaimPatterns,
-    'BLOCKED: Content makes legal claims (e.g., "illegal", "against the law", "required license"). Remove all legal advice and requirements. Use "See local regulations" instead.'
-  );
-
-  // ============================================
-  // 4. PRACTICAL STEPS CHECK (REQUIRED FOR BLOG POSTS)
-  // ============================================
-  logger.info('Quality Gate: Checking for practical steps...');
-
-  if (doc.pageType === 'blog') {
-    // Check for numbered steps
-    const hasNumberedSteps = 
-      /step \d+|step-by-step|^\d+\./m.test(bodyText) ||
-      (bodyText.match(/^\d+\./gm) || []).length >= 3;
-
-    // Check for instruction patterns
-    const hasInstructions = 
-      /how to|instructions|guide|tutorial|process|method|technique|follow these|do this/i.test(bodyText);
-
-    // Check for actionable content (not just fluff)
-    const hasActionableContent = 
-      /first.*second.*third|begin by|start with|next.*then|finally|in conclusion.*action/i.test(bodyText);
-
-    // Check for substantial instructional paragraphs
-    const paragraphs = bodyText.split(/\n\n/).filter(p => p.trim().length > 0);
-    const instructionalParagraphs = paragraphs.filter(p => 
-      /step|instruction|guide|how|method|technique|process|procedure|action|do|make|create|build|tie|attach|connect/i.test(p)
-    );
-
-    // BLOCKING: Must have practical steps or instructions
-    if (!hasNumberedSteps && !hasInstructions && !hasActionableContent) {
-      errors.push(
-        'BLOCKED: Content lacks practical steps or instructions. ' +
-        'Blog posts must include actionable steps, numbered instructions, or clear how-to guidance (not just fluff).'
-      );
-    } else if (!hasNumberedSteps && instructionalParagraphs.length < 3) {
-      errors.push(
-        'BLOCKED: Content lacks sufficient practical steps. ' +
-        'Blog posts must include at least 3 instructional paragraphs with actionable steps or numbered instructions.'
-      );
+  for (const pageType of Object.keys(file.pageTypes || {})) {
+    if (!PAGE_TYPES.includes(pageType as PageType)) {
+      throw new Error(`Unknown page type in ${RULES_CONFIG_PATH}: ${pageType}`);
     }
   }
 
-  // ============================================
-  // 5. THIN CONTENT CHECK
-  // ============================================
-  logger.info('Quality Gate: Checking for thin content...');
-
-  const wordCount = bodyText.split(/\s+/).length;
-  const minWords = doc.pageType === 'blog' ? 880 : 1000; // Lowered from 900 to allow small margin
-
-  if (wordCount < minWords) {
-    errors.push(`BLOCKED: Content too short (${wordCount} words, minimum ${minWords}). Thin content detected.`);
-  }
-
-  // Additional thin content check for how-to (blog already checked above)
-  if (doc.pageType === 'how-to') {
-    const hasSteps = 
-      /step \d+|step-by-step|first.*second.*third|1\.|2\.|3\./i.test(bodyText) ||
-      (bodyText.match(/^\d+\./gm) || []).length >= 3;
-
-    const hasInstructions = 
-      /how to|instructions|guide|tutorial|process|method|technique/i.test(bodyText);
-
-    if (!hasSteps && !hasInstructions) {
-      errors.push('BLOCKED: Content lacks actionable steps or instructions. Thin content detected.');
-    } else if (!hasSteps && wordCount < 1200) {
-      warnings.push('Content mentions instructions but lacks numbered steps. Consider adding step-by-step format.');
-    }
-  }
+  return (cachedConfig = file);
+}
 
-  // Check for substantial paragraphs (not just fluff)
-  const paragraphs = bodyText.split(/\n\n/).filter(p => p.trim().length > 0);
-  const substantialParagraphs = paragraphs.filter(p => p.split(/\s+/).length >= 50);
-  
-  if (substantialParagraphs.length < 3) {
-    warnings.push(`Only ${substantialParagraphs.length} substantial paragraphs found. Content may be thin.`);
-  }
+/**
+ * Every rule as configured for a page type (rule defaults → rules.<id> → pageTypes.<type>.<id>)
+ */
+export function resolveRules(pageType: PageType, config: QualityGateConfigFile = loadQualityGateConfig()): ResolvedRule[] {
+  return QUALITY_RULES.map((rule) => {
+    const override = config.rules?.[rule.id] || {};
+    const typeOverride = config.pageTypes?.[pageType]?.[rule.id] || {};
+    const ruleSet = override.pageTypes || rule.pageTypes;
+    const inRuleSet = ruleSet === 'all' || ruleSet.includes(pageType);
+
+    return {
+      rule,
+      inRuleSet,
+      enabled: typeOverride.enabled ?? (inRuleSet && (override.enabled ?? true)),
+      severity: typeOverride.severity || override.severity || rule.severity,
+      options: {
+        ...rule.options,
+        ...rule.pageTypeOptions?.[pageType],
+        ...override.options,
+        ...typeOverride.options,
+      },
+    };
+  });
+}
 
-  // Check heading-to-content ratio (too many headings, not enough content)
-  const headingCount = doc.headings.length;
-  const wordsPerHeading = wordCount / Math.max(headingCount, 1);
-  if (wordsPerHeading < 100 && headingCount > 5) {
-    warnings.push(`Low content-to-heading ratio (${Math.round(wordsPerHeading)} words/heading). Content may be thin.`);
-  }
+/**
+ * Run quality gate checks before publishing
+ * Fast, automated checks that block bad posts
+ */
+export function runQualityGate(doc: GeneratedDoc): QualityGateResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const outcomes: RuleOutcome[] = [];
+  const bodyText = doc.body;
 
-  // ============================================
-  // 6. KEYWORD STUFFING CHECK
-  // ============================================
-  logger.info('Quality Gate: Checking for keyword stuffing...');
+  // Where each blocking error occurs (null = outside any H2 section, e.g. the intro)
+  const errorLocations = new Map<string, Set<string | null>>();
 
-  // Calculate keyword density
-  const primaryKeyword = doc.primaryKeyword.toLowerCase();
-  const primaryKeywordCount = (bodyLower.match(new RegExp(primaryKeyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length;
-  const primaryKeywordDensity = (primaryKeywordCount / wordCount) * 100;
+  const resolved = resolveRules(doc.pageType);
+  logger.info(`Quality Gate: Running ${resolved.filter((r) => r.enabled).length} rules for ${doc.pageType}...`);
 
-  // Check for excessive primary keyword usage
-  if (primaryKeywordDensity > 3) {
-    errors.push(
-      `BLOCKED: Keyword stuffing detected. Primary keyword "${primaryKeyword}" appears ${primaryKeywordCount} times ` +
-      `(${primaryKeywordDensity.toFixed(1)}% density, maximum 3%).`
-    );
-  } else if (primaryKeywordDensity > 2) {
-    warnings.push(
-      `High keyword density: ${primaryKeywordDensity.toFixed(1)}% for "${primaryKeyword}". Consider reducing usage.`
-    );
-  }
+  const shared = {
+    doc,
+    body: bodyText,
+    bodyLower: bodyText.toLowerCase(),
+    wordCount: bodyText.split(/\s+/).length,
+    sentences: bodyText.split(/[.!?]+/).filter((s) => s.trim().length > 20),
+  };
 
-  // Check for repetitive keyword phrases
-  const keywordPhrases = doc.secondaryKeywords.slice(0, 5);
-  for (const phrase of keywordPhrases) {
-    const phraseLower = phrase.toLowerCase();
-    const phraseCount = (bodyLower.match(new RegExp(phraseLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length;
-    const phraseDensity = (phraseCount / wordCount) * 100;
-    
-    if (phraseDensity > 2) {
-      warnings.push(`High density for secondary keyword "${phrase}": ${phraseDensity.toFixed(1)}%`);
+  for (const { rule, enabled, inRuleSet, severity, options } of resolved) {
+    const outcome: RuleOutcome = { id: rule.id, description: rule.description, severity, status: 'passed', findings: [] };
+    outcomes.push(outcome);
+    if (!enabled) {
+      outcome.status = 'skipped';
+      outcome.skipReason = inRuleSet ? 'disabled' : 'not in page type rule set';
+      continue;
     }
-  }
 
-  // Check for unnatural keyword repetition (same keyword in consecutive sentences)
-  const sentences = bodyText.split(/[.!?]+/).filter(s => s.trim().length > 20);
-  let consecutiveKeywordCount = 0;
-  for (let i = 0; i < sentences.length - 1; i++) {
-    const current = sentences[i].toLowerCase();
-    const next = sentences[i + 1].toLowerCase();
-    if (current.includes(primaryKeyword) && next.includes(primaryKeyword)) {
-      consecutiveKeywordCount++;
+    for (const finding of rule.check({ ...shared, options })) {
+      if (severity === 'block' && !finding.advisory) {
+        const error = `BLOCKED: ${finding.message}`;
+        errors.push(error);
+        outcome.findings.push(error);
+        outcome.status = 'failed';
+
+        const locations = errorLocations.get(error) || new Set<string | null>();
+        (finding.sections || [null]).forEach((heading) => locations.add(heading));
+        errorLocations.set(error, locations);
+      } else {
+        warnings.push(finding.message);
+        outcome.findings.push(finding.message);
+        if (outcome.status === 'passed') {
+          outcome.status = 'warned';
+        }
+      }
     }
   }
-  if (consecutiveKeywordCount > 3) {
-    warnings.push(`Primary keyword appears in ${consecutiveKeywordCount} consecutive sentences. May appear unnatural.`);
-  }
-
-  // Check for exact keyword repetition patterns
-  const exactRepetitions = bodyText.match(new RegExp(`\\b${primaryKeyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi'));
-  if (exactRepetitions && exactRepetitions.length > 10) {
-    warnings.push(`Primary keyword "${primaryKeyword}" appears ${exactRepetitions.length} times. Consider using variations.`);
-  }
 
   // ============================================
-  // 7. ADDITIONAL QUALITY CHECKS
+  // RESULT
   // ============================================
+  const blocked = errors.length > 0;
+  const passed = !blocked;
 
-  // Check for excessive use of same words (low lexical diversity)
-  const words = bodyLower.split(/\s+/).filter(w => w.length > 3);
-  const uniqueWords = new Set(words);
-  const lexicalDiversity = uniqueWords.size / words.length;
-  
-  if (lexicalDiversity < 0.25) {
-    errors.push(
-      `BLOCKED: Low lexical diversity (${(lexicalDiversity * 100).toFixed(1)}%, minimum 25%). Content appears repetitive.`
-    );
-  }
-
-  // Check for AI patterns (repetitive sentence structure)
-  if (sentences.length >= 10) {
-    const sentenceLengths = sentences.map(s => s.split(/\s+/).length);
-    const avgLength = sentenceLengths.reduce((a, b) => a + b, 0) / sentenceLengths.length;
-    const variance = sentenceLengths.reduce((sum, len) => sum + Math.pow(len - avgLength, 2), 0) / sentenceLengths.length;
-    const stdDev = Math.sqrt(variance);
-    
-    if (stdDev < (avgLength * 0.15)) {
-      errors.push('BLOCKED: Repetitive sentence structure detected (AI pattern). Content lacks natural variation.');
+  // An error that also occurs outside every H2 section cannot be fixed section by section
+  const flagged = new Map<string, string[]>();
+  for (const [error, locations] of errorLocations) {
+    if (locations.has(null)) {
+      continue;
     }
-  }
-
-  // Check for placeholder text
-  const placeholderPatterns = [
-    /lorem ipsum/i,
-    /placeholder/i,
-    /\[insert.*here\]/i,
-    /todo:/i,
-    /fixme:/i,
-    /xxx/i,
-  ];
-  
-  for (const pattern of placeholderPatterns) {
-    if (pattern.test(bodyText)) {
-      errors.push('BLOCKED: Content contains placeholder text. Remove all placeholders before publishing.');
-      break;
+    for (const heading of locations) {
+      flagged.set(heading!, [...(flagged.get(heading!) || []), error]);
     }
   }
-
-  // Check for broken markdown/formatting
-  const brokenMarkdown = 
-    (bodyText.match(/\[.*?\]\(\)/g) || []).length > 0 || // Empty links
-    (bodyText.match(/\[.*?\]\([^)]*$/gm) || []).length > 0; // Unclosed links
-
-  if (brokenMarkdown) {
-    warnings.push('Broken markdown links detected. Review content formatting.');
-  }
-
-  // ============================================
-  // RESULT
-  // ============================================
-  const blocked = errors.length > 0;
-  const passed = !blocked;
+  const flaggedSections = Array.from(flagged, ([heading, sectionErrors]) => ({ heading, errors: sectionErrors }));
 
   if (blocked) {
     logger.error(`Quality gate FAILED for ${doc.pageType}:${doc.slug}`, errors);
@@ -552,5 +230,7 @@ export function runQualityGate(doc: GeneratedDoc): QualityGateResult {
     blocked,
     errors,
     warnings,
+    flaggedSections,
+    rules: outcomes,
   };
 }
@@ -0,0 +1,685 @@
+/**
+ * Quality Rules - The checks run by the quality gate, one named rule each
+ *
+ * A rule returns findings (empty = passed). The gate (quality-gate.ts) decides what a
+ * finding means: with severity 'block' it is a "BLOCKED: " error, with 'warn' a warning.
+ * Defaults here (page types, severity, options) can be overridden per rule and per
+ * page type in content/_system/quality-gate.json.
+ */
+
+import { GeneratedDoc, PageType } from './types';
+import { findUncitedClaims, extractCitationIds } from '../../lib/content/citations';
+import { getCitableSources, stripCitationMarkers } from './citations';
+import { findSectionAt, splitSections } from './sections';
+import { isLowConfidence, isRefuted } from './fact-check';
+import { FACT_CHECK_CONFIG } from './config';
+import { checkReadability, scoreReadability } from '../../lib/editorial/guardrails';
+
+export type RuleSeverity = 'block' | 'warn';
+export type RuleOptions = Record<string, number>;
+
+/**
+ * What a rule sees: the doc plus body measurements shared by several rules
+ */
+export interface RuleContext {
+  doc: GeneratedDoc;
+  body: string;
+  bodyLower: string;
+  wordCount: number;
+  sentences: string[]; // Sentences over 20 characters
+  options: RuleOptions; // Effective options for this rule and page type
+}
+
+export interface RuleFinding {
+  message: string;
+  advisory?: boolean; // Always a warning, even when the rule blocks
+  sections?: Array<string | null>; // H2 sections where it occurs (null = outside any H2 section)
+}
+
+export interface QualityRule {
+  id: string;
+  description: string;
+  pageTypes: PageType[] | 'all'; // Default rule set membership
+  severity: RuleSeverity;
+  options?: RuleOptions;
+  pageTypeOptions?: Partial<Record<PageType, RuleOptions>>; // Per page type defaults, over options
+  check(ctx: RuleContext): RuleFinding[];
+}
+
+// ============================================
+// CTA (blog posts)
+// ============================================
+
+const CTA_PATTERNS = [
+  /download tackle|tackle app|get tackle|install tackle/i,
+  /\[download tackle\]|\[get tackle\]|\[install tackle\]/i,
+  /\/download/i,
+  /what to do next.*download/i,
+  /ready to.*download/i,
+  /get.*tackle.*iphone/i,
+];
+
+/**
+ * Structured CTAs (rendered by the AppCTA component) first, body text as a fallback
+ */
+function findCtas(doc: GeneratedDoc, body: string): { top: boolean; end: boolean } {
+  const ctas = doc.ctas || [];
+  let top = ctas.some((cta) => cta.position === 'top');
+  let end = ctas.some((cta) => cta.position === 'end');
+
+  if (!top || !end) {
+    const words = body.split(/\s+/);
+    const topHalf = words.slice(0, Math.floor(words.length / 2)).join(' ');
+    const lastPart = words.slice(Math.floor(words.length * 0.6)).join(' '); // Last 40%
+    top = top || CTA_PATTERNS.some((pattern) => pattern.test(topHalf));
+    end = end || CTA_PATTERNS.some((pattern) => pattern.test(lastPart));
+  }
+
+  return { top, end };
+}
+
+// ============================================
+// REGULATIONS SPECIFICS
+// Blocklists with an allowlist for safe neutral reminders
+// ============================================
+
+const SAFE_ALLOWLIST_PATTERNS = [
+  /see local regulations/i,
+  /check local regulations/i,
+  /consult local regulations/i,
+  /see.*local.*rules/i,
+  /check.*local.*rules/i,
+  /verify.*local.*regulations/i,
+  /always verify.*regulations/i,
+  /check.*regulations.*official/i,
+  /regulations.*change/i,
+  /regulations.*vary/i,
+  /local.*regulations.*apply/i,
+  /regulations.*differ/i,
+  /check.*official.*regulations/i,
+  /consult.*official.*sources/i,
+  /refer.*to.*local.*regulations/i,
+];
+
+// "X fish per day" variations
+const BAG_LIMIT_PATTERNS = [
+  // Direct patterns: "5 fish per day", "10 fish per person"
+  /\d+\s+fish\s+per\s+(day|person|angler|trip)/i,
+  /\d+\s+fish\s+(per|each)\s+(day|person|angler|trip)/i,
+  // Limit patterns: "bag limit of 5", "daily limit 10"
+  /bag limit.*\d+/i,
+  /daily limit.*\d+/i,
+  /harvest limit.*\d+/i,
+  /possession limit.*\d+/i,
+  /creel limit.*\d+/i,
+  /catch limit.*\d+/i,
+  // Action patterns: "keep 5 fish", "take up to 10"
+  /keep.*\d+\s+fish/i,
+  /take.*\d+\s+fish/i,
+  /retain.*\d+\s+fish/i,
+  /maximum.*\d+\s+fish/i,
+  /limit.*\d+\s+fish/i,
+  /up to.*\d+\s+fish/i,
+  // Possession patterns
+  /possess.*\d+\s+fish/i,
+  /possession.*\d+/i,
+  // Combined patterns
+  /\d+\s+fish.*limit/i,
+  /limit.*\d+.*fish/i,
+];
+
+// "minimum X inches" variations - fish size limits only, not hook/lure/gear sizes
+const SIZE_LIMIT_PATTERNS = [
+  // Slot patterns (always about fish)
+  /slot limit.*\d+/i,
+  /slot.*\d+.*\d+/i,
+  // Fish size limit patterns (must mention fish species)
+  /(fish|snook|redfish|bass|trout|tarpon|grouper|snapper).*size limit.*\d+/i,
+  /size limit.*\d+.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  // Minimum patterns for fish: "minimum 14 inches" when about fish
+  /minimum.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /at least.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /no less than.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /must be.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /must measure.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  // Maximum patterns for fish
+  /maximum.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /no more than.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /must not exceed.*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  // Slot patterns: "14-20 inch slot" when about fish
+  /\d+\s*-\s*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /\d+\s*to\s*\d+\s*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /between.*\d+.*and.*\d+.*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /from.*\d+.*to.*\d+.*inch.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  // Measurement patterns for fish
+  /\d+\s*inch.*minimum.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /\d+\s*inch.*maximum.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+  /\d+\s*inch.*limit.*(fish|snook|redfish|bass|trout|tarpon|grouper|snapper)/i,
+];
+
+const POSSESSION_LIMIT_PATTERNS = [
+  /possession limit.*\d+/i,
+  /possess.*\d+\s+fish/i,
+  /possession.*\d+/i,
+  /total possession.*\d+/i,
+  /combined possession.*\d+/i,
+  /aggregate possession.*\d+/i,
+];
+
+// "closed season" variations
+const SEASON_PATTERNS = [
+  // Closed season patterns
+  /closed.*season/i,
+  /closed.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  /closed.*from.*to/i,
+  /closed.*between/i,
+  /no fishing.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  /fishing.*closed.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  // Open season patterns
+  /open.*season/i,
+  /open.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  /season runs.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  /fishing.*open.*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  // Date range patterns
+  /season.*(january|february|march|april|may|june|july|august|september|october|november|december).*(january|february|march|april|may|june|july|august|september|october|november|december)/i,
+  /closed.*\d+\/\d+.*\d+\/\d+/i, // Closed 1/1 to 3/31
+  /open.*\d+\/\d+.*\d+\/\d+/i, // Open 4/1 to 12/31
+];
+
+const LEGAL_CLAIM_PATTERNS = [
+  /illegal to/i,
+  /illegal.*fish/i,
+  /against the law/i,
+  /violation.*fine/i,
+  /subject to fine/i,
+  /fined.*\d+/i,
+  /penalty.*\d+/i,
+  /must have.*license/i,
+  /required.*permit/i,
+  /required.*license/i,
+  /legal requirement/i,
+  /mandatory.*license/i,
+  /mandatory.*permit/i,
+  /law requires/i,
+  /legally required/i,
+  /prohibited by law/i,
+];
+
+/**
+ * Match near an allowlist phrase (same 200-character window) - likely a false positive
+ */
+function isInSafeContext(matchIndex: number, matchLength: number, body: string): boolean {
+  if (!SAFE_ALLOWLIST_PATTERNS.some((pattern) => pattern.test(body))) {
+    return false;
+  }
+  const context = body.substring(Math.max(0, matchIndex - 200), Math.min(body.length, matchIndex + matchLength + 200));
+  return SAFE_ALLOWLIST_PATTERNS.some((pattern) => pattern.test(context));
+}
+
+/**
+ * One finding per rule, located in every section with an unsafe match
+ * searchText may differ from the body (gear sizes removed) - matches are located by their text
+ */
+function findRegulationSpecifics(body: string, patterns: RegExp[], message: string, searchText = body): RuleFinding[] {
+  const sections: Array<string | null> = [];
+  for (const pattern of patterns) {
+    for (const match of searchText.matchAll(new RegExp(pattern.source, pattern.flags + 'g'))) {
+      if (isInSafeContext(match.index!, match[0].length, body)) {
+        continue;
+      }
+      const index = searchText === body ? match.index! : body.indexOf(match[0]);
+      sections.push(index === -1 ? null : findSectionAt(body, index));
+    }
+  }
+  return sections.length > 0 ? [{ message, sections }] : [];
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countOccurrences(textLower: string, phrase: string): number {
+  return (textLower.match(new RegExp(escapeRegExp(phrase.toLowerCase()), 'g')) || []).length;
+}
+
+/**
+ * H2 section a claim was written in (null if it is not inside one)
+ */
+function sectionOfClaim(body: string, claim: string): string | null {
+  const snippet = claim.trim().substring(0, 60);
+  const section = splitSections(body).find((s) => stripCitationMarkers(s.markdown).includes(snippet));
+  return section ? section.heading : null;
+}
+
+// ============================================
+// RULES
+// ============================================
+
+export const QUALITY_RULES: QualityRule[] = [
+  {
+    id: 'cta-top',
+    description: 'App CTA in the first half of the post (structured CTA or body text)',
+    pageTypes: ['blog'],
+    severity: 'block',
+    check: ({ doc, body }) =>
+      findCtas(doc, body).top
+        ? []
+        : [{
+            message:
+              'Missing required App CTA in top half of content. ' +
+              'Blog posts must include at least one call-to-action for the Tackle app in the first half of the content.',
+          }],
+  },
+  {
+    id: 'cta-end',
+    description: 'App CTA in the last 40% of the post (structured CTA or body text)',
+    pageTypes: ['blog'],
+    severity: 'block',
+    check: ({ doc, body }) =>
+      findCtas(doc, body).end
+        ? []
+        : [{
+            message:
+              'Missing required App CTA near the end. ' +
+              'Blog posts must include at least one call-to-action for the Tackle app in the last 40% of the content.',
+          }],
+  },
+  {
+    id: 'cta-value-prop',
+    description: 'CTAs come with a value proposition (real-time conditions, AI fish ID, ...)',
+    pageTypes: ['blog'],
+    severity: 'warn',
+    check: ({ doc, body }) => {
+      const ctas = findCtas(doc, body);
+      const hasValueProp = /real-time|live conditions|tide|wind|weather|ai fish|fish id|log catch|track|personalized/i.test(body);
+      return ctas.top && ctas.end && !hasValueProp
+        ? [{ message: 'CTA found but missing value proposition (real-time conditions, AI fish ID, etc.)' }]
+        : [];
+    },
+  },
+  {
+    id: 'regulations-mention',
+    description: 'Body points readers to local regulations (RegulationsBlock renders it too)',
+    pageTypes: ['blog'],
+    severity: 'warn',
+    check: ({ body }) => {
+      const hasRegulationsBlock =
+        /see local regulations|check.*local regulations|consult.*local regulations|see.*regulations/i.test(body) ||
+        /regulations.*change|always verify.*regulations|check.*regulations.*official/i.test(body);
+      return hasRegulationsBlock
+        ? []
+        : [{ message: 'Body text does not mention regulations - ensure RegulationsBlock component is rendered on the page.' }];
+    },
+  },
+  {
+    id: 'bag-limits',
+    description: 'No specific bag limits ("X fish per day")',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ body }) =>
+      findRegulationSpecifics(
+        body,
+        BAG_LIMIT_PATTERNS,
+        'Content contains specific bag limit information (e.g., "X fish per day"). Remove all bag limit numbers. Use "See local regulations" instead.'
+      ),
+  },
+  {
+    id: 'size-limits',
+    description: 'No specific fish size limits ("minimum X inches"); gear sizes are fine',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ body }) =>
+      findRegulationSpecifics(
+        body,
+        SIZE_LIMIT_PATTERNS,
+        'Content contains specific size limit information (e.g., "minimum X inches"). Remove all size measurements. Use "See local regulations" instead.',
+        body.replace(/hook size|line size|lure size|rod size|reel size|gear size|equipment size|leader size/gi, '')
+      ),
+  },
+  {
+    id: 'possession-limits',
+    description: 'No specific possession limits',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ body }) =>
+      findRegulationSpecifics(
+        body,
+        POSSESSION_LIMIT_PATTERNS,
+        'Content contains specific possession limit information. Remove all possession limit numbers. Use "See local regulations" instead.'
+      ),
+  },
+  {
+    id: 'season-dates',
+    description: 'No specific open/closed season dates',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ body }) =>
+      findRegulationSpecifics(
+        body,
+        SEASON_PATTERNS,
+        'Content contains specific season/date information (e.g., "closed season", specific months). Remove all specific dates. Use "See local regulations" instead.'
+      ),
+  },
+  {
+    id: 'legal-claims',
+    description: 'No legal claims or licensing requirements',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ body }) =>
+      findRegulationSpecifics(
+        body,
+        LEGAL_CLAIM_PATTERNS,
+        'Content makes legal claims (e.g., "illegal", "against the law", "required license"). Remove all legal advice and requirements. Use "See local regulations" instead.'
+      ),
+  },
+  {
+    id: 'practical-steps',
+    description: 'Numbered steps or at least minInstructionalParagraphs instructional paragraphs',
+    pageTypes: ['blog'],
+    severity: 'block',
+    options: { minInstructionalParagraphs: 3 },
+    check: ({ body, options }) => {
+      const hasNumberedSteps = /step \d+|step-by-step|^\d+\./m.test(body) || (body.match(/^\d+\./gm) || []).length >= 3;
+      const hasInstructions = /how to|instructions|guide|tutorial|process|method|technique|follow these|do this/i.test(body);
+      const hasActionableContent = /first.*second.*third|begin by|start with|next.*then|finally|in conclusion.*action/i.test(body);
+      const instructionalParagraphs = body
+        .split(/\n\n/)
+        .filter((p) => p.trim().length > 0)
+        .filter((p) => /step|instruction|guide|how|method|technique|process|procedure|action|do|make|create|build|tie|attach|connect/i.test(p));
+
+      if (!hasNumberedSteps && !hasInstructions && !hasActionableContent) {
+        return [{
+          message:
+            'Content lacks practical steps or instructions. ' +
+            'Blog posts must include actionable steps, numbered instructions, or clear how-to guidance (not just fluff).',
+        }];
+      }
+      if (!hasNumberedSteps && instructionalParagraphs.length < options.minInstructionalParagraphs) {
+        return [{
+          message:
+            'Content lacks sufficient practical steps. ' +
+            `Blog posts must include at least ${options.minInstructionalParagraphs} instructional paragraphs with actionable steps or numbered instructions.`,
+        }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'min-word-count',
+    description: 'Body has at least minWords words',
+    pageTypes: 'all',
+    severity: 'block',
+    options: { minWords: 1000 },
+    pageTypeOptions: { blog: { minWords: 880 } }, // Lowered from 900 to allow small margin
+    check: ({ wordCount, options }) =>
+      wordCount < options.minWords
+        ? [{ message: `Content too short (${wordCount} words, minimum ${options.minWords}). Thin content detected.` }]
+        : [],
+  },
+  {
+    id: 'how-to-steps',
+    description: 'How-to guides have steps or instructions (numbered steps advised under numberedStepsMinWords)',
+    pageTypes: ['how-to'],
+    severity: 'block',
+    options: { numberedStepsMinWords: 1200 },
+    check: ({ body, wordCount, options }) => {
+      const hasSteps = /step \d+|step-by-step|first.*second.*third|1\.|2\.|3\./i.test(body) || (body.match(/^\d+\./gm) || []).length >= 3;
+      const hasInstructions = /how to|instructions|guide|tutorial|process|method|technique/i.test(body);
+
+      if (!hasSteps && !hasInstructions) {
+        return [{ message: 'Content lacks actionable steps or instructions. Thin content detected.' }];
+      }
+      if (!hasSteps && wordCount < options.numberedStepsMinWords) {
+        return [{ message: 'Content mentions instructions but lacks numbered steps. Consider adding step-by-step format.', advisory: true }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'substantial-paragraphs',
+    description: 'At least minParagraphs paragraphs of minParagraphWords words or more',
+    pageTypes: 'all',
+    severity: 'warn',
+    options: { minParagraphs: 3, minParagraphWords: 50 },
+    check: ({ body, options }) => {
+      const substantial = body
+        .split(/\n\n/)
+        .filter((p) => p.trim().length > 0)
+        .filter((p) => p.split(/\s+/).length >= options.minParagraphWords);
+      return substantial.length < options.minParagraphs
+        ? [{ message: `Only ${substantial.length} substantial paragraphs found. Content may be thin.` }]
+        : [];
+    },
+  },
+  {
+    id: 'heading-ratio',
+    description: 'At least minWordsPerHeading words per heading once there are more than maxHeadings headings',
+    pageTypes: 'all',
+    severity: 'warn',
+    options: { minWordsPerHeading: 100, maxHeadings: 5 },
+    check: ({ doc, wordCount, options }) => {
+      const headingCount = doc.headings.length;
+      const wordsPerHeading = wordCount / Math.max(headingCount, 1);
+      return wordsPerHeading < options.minWordsPerHeading && headingCount > options.maxHeadings
+        ? [{ message: `Low content-to-heading ratio (${Math.round(wordsPerHeading)} words/heading). Content may be thin.` }]
+        : [];
+    },
+  },
+  {
+    id: 'keyword-stuffing',
+    description: 'Primary keyword density at most maxDensity% (advice above warnDensity%)',
+    pageTypes: 'all',
+    severity: 'block',
+    options: { maxDensity: 3, warnDensity: 2 },
+    check: ({ doc, bodyLower, wordCount, options }) => {
+      if (!doc.primaryKeyword) {
+        return [{ message: 'Doc has no primaryKeyword - keyword density not checked', advisory: true }];
+      }
+      const keyword = doc.primaryKeyword.toLowerCase();
+      const count = countOccurrences(bodyLower, keyword);
+      const density = (count / wordCount) * 100;
+
+      if (density > options.maxDensity) {
+        return [{
+          message:
+            `Keyword stuffing detected. Primary keyword "${keyword}" appears ${count} times ` +
+            `(${density.toFixed(1)}% density, maximum ${options.maxDensity}%).`,
+        }];
+      }
+      if (density > options.warnDensity) {
+        return [{ message: `High keyword density: ${density.toFixed(1)}% for "${keyword}". Consider reducing usage.`, advisory: true }];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'secondary-keyword-density',
+    description: 'First 5 secondary keywords each at most maxDensity%',
+    pageTypes: 'all',
+    severity: 'warn',
+    options: { maxDensity: 2 },
+    check: ({ doc, bodyLower, wordCount, options }) =>
+      (doc.secondaryKeywords || [])
+        .slice(0, 5)
+        .map((phrase) => ({ phrase, density: (countOccurrences(bodyLower, phrase) / wordCount) * 100 }))
+        .filter(({ density }) => density > options.maxDensity)
+        .map(({ phrase, density }) => ({ message: `High density for secondary keyword "${phrase}": ${density.toFixed(1)}%` })),
+  },
+  {
+    id: 'keyword-repetition',
+    description: 'Primary keyword not in more than maxConsecutive consecutive sentences or more than maxOccurrences times',
+    pageTypes: 'all',
+    severity: 'warn',
+    options: { maxConsecutive: 3, maxOccurrences: 10 },
+    check: ({ doc, body, sentences, options }) => {
+      if (!doc.primaryKeyword) {
+        return [{ message: 'Doc has no primaryKeyword - keyword repetition not checked', advisory: true }];
+      }
+      const findings: RuleFinding[] = [];
+      const keyword = doc.primaryKeyword.toLowerCase();
+
+      let consecutive = 0;
+      for (let i = 0; i < sentences.length - 1; i++) {
+        if (sentences[i].toLowerCase().includes(keyword) && sentences[i + 1].toLowerCase().includes(keyword)) {
+          consecutive++;
+        }
+      }
+      if (consecutive > options.maxConsecutive) {
+        findings.push({ message: `Primary keyword appears in ${consecutive} consecutive sentences. May appear unnatural.` });
+      }
+
+      const exact = body.match(new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'gi'));
+      if (exact && exact.length > options.maxOccurrences) {
+        findings.push({ message: `Primary keyword "${keyword}" appears ${exact.length} times. Consider using variations.` });
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'lexical-diversity',
+    description: 'Unique words (over 3 letters) make up at least minDiversity of all words',
+    pageTypes: 'all',
+    severity: 'block',
+    options: { minDiversity: 0.25 },
+    check: ({ bodyLower, options }) => {
+      const words = bodyLower.split(/\s+/).filter((w) => w.length > 3);
+      const diversity = new Set(words).size / words.length;
+      return diversity < options.minDiversity
+        ? [{
+            message:
+              `Low lexical diversity (${(diversity * 100).toFixed(1)}%, minimum ${Math.round(options.minDiversity * 100)}%). ` +
+              'Content appears repetitive.',
+          }]
+        : [];
+    },
+  },
+  {
+    id: 'sentence-variation',
+    description: 'Sentence length standard deviation at least minVariation x the average (minSentences or more sentences)',
+    pageTypes: 'all',
+    severity: 'block',
+    options: { minSentences: 10, minVariation: 0.15 },
+    check: ({ sentences, options }) => {
+      if (sentences.length < options.minSentences) {
+        return [];
+      }
+      const lengths = sentences.map((s) => s.split(/\s+/).length);
+      const avg = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+      const variance = lengths.reduce((sum, len) => sum + Math.pow(len - avg, 2), 0) / lengths.length;
+      return Math.sqrt(variance) < avg * options.minVariation
+        ? [{ message: 'Repetitive sentence structure detected (AI pattern). Content lacks natural variation.' }]
+        : [];
+    },
+  },
+  {
+    id: 'readability',
+    description: 'Reading level within the thresholds for the doc angle (passive voice, paragraph length and jargon are advice)',
+    pageTypes: 'all',
+    severity: 'warn',
+    check: ({ doc }) => {
+      const result = checkReadability(scoreReadability(doc.body), doc.angle);
+      return [
+        ...result.errors.map((message) => ({ message })),
+        ...result.warnings.map((message) => ({ message, advisory: true })),
+      ];
+    },
+  },
+  {
+    id: 'placeholders',
+    description: 'No placeholder text (lorem ipsum, TODO:, [insert ... here])',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ body }) => {
+      const patterns = [/lorem ipsum/i, /placeholder/i, /\[insert.*here\]/i, /todo:/i, /fixme:/i, /xxx/i];
+      const sections = patterns.flatMap((pattern) =>
+        Array.from(body.matchAll(new RegExp(pattern.source, pattern.flags + 'g')), (match) => findSectionAt(body, match.index!))
+      );
+      return sections.length > 0
+        ? [{ message: 'Content contains placeholder text. Remove all placeholders before publishing.', sections }]
+        : [];
+    },
+  },
+  {
+    id: 'broken-links',
+    description: 'No empty or unclosed markdown links',
+    pageTypes: 'all',
+    severity: 'warn',
+    check: ({ body }) =>
+      /\[.*?\]\(\)/.test(body) || /\[.*?\]\([^)]*$/m.test(body)
+        ? [{ message: 'Broken markdown links detected. Review content formatting.' }]
+        : [],
+  },
+  {
+    id: 'unknown-citations',
+    description: 'Citation markers only reference doc.sources ids',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ doc, body }) => {
+      const citableIds = new Set(getCitableSources(doc.sources).map((s) => s.id!));
+      const unknown = Array.from(new Set(extractCitationIds(body).filter((id) => !citableIds.has(id))));
+      return unknown.length > 0
+        ? [{
+            message: `Citation markers reference unknown sources: ${unknown.join(', ')}`,
+            sections: unknown.map((id) => findSectionAt(body, body.indexOf(`[^${id}]`))),
+          }]
+        : [];
+    },
+  },
+  {
+    id: 'uncited-claims',
+    description: 'Numeric/regulatory claims carry a citation marker (advice only when the doc has no source ids)',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ doc, body }) => {
+      const uncited = findUncitedClaims(body);
+      if (uncited.length === 0) {
+        return [];
+      }
+      const examples = uncited.slice(0, 3).map((s) => `"${s.substring(0, 80)}"`).join('; ');
+      const message = `${uncited.length} numeric/regulatory claim(s) without a citation marker: ${examples}`;
+      // Docs without source ids (e.g. idea-based blog briefs) cannot cite inline yet
+      if (getCitableSources(doc.sources).length === 0) {
+        return [{ message: `${message} (no sources with ids to cite)`, advisory: true }];
+      }
+      return [{ message, sections: uncited.map((claim) => sectionOfClaim(body, claim)) }];
+    },
+  },
+  {
+    id: 'refuted-claims',
+    description: 'No claims refuted by the fact-check stage',
+    pageTypes: 'all',
+    severity: 'block',
+    check: ({ doc, body }) => {
+      const refuted = (doc.factCheck?.verdicts || []).filter((v) => isRefuted(v));
+      return refuted.length > 0
+        ? [{
+            message: `Fact check refuted ${refuted.length} claim(s): ${describeVerdicts(refuted)}`,
+            sections: refuted.map((v) => sectionOfClaim(body, v.claim)),
+          }]
+        : [];
+    },
+  },
+  {
+    id: 'low-confidence-claims',
+    description: 'No low-confidence fact-check verdicts (default severity from FACT_CHECK_LOW_CONFIDENCE)',
+    pageTypes: 'all',
+    severity: FACT_CHECK_CONFIG.lowConfidenceAction === 'block' ? 'block' : 'warn',
+    check: ({ doc, body }) => {
+      const lowConfidence = (doc.factCheck?.verdicts || []).filter((v) => isLowConfidence(v));
+      return lowConfidence.length > 0
+        ? [{
+            message: `Fact check: ${lowConfidence.length} low-confidence claim(s) (${doc.factCheck!.checker}): ${describeVerdicts(lowConfidence)}`,
+            sections: lowConfidence.map((v) => sectionOfClaim(body, v.claim)),
+          }]
+        : [];
+    },
+  },
+];
+
+function describeVerdicts(verdicts: NonNullable<GeneratedDoc['factCheck']>['verdicts']): string {
+  return verdicts.slice(0, 3).map((v) => `"${v.claim.substring(0, 80)}" (${v.confidence.toFixed(2)})`).join('; ');
+}
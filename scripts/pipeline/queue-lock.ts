@@ -0,0 +1,162 @@
+/**
+ * Job queue locking mechanism
+ * Same design as lib/content/index-lock.ts: exclusive lock file (wx) with ownership,
+ * verified release and conservative stale-lock cleanup.
+ *
+ * Queue critical sections are short (read → modify → write of jobQueue.json),
+ * so waits and the stale threshold are much shorter than the index lock's.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { LockData, LockAcquisition } from '../../lib/content/index-lock';
+import { logger } from './logger';
+
+const QUEUE_LOCK_PATH = path.join(process.cwd(), 'content', '_system', '.jobQueue.lock');
+const LOCK_TIMEOUT_MS = 15000; // 15 seconds max wait
+const LOCK_CHECK_INTERVAL_MS = 50; // Check every 50ms
+const STALE_LOCK_THRESHOLD_MS = 60 * 1000; // 1 minute - no queue write takes this long
+
+/**
+ * Read and parse lock file
+ */
+async function readLockFile(): Promise<LockData | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(QUEUE_LOCK_PATH, 'utf-8'));
+    if (parsed && parsed.lockId && parsed.createdAt && parsed.processId) {
+      return parsed as LockData;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove lock if older than threshold (owner crashed mid-write)
+ */
+async function cleanupStaleLock(): Promise<boolean> {
+  try {
+    const lockData = await readLockFile();
+    const createdAt = lockData
+      ? new Date(lockData.createdAt).getTime()
+      : (await fs.stat(QUEUE_LOCK_PATH)).mtimeMs; // Unparseable lock - fall back to file age
+    const lockAge = Date.now() - createdAt;
+
+    if (lockAge <= STALE_LOCK_THRESHOLD_MS) {
+      return false;
+    }
+
+    logger.warn(
+      `[QUEUE_LOCK] Removing stale queue lock ${lockData?.lockId || '(unparseable)'} ` +
+      `held by ${lockData?.processId || 'unknown'} for ${Math.round(lockAge / 1000)}s`
+    );
+    await fs.unlink(QUEUE_LOCK_PATH);
+    return true;
+  } catch {
+    return false; // Another process removed it first
+  }
+}
+
+/**
+ * Acquire lock for job queue updates
+ * Throws if lock cannot be acquired within timeout
+ */
+export async function acquireQueueLock(): Promise<LockAcquisition> {
+  const lockData: LockData = {
+    lockId: `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`,
+    createdAt: new Date().toISOString(),
+    processId: `pid-${process.pid}`,
+  };
+  const startTime = Date.now();
+
+  await fs.mkdir(path.dirname(QUEUE_LOCK_PATH), { recursive: true });
+
+  while (true) {
+    try {
+      await fs.writeFile(QUEUE_LOCK_PATH, JSON.stringify(lockData, null, 2), { flag: 'wx' });
+
+      return {
+        lockId: lockData.lockId,
+        lockData,
+        release: async () => {
+          // OWNERSHIP VERIFICATION: never remove a lock another process took over
+          const currentLock = await readLockFile();
+          if (!currentLock) {
+            logger.warn(`[QUEUE_LOCK] Lock missing during release (${lockData.lockId})`);
+            return;
+          }
+          if (currentLock.lockId !== lockData.lockId) {
+            throw new Error(
+              `Cannot release queue lock: Ownership verification failed. Expected lockId="${lockData.lockId}", ` +
+              `got "${currentLock.lockId}" (owned by ${currentLock.processId})`
+            );
+          }
+          await fs.unlink(QUEUE_LOCK_PATH);
+        },
+      };
+    } catch (error) {
+      const fileError = error as NodeJS.ErrnoException;
+      if (fileError.code !== 'EEXIST') {
+        throw new Error(`Failed to acquire queue lock: ${fileError.message || 'Unknown error'}`);
+      }
+
+      if (Date.now() - startTime >= LOCK_TIMEOUT_MS) {
+        throw new Error(
+          `Failed to acquire queue lock within ${LOCK_TIMEOUT_MS}ms. Another worker may be updating the queue.`
+        );
+      }
+
+      if (await cleanupStaleLock()) {
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_CHECK_INTERVAL_MS));
+    }
+  }
+}
+
+/**
+ * Execute function with queue lock
+ * Automatically acquires and releases lock
+ */
+export async function withQueueLock<T>(fn: () => Promise<T>): Promise<T> {
+  const lock = await acquireQueueLock();
+
+  try {
+    return await fn();
+  } finally {
+    await lock.release();
+  }
+}
+
+/**
+ * Check if the job queue is currently locked
+ */
+export async function isQueueLocked(): Promise<boolean> {
+  try {
+    await fs.access(QUEUE_LOCK_PATH);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Current queue lock holder and age (null if unlocked)
+ */
+export async function getQueueLockStatus(): Promise<{ lockData: LockData; ageMs: number; stale: boolean } | null> {
+  const lockData = await readLockFile();
+  if (!lockData) {
+    return null;
+  }
+  const ageMs = Date.now() - new Date(lockData.createdAt).getTime();
+  return { lockData, ageMs, stale: ageMs > STALE_LOCK_THRESHOLD_MS };
+}
+
+/**
+ * Release the queue lock only if it is stale
+ * Returns true if a stale lock was removed
+ */
+export async function releaseStaleQueueLock(): Promise<boolean> {
+  return cleanupStaleLock();
+}
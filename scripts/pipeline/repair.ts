@@ -0,0 +1,334 @@
+/**
+ * Repair - Targeted fixes for docs that fail validation or the quality gate
+ *
+ * Each error is mapped to the smallest fix that can clear it:
+ * - Missing structured CTA (gate) → add the CTA block, no LLM call
+ * - Missing Tackle app CTA in the body → rewrite the "next steps" section with a CTA
+ * - Forbidden phrase (FORBIDDEN_PHRASES) → rewrite the sections that contain it
+ * - Low word count → expand the shortest sections
+ * - Too few FAQs → regenerate the FAQ list only
+ * - AI patterns (detectAIPatterns) → rewrite the sections that trip the detector
+ * - Reading level above the angle's threshold → rewrite the hardest sections
+ * - Errors the gate traced to a section (flaggedSections) → rewrite that section
+ *
+ * repairDoc runs rounds of fix → validate → gate until the doc passes, nothing
+ * repairable is left, or REPAIR_CONFIG.maxRounds is reached.
+ */
+
+import { ContentBrief, FaqItem, GeneratedDoc } from './types';
+import { QUALITY_THRESHOLDS, REPAIR_CONFIG } from './config';
+import { generateWithLLM } from './llm';
+import { logger } from './logger';
+import { validateDoc, ValidationResult } from './validator';
+import { runQualityGate, QualityGateResult } from './quality-gate';
+import { runFactCheck } from './fact-check';
+import { normalizeHeading, splitSections, BodySection } from './sections';
+import { regenerateSections, SectionRewrite } from './section-generator';
+import { stripCitationMarkers } from './citations';
+import { detectAIPatterns, scoreReadability } from '../../lib/editorial/guardrails';
+
+/**
+ * Fixes for one round
+ */
+export interface RepairPlan {
+  rewrites: SectionRewrite[]; // One entry per section (instructions merged)
+  addCtas: Array<'top' | 'end'>;
+  regenerateFaqs: boolean;
+  unrepairable: string[]; // Errors no fix maps to
+}
+
+export interface RepairResult<T extends GeneratedDoc> {
+  doc: T;
+  passed: boolean;
+  rounds: number; // Repair rounds run (0 = passed as generated)
+  validation: ValidationResult;
+  qualityGate: QualityGateResult;
+  unrepairable: string[]; // From the last plan (empty when passed)
+}
+
+// Sections that must keep their shape - never padded or rewritten for style
+const FIXED_SECTION_PATTERN = /faq|frequently asked|regulation|sources/i;
+const CTA_SECTION_PATTERN = /next steps|action plan|what to do next/i;
+
+/**
+ * Map validation and quality gate errors to fixes
+ */
+export function planRepairs(doc: GeneratedDoc, validation: ValidationResult, qualityGate: QualityGateResult): RepairPlan {
+  const plan: RepairPlan = { rewrites: [], addCtas: [], regenerateFaqs: false, unrepairable: [] };
+  const sections = splitSections(doc.body).filter((s): s is BodySection & { heading: string } => s.heading !== null);
+  const flaggedErrors = new Set(qualityGate.flaggedSections.flatMap((s) => s.errors));
+
+  const rewrite = (heading: string, instruction: string, targetWords?: number) => {
+    const existing = plan.rewrites.find((r) => normalizeHeading(r.heading) === normalizeHeading(heading));
+    if (existing) {
+      if (!existing.errors.includes(instruction)) {
+        existing.errors.push(instruction);
+      }
+      existing.targetWords = Math.max(existing.targetWords || 0, targetWords || 0) || undefined;
+    } else {
+      plan.rewrites.push({ heading, errors: [instruction], targetWords });
+    }
+  };
+
+  let wordCountPlanned = false;
+  for (const error of [...validation.errors, ...qualityGate.errors]) {
+    // Gate errors traced to sections - the section gets the error itself as its instruction
+    if (flaggedErrors.has(error)) {
+      qualityGate.flaggedSections
+        .filter((s) => s.errors.includes(error))
+        .forEach((s) => rewrite(s.heading, error));
+      continue;
+    }
+
+    if (/Missing required App CTA in top half/i.test(error)) {
+      plan.addCtas.push('top');
+      continue;
+    }
+    if (/Missing required App CTA near the end/i.test(error)) {
+      plan.addCtas.push('end');
+      continue;
+    }
+
+    if (/must include Tackle app CTA/i.test(error)) {
+      const target = sections.find((s) => CTA_SECTION_PATTERN.test(s.heading)) ||
+        [...sections].reverse().find((s) => !FIXED_SECTION_PATTERN.test(s.heading));
+      if (target) {
+        rewrite(target.heading, 'Add a "Tackle app" call-to-action with its value: "Download the Tackle app to log your catches, track patterns, and discover hot spots near you."');
+        continue;
+      }
+    }
+
+    const forbidden = error.match(/forbidden phrase: "(.+)"/i);
+    if (forbidden) {
+      const phrase = forbidden[1].toLowerCase();
+      const containing = sections.filter((s) => s.markdown.toLowerCase().includes(phrase));
+      // A phrase left in the intro cannot be fixed section by section
+      if (containing.length > 0 && !splitSections(doc.body).some((s) => s.heading === null && s.markdown.toLowerCase().includes(phrase))) {
+        containing.forEach((s) => rewrite(s.heading, `Remove the phrase "${forbidden[1]}" - reword the sentence without it`));
+        continue;
+      }
+    }
+
+    const wordCount = error.match(/Word count (\d+) is below minimum (\d+)/i) || error.match(/Content too short \((\d+) words, minimum (\d+)\)/i);
+    if (wordCount) {
+      if (!wordCountPlanned) {
+        wordCountPlanned = planExpansion(sections, Number(wordCount[2]) - Number(wordCount[1]), rewrite);
+      }
+      if (wordCountPlanned) {
+        continue;
+      }
+    }
+
+    if (/FAQs found, minimum/i.test(error)) {
+      plan.regenerateFaqs = true;
+      continue;
+    }
+
+    if (/AI pattern|lexical diversity|too uniform/i.test(error)) {
+      const targets = findAIPatternSections(sections);
+      if (targets.length > 0) {
+        targets.forEach((s) =>
+          rewrite(s.heading, 'Vary sentence length (mix short sentences with longer ones), use more varied vocabulary and avoid repeating the same phrasing')
+        );
+        continue;
+      }
+    }
+
+    if (/Reading level too high|Reading ease too low/i.test(error)) {
+      const targets = findHardestSections(sections);
+      if (targets.length > 0) {
+        targets.forEach((s) =>
+          rewrite(s.heading, 'Make this section easier to read: shorter sentences, plain everyday words, explain any technical term')
+        );
+        continue;
+      }
+    }
+
+    plan.unrepairable.push(error);
+  }
+
+  return plan;
+}
+
+/**
+ * Validate + gate, then repair and re-check up to maxRounds times
+ * Docs that carried a fact check get a fresh one after their body changes.
+ */
+export async function repairDoc<T extends GeneratedDoc>(
+  doc: T,
+  brief: ContentBrief,
+  options: { maxRounds?: number } = {}
+): Promise<RepairResult<T>> {
+  const maxRounds = options.maxRounds ?? REPAIR_CONFIG.maxRounds;
+  let current = doc;
+  let validation = validateDoc(current);
+  let qualityGate = runQualityGate(current);
+  let unrepairable: string[] = [];
+
+  for (let round = 1; round <= maxRounds; round++) {
+    if (validation.passed && !qualityGate.blocked) {
+      return { doc: current, passed: true, rounds: round - 1, validation, qualityGate, unrepairable: [] };
+    }
+
+    const plan = planRepairs(current, validation, qualityGate);
+    unrepairable = plan.unrepairable;
+    if (plan.rewrites.length === 0 && plan.addCtas.length === 0 && !plan.regenerateFaqs) {
+      logger.warn(`No targeted repair for ${current.slug}: ${unrepairable.join('; ')}`);
+      return { doc: current, passed: false, rounds: round - 1, validation, qualityGate, unrepairable };
+    }
+
+    logger.info(
+      `Repair round ${round}/${maxRounds} for ${current.slug}: ` +
+      `${plan.rewrites.length} section rewrite(s)${plan.addCtas.length > 0 ? `, CTA ${plan.addCtas.join('+')}` : ''}` +
+      `${plan.regenerateFaqs ? ', FAQs' : ''}${unrepairable.length > 0 ? ` (${unrepairable.length} error(s) left as is)` : ''}`
+    );
+    current = await applyRepairs(current, brief, plan);
+
+    validation = validateDoc(current);
+    qualityGate = runQualityGate(current);
+  }
+
+  const passed = validation.passed && !qualityGate.blocked;
+  return { doc: current, passed, rounds: maxRounds, validation, qualityGate, unrepairable: passed ? [] : unrepairable };
+}
+
+/**
+ * One-line error for a doc that still fails after its repairs
+ */
+export function formatRepairFailure(result: RepairResult<GeneratedDoc>): string {
+  const stage = result.validation.passed ? 'Quality gate BLOCKED' : 'Validation failed';
+  const errors = [...result.validation.errors, ...result.qualityGate.errors];
+  return `${stage} after ${result.rounds} repair round(s): ${errors.join('; ')}`;
+}
+
+async function applyRepairs<T extends GeneratedDoc>(doc: T, brief: ContentBrief, plan: RepairPlan): Promise<T> {
+  let repaired = doc;
+
+  if (plan.rewrites.length > 0) {
+    repaired = await regenerateSections(repaired, brief, plan.rewrites);
+    if (doc.factCheck) {
+      repaired = { ...repaired, factCheck: await runFactCheck(repaired) };
+    }
+  }
+
+  if (plan.addCtas.length > 0 && repaired.pageType === 'blog') {
+    const existing = repaired.ctas || [];
+    const added = plan.addCtas
+      .filter((position) => !existing.some((cta) => cta.position === position))
+      .map((position) => ({ position, type: 'app_download' as const }));
+    repaired = { ...repaired, ctas: [...existing, ...added] };
+  }
+
+  if (plan.regenerateFaqs) {
+    repaired = { ...repaired, faqs: await generateFaqs(repaired) };
+  }
+
+  return repaired;
+}
+
+/**
+ * Spread the missing words over the shortest sections
+ * Returns false when the body has no section that may be expanded
+ */
+function planExpansion(
+  sections: Array<BodySection & { heading: string }>,
+  missingWords: number,
+  rewrite: (heading: string, instruction: string, targetWords?: number) => void
+): boolean {
+  const candidates = sections
+    .filter((s) => !FIXED_SECTION_PATTERN.test(s.heading))
+    .map((s) => ({ section: s, words: countWords(s.markdown) }))
+    .sort((a, b) => a.words - b.words)
+    .slice(0, REPAIR_CONFIG.maxSectionsPerRound);
+  if (candidates.length === 0) {
+    return false;
+  }
+
+  // 20% headroom - rewrites rarely hit their target exactly
+  const extraPerSection = Math.ceil((missingWords * 1.2) / candidates.length);
+  for (const { section, words } of candidates) {
+    const target = words + extraPerSection;
+    rewrite(section.heading, `Expand this section from ${words} to about ${target} words with specific, practical detail (no filler)`, target);
+  }
+  return true;
+}
+
+/**
+ * Sections that trip detectAIPatterns on their own, else the least varied sections
+ */
+function findAIPatternSections(sections: Array<BodySection & { heading: string }>): Array<BodySection & { heading: string }> {
+  const candidates = sections.filter((s) => !FIXED_SECTION_PATTERN.test(s.heading));
+  const flagged = candidates.filter((s) =>
+    detectAIPatterns(stripCitationMarkers(s.markdown)).errors.some((e) => !/^Too few/.test(e))
+  );
+  if (flagged.length > 0) {
+    return flagged.slice(0, REPAIR_CONFIG.maxSectionsPerRound);
+  }
+
+  // Sections are often too short for the detector - rank by sentence-length variation instead
+  return candidates
+    .map((s) => ({ section: s, variation: sentenceVariation(stripCitationMarkers(s.markdown)) }))
+    .sort((a, b) => a.variation - b.variation)
+    .slice(0, REPAIR_CONFIG.maxSectionsPerRound)
+    .map((c) => c.section);
+}
+
+/**
+ * Sections with the highest Flesch-Kincaid grade
+ */
+function findHardestSections(sections: Array<BodySection & { heading: string }>): Array<BodySection & { heading: string }> {
+  return sections
+    .filter((s) => !FIXED_SECTION_PATTERN.test(s.heading))
+    .map((s) => ({ section: s, grade: scoreReadability(s.markdown).fleschKincaidGrade }))
+    .sort((a, b) => b.grade - a.grade)
+    .slice(0, REPAIR_CONFIG.maxSectionsPerRound)
+    .map((c) => c.section);
+}
+
+/**
+ * Coefficient of variation of sentence lengths (low = uniform, AI-like)
+ */
+function sentenceVariation(text: string): number {
+  const lengths = text.split(/[.!?]+/).filter((s) => s.trim().length > 0).map(countWords);
+  if (lengths.length < 2) {
+    return Infinity;
+  }
+  const avg = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+  const variance = lengths.reduce((sum, len) => sum + Math.pow(len - avg, 2), 0) / lengths.length;
+  return Math.sqrt(variance) / avg;
+}
+
+async function generateFaqs(doc: GeneratedDoc): Promise<FaqItem[]> {
+  const count = Math.min(QUALITY_THRESHOLDS.maxFaqs, QUALITY_THRESHOLDS.minFaqs + 1);
+  const generated = await generateWithLLM({
+    prompt: `Write ${count} FAQs for "${doc.title}" (primary keyword: ${doc.primaryKeyword}).
+
+Sections of the article: ${doc.headings.filter((h) => h.level === 2).map((h) => h.text).join(', ')}
+Existing FAQs (keep any that are good): ${doc.faqs.map((f) => f.question).join(' | ') || 'none'}
+
+- Questions anglers actually search for
+- Answers are 2-4 sentences with specific, actionable information
+- NEVER mention bag, size or possession limits, seasons, or license requirements`,
+    jsonSchema: {
+      type: 'object',
+      properties: {
+        faqs: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { question: { type: 'string' }, answer: { type: 'string' } },
+            required: ['question', 'answer'],
+          },
+        },
+      },
+      required: ['faqs'],
+    },
+  });
+
+  const faqs: FaqItem[] = (generated.faqs || []).filter((f: FaqItem) => f.question && f.answer);
+  return faqs.length >= doc.faqs.length ? faqs.slice(0, QUALITY_THRESHOLDS.maxFaqs) : doc.faqs;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
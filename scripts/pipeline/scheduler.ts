@@ -1,22 +1,159 @@
 /**
  * Scheduler - Manages job queue and publishing schedule
+ *
+ * CONCURRENCY: Every read-modify-write of jobQueue.json runs under withQueueLock,
+ * so multiple workers (processes or in-process loops) can share one queue.
+ * Running jobs hold a lease that the worker renews by heartbeat; jobs whose lease
+ * expired (crashed run) are re-queued on the next claim.
+ *
+ * RETRIES: Failed attempts go back to 'pending' with a backoff runAt until maxAttempts,
+ * then to 'dead-letter' (see job-retry.ts for error classes).
+ *
+ * DEPENDENCIES: Stage jobs (ideate → brief → generate → gate → publish → revalidate) share a
+ * pipelineId and list their upstream jobs in dependsOn. A job is only claimed once every
+ * dependency completed; a dead-lettered job cancels everything downstream of it.
  */
 
-import { Job, PageType, TopicKey } from './types';
+import { Job, JobErrorClass, JobStage, JobStatus, PageType, TopicKey } from './types';
 import { logger } from './logger';
-import { DAILY_PUBLISH_CAP, FAILURE_STOP_THRESHOLD } from './config';
+import { DAILY_PUBLISH_CAP, FAILURE_STOP_THRESHOLD, JOB_LEASE_CONFIG, PIPELINE_STAGES } from './config';
+import { withQueueLock } from './queue-lock';
+import { classifyJobError, computeBackoffMs, isRetryable } from './job-retry';
 import fs from 'fs/promises';
 import path from 'path';
 
 const JOB_QUEUE_PATH = path.join(process.cwd(), 'content', '_system', 'jobQueue.json');
 
 /**
- * Save job queue (internal)
+ * Failed stage → upstream stage that must run again before a retry can pass
+ * (re-checking the same generated doc can never get past the quality gate)
+ */
+const RERUN_UPSTREAM_ON_FAILURE: Partial<Record<JobStage, { errorClass: JobErrorClass; stage: JobStage }>> = {
+  gate: { errorClass: 'quality-gate', stage: 'generate' },
+};
+
+/**
+ * Save job queue (internal - caller must hold the queue lock)
+ * ATOMIC WRITE: temp file → rename, so lock-free readers never see a partial file
  */
 async function saveJobQueue(jobs: Job[]): Promise<void> {
   const dir = path.dirname(JOB_QUEUE_PATH);
   await fs.mkdir(dir, { recursive: true });
-  await fs.writeFile(JOB_QUEUE_PATH, JSON.stringify(jobs, null, 2), 'utf-8');
+  const tempPath = `${JOB_QUEUE_PATH}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(jobs, null, 2), 'utf-8');
+  await fs.rename(tempPath, JOB_QUEUE_PATH);
+}
+
+/**
+ * Read-modify-write the queue under the queue lock
+ */
+async function mutateJobQueue<T>(fn: (jobs: Job[]) => T | Promise<T>): Promise<T> {
+  return withQueueLock(async () => {
+    const jobs = await loadJobQueue();
+    const result = await fn(jobs);
+    await saveJobQueue(jobs);
+    return result;
+  });
+}
+
+/**
+ * Unique id for a worker (one per worker loop, not per process)
+ */
+export function createWorkerId(): string {
+  return `pid-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+function clearLease(job: Job): void {
+  delete job.leaseOwner;
+  delete job.leaseExpiresAt;
+  delete job.heartbeatAt;
+}
+
+function isLeaseExpired(job: Job, now: number): boolean {
+  if (job.leaseExpiresAt) {
+    return new Date(job.leaseExpiresAt).getTime() <= now;
+  }
+  // Legacy running jobs (pre-lease) - treat the attempt start as the lease start
+  const startedAt = job.startedAt || job.runAt;
+  return (startedAt ? new Date(startedAt).getTime() : 0) + JOB_LEASE_CONFIG.leaseMs <= now;
+}
+
+/**
+ * Cancel every job downstream of a job (in-place, caller holds the lock)
+ */
+function cancelDependents(jobs: Job[], upstream: Job, reason: string): Job[] {
+  const cancelled: Job[] = [];
+  const queue = [upstream.jobId];
+
+  while (queue.length > 0) {
+    const jobId = queue.shift()!;
+    for (const job of jobs) {
+      if (job.status !== 'pending' || !job.dependsOn?.includes(jobId)) continue;
+      job.status = 'cancelled';
+      job.blockedBy = upstream.jobId;
+      job.lastError = reason;
+      job.completedAt = new Date().toISOString();
+      cancelled.push(job);
+      queue.push(job.jobId);
+    }
+  }
+
+  if (cancelled.length > 0) {
+    logger.warn(`Cancelled ${cancelled.length} downstream job(s) of ${upstream.jobId}: ${reason}`);
+  }
+  return cancelled;
+}
+
+/**
+ * Apply the retry policy to a failed attempt (in-place, caller holds the lock)
+ */
+function applyFailure(jobs: Job[], job: Job, message: string, errorClass: JobErrorClass, now: number): void {
+  clearLease(job);
+  job.lastError = message;
+  job.lastErrorClass = errorClass;
+  job.failedAt = new Date(now).toISOString();
+
+  if (!isRetryable(errorClass)) {
+    job.status = 'dead-letter';
+    job.completedAt = job.failedAt;
+    logger.warn(`Job ${job.jobId} dead-lettered: ${errorClass} errors are not retried`);
+    cancelDependents(jobs, job, `Upstream ${job.stage || 'job'} ${job.jobId} dead-lettered`);
+  } else if (job.attempts >= job.maxAttempts) {
+    job.status = 'dead-letter';
+    job.completedAt = job.failedAt;
+    logger.warn(`Job ${job.jobId} dead-lettered after ${job.attempts}/${job.maxAttempts} attempts (${errorClass})`);
+    cancelDependents(jobs, job, `Upstream ${job.stage || 'job'} ${job.jobId} dead-lettered`);
+  } else {
+    const delayMs = computeBackoffMs(job.attempts);
+    job.status = 'pending';
+    job.runAt = new Date(now + delayMs).toISOString();
+    logger.info(
+      `Job ${job.jobId} will retry in ${Math.round(delayMs / 60000)} min ` +
+      `(attempt ${job.attempts}/${job.maxAttempts} failed: ${errorClass})`
+    );
+  }
+}
+
+/**
+ * Re-queue running jobs whose lease expired (in-place, caller holds the lock)
+ */
+function requeueExpired(jobs: Job[], now: number = Date.now()): Job[] {
+  const expired = jobs.filter((j) => j.status === 'running' && isLeaseExpired(j, now));
+
+  for (const job of expired) {
+    const owner = job.leaseOwner || 'unknown worker';
+    logger.warn(`Job ${job.jobId} lease expired (held by ${owner})`);
+    applyFailure(jobs, job, `Lease expired (held by ${owner}) - worker crashed or stalled`, 'transient', now);
+  }
+
+  return expired;
+}
+
+/**
+ * Re-queue running jobs whose lease expired
+ */
+export async function requeueExpiredJobs(): Promise<Job[]> {
+  return mutateJobQueue((jobs) => requeueExpired(jobs));
 }
 
 /**
@@ -28,25 +165,112 @@ export { loadJobQueue };
  * Add job to queue
  */
 export async function addJob(job: Omit<Job, 'jobId' | 'status' | 'attempts'>): Promise<Job> {
-  const jobs = await loadJobQueue();
   const newJob: Job = {
     ...job,
     jobId: crypto.randomUUID(),
     status: 'pending',
     attempts: 0,
   };
-  jobs.push(newJob);
-  await saveJobQueue(jobs);
+  await mutateJobQueue((jobs) => {
+    jobs.push(newJob);
+  });
   logger.info(`Added job: ${newJob.jobId} (${newJob.type}:${newJob.topicKey})`);
   return newJob;
 }
 
 /**
- * Get next job (prioritized)
+ * Add a chain of stage jobs for one topic (each stage depends on the previous one)
+ * Defaults to PIPELINE_STAGES for the page type, minus 'ideate' when the topic is already known.
  */
-export async function getNextJob(): Promise<Job | null> {
-  const jobs = await loadJobQueue();
-  const pending = jobs.filter((j) => j.status === 'pending');
+export async function addPipelineJobs(options: {
+  type: PageType;
+  topicKey: TopicKey;
+  priority: number;
+  maxAttempts: number;
+  stages?: JobStage[];
+  params?: Job['params'];
+}): Promise<Job[]> {
+  const needsIdeation = options.type === 'blog' && !options.topicKey.split('::')[1];
+  const stages = options.stages
+    || PIPELINE_STAGES[options.type].filter((stage) => stage !== 'ideate' || needsIdeation);
+  if (stages.length === 0) {
+    throw new Error(`No pipeline stages for ${options.type}`);
+  }
+
+  const pipelineId = crypto.randomUUID();
+  const scheduledAt = new Date().toISOString();
+  const pipeline: Job[] = [];
+
+  for (const stage of stages) {
+    const previous = pipeline[pipeline.length - 1];
+    pipeline.push({
+      jobId: crypto.randomUUID(),
+      type: options.type,
+      topicKey: options.topicKey,
+      status: 'pending',
+      priority: options.priority,
+      attempts: 0,
+      maxAttempts: options.maxAttempts,
+      scheduledAt,
+      pipelineId,
+      stage,
+      dependsOn: previous ? [previous.jobId] : undefined,
+      params: options.params,
+    });
+  }
+
+  await mutateJobQueue((jobs) => {
+    jobs.push(...pipeline);
+  });
+  logger.info(`Added pipeline ${pipelineId} (${options.type}:${options.topicKey}): ${stages.join(' → ')}`);
+  return pipeline;
+}
+
+/**
+ * Point every job of a pipeline at the topic chosen by its ideate stage
+ * Returns false if another live pipeline already owns that topic.
+ */
+export async function assignPipelineTopic(pipelineId: string, topicKey: TopicKey): Promise<boolean> {
+  return mutateJobQueue((jobs) => {
+    const taken = jobs.some(
+      (j) => j.topicKey === topicKey && j.pipelineId !== pipelineId
+        && !['cancelled', 'dead-letter', 'failed'].includes(j.status)
+    );
+    if (taken) {
+      return false;
+    }
+    jobs.filter((j) => j.pipelineId === pipelineId).forEach((j) => {
+      j.topicKey = topicKey;
+    });
+    return true;
+  });
+}
+
+/**
+ * Cancel the jobs downstream of a completed stage (e.g. the topic was already published)
+ */
+export async function cancelDownstreamJobs(jobId: string, reason: string): Promise<Job[]> {
+  return mutateJobQueue((jobs) => {
+    const job = jobs.find((j) => j.jobId === jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    return cancelDependents(jobs, job, reason).map((j) => ({ ...j }));
+  });
+}
+
+/**
+ * Pick next pending job (prioritized)
+ */
+function pickNextPending(jobs: Job[], now: number = Date.now()): Job | null {
+  const statusById = new Map(jobs.map((j) => [j.jobId, j.status]));
+  // Jobs waiting out a retry backoff are not due yet; stage jobs wait for their upstream jobs
+  // (a dependency missing from the queue was purged after finishing)
+  const pending = jobs.filter(
+    (j) => j.status === 'pending'
+      && (!j.runAt || new Date(j.runAt).getTime() <= now)
+      && (j.dependsOn || []).every((id) => (statusById.get(id) || 'completed') === 'completed')
+  );
   
   if (pending.length === 0) {
     return null;
@@ -63,6 +287,93 @@ export async function getNextJob(): Promise<Job | null> {
   return pending[0];
 }
 
+/**
+ * Get next job (prioritized) - read-only peek, use claimNextJob to run it
+ */
+export async function getNextJob(): Promise<Job | null> {
+  return pickNextPending(await loadJobQueue());
+}
+
+/**
+ * Atomically claim the next pending job for a worker
+ * Re-queues expired leases first; the claimed job is 'running' with a fresh lease.
+ */
+export async function claimNextJob(
+  workerId: string,
+  leaseMs: number = JOB_LEASE_CONFIG.leaseMs
+): Promise<Job | null> {
+  return mutateJobQueue((jobs) => {
+    const now = Date.now();
+    requeueExpired(jobs, now);
+
+    const job = pickNextPending(jobs, now);
+    if (!job) {
+      return null;
+    }
+
+    job.status = 'running';
+    job.attempts = (job.attempts || 0) + 1;
+    job.startedAt = new Date(now).toISOString();
+    job.leaseOwner = workerId;
+    job.heartbeatAt = job.startedAt;
+    job.leaseExpiresAt = new Date(now + leaseMs).toISOString();
+    return { ...job };
+  });
+}
+
+/**
+ * Renew a job lease
+ * Returns false if the worker no longer owns the job (lease expired and was re-queued)
+ */
+export async function heartbeatJob(
+  jobId: string,
+  workerId: string,
+  leaseMs: number = JOB_LEASE_CONFIG.leaseMs
+): Promise<boolean> {
+  return mutateJobQueue((jobs) => {
+    const job = jobs.find((j) => j.jobId === jobId);
+    if (!job || job.status !== 'running' || job.leaseOwner !== workerId) {
+      return false;
+    }
+    const now = Date.now();
+    job.heartbeatAt = new Date(now).toISOString();
+    job.leaseExpiresAt = new Date(now + leaseMs).toISOString();
+    return true;
+  });
+}
+
+/**
+ * Heartbeat a job on an interval while it runs
+ * Returns a stop function; onLeaseLost fires once if ownership is lost.
+ */
+export function startJobHeartbeat(
+  jobId: string,
+  workerId: string,
+  onLeaseLost?: () => void
+): () => void {
+  let stopped = false;
+  const timer = setInterval(async () => {
+    try {
+      const owned = await heartbeatJob(jobId, workerId);
+      if (!owned && !stopped) {
+        stopped = true;
+        clearInterval(timer);
+        logger.warn(`Lost lease on job ${jobId} (worker ${workerId})`);
+        onLeaseLost?.();
+      }
+    } catch (error) {
+      // A missed beat is fine - the lease covers several intervals
+      logger.warn(`Heartbeat failed for job ${jobId}:`, error instanceof Error ? error.message : String(error));
+    }
+  }, JOB_LEASE_CONFIG.heartbeatMs);
+  timer.unref();
+
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
+
 /**
  * Update job status
  */
@@ -70,33 +381,200 @@ export async function updateJobStatus(
   jobId: string,
   status: Job['status'],
   error?: string,
-  outputs?: Job['outputs']
-): Promise<void> {
-  const jobs = await loadJobQueue();
-  const job = jobs.find((j) => j.jobId === jobId);
-  
-  if (!job) {
-    throw new Error(`Job not found: ${jobId}`);
-  }
-  
-  job.status = status;
-  job.attempts = (job.attempts || 0) + 1;
-  
-  if (error) {
-    job.lastError = error;
-  }
-  
-  if (outputs) {
-    job.outputs = outputs;
+  outputs?: Job['outputs'],
+  workerId?: string
+): Promise<boolean> {
+  return mutateJobQueue((jobs) => {
+    const job = jobs.find((j) => j.jobId === jobId);
+    
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    
+    // A worker whose lease expired must not overwrite the job's new owner
+    if (workerId && job.leaseOwner !== workerId) {
+      logger.warn(`Ignoring ${status} for job ${jobId}: worker ${workerId} no longer holds the lease`);
+      return false;
+    }
+    
+    job.status = status;
+    
+    if (error) {
+      job.lastError = error;
+    }
+    
+    if (outputs) {
+      job.outputs = outputs;
+    }
+    
+    if (status === 'running') {
+      job.attempts = (job.attempts || 0) + 1;
+      job.startedAt = new Date().toISOString();
+    } else {
+      clearLease(job);
+      if (status === 'completed' || status === 'failed') {
+        job.completedAt = new Date().toISOString();
+      }
+    }
+    
+    return true;
+  });
+}
+
+/**
+ * Record a failed attempt - retry with backoff, or dead-letter
+ * Returns the job's new state (null if the worker lost the lease)
+ */
+export async function failJob(
+  jobId: string,
+  error: unknown,
+  workerId?: string
+): Promise<Pick<Job, 'status' | 'runAt' | 'lastErrorClass'> | null> {
+  const message = error instanceof Error ? error.message : String(error);
+  const errorClass = classifyJobError(error);
+
+  return mutateJobQueue((jobs) => {
+    const job = jobs.find((j) => j.jobId === jobId);
+    if (!job) {
+      throw new Error(`Job not found: ${jobId}`);
+    }
+    if (workerId && job.leaseOwner !== workerId) {
+      logger.warn(`Ignoring failure for job ${jobId}: worker ${workerId} no longer holds the lease`);
+      return null;
+    }
+
+    applyFailure(jobs, job, message, errorClass, Date.now());
+
+    // Retrying this stage alone cannot help - run the upstream stage again first
+    const rerun = job.stage ? RERUN_UPSTREAM_ON_FAILURE[job.stage] : undefined;
+    if (job.status === 'pending' && rerun && rerun.errorClass === errorClass) {
+      // Walk back to the rerun stage - every completed stage in between runs again too
+      // (e.g. gate → fact-check → generate: the fresh doc needs a fresh fact check)
+      const chain: Job[] = [];
+      let upstream = jobs.find((j) => job.dependsOn?.includes(j.jobId));
+      while (upstream && upstream.status === 'completed') {
+        chain.push(upstream);
+        if (upstream.stage === rerun.stage) {
+          break;
+        }
+        const current: Job = upstream;
+        upstream = jobs.find((j) => current.dependsOn?.includes(j.jobId));
+      }
+
+      if (chain[chain.length - 1]?.stage === rerun.stage) {
+        for (const stageJob of chain) {
+          stageJob.status = 'pending';
+          stageJob.runAt = job.runAt;
+          delete stageJob.completedAt;
+          logger.info(`Re-running ${stageJob.stage} job ${stageJob.jobId} before retrying ${job.stage}`);
+        }
+      }
+    }
+
+    return { status: job.status, runAt: job.runAt, lastErrorClass: job.lastErrorClass };
+  });
+}
+
+/**
+ * Hand a running job back to the queue without counting the attempt
+ * (the stop was not the job's fault - e.g. budget exhausted, shutdown)
+ */
+export async function releaseJob(jobId: string, workerId: string, reason: string): Promise<boolean> {
+  return mutateJobQueue((jobs) => {
+    const job = jobs.find((j) => j.jobId === jobId);
+    if (!job || job.leaseOwner !== workerId) {
+      return false;
+    }
+    clearLease(job);
+    job.status = 'pending';
+    job.attempts = Math.max(0, job.attempts - 1);
+    job.lastError = reason;
+    return true;
+  });
+}
+
+/**
+ * Retry dead-lettered/failed/cancelled jobs with a fresh attempt budget
+ * No jobIds = every dead-letter job (optionally only one error class)
+ */
+export async function retryJobs(selector: { jobIds?: string[]; errorClass?: JobErrorClass } = {}): Promise<Job[]> {
+  const retryableStatuses: JobStatus[] = ['dead-letter', 'failed', 'cancelled'];
+
+  return mutateJobQueue((jobs) => {
+    const targets = jobs.filter((j) => {
+      if (selector.jobIds && selector.jobIds.length > 0) {
+        return selector.jobIds.includes(j.jobId) && retryableStatuses.includes(j.status);
+      }
+      return j.status === 'dead-letter' && (!selector.errorClass || j.lastErrorClass === selector.errorClass);
+    });
+
+    // Downstream stages cancelled by a retried job wait for it again
+    const retriedIds = new Set(targets.map((j) => j.jobId));
+    const unblocked = jobs.filter((j) => j.status === 'cancelled' && j.blockedBy && retriedIds.has(j.blockedBy));
+
+    for (const job of targets) {
+      job.status = 'pending';
+      job.attempts = 0;
+      delete job.runAt;
+      delete job.completedAt;
+    }
+    for (const job of unblocked) {
+      job.status = 'pending';
+      delete job.blockedBy;
+      delete job.completedAt;
+    }
+    return targets.map((job) => ({ ...job }));
+  });
+}
+
+/**
+ * Make pending (backing off) or stuck running jobs runnable now - attempts are kept
+ */
+export async function requeueJobs(jobIds: string[]): Promise<Job[]> {
+  return mutateJobQueue((jobs) => {
+    const targets = jobs.filter(
+      (j) => jobIds.includes(j.jobId) && (j.status === 'pending' || j.status === 'running')
+    );
+
+    for (const job of targets) {
+      if (job.status === 'running') {
+        logger.warn(`Requeueing running job ${job.jobId} (lease held by ${job.leaseOwner || 'unknown'})`);
+      }
+      clearLease(job);
+      job.status = 'pending';
+      delete job.runAt;
+    }
+    return targets.map((job) => ({ ...job }));
+  });
+}
+
+/**
+ * Remove finished jobs from the queue
+ */
+export async function purgeJobs(options: {
+  statuses: JobStatus[];
+  olderThanDays: number;
+  dryRun?: boolean;
+}): Promise<Job[]> {
+  if (options.statuses.includes('running') || options.statuses.includes('pending')) {
+    throw new Error('Refusing to purge pending/running jobs - cancel or retry them instead');
   }
-  
-  if (status === 'running') {
-    job.runAt = new Date().toISOString();
-  } else if (status === 'completed' || status === 'failed') {
-    job.completedAt = new Date().toISOString();
+  const cutoff = Date.now() - options.olderThanDays * 24 * 60 * 60 * 1000;
+  const isPurgeable = (job: Job) => {
+    const finishedAt = job.completedAt || job.failedAt || job.scheduledAt;
+    return options.statuses.includes(job.status) && new Date(finishedAt).getTime() <= cutoff;
+  };
+
+  if (options.dryRun) {
+    return (await loadJobQueue()).filter(isPurgeable);
   }
-  
-  await saveJobQueue(jobs);
+
+  return mutateJobQueue((jobs) => {
+    const removed = jobs.filter(isPurgeable);
+    const kept = jobs.filter((job) => !isPurgeable(job));
+    jobs.splice(0, jobs.length, ...kept);
+    return removed;
+  });
 }
 
 /**
@@ -105,8 +583,9 @@ export async function updateJobStatus(
 export async function canPublishToday(): Promise<boolean> {
   const jobs = await loadJobQueue();
   const today = new Date().toISOString().split('T')[0];
+  // Only single jobs and publish stages put a page live
   const publishedToday = jobs.filter(
-    (j) => j.status === 'completed' && j.completedAt?.startsWith(today)
+    (j) => j.status === 'completed' && j.completedAt?.startsWith(today) && (!j.stage || j.stage === 'publish')
   ).length;
   
   return publishedToday < DAILY_PUBLISH_CAP;
@@ -117,18 +596,24 @@ export async function canPublishToday(): Promise<boolean> {
  */
 export async function checkConsecutiveFailures(): Promise<number> {
   const jobs = await loadJobQueue();
+  // Latest outcome per job: a retried job counts as a failure until it completes
   const recent = jobs
-    .filter((j) => j.status === 'failed' || j.status === 'completed')
-    .sort((a, b) => {
-      const timeA = a.completedAt || a.runAt || a.scheduledAt;
-      const timeB = b.completedAt || b.runAt || b.scheduledAt;
-      return new Date(timeB).getTime() - new Date(timeA).getTime();
+    .map((j) => {
+      if (j.status === 'completed') {
+        return { failed: false, at: j.completedAt || j.startedAt || j.scheduledAt };
+      }
+      if (j.failedAt || j.status === 'failed') {
+        return { failed: true, at: j.failedAt || j.completedAt || j.scheduledAt };
+      }
+      return null;
     })
+    .filter((outcome): outcome is { failed: boolean; at: string } => outcome !== null)
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime())
     .slice(0, FAILURE_STOP_THRESHOLD);
   
   let consecutiveFailures = 0;
-  for (const job of recent) {
-    if (job.status === 'failed') {
+  for (const outcome of recent) {
+    if (outcome.failed) {
       consecutiveFailures++;
     } else {
       break; // Stop counting on first success
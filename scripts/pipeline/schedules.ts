@@ -0,0 +1,335 @@
+/**
+ * Schedules - Cron-style recurring pipeline commands
+ *
+ * Definitions: content/_system/schedules.json (tracked)
+ * Run state:   content/_system/schedule-state.json (last run, consecutive failures)
+ *
+ * The daemon runs each due schedule as a child `scripts/run.ts <command> <args>` process,
+ * so a crashing command (or its process.exit) never takes the daemon down.
+ *
+ * GUARDRAILS:
+ * - Publishing commands are skipped once DAILY_PUBLISH_CAP pages were published today
+ * - Publishing commands are skipped while the job queue has FAILURE_STOP_THRESHOLD consecutive failures
+ * - The daemon stops after FAILURE_STOP_THRESHOLD consecutive failed schedule runs
+ * - A schedule never overlaps with its own previous run
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { logger } from './logger';
+import { DAILY_PUBLISH_CAP, FAILURE_STOP_THRESHOLD } from './config';
+import { parseCron, nextCronOccurrence } from './cron';
+import { checkConsecutiveFailures } from './scheduler';
+import { loadTopicIndex } from './topicIndex';
+
+const SCHEDULES_PATH = path.join(process.cwd(), 'content', '_system', 'schedules.json');
+const SCHEDULE_STATE_PATH = path.join(process.cwd(), 'content', '_system', 'schedule-state.json');
+const TICK_INTERVAL_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MINUTES = 60;
+
+/**
+ * Commands that publish content (count against the daily cap / failure stop)
+ */
+const PUBLISHING_COMMANDS = ['run', 'batch-publish', 'generate-blog', 'publish'];
+
+export type ScheduleTask = 'ideation' | 'generation' | 'refresh' | 'validation' | 'maintenance';
+
+export interface ScheduleDefinition {
+  id: string;
+  description?: string;
+  task: ScheduleTask;
+  cron: string; // 5-field cron expression, host local time
+  command: string; // scripts/run.ts command, e.g. "batch-publish" or "cache prune"
+  args?: string[];
+  enabled: boolean;
+  timeoutMinutes?: number;
+}
+
+export interface ScheduleFile {
+  version: string;
+  schedules: ScheduleDefinition[];
+}
+
+export interface ScheduleRunState {
+  lastRunAt?: string; // ISO 8601
+  lastFinishedAt?: string; // ISO 8601
+  lastStatus?: 'succeeded' | 'failed' | 'skipped' | 'timeout';
+  lastMessage?: string;
+  consecutiveFailures: number;
+  totalRuns: number;
+}
+
+export interface ScheduleState {
+  version: string;
+  lastUpdated: string;
+  consecutiveFailures: number; // Across all schedules (daemon stop condition)
+  bySchedule: Record<string, ScheduleRunState>;
+}
+
+/**
+ * Load and validate schedule definitions
+ */
+export async function loadSchedules(): Promise<ScheduleDefinition[]> {
+  let file: ScheduleFile;
+  try {
+    file = JSON.parse(await fs.readFile(SCHEDULES_PATH, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to load ${SCHEDULES_PATH}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const seen = new Set<string>();
+  for (const schedule of file.schedules || []) {
+    if (!schedule.id || !schedule.command || !schedule.cron) {
+      throw new Error(`Schedule ${JSON.stringify(schedule)} needs id, cron and command`);
+    }
+    if (seen.has(schedule.id)) {
+      throw new Error(`Duplicate schedule id: ${schedule.id}`);
+    }
+    seen.add(schedule.id);
+    parseCron(schedule.cron); // Throws on invalid expressions
+  }
+
+  return file.schedules || [];
+}
+
+/**
+ * Load schedule run state
+ */
+export async function loadScheduleState(): Promise<ScheduleState> {
+  try {
+    const data = await fs.readFile(SCHEDULE_STATE_PATH, 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    return { version: '1.0.0', lastUpdated: new Date().toISOString(), consecutiveFailures: 0, bySchedule: {} };
+  }
+}
+
+/**
+ * Save schedule run state
+ * ATOMIC WRITE: temp file → rename
+ */
+async function saveScheduleState(state: ScheduleState): Promise<void> {
+  state.lastUpdated = new Date().toISOString();
+  await fs.mkdir(path.dirname(SCHEDULE_STATE_PATH), { recursive: true });
+  const tempPath = `${SCHEDULE_STATE_PATH}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(state, null, 2), 'utf-8');
+  await fs.rename(tempPath, SCHEDULE_STATE_PATH);
+}
+
+function getRunState(state: ScheduleState, id: string): ScheduleRunState {
+  if (!state.bySchedule[id]) {
+    state.bySchedule[id] = { consecutiveFailures: 0, totalRuns: 0 };
+  }
+  return state.bySchedule[id];
+}
+
+/**
+ * Pages published today (all page types) from the topic index
+ */
+async function countPublishedToday(): Promise<number> {
+  const today = new Date().toISOString().split('T')[0];
+  const index = await loadTopicIndex();
+  return index.filter((r) => r.status === 'published' && r.lastPublishedAt?.startsWith(today)).length;
+}
+
+/**
+ * Why a schedule should not run right now (null = go)
+ */
+export async function getSkipReason(schedule: ScheduleDefinition): Promise<string | null> {
+  const baseCommand = schedule.command.split(/\s+/)[0];
+  if (!PUBLISHING_COMMANDS.includes(baseCommand)) {
+    return null;
+  }
+
+  const publishedToday = await countPublishedToday();
+  if (publishedToday >= DAILY_PUBLISH_CAP) {
+    return `daily publish cap reached (${publishedToday}/${DAILY_PUBLISH_CAP})`;
+  }
+
+  const jobFailures = await checkConsecutiveFailures();
+  if (jobFailures >= FAILURE_STOP_THRESHOLD) {
+    return `${jobFailures} consecutive job failures (threshold ${FAILURE_STOP_THRESHOLD}) - fix and run 'jobs retry'`;
+  }
+
+  return null;
+}
+
+/**
+ * Next run time for each schedule
+ */
+export function getNextRuns(schedules: ScheduleDefinition[], after: Date = new Date()): Map<string, Date> {
+  const nextRuns = new Map<string, Date>();
+  for (const schedule of schedules) {
+    nextRuns.set(schedule.id, nextCronOccurrence(parseCron(schedule.cron), after));
+  }
+  return nextRuns;
+}
+
+/**
+ * Run one schedule as a child CLI process
+ */
+function runScheduleProcess(
+  schedule: ScheduleDefinition,
+  onSpawn: (child: ChildProcess) => void
+): Promise<{ status: 'succeeded' | 'failed' | 'timeout'; message: string }> {
+  const args = [...schedule.command.split(/\s+/), ...(schedule.args || [])];
+  const timeoutMs = (schedule.timeoutMinutes || DEFAULT_TIMEOUT_MINUTES) * 60 * 1000;
+
+  return new Promise((resolve) => {
+    // Re-run this CLI entry point with the same loader (tsx) flags
+    const child = spawn(process.execPath, [...process.execArgv, process.argv[1], ...args], {
+      cwd: process.cwd(),
+      env: process.env,
+      stdio: 'inherit',
+    });
+    onSpawn(child);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      logger.error(`[schedule:${schedule.id}] Timed out after ${schedule.timeoutMinutes || DEFAULT_TIMEOUT_MINUTES} min - terminating`);
+      child.kill('SIGTERM');
+    }, timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      resolve({ status: 'failed', message: error.message });
+    });
+    child.on('exit', (code, signal) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        resolve({ status: 'timeout', message: `Timed out after ${timeoutMs / 60000} min` });
+      } else if (code === 0) {
+        resolve({ status: 'succeeded', message: 'exit 0' });
+      } else {
+        resolve({ status: 'failed', message: signal ? `killed by ${signal}` : `exit ${code}` });
+      }
+    });
+  });
+}
+
+/**
+ * Long-running scheduler daemon
+ * Resolves when stopped by signal or by the failure threshold.
+ */
+export async function runScheduleDaemon(options: { tickMs?: number } = {}): Promise<{ stoppedBy: 'signal' | 'failure-threshold' }> {
+  const schedules = (await loadSchedules()).filter((s) => s.enabled);
+  if (schedules.length === 0) {
+    throw new Error(`No enabled schedules in ${SCHEDULES_PATH}`);
+  }
+
+  const state = await loadScheduleState();
+  const nextRuns = getNextRuns(schedules);
+  const active = new Set<string>(); // Schedules with a run in progress (incl. pre-spawn checks)
+  const children = new Map<string, ChildProcess>();
+
+  logger.info(`Scheduler daemon started with ${schedules.length} schedule(s):`);
+  schedules.forEach((s) => {
+    logger.info(`  ${s.id} [${s.cron}] ${s.command} ${(s.args || []).join(' ')} → next ${nextRuns.get(s.id)!.toLocaleString()}`);
+  });
+
+  return new Promise((resolve) => {
+    let stopping = false;
+    let stateQueue: Promise<void> = Promise.resolve();
+    const persist = () => {
+      stateQueue = stateQueue.then(() => saveScheduleState(state)).catch((error) => {
+        logger.warn('Failed to save schedule state:', error instanceof Error ? error.message : String(error));
+      });
+      return stateQueue;
+    };
+
+    const stop = async (stoppedBy: 'signal' | 'failure-threshold') => {
+      if (stopping) return;
+      stopping = true;
+      clearInterval(timer);
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+      if (children.size > 0) {
+        logger.warn(`Stopping ${children.size} running schedule(s)...`);
+        await Promise.all(
+          Array.from(children.values()).map(
+            (child) => new Promise<void>((done) => {
+              if (child.exitCode !== null || child.signalCode !== null) return done();
+              child.once('exit', () => done());
+              child.kill('SIGTERM');
+            })
+          )
+        );
+      }
+      await persist();
+      resolve({ stoppedBy });
+    };
+    const onSignal = () => {
+      logger.info('Scheduler daemon received shutdown signal');
+      void stop('signal');
+    };
+
+    const execute = async (schedule: ScheduleDefinition) => {
+      const runState = getRunState(state, schedule.id);
+      const skipReason = await getSkipReason(schedule);
+      if (skipReason) {
+        logger.warn(`[schedule:${schedule.id}] Skipped: ${skipReason}`);
+        runState.lastStatus = 'skipped';
+        runState.lastMessage = skipReason;
+        await persist();
+        return;
+      }
+
+      logger.info(`[schedule:${schedule.id}] Starting: ${schedule.command} ${(schedule.args || []).join(' ')}`);
+      runState.lastRunAt = new Date().toISOString();
+      runState.totalRuns++;
+      await persist();
+
+      const result = await runScheduleProcess(schedule, (child) => children.set(schedule.id, child));
+      children.delete(schedule.id);
+
+      runState.lastFinishedAt = new Date().toISOString();
+      runState.lastStatus = result.status;
+      runState.lastMessage = result.message;
+
+      if (result.status === 'succeeded') {
+        runState.consecutiveFailures = 0;
+        state.consecutiveFailures = 0;
+        logger.info(`[schedule:${schedule.id}] ✅ Finished`);
+      } else if (!stopping) {
+        runState.consecutiveFailures++;
+        state.consecutiveFailures++;
+        logger.error(
+          `[schedule:${schedule.id}] ❌ ${result.message} ` +
+          `(${state.consecutiveFailures}/${FAILURE_STOP_THRESHOLD} consecutive failures)`
+        );
+      }
+      await persist();
+
+      if (state.consecutiveFailures >= FAILURE_STOP_THRESHOLD) {
+        logger.error(`Scheduler daemon stopping: ${state.consecutiveFailures} consecutive failed runs`);
+        void stop('failure-threshold');
+      }
+    };
+
+    const tick = () => {
+      if (stopping) return;
+      const now = new Date();
+      for (const schedule of schedules) {
+        const dueAt = nextRuns.get(schedule.id)!;
+        if (dueAt > now) continue;
+
+        nextRuns.set(schedule.id, nextCronOccurrence(parseCron(schedule.cron), now));
+        if (active.has(schedule.id)) {
+          logger.warn(`[schedule:${schedule.id}] Previous run still in progress - skipping this occurrence`);
+          continue;
+        }
+        active.add(schedule.id);
+        execute(schedule)
+          .catch((error) => logger.error(`[schedule:${schedule.id}] Scheduler error:`, error))
+          .finally(() => active.delete(schedule.id));
+      }
+    };
+
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+    const timer = setInterval(tick, options.tickMs || TICK_INTERVAL_MS);
+    tick();
+  });
+}
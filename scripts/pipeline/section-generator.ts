@@ -0,0 +1,332 @@
+/**
+ * Section Generator - Long-form generation driven by ContentBrief.outline
+ *
+ * Each H2 outline item (with the H3 items under it) is generated in its own LLM call
+ * with its own keyFacts and a share of the internal links, then the sections are
+ * stitched into one body. Body length is no longer capped by LLM_CONFIG.maxTokens,
+ * and a section the quality gate flags can be regenerated without redoing the rest.
+ */
+
+import { ContentBrief, Fact, GeneratedDoc, OutlineItem, PageType } from './types';
+import { SECTION_GENERATION_CONFIG } from './config';
+import { generateWithLLM } from './llm';
+import { logger } from './logger';
+import { formatKeyFactsForPrompt, formatSourcesForPrompt, buildCitationRules, finalizeCitations } from './citations';
+import { generateRetentionOutline, addImagesToPost } from './blog-retention-template';
+import { normalizeHeading, replaceSection, splitSections } from './sections';
+import { FlaggedSection } from './quality-gate';
+
+/**
+ * One H2 section to generate
+ */
+export interface SectionPlan {
+  title: string; // Heading as published (parenthetical labels removed)
+  description: string;
+  subsections: OutlineItem[]; // H3 items under this H2
+  keyFacts: Fact[];
+}
+
+/**
+ * A section to rewrite: the problems to fix (gate errors or repair instructions)
+ */
+export interface SectionRewrite extends FlaggedSection {
+  targetWords?: number; // Defaults to the section's current length
+}
+
+/**
+ * Page-type rules for section prompts
+ */
+export interface SectionStyle {
+  systemPrompt: string;
+  guidelines: string; // Appended to every section prompt
+  closing?: string; // Final section outside the outline (FAQs, CTA, regulations link)
+  outline?: (brief: ContentBrief) => OutlineItem[]; // Defaults to brief.outline
+  postProcess?: (body: string, brief: ContentBrief) => string;
+}
+
+const SHARED_GUIDELINES = `- Specific, actionable advice: depths, weights, distances, times, brand names
+- Short paragraphs (max 4-5 lines), 2nd person ("you should cast...")
+- NEVER mention bag, size, slot or possession limits, open/closed seasons, or license requirements
+- NEVER copy text verbatim from sources
+- NEVER use generic AI phrases ("dive into", "unlock", "explore")`;
+
+export const SECTION_STYLES: Record<PageType, SectionStyle> = {
+  blog: {
+    systemPrompt: 'You are an expert fishing content writer specializing in high-retention blog posts. You write one section of a longer post at a time.',
+    guidelines: `${SHARED_GUIDELINES}
+- Where the section description asks for an image, use one of these exact placeholders:
+  ![Fishing tackle and lures laid out](IMAGE_TACKLE), ![Angler casting or fishing technique demonstration](IMAGE_TECHNIQUE),
+  ![Fishing structure or habitat photo](IMAGE_STRUCTURE), ![Fish or detail closeup](IMAGE_DETAIL) - followed by an *italic caption*
+- The "Action Plan" or "Next Steps" section must include a "Tackle app" call-to-action
+  (e.g. "Download the Tackle app to log your catches, track patterns, and discover hot spots near you.")`,
+    outline: (brief) =>
+      generateRetentionOutline({
+        title: brief.title,
+        primaryKeyword: brief.primaryKeyword,
+        speciesFocus: brief.speciesFocus,
+        locationFocus: brief.locationFocus,
+        pageType: 'blog',
+      }),
+    postProcess: (body, brief) => addImagesToPost(body, brief.speciesFocus, brief.locationFocus),
+  },
+  species: {
+    systemPrompt: 'You are a fishing content writer. You write one section of a species guide at a time, beginner-friendly and original.',
+    guidelines: SHARED_GUIDELINES,
+    closing: `Write the closing sections of the species guide:
+- "## Frequently Asked Questions" with 5-8 questions as **bold questions** followed by 2-4 sentence answers
+- "## What to Do Next" with a CTA linking to /download
+- "## See Local Regulations" - one neutral sentence telling readers to check official regulations (no specifics)`,
+  },
+  'how-to': {
+    systemPrompt: 'You are a fishing content writer. You write one section of a how-to guide at a time, with clear numbered steps.',
+    guidelines: `${SHARED_GUIDELINES}
+- Steps are "### Step N: <name>" headings, each followed by what to do and why`,
+    closing: `Write the closing sections of the how-to guide:
+- "## Frequently Asked Questions" with 5-8 questions as **bold questions** followed by 2-4 sentence answers
+- "## What to Do Next" with a CTA linking to /download`,
+  },
+  location: {
+    systemPrompt: 'You are a fishing content writer. You write one section of a location guide at a time, with local, specific detail.',
+    guidelines: SHARED_GUIDELINES,
+    closing: `Write the closing sections of the location guide:
+- "## Frequently Asked Questions" with 5-8 questions as **bold questions** followed by 2-4 sentence answers
+- "## See Local Regulations" - one neutral sentence telling readers to check official regulations (no specifics)`,
+  },
+};
+
+/**
+ * Generate by section when enabled and the outline is long enough to benefit
+ */
+export function shouldGenerateBySection(brief: ContentBrief): boolean {
+  const outline = SECTION_STYLES[brief.pageType].outline?.(brief) || brief.outline;
+  return SECTION_GENERATION_CONFIG.enabled && planSections(outline).length >= SECTION_GENERATION_CONFIG.minOutlineSections;
+}
+
+/**
+ * Group the outline into H2 sections (H3 items belong to the H2 before them)
+ */
+export function planSections(outline: OutlineItem[]): SectionPlan[] {
+  const plans: SectionPlan[] = [];
+
+  for (const item of outline) {
+    const current = plans[plans.length - 1];
+    if (item.level === 3 && current) {
+      current.subsections.push(item);
+      current.keyFacts.push(...(item.keyFacts || []));
+      continue;
+    }
+    plans.push({
+      title: item.title.replace(/\s*\([^)]+\)\s*/g, ' ').trim(),
+      description: item.description,
+      subsections: [],
+      keyFacts: [...(item.keyFacts || [])],
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Generate a body one outline section at a time
+ */
+export async function generateSectionedBody(
+  brief: ContentBrief,
+  options: { temperature?: number; angleGuidance?: string } = {}
+): Promise<string> {
+  const style = SECTION_STYLES[brief.pageType];
+  const plans = planSections(style.outline?.(brief) || brief.outline);
+  const links = listInternalLinks(brief);
+  const wordBudget = Math.max(SECTION_GENERATION_CONFIG.minSectionWords, Math.ceil(brief.minWordCount / plans.length));
+
+  logger.info(`Generating ${brief.slug} in ${plans.length} sections (~${wordBudget} words each)`);
+
+  const sections: string[] = [];
+  for (let i = 0; i < plans.length; i++) {
+    const prompt = buildSectionPrompt(brief, plans[i], style, {
+      position: `${i + 1} of ${plans.length}`,
+      otherSections: plans.filter((_, j) => j !== i).map((p) => p.title),
+      links: links.filter((_, j) => j % plans.length === i), // Spread links across sections
+      wordBudget,
+      angleGuidance: options.angleGuidance,
+    });
+    sections.push(await generateSectionMarkdown(plans[i].title, prompt, style, options.temperature));
+  }
+
+  if (style.closing) {
+    const closing = await generateWithLLM({
+      prompt: `${style.closing}\n\nTOPIC: ${brief.title}\nPRIMARY KEYWORD: ${brief.primaryKeyword}\n\n` +
+        `The guide already covers: ${plans.map((p) => p.title).join(', ')}.\n\nReturn only the markdown for these sections.`,
+      systemPrompt: style.systemPrompt,
+      temperature: options.temperature,
+    });
+    const text = String(typeof closing === 'string' ? closing : closing.body || '');
+    sections.push(text.replace(/^# [^\n]*\n?/gm, '').trim()); // The page renders the H1
+  }
+
+  const body = finalizeCitations(sections.join('\n\n'), brief.sources);
+  return style.postProcess ? style.postProcess(body, brief) : body;
+}
+
+/**
+ * Regenerate flagged sections of a doc in place
+ * The rest of the body is kept; headings are re-read and the stale fact check dropped
+ */
+export async function regenerateSections<T extends GeneratedDoc>(
+  doc: T,
+  brief: ContentBrief,
+  flagged: SectionRewrite[],
+  options: { temperature?: number } = {}
+): Promise<T> {
+  const style = SECTION_STYLES[doc.pageType];
+  const plans = planSections(style.outline?.(brief) || brief.outline);
+  const links = listInternalLinks(brief);
+  const existing = splitSections(doc.body);
+  let body = doc.body;
+
+  for (const { heading, errors, targetWords } of flagged) {
+    const current = existing.find((s) => s.heading !== null && normalizeHeading(s.heading) === normalizeHeading(heading));
+    if (!current) {
+      logger.warn(`Cannot regenerate "${heading}" - no such section in ${doc.slug}`);
+      continue;
+    }
+
+    // Sections outside the outline (e.g. the closing FAQs) are rewritten from their current text
+    const plan = plans.find((p) => normalizeHeading(p.title) === normalizeHeading(heading)) || {
+      title: heading,
+      description: 'Rewrite this section with the same purpose and structure',
+      subsections: [],
+      keyFacts: [],
+    };
+    const wordCount = current.markdown.split(/\s+/).filter(Boolean).length;
+    const prompt = buildSectionPrompt(brief, plan, style, {
+      position: `"${heading}"`,
+      otherSections: existing.filter((s) => s.heading && s !== current).map((s) => s.heading!),
+      links: links.filter((link) => current.markdown.includes(link.split(': ')[1])), // Keep the links it had
+      wordBudget: targetWords || Math.max(SECTION_GENERATION_CONFIG.minSectionWords, wordCount),
+      previous: current.markdown,
+      problems: errors,
+    });
+
+    logger.info(`Regenerating section "${heading}" of ${doc.slug} (${errors.length} problem(s))`);
+    const markdown = await generateSectionMarkdown(current.heading!, prompt, style, options.temperature);
+    body = replaceSection(body, heading, markdown);
+  }
+
+  body = finalizeCitations(body, brief.sources);
+  body = style.postProcess ? style.postProcess(body, brief) : body;
+
+  const { factCheck, ...rest } = doc;
+  return {
+    ...rest,
+    body,
+    headings: extractHeadings(body),
+    dates: { ...doc.dates, updatedAt: new Date().toISOString() },
+  } as T;
+}
+
+async function generateSectionMarkdown(
+  heading: string,
+  prompt: string,
+  style: SectionStyle,
+  temperature?: number
+): Promise<string> {
+  const generated = await generateWithLLM({ prompt, systemPrompt: style.systemPrompt, temperature });
+  const text = String(typeof generated === 'string' ? generated : generated.body || '').trim();
+
+  // The heading is ours - drop any H1/H2 the model opened with, and keep stray H2s
+  // from splitting the section (replaceSection relies on one H2 per section)
+  const content = text
+    .replace(/^(?:#{1,2} [^\n]*\n+)+/, '')
+    .replace(/^# [^\n]*\n?/gm, '')
+    .replace(/^## /gm, '### ')
+    .trim();
+  return `## ${heading}\n\n${content}`;
+}
+
+function buildSectionPrompt(
+  brief: ContentBrief,
+  plan: SectionPlan,
+  style: SectionStyle,
+  context: {
+    position: string;
+    otherSections: string[];
+    links: string[];
+    wordBudget: number;
+    angleGuidance?: string;
+    previous?: string;
+    problems?: string[];
+  }
+): string {
+  // Outline items without their own facts get the brief's strongest facts to pick from
+  const facts = plan.keyFacts.length > 0 ? plan.keyFacts : brief.keyFacts.slice(0, SECTION_GENERATION_CONFIG.factsPerSection);
+  const keyFacts = formatKeyFactsForPrompt(facts, brief.sources).map((f) => `- ${f}`).join('\n');
+  const subsections = plan.subsections.map((s) => `- ### ${s.title}: ${s.description}`).join('\n');
+
+  const parts = [
+    context.previous
+      ? `Rewrite the section ${context.position} of "${brief.title}".`
+      : `Write section ${context.position} of "${brief.title}".`,
+    `PRIMARY KEYWORD: ${brief.primaryKeyword}
+SECONDARY KEYWORDS: ${brief.secondaryKeywords.join(', ')}`,
+    `SECTION: ${plan.title}
+WHAT IT COVERS: ${plan.description}${subsections ? `\nSUBSECTIONS (H3):\n${subsections}` : ''}`,
+    `OTHER SECTIONS (do not repeat their content): ${context.otherSections.join(', ')}`,
+  ];
+
+  if (context.previous) {
+    parts.push(`CURRENT VERSION:\n${context.previous.trim()}`);
+    if (context.problems && context.problems.length > 0) {
+      parts.push(`FIX THESE PROBLEMS (keep everything else that works):\n${context.problems.map((p) => `- ${p}`).join('\n')}`);
+    }
+  }
+
+  if (keyFacts) {
+    parts.push(`KEY FACTS (use the ones relevant to this section, paraphrased):\n${keyFacts}`);
+  }
+  if (context.links.length > 0) {
+    parts.push(`INTERNAL LINKS (use all of these naturally):\n${context.links.join('\n')}`);
+  }
+  if (brief.sources.length > 0) {
+    parts.push(`SOURCES (cite inline with their markers):\n${formatSourcesForPrompt(brief.sources).join('\n')}`);
+  }
+
+  const citationRules = buildCitationRules(brief.sources);
+  if (citationRules) {
+    parts.push(citationRules);
+  }
+  if (context.angleGuidance) {
+    parts.push(`ANGLE: ${context.angleGuidance}`);
+  }
+
+  parts.push(`RULES:
+${style.guidelines}
+- About ${context.wordBudget} words
+- Markdown; start with the section content (the "## ${plan.title}" heading is added for you), H3 for subsections only
+- No introduction to the whole article, no conclusion, no FAQs unless this section is the FAQ section`);
+
+  return parts.join('\n\n');
+}
+
+function listInternalLinks(brief: ContentBrief): string[] {
+  return [
+    ...(brief.internalLinksToInclude.speciesSlugs || []).map((s) => `- Species: /species/${s}`),
+    ...(brief.internalLinksToInclude.howToSlugs || []).map((h) => `- How-to: /how-to/${h}`),
+    ...(brief.internalLinksToInclude.locationSlugs || []).map((l) => `- Location: /locations/${l}`),
+    ...(brief.internalLinksToInclude.postSlugs || []).map((p) => `- Blog: /blog/${p}`),
+  ];
+}
+
+function extractHeadings(body: string): GeneratedDoc['headings'] {
+  return body
+    .split('\n')
+    .map((line) => line.match(/^(#{1,3}) (.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => {
+      const text = match[2].trim();
+      return {
+        level: match[1].length as 1 | 2 | 3,
+        text,
+        id: text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, ''),
+      };
+    });
+}
@@ -0,0 +1,81 @@
+/**
+ * Sections - Split a markdown body into its H2 sections and splice them back together
+ *
+ * A section runs from its "## " heading to the next one. Text before the first H2
+ * (intro, H1) is the preamble and has a null heading. Section generation
+ * (section-generator.ts) writes one section per outline item, and the quality gate
+ * uses these helpers to trace an error back to the section that caused it.
+ */
+
+export interface BodySection {
+  heading: string | null; // H2 text, null for the preamble
+  start: number; // Offset of the section in the body
+  markdown: string; // Heading line + content
+}
+
+/**
+ * Split a body into its preamble and H2 sections (concatenating them gives the body back)
+ */
+export function splitSections(body: string): BodySection[] {
+  const sections: BodySection[] = [];
+  const headingPattern = /^## +(.+?)\s*$/gm;
+  let current: { heading: string | null; start: number } = { heading: null, start: 0 };
+
+  for (const match of body.matchAll(headingPattern)) {
+    const start = match.index!;
+    if (start > current.start || current.heading !== null) {
+      sections.push({ ...current, markdown: body.slice(current.start, start) });
+    }
+    current = { heading: match[1], start };
+  }
+  sections.push({ ...current, markdown: body.slice(current.start) });
+
+  return sections.filter((s) => s.heading !== null || s.markdown.trim().length > 0);
+}
+
+/**
+ * Headings match ignoring case, markdown emphasis and parenthetical labels
+ * ("Quick Answer (Instant Value)" matches "**Quick Answer**")
+ */
+export function normalizeHeading(heading: string): string {
+  return heading
+    .replace(/\s*\([^)]+\)\s*/g, ' ')
+    .replace(/[*_`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Section containing a body offset (null for the preamble)
+ */
+export function findSectionAt(body: string, index: number): string | null {
+  const sections = splitSections(body);
+  const section = [...sections].reverse().find((s) => s.start <= index);
+  return section?.heading ?? null;
+}
+
+/**
+ * Section containing a snippet of text (undefined if the text is not in the body)
+ */
+export function findSectionContaining(body: string, text: string): string | null | undefined {
+  const index = body.indexOf(text.trim());
+  return index === -1 ? undefined : findSectionAt(body, index);
+}
+
+/**
+ * Replace the section with this heading (throws if the body has no such section)
+ */
+export function replaceSection(body: string, heading: string, markdown: string): string {
+  const sections = splitSections(body);
+  const target = normalizeHeading(heading);
+  const index = sections.findIndex((s) => s.heading !== null && normalizeHeading(s.heading) === target);
+  if (index === -1) {
+    throw new Error(`Section not found: "${heading}"`);
+  }
+
+  // Keep the blank line that separated the old section from the next one
+  const trailing = sections[index].markdown.match(/\s*$/)![0];
+  sections[index] = { ...sections[index], markdown: `${markdown.trim()}${trailing || '\n\n'}` };
+  return sections.map((s) => s.markdown).join('');
+}
@@ -80,6 +80,7 @@ export const APPROVED_SOURCES: SourceRegistryEntry[] = [
     homepage: 'https://myfwc.com',
     allowedPaths: ['/wildlifehabitats/profiles', '/fishing/saltwater'],
     disallowedPaths: ['/regulations', '/licenses'],
+    urlTemplates: ['/wildlifehabitats/profiles/saltwater/{species}'],
     rateLimitPerMin: 10,
     fetchMethod: 'html',
     tags: ['species-biology'],
@@ -92,6 +93,7 @@ export const APPROVED_SOURCES: SourceRegistryEntry[] = [
     homepage: 'https://www.fisheries.noaa.gov',
     allowedPaths: ['/species'],
     disallowedPaths: ['/regulations', '/management'],
+    urlTemplates: ['/species/{species}'],
     rateLimitPerMin: 15,
     fetchMethod: 'api',
     tags: ['species-biology'],
@@ -120,6 +122,7 @@ export const APPROVED_SOURCES: SourceRegistryEntry[] = [
     homepage: 'https://www.takemefishing.org',
     allowedPaths: ['/how-to-fish'],
     disallowedPaths: [],
+    urlTemplates: ['/how-to-fish/{howTo}'],
     rateLimitPerMin: 5,
     fetchMethod: 'html',
     tags: ['technique-guides'],
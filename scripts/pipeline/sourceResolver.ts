@@ -0,0 +1,236 @@
+/**
+ * Source Resolver - Grounds queued jobs in facts from approved sources
+ *
+ * For a job's topic key: pick active APPROVED_SOURCES tagged for the page type,
+ * build candidate URLs (topic pages from urlTemplates first, then section index pages),
+ * fetch them through fetchUrl (allowlist + rate limits), run extract() and keep
+ * facts that belong to the topic.
+ *
+ * IMPORTANT: Facts only - raw page text never leaves this module.
+ */
+
+import { Fact, PageType, Source, SourceRegistryEntry, TopicKey } from './types';
+import { getActiveSources, isUrlAllowed } from './sourceRegistry';
+import { fetchUrls } from './fetcher';
+import { extract } from './extractor';
+import { RATE_LIMIT_CONFIG, SOURCE_RESOLUTION_CONFIG } from './config';
+import { logger } from './logger';
+
+/**
+ * Source tags worth fetching for each page type (most specific first)
+ */
+const SOURCE_TAGS_BY_PAGE_TYPE: Record<PageType, string[]> = {
+  species: ['species-biology', 'seasonal-patterns'],
+  'how-to': ['technique-guides', 'seasonal-patterns'],
+  location: ['seasonal-patterns', 'weather-conditions', 'tides-solunar', 'species-biology'],
+  blog: ['technique-guides', 'seasonal-patterns', 'species-biology'],
+};
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'how', 'what', 'best', 'guide', 'fishing', 'global']);
+
+export interface TopicIdentifiers {
+  species?: string;
+  howTo?: string;
+  state?: string;
+  city?: string;
+  topic?: string;
+}
+
+export interface CandidateUrl {
+  url: string;
+  source: SourceRegistryEntry;
+  topicSpecific: boolean; // Built from a urlTemplate (vs. a section index page)
+}
+
+export interface ResolvedSources {
+  facts: Fact[];
+  sources: Source[];
+  attempted: number;
+  failed: Array<{ url: string; error: string }>;
+}
+
+export class SourceResolutionError extends Error {
+  constructor(message: string, public topicKey: TopicKey, public failed: ResolvedSources['failed']) {
+    super(message);
+    this.name = 'SourceResolutionError';
+  }
+}
+
+/**
+ * Parse identifiers out of a topic key (inverse of generateTopicKey)
+ */
+export function parseTopicKey(topicKey: TopicKey): TopicIdentifiers {
+  const [prefix, first = '', second = ''] = topicKey.split('::');
+  switch (prefix) {
+    case 'species':
+      return { species: first, state: second && second !== 'global' ? second : undefined, topic: first };
+    case 'howto':
+      return { howTo: first, topic: first };
+    case 'location':
+      return { state: first, city: second, topic: second || first };
+    case 'blog':
+    default:
+      return { topic: first };
+  }
+}
+
+/**
+ * Active sources tagged for a page type
+ */
+export function getSourcesForPageType(pageType: PageType): SourceRegistryEntry[] {
+  const tags = SOURCE_TAGS_BY_PAGE_TYPE[pageType] || [];
+  return getActiveSources()
+    .filter((source) => source.tags.some((tag) => tags.includes(tag)))
+    .sort((a, b) => rankByTags(a, tags) - rankByTags(b, tags));
+}
+
+function rankByTags(source: SourceRegistryEntry, tags: string[]): number {
+  const ranks = source.tags.map((tag) => tags.indexOf(tag)).filter((rank) => rank !== -1);
+  return Math.min(...ranks);
+}
+
+/**
+ * Fill a url template; null when a placeholder has no value for this topic
+ */
+function fillTemplate(template: string, identifiers: TopicIdentifiers): string | null {
+  let missing = false;
+  const filled = template.replace(/\{(\w+)\}/g, (_, key: keyof TopicIdentifiers) => {
+    const value = identifiers[key];
+    if (!value) {
+      missing = true;
+      return '';
+    }
+    return encodeURIComponent(value);
+  });
+  return missing ? null : filled;
+}
+
+/**
+ * Build candidate URLs for a topic (topic pages before index pages, allowlisted only)
+ */
+export function buildCandidateUrls(
+  sources: SourceRegistryEntry[],
+  identifiers: TopicIdentifiers,
+  maxUrls: number = SOURCE_RESOLUTION_CONFIG.maxUrlsPerJob
+): CandidateUrl[] {
+  const topicPages: CandidateUrl[] = [];
+  const indexPages: CandidateUrl[] = [];
+
+  for (const source of sources) {
+    const homepage = source.homepage.replace(/\/+$/, '');
+    for (const template of source.urlTemplates || []) {
+      const filledPath = fillTemplate(template, identifiers);
+      if (filledPath) {
+        topicPages.push({ url: `${homepage}${filledPath}`, source, topicSpecific: true });
+      }
+    }
+    for (const allowedPath of source.allowedPaths) {
+      indexPages.push({ url: `${homepage}${allowedPath}`, source, topicSpecific: false });
+    }
+  }
+
+  const seen = new Set<string>();
+  return [...topicPages, ...indexPages]
+    .filter((candidate) => {
+      if (seen.has(candidate.url)) return false;
+      seen.add(candidate.url);
+      try {
+        return isUrlAllowed(candidate.url, candidate.source);
+      } catch {
+        return false; // Invalid URL
+      }
+    })
+    .slice(0, maxUrls);
+}
+
+/**
+ * Words a fact must mention to count as on-topic when it came from an index page
+ */
+function getTopicTerms(identifiers: TopicIdentifiers): string[] {
+  // State counts for city pages (a Florida fact is on-topic for Tampa), not for species pages
+  const cityState = identifiers.city ? identifiers.state : undefined;
+  const words = [identifiers.species, identifiers.howTo, identifiers.city, cityState, identifiers.topic]
+    .filter((value): value is string => !!value)
+    .flatMap((value) => value.toLowerCase().split(/[-_\s]+/));
+  return Array.from(new Set(words.filter((word) => word.length > 2 && !STOP_WORDS.has(word))));
+}
+
+/**
+ * Fetch + extract facts for a job's topic
+ * Throws SourceResolutionError when fewer than minFacts grounded facts are found.
+ */
+export async function resolveSourcesForTopic(pageType: PageType, topicKey: TopicKey): Promise<ResolvedSources> {
+  const identifiers = parseTopicKey(topicKey);
+  const candidates = buildCandidateUrls(getSourcesForPageType(pageType), identifiers);
+
+  if (candidates.length === 0) {
+    throw new SourceResolutionError(`No approved sources available for ${pageType}`, topicKey, []);
+  }
+
+  logger.info(`Resolving sources for ${topicKey}: ${candidates.length} candidate URLs`);
+
+  const topicTerms = getTopicTerms(identifiers);
+  const results = await fetchUrls(
+    candidates.map(({ url, source }) => ({ url, source })),
+    RATE_LIMIT_CONFIG.maxConcurrentFetches
+  );
+
+  const facts: Fact[] = [];
+  const sources: Source[] = [];
+  const failed: ResolvedSources['failed'] = [];
+  const seenClaims = new Set<string>();
+
+  results.forEach((result, index) => {
+    const candidate = candidates[index];
+    if ('error' in result) {
+      failed.push({ url: result.url, error: result.error.message });
+      return;
+    }
+
+    const raw = extract(result.doc);
+    const onTopic = raw.extractedFacts.filter((fact) => {
+      const claim = fact.claim.toLowerCase();
+      if (seenClaims.has(claim)) return false;
+      return candidate.topicSpecific || topicTerms.length === 0 || topicTerms.some((term) => claim.includes(term));
+    });
+
+    if (onTopic.length === 0) {
+      logger.debug(`No on-topic facts from ${raw.url}`);
+      return;
+    }
+
+    onTopic.forEach((fact) => seenClaims.add(fact.claim.toLowerCase()));
+    facts.push(...onTopic);
+
+    const idTaken = sources.some((s) => s.id === candidate.source.id);
+    sources.push({
+      id: idTaken ? `${candidate.source.id}-${sources.length + 1}` : candidate.source.id,
+      label: raw.title || candidate.source.name,
+      url: raw.url,
+      publisher: candidate.source.name,
+      retrievedAt: raw.fetchedAt,
+    });
+  });
+
+  logger.info(
+    `Resolved ${facts.length} facts from ${sources.length}/${candidates.length} sources` +
+    (failed.length > 0 ? ` (${failed.length} fetches failed)` : '')
+  );
+
+  if (facts.length < SOURCE_RESOLUTION_CONFIG.minFacts) {
+    throw new SourceResolutionError(
+      `Only ${facts.length} grounded facts found for ${topicKey} (need ${SOURCE_RESOLUTION_CONFIG.minFacts})`,
+      topicKey,
+      failed
+    );
+  }
+
+  return {
+    facts: facts
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, SOURCE_RESOLUTION_CONFIG.maxFacts),
+    sources,
+    attempted: candidates.length,
+    failed,
+  };
+}
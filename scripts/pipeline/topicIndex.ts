@@ -2,7 +2,7 @@
  * Topic Index - Persistent storage for topic tracking
  */
 
-import { TopicIndexRecord, TopicKey } from './types';
+import { PageType, TopicIndexRecord, TopicKey } from './types';
 import { logger } from './logger';
 import fs from 'fs/promises';
 import path from 'path';
@@ -99,6 +99,26 @@ export async function upsertRecord(record: TopicIndexRecord): Promise<void> {
   await saveTopicIndex(index);
 }
 
+/**
+ * Mark the topics of a doc that was merged or pruned as archived
+ * Returns the number of records changed.
+ */
+export async function markArchived(pageType: PageType, slug: string): Promise<number> {
+  const index = await loadTopicIndex();
+  let changed = 0;
+  for (const record of index) {
+    if (record.pageType === pageType && record.slug === slug && record.status !== 'archived') {
+      record.status = 'archived';
+      record.lastUpdatedAt = new Date().toISOString();
+      changed++;
+    }
+  }
+  if (changed > 0) {
+    await saveTopicIndex(index);
+  }
+  return changed;
+}
+
 /**
  * Mark topic as published
  */
@@ -4,7 +4,9 @@
 
 export type PageType = 'blog' | 'species' | 'how-to' | 'location';
 export type TopicKey = string; // Format: "type::identifier" or "type::identifier1::identifier2"
-export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled' | 'dead-letter';
+export type JobErrorClass = 'transient' | 'quality-gate' | 'validation' | 'permanent' | 'unknown';
+export type JobStage = 'ideate' | 'brief' | 'generate' | 'fact-check' | 'gate' | 'publish' | 'revalidate';
 
 /**
  * Raw document extracted from source
@@ -153,13 +155,25 @@ export interface Job {
   attempts: number;
   maxAttempts: number;
   lastError?: string;
+  lastErrorClass?: JobErrorClass;
   scheduledAt: string; // ISO 8601
-  runAt?: string; // ISO 8601
+  runAt?: string; // ISO 8601 - not claimed before this (retry backoff)
+  startedAt?: string; // ISO 8601 - latest attempt start
+  failedAt?: string; // ISO 8601 - latest failed attempt
   completedAt?: string; // ISO 8601
+  leaseOwner?: string; // Worker holding the job while running
+  leaseExpiresAt?: string; // ISO 8601 - re-queued by any worker after this
+  heartbeatAt?: string; // ISO 8601 - last lease renewal
+  pipelineId?: string; // Stage jobs created together share this (and an artifacts directory)
+  stage?: JobStage; // Unset = single job running every stage in one go
+  dependsOn?: string[]; // jobIds that must complete before this job can be claimed
+  blockedBy?: string; // Upstream jobId whose dead-letter cancelled this job
+  params?: Record<string, string | number | boolean>; // Stage inputs not encoded in the topic key
   outputs?: {
     slug?: string;
     url?: string;
     errors?: string[];
+    artifactPath?: string; // Stage output, relative to the repo root
   };
 }
 
@@ -200,6 +214,57 @@ export interface CTA {
   metadata?: Record<string, any>; // Additional metadata
 }
 
+/**
+ * Fact-check verdict for one verifiable claim in a doc body
+ */
+export interface FactCheckVerdict {
+  claim: string; // Sentence as written (citation markers removed)
+  category: 'size' | 'limit' | 'season' | 'temperature' | 'other';
+  citedSourceIds: string[]; // Markers on the sentence (doc.sources ids)
+  verdict: 'supported' | 'refuted' | 'unverified';
+  confidence: number; // 0-1
+  explanation: string;
+  evidence: string[]; // URLs the checker relied on
+}
+
+/**
+ * Fact-check report stored on the doc (read by the quality gate)
+ */
+export interface FactCheckReport {
+  checker: string; // FACT_CHECK_CONFIG.checker used
+  checkedAt: string; // ISO 8601
+  verdicts: FactCheckVerdict[];
+}
+
+/**
+ * Editorial workflow status (lib/content/workflow.ts): draft → in-review → scheduled → published
+ */
+export type EditorialStatus = 'draft' | 'in-review' | 'scheduled' | 'published';
+
+/**
+ * One workflow transition, oldest first in EditorialState.history
+ */
+export interface EditorialTransition {
+  from: EditorialStatus;
+  to: EditorialStatus;
+  by: string;
+  at: string; // ISO 8601
+  note?: string;
+}
+
+/**
+ * Editorial workflow state stored on the doc
+ * flags.draft mirrors it: true while the doc is a draft or in review.
+ */
+export interface EditorialState {
+  status: EditorialStatus;
+  reviewer?: string; // Assigned on submit for review
+  approvedBy?: string;
+  approvedAt?: string; // ISO 8601
+  scheduledFor?: string; // ISO 8601 - hidden from listings and pages until then
+  history: EditorialTransition[];
+}
+
 export interface BaseDoc {
   id: string; // UUID
   slug: string;
@@ -230,8 +295,11 @@ export interface BaseDoc {
     draft: boolean;
     noindex: boolean;
   };
+  editorial?: EditorialState; // Absent on docs published before the workflow (treated as published)
   ctas?: CTA[]; // Structured CTAs - validated by quality gate
   vibeTest?: VibeTest; // Unique authority signal - proprietary scoring & insights
+  factCheck?: FactCheckReport; // Claim verdicts from the fact-check stage
+  angle?: ContentBrief['angle']; // Brief angle the doc was written for (readability thresholds)
   alternativeRecommendations?: Array<{
     title: string;
     slug: string;
@@ -255,6 +323,14 @@ export interface BlogPostDoc extends BaseDoc {
   featuredImage?: string;
 }
 
+/**
+ * Generation variant for one blog draft (multi-draft.ts)
+ */
+export interface BlogDraftVariant {
+  temperature: number;
+  angle?: ContentBrief['angle']; // Overrides the brief's angle for this draft
+}
+
 /**
  * Species document
  */
@@ -278,6 +354,20 @@ export interface SpeciesDoc extends BaseDoc {
 export interface HowToDoc extends BaseDoc {
   pageType: 'how-to';
   category: 'beginner' | 'inshore' | 'pier-bank' | 'kayak' | 'advanced';
+  howToMeta?: {
+    steps?: HowToStep[];
+    tools?: string[];
+    supplies?: string[];
+    totalTime?: string; // ISO 8601 duration, e.g. "PT45M"
+  };
+}
+
+/**
+ * One step of a how-to guide (HowTo structured data)
+ */
+export interface HowToStep {
+  name: string;
+  text: string;
 }
 
 /**
@@ -310,6 +400,7 @@ export interface SourceRegistryEntry {
   homepage: string;
   allowedPaths: string[]; // URL patterns (regex or glob)
   disallowedPaths: string[]; // URL patterns to exclude
+  urlTemplates?: string[]; // Topic page paths, e.g. '/species/{species}' (placeholders: species, howTo, state, city, topic)
   rateLimitPerMin: number;
   fetchMethod: 'rss' | 'html' | 'api';
   apiKey?: string;
@@ -5,6 +5,8 @@
  */
 
 import { logger } from './logger';
+import { isReplaying } from './cassette';
+import { cachedFetch } from './api-cache';
 import { KeywordData, fetchKeywordSuggestions, filterByIntent } from './ideation';
 
 const DATAFORSEO_API_URL = 'https://api.dataforseo.com';
@@ -41,7 +43,7 @@ export async function validateKeywords(
 ): Promise<ValidatedKeyword[]> {
   logger.info(`Validating ${keywords.length} keywords with DataForSEO...`);
   
-  if (!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) {
+  if ((!DATAFORSEO_LOGIN || !DATAFORSEO_PASSWORD) && !isReplaying()) {
     throw new Error('DataForSEO credentials not found. Set DATAFORSEO_LOGIN and DATAFORSEO_PASSWORD environment variables.');
   }
 
@@ -110,7 +112,7 @@ async function getRelatedQuestions(keywords: string[]): Promise<Map<string, stri
   
   for (const keyword of keywordsToCheck) {
     try {
-      const response = await fetch(`${DATAFORSEO_API_URL}/v3/serp/google/organic/live/advanced`, {
+      const response = await cachedFetch('dataforseo', `${DATAFORSEO_API_URL}/v3/serp/google/organic/live/advanced`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -13,30 +13,82 @@ dotenv.config({ path: resolve(process.cwd(), '.env.local') });
 import { Command } from 'commander';
 import { logger } from './pipeline/logger';
 import {
-  getNextJob,
+  claimNextJob,
+  requeueExpiredJobs,
+  startJobHeartbeat,
+  createWorkerId,
   updateJobStatus,
+  failJob,
+  releaseJob,
   addJob,
+  addPipelineJobs,
+  cancelDownstreamJobs,
   calculatePriority,
   canPublishToday,
   checkConsecutiveFailures,
 } from './pipeline/scheduler';
-import { generateTopicKey, buildBrief } from './pipeline/briefBuilder';
-import { generateBlogPost } from './pipeline/generators/blog';
-import { generateSpecies } from './pipeline/generators/species';
-import { generateHowTo } from './pipeline/generators/howto';
-import { generateLocation } from './pipeline/generators/location';
+import { generateTopicKey } from './pipeline/briefBuilder';
+import { buildJobBrief, generateDocForBrief, revalidatePaths, runJobStage } from './pipeline/job-stages';
+import { runFactCheck } from './pipeline/fact-check';
 import { validateDoc } from './pipeline/validator';
 import { publishDoc } from './pipeline/publisher';
-import { topicKeyExists, resolveSlugCollision } from './pipeline/dedupe';
-import { PageType } from './pipeline/types';
-import { DEFAULT_REVALIDATE_ENDPOINT, DEFAULT_REVALIDATE_SECRET_NAME } from './pipeline/config';
+import { topicKeyExists } from './pipeline/dedupe';
+import { GeneratedDoc, Job, PageType } from './pipeline/types';
 
 const program = new Command();
 
 program
   .name('content-pipeline')
   .description('Automated content publishing pipeline for Tackle')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--record', 'Record DataForSEO/Perplexity/LLM responses to content/_system/cassettes', false)
+  .option('--replay', 'Replay recorded API responses offline (fails on missing cassettes)', false)
+  .hook('preAction', async (thisCommand, actionCommand) => {
+    const { record, replay } = thisCommand.opts();
+    if (record && replay) {
+      logger.error('--record and --replay cannot be used together');
+      process.exit(1);
+    }
+    if (record || replay) {
+      const { setCassetteMode } = await import('./pipeline/cassette');
+      setCassetteMode(record ? 'record' : 'replay');
+    }
+
+    const { maxCost } = actionCommand.opts();
+    const maxCostUsd = maxCost !== undefined ? parseFloat(maxCost) : undefined;
+    if (maxCostUsd !== undefined && (isNaN(maxCostUsd) || maxCostUsd < 0)) {
+      logger.error(`Invalid --max-cost value: ${maxCost}`);
+      process.exit(1);
+    }
+    const { beginCostRun } = await import('./pipeline/cost-tracker');
+    beginCostRun({ command: actionCommand.name(), maxCostUsd });
+  })
+  .hook('postAction', async () => {
+    const { finishCostRun } = await import('./pipeline/cost-tracker');
+    await finishCostRun('completed');
+  });
+
+/**
+ * Stop a command cleanly when its --max-cost budget is exhausted
+ */
+async function exitOnBudgetExceeded(error: unknown): Promise<void> {
+  const { BudgetExceededError, finishCostRun } = await import('./pipeline/cost-tracker');
+  if (error instanceof BudgetExceededError) {
+    console.error(`\n🛑 ${error.message}`);
+    console.error(`   Spent $${error.spentUsd.toFixed(4)} of $${error.maxCostUsd.toFixed(2)} - stopping before further paid calls.`);
+    await finishCostRun('aborted');
+    process.exit(2);
+  }
+}
+
+/**
+ * Exit a failed command, closing its cost run as failed (otherwise it stays 'running' in the ledger)
+ */
+async function exitWithFailure(): Promise<never> {
+  const { finishCostRun } = await import('./pipeline/cost-tracker');
+  await finishCostRun('failed');
+  process.exit(1);
+}
 
 /**
  * Seed command - Create initial jobs
@@ -46,6 +98,7 @@ program
   .description('Seed job queue with initial content')
   .option('-t, --type <type>', 'Content type (blog|species|how-to|location)', 'blog')
   .option('-c, --count <number>', 'Number of jobs to create', '20')
+  .option('--graph', 'Queue each topic as dependent stage jobs (brief → generate → gate → publish → revalidate)', false)
   .action(async (options) => {
     const type = options.type as PageType;
     const count = parseInt(options.count, 10);
@@ -64,6 +117,11 @@ program
       
       const priority = calculatePriority(type, topicKey);
       
+      if (options.graph) {
+        await addPipelineJobs({ type, topicKey, priority, maxAttempts: 3 });
+        continue;
+      }
+      
       await addJob({
         type,
         topicKey,
@@ -83,51 +141,246 @@ program
   .command('run')
   .description('Run pending jobs from queue')
   .option('-l, --limit <number>', 'Maximum jobs to process', '5')
+  .option('-w, --workers <number>', 'Parallel workers in this process (other processes can run workers too)', '1')
+  .option('--max-cost <usd>', 'Stop processing before any paid API call that would exceed this budget (USD)')
   .action(async (options) => {
     const limit = parseInt(options.limit, 10);
+    const workerCount = Math.max(1, parseInt(options.workers, 10) || 1);
+    const { BudgetExceededError } = await import('./pipeline/cost-tracker');
     
     // Check consecutive failures
     const failures = await checkConsecutiveFailures();
     if (failures >= 3) {
       logger.error('Too many consecutive failures - stopping pipeline');
-      process.exit(1);
+      await exitWithFailure();
     }
     
-    logger.info(`Processing up to ${limit} jobs...`);
+    // Recover jobs left 'running' by crashed workers
+    const recovered = await requeueExpiredJobs();
+    if (recovered.length > 0) {
+      logger.warn(`Recovered ${recovered.length} job(s) with expired leases`);
+    }
     
+    logger.info(`Processing up to ${limit} jobs with ${workerCount} worker(s)...`);
+    
+    let claimed = 0;
     let processed = 0;
-    while (processed < limit) {
-      // Check daily cap
-      if (!(await canPublishToday())) {
-        logger.warn('Daily publish cap reached');
-        break;
+    let stopping = false;
+    
+    const runWorker = async (workerId: string): Promise<void> => {
+      while (!stopping && claimed < limit) {
+        // Check daily cap
+        if (!(await canPublishToday())) {
+          logger.warn('Daily publish cap reached');
+          stopping = true;
+          break;
+        }
+        
+        claimed++; // Reserve a slot before the await so workers don't overshoot the limit
+        const job = await claimNextJob(workerId);
+        if (!job) {
+          claimed--;
+          logger.info(`[${workerId}] No pending jobs`);
+          break;
+        }
+        
+        logger.info(`[${workerId}] Processing job: ${job.jobId} (${job.type}:${job.topicKey})`);
+        const stopHeartbeat = startJobHeartbeat(job.jobId, workerId);
+        
+        try {
+          if (job.stage) {
+            const result = await runJobStage(job);
+            const owned = await updateJobStatus(job.jobId, 'completed', undefined, result.outputs, workerId);
+            if (owned && result.skipReason) {
+              await cancelDownstreamJobs(job.jobId, result.skipReason);
+            }
+          } else {
+            await processJob(job);
+            
+            await updateJobStatus(job.jobId, 'completed', undefined, {
+              slug: job.topicKey.split('::')[1] || '',
+            }, workerId);
+          }
+          
+          processed++;
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            // Not the job's fault - leave it for the next run
+            logger.warn(`🛑 ${error.message} - returning ${job.jobId} to the queue`);
+            await releaseJob(job.jobId, workerId, error.message);
+            stopping = true;
+            break;
+          }
+          logger.error(`Job failed: ${job.jobId}`, error);
+          await failJob(job.jobId, error, workerId);
+        } finally {
+          stopHeartbeat();
+        }
       }
-      
-      const job = await getNextJob();
-      if (!job) {
-        logger.info('No pending jobs');
-        break;
+    };
+    
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker(createWorkerId())));
+    
+    logger.info(`Processed ${processed} jobs`);
+  });
+
+/**
+ * Jobs commands - Inspect and manage retries / dead letters
+ */
+const jobsCommand = program
+  .command('jobs')
+  .description('Inspect and manage queued, retrying and dead-lettered jobs');
+
+jobsCommand
+  .command('list')
+  .description('List jobs (default: dead-letter and backing-off jobs)')
+  .option('-s, --status <statuses>', 'Comma-separated statuses (pending|running|completed|failed|cancelled|dead-letter)', '')
+  .option('-l, --limit <number>', 'Maximum jobs to show', '25')
+  .action(async (options) => {
+    const { loadJobQueue } = await import('./pipeline/scheduler');
+    const statuses: string[] = options.status ? options.status.split(',').map((s: string) => s.trim()) : [];
+    const now = Date.now();
+    const jobs = (await loadJobQueue()).filter((j) =>
+      statuses.length > 0
+        ? statuses.includes(j.status)
+        : j.status === 'dead-letter' || (j.status === 'pending' && !!j.runAt && new Date(j.runAt).getTime() > now)
+    );
+
+    if (jobs.length === 0) {
+      console.log('No matching jobs.');
+      return;
+    }
+
+    jobs.slice(0, parseInt(options.limit, 10)).forEach((j) => {
+      const retry = j.status === 'pending' && j.runAt ? ` - retry at ${j.runAt}` : '';
+      const stage = j.stage ? ` [${j.stage}]` : '';
+      console.log(`${j.jobId}  ${j.status.padEnd(11)} ${j.topicKey}${stage} (attempts ${j.attempts}/${j.maxAttempts})${retry}`);
+      if (j.lastError) {
+        console.log(`    [${j.lastErrorClass || 'unclassified'}] ${j.lastError}`);
       }
+    });
+    if (jobs.length > parseInt(options.limit, 10)) {
+      console.log(`... and ${jobs.length - parseInt(options.limit, 10)} more`);
+    }
+  });
+
+jobsCommand
+  .command('retry [jobIds...]')
+  .description('Retry dead-lettered/failed jobs with a fresh attempt budget (no ids = all dead letters)')
+  .option('--class <errorClass>', 'Only dead letters with this error class (transient|quality-gate|validation|permanent|unknown)')
+  .action(async (jobIds: string[], options) => {
+    try {
+      const { retryJobs } = await import('./pipeline/scheduler');
+      const retried = await retryJobs({ jobIds, errorClass: options.class });
+      retried.forEach((j) => console.log(`↻ ${j.jobId} (${j.topicKey})`));
+      console.log(`\n✅ ${retried.length} job(s) back in the queue\n`);
+    } catch (error) {
+      console.error('❌ Failed to retry jobs:', error);
+      await exitWithFailure();
+    }
+  });
+
+jobsCommand
+  .command('requeue <jobIds...>')
+  .description('Make backing-off or stuck running jobs runnable now (attempts are kept)')
+  .action(async (jobIds: string[]) => {
+    try {
+      const { requeueJobs } = await import('./pipeline/scheduler');
+      const requeued = await requeueJobs(jobIds);
+      requeued.forEach((j) => console.log(`⏩ ${j.jobId} (${j.topicKey})`));
+      console.log(`\n✅ ${requeued.length} job(s) requeued\n`);
+    } catch (error) {
+      console.error('❌ Failed to requeue jobs:', error);
+      await exitWithFailure();
+    }
+  });
+
+jobsCommand
+  .command('purge')
+  .description('Remove finished jobs from the queue file')
+  .option('-s, --status <statuses>', 'Comma-separated statuses to purge', 'completed,cancelled')
+  .option('--older-than <days>', 'Only jobs finished more than N days ago', '30')
+  .option('--dry-run', 'Show what would be removed', false)
+  .action(async (options) => {
+    try {
+      const { purgeJobs, loadJobQueue } = await import('./pipeline/scheduler');
+      const removed = await purgeJobs({
+        statuses: options.status.split(',').map((s: string) => s.trim()),
+        olderThanDays: parseFloat(options.olderThan),
+        dryRun: options.dryRun,
+      });
+      console.log(`${options.dryRun ? 'Would remove' : '🗑️  Removed'} ${removed.length} job(s)\n`);
       
-      await updateJobStatus(job.jobId, 'running');
-      logger.info(`Processing job: ${job.jobId} (${job.type}:${job.topicKey})`);
-      
-      try {
-        // Process job (simplified - implement full pipeline)
-        await processJob(job);
-        
-        await updateJobStatus(job.jobId, 'completed', undefined, {
-          slug: job.topicKey.split('::')[1] || '',
+      if (!options.dryRun) {
+        // Stage artifacts are only needed while their pipeline has jobs in the queue
+        const { pruneOrphanArtifacts } = await import('./pipeline/job-artifacts');
+        const livePipelines = new Set((await loadJobQueue()).map((j) => j.pipelineId).filter((id): id is string => !!id));
+        await pruneOrphanArtifacts(livePipelines);
+      }
+    } catch (error) {
+      console.error('❌ Failed to purge jobs:', error);
+      await exitWithFailure();
+    }
+  });
+
+jobsCommand
+  .command('enqueue-blog')
+  .description('Queue blog pipelines that start with ideation (ideate → brief → generate → gate → publish → revalidate)')
+  .option('-c, --category <category>', 'Blog category', 'fishing-tips')
+  .option('-l, --location <location>', 'Location (e.g., florida)', '')
+  .option('-n, --count <number>', 'Number of pipelines (one post each)', '1')
+  .option('--min-score <number>', 'Minimum opportunity score (0-100)', '60')
+  .action(async (options) => {
+    try {
+      const count = parseInt(options.count, 10);
+      for (let i = 0; i < count; i++) {
+        const [ideate] = await addPipelineJobs({
+          type: 'blog',
+          topicKey: 'blog::', // Assigned by the ideate stage
+          priority: calculatePriority('blog', 'blog::'),
+          maxAttempts: 3,
+          params: {
+            category: options.category,
+            ...(options.location ? { location: options.location } : {}),
+            minScore: parseInt(options.minScore, 10),
+          },
         });
-        
-        processed++;
-      } catch (error) {
-        logger.error(`Job failed: ${job.jobId}`, error);
-        await updateJobStatus(job.jobId, 'failed', (error as Error).message);
+        console.log(`➕ Pipeline ${ideate.pipelineId}`);
       }
+      console.log(`\n✅ ${count} blog pipeline(s) queued - process them with \`run\`\n`);
+    } catch (error) {
+      console.error('❌ Failed to queue blog pipelines:', error);
+      await exitWithFailure();
+    }
+  });
+
+jobsCommand
+  .command('pipeline <pipelineId>')
+  .description('Show the stage jobs and saved artifacts of a pipeline')
+  .action(async (pipelineId: string) => {
+    try {
+      const { loadJobQueue } = await import('./pipeline/scheduler');
+      const { listPipelineArtifacts } = await import('./pipeline/job-artifacts');
+      const stages = (await loadJobQueue()).filter((j) => j.pipelineId === pipelineId);
+      if (stages.length === 0) {
+        console.log(`No jobs for pipeline ${pipelineId}.`);
+        return;
+      }
+      const artifacts = await listPipelineArtifacts(pipelineId);
+      
+      console.log(`\n🔗 Pipeline ${pipelineId} (${stages[0].type}:${stages[0].topicKey})\n`);
+      stages.forEach((j) => {
+        const artifact = j.stage && artifacts.includes(j.stage) ? ' 📦' : '';
+        console.log(`  ${(j.stage || '-').padEnd(10)} ${j.status.padEnd(11)} ${j.jobId} (attempts ${j.attempts}/${j.maxAttempts})${artifact}`);
+        if (j.lastError && j.status !== 'completed') {
+          console.log(`             [${j.lastErrorClass || j.status}] ${j.lastError}`);
+        }
+      });
+      console.log('');
+    } catch (error) {
+      console.error('❌ Failed to show pipeline:', error);
+      await exitWithFailure();
     }
-    
-    logger.info(`Processed ${processed} jobs`);
   });
 
 /**
@@ -165,7 +418,7 @@ program
       logger.info(`Published: ${topicKey}`);
     } catch (error) {
       logger.error(`Publish failed: ${topicKey}`, error);
-      await updateJobStatus(job.jobId, 'failed', (error as Error).message);
+      await failJob(job.jobId, error);
     }
   });
 
@@ -232,7 +485,7 @@ program
       console.log('');
     } catch (error) {
       console.error('❌ Index rebuild failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -243,18 +496,127 @@ program
   .action(async (options) => {
     try {
       const { getMetrics, printMetricsSummary, resetMetrics } = await import('./pipeline/metrics');
+      const { loadApiCacheStats, printApiCacheSummary, resetApiCacheStats } = await import('./pipeline/api-cache');
+      const { loadCostLedger, printCostSummary } = await import('./pipeline/cost-tracker');
 
       if (options.reset) {
         await resetMetrics();
+        await resetApiCacheStats();
         console.log('✅ Metrics reset\n');
         return;
       }
 
       const metrics = await getMetrics();
       printMetricsSummary(metrics);
+      printApiCacheSummary(await loadApiCacheStats());
+      printCostSummary(await loadCostLedger());
+      console.log('');
     } catch (error) {
       console.error('❌ Failed to load metrics:', error);
-      process.exit(1);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Cache commands - Manage the persistent API response cache
+ */
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the persistent DataForSEO response cache');
+
+cacheCommand
+  .command('prune')
+  .description('Remove expired cache entries')
+  .option('--all', 'Remove every entry, not just expired ones', false)
+  .action(async (options) => {
+    try {
+      const { pruneApiCache } = await import('./pipeline/api-cache');
+      const result = await pruneApiCache({ all: options.all });
+
+      console.log('\n🧹 API Cache Prune');
+      console.log(`   Scanned: ${result.scanned}`);
+      console.log(`   Removed: ${result.removed} (${(result.bytesFreed / 1024).toFixed(1)} KB freed)`);
+      console.log(`   Remaining: ${result.remaining}\n`);
+    } catch (error) {
+      console.error('❌ Cache prune failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+cacheCommand
+  .command('stats')
+  .description('Show cache hit/miss stats per endpoint')
+  .action(async () => {
+    try {
+      const { loadApiCacheStats, printApiCacheSummary } = await import('./pipeline/api-cache');
+      printApiCacheSummary(await loadApiCacheStats());
+      console.log('');
+    } catch (error) {
+      console.error('❌ Failed to load cache stats:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Scheduler commands - Recurring pipeline runs from content/_system/schedules.json
+ */
+const schedulerCommand = program
+  .command('scheduler')
+  .description('Run pipeline commands on cron schedules');
+
+schedulerCommand
+  .command('daemon')
+  .description('Start the long-running scheduler (Ctrl+C to stop)')
+  .option('--tick <seconds>', 'How often to check for due schedules', '30')
+  .action(async (options) => {
+    try {
+      const { runScheduleDaemon } = await import('./pipeline/schedules');
+      const result = await runScheduleDaemon({ tickMs: parseInt(options.tick, 10) * 1000 });
+
+      if (result.stoppedBy === 'failure-threshold') {
+        console.error('❌ Scheduler stopped after repeated failures - check logs, then restart the daemon');
+        await exitWithFailure();
+      }
+      console.log('\n👋 Scheduler stopped\n');
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Scheduler failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+schedulerCommand
+  .command('list')
+  .description('Show schedules, next run times and last results')
+  .action(async () => {
+    try {
+      const { loadSchedules, loadScheduleState, getNextRuns } = await import('./pipeline/schedules');
+      const schedules = await loadSchedules();
+      const state = await loadScheduleState();
+      const nextRuns = getNextRuns(schedules.filter((s) => s.enabled));
+
+      console.log(`\n⏰ Schedules (${schedules.length})\n`);
+      for (const schedule of schedules) {
+        const runState = state.bySchedule[schedule.id];
+        const nextRun = nextRuns.get(schedule.id);
+        console.log(`${schedule.enabled ? '🟢' : '⚪'} ${schedule.id} [${schedule.task}]`);
+        console.log(`   Cron: ${schedule.cron}`);
+        console.log(`   Command: ${schedule.command} ${(schedule.args || []).join(' ')}`.trimEnd());
+        console.log(`   Next run: ${nextRun ? nextRun.toLocaleString() : 'disabled'}`);
+        if (runState?.lastRunAt) {
+          console.log(`   Last run: ${runState.lastRunAt} → ${runState.lastStatus}${runState.lastMessage ? ` (${runState.lastMessage})` : ''}`);
+        } else if (runState?.lastStatus === 'skipped') {
+          console.log(`   Last check: skipped (${runState.lastMessage})`);
+        }
+        console.log('');
+      }
+
+      if (state.consecutiveFailures > 0) {
+        console.log(`⚠️  ${state.consecutiveFailures} consecutive failed scheduled run(s)\n`);
+      }
+    } catch (error) {
+      console.error('❌ Failed to list schedules:', error);
+      await exitWithFailure();
     }
   });
 
@@ -298,7 +660,7 @@ program
       }
     } catch (error) {
       console.error('❌ Validation failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -315,10 +677,24 @@ program
       running: jobs.filter((j) => j.status === 'running').length,
       completed: jobs.filter((j) => j.status === 'completed').length,
       failed: jobs.filter((j) => j.status === 'failed').length,
+      deadLetter: jobs.filter((j) => j.status === 'dead-letter').length,
+      backingOff: jobs.filter((j) => j.status === 'pending' && j.runAt && new Date(j.runAt).getTime() > Date.now()).length,
     };
     
     console.log('Job Queue Status:');
     console.log(JSON.stringify(stats, null, 2));
+    
+    const running = jobs.filter((j) => j.status === 'running');
+    if (running.length > 0) {
+      console.log('\nRunning Jobs:');
+      running.forEach((j) => {
+        const expiresAt = j.leaseExpiresAt ? new Date(j.leaseExpiresAt) : null;
+        const lease = expiresAt
+          ? `${j.leaseOwner}, lease ${expiresAt.getTime() > Date.now() ? 'expires' : 'EXPIRED'} ${expiresAt.toISOString()}`
+          : 'no lease';
+        console.log(`  ${j.jobId} (${j.topicKey}) - ${lease}`);
+      });
+    }
   });
 
 
@@ -335,7 +711,7 @@ program
       console.log('✅ DataForSEO connection test passed!');
     } catch (error) {
       console.error('❌ DataForSEO connection test failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -352,7 +728,7 @@ program
       console.log('✅ Perplexity connection test passed!');
     } catch (error) {
       console.error('❌ Perplexity connection test failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -396,7 +772,7 @@ program
       
     } catch (error) {
       console.error('❌ Research failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -527,7 +903,7 @@ program
       
     } catch (error) {
       console.error('❌ Matrix generation failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -589,7 +965,7 @@ program
       
     } catch (error) {
       console.error('❌ Tool discovery failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -667,7 +1043,7 @@ program
       
     } catch (error) {
       console.error('❌ Tool generation failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -832,7 +1208,7 @@ program
       
     } catch (error) {
       console.error('❌ PRD generation failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -935,7 +1311,7 @@ program
       
     } catch (error) {
       console.error('❌ Concept discovery failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -982,7 +1358,7 @@ program
       
     } catch (error) {
       console.error('❌ Blog ideation test failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
@@ -1004,6 +1380,10 @@ program
   .option('--slug <slug>', 'Use specific slug (skips ideation)', '')
   .option('--title <title>', 'Use specific title (requires --slug)', '')
   .option('--keyword <keyword>', 'Use specific keyword (requires --slug)', '')
+  .option('--max-cost <usd>', 'Abort before any paid API call that would exceed this budget (USD)')
+  .option('--drafts <n>', 'Generate N drafts and publish the best-scoring one (default: BLOG_DRAFTS or 1)')
+  .option('--repair-rounds <n>', 'Targeted repair rounds before giving up on a failing post (default: REPAIR_ROUNDS or 2)')
+  .option('--allow-overlap', 'Generate even if the idea overlaps an existing post (near-duplicate check)', false)
   .action(async (options) => {
     /**
      * Generate topic-relevant related questions dynamically
@@ -1094,11 +1474,12 @@ program
     try {
       const { generateBlogIdeas } = await import('./pipeline/ideation');
       const { blogIdeaToBrief } = await import('./pipeline/blog-brief-builder');
-      const { generateBlogPost } = await import('./pipeline/generators/blog');
+      const { generateBestBlogPost } = await import('./pipeline/multi-draft');
       const { validateDoc } = await import('./pipeline/validator');
       const { publishDoc } = await import('./pipeline/publisher');
       const { topicKeyExists } = await import('./pipeline/dedupe');
       const { passesCadenceControls, DEFAULT_CADENCE_CONTROLS } = await import('./pipeline/cadence-controls');
+      const { throwIfBudgetExhausted } = await import('./pipeline/cost-tracker');
       
       logger.info('=== End-to-End Blog Generation Pipeline ===\n');
       
@@ -1201,41 +1582,54 @@ program
       if (await topicKeyExists(topicKey)) {
         logger.warn(`Blog post already exists: ${idea.slug}`);
         console.log(`\n⚠️  Blog post "${idea.slug}" already exists. Use a different idea or delete the existing post.`);
-        process.exit(1);
+        await exitWithFailure();
+      }
+      
+      // Reject ideas that would compete with an existing post for the same query
+      const { findIdeaOverlaps } = await import('./pipeline/near-duplicates');
+      const overlaps = await findIdeaOverlaps(idea);
+      if (overlaps.length > 0) {
+        const list = overlaps.map((m) => `  ${m.score.toFixed(2)}  ${m.pageType}/${m.slug} - ${m.title}`).join('\n');
+        if (!options.allowOverlap) {
+          console.log(`\n⚠️  "${idea.title}" overlaps existing content:\n${list}\n\nUpdate the existing post instead, or pass --allow-overlap.`);
+          await exitWithFailure();
+        }
+        logger.warn(`Idea overlaps existing content (--allow-overlap):\n${list}`);
       }
       
+      // Ideation swallows some API errors - don't continue if the budget ran out there
+      throwIfBudgetExhausted();
+      
       // Step 2: Convert idea to brief
       logger.info('\nStep 2: Building content brief...');
       const brief = await blogIdeaToBrief(idea);
       logger.info(`Brief created: ${brief.title}`);
       
       // Step 3: Generate blog post
+      throwIfBudgetExhausted();
       logger.info('\nStep 3: Generating blog post content...');
-      const doc = await generateBlogPost(brief);
-      logger.info(`Blog post generated: ${doc.title}`);
-      
-      // Step 4: Validate
-      logger.info('\nStep 4: Validating document...');
-      const validation = validateDoc(doc);
-      if (validation.errors.length > 0) {
-        throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
-      }
-      if (validation.warnings.length > 0) {
-        logger.warn(`Validation warnings: ${validation.warnings.join(', ')}`);
-      }
-      logger.info('✅ Validation passed');
-      
-      // Step 4.5: Quality Gate (runs automatically in publisher, but we can check here too)
-      logger.info('\nStep 4.5: Running quality gate...');
-      const { runQualityGate } = await import('./pipeline/quality-gate');
-      const qualityGate = runQualityGate(doc);
-      if (qualityGate.blocked) {
-        throw new Error(`Quality gate BLOCKED: ${qualityGate.errors.join('; ')}`);
+      const generated = await generateBestBlogPost(brief, options.drafts ? parseInt(options.drafts, 10) : undefined);
+      logger.info(`Blog post generated: ${generated.title}`);
+      
+      // Step 4: Fact check (verdicts are stored on the doc for the quality gate)
+      logger.info('\nStep 4: Fact-checking claims...');
+      generated.factCheck = await runFactCheck(generated);
+      
+      // Step 4.5: Validation + quality gate (also runs in publisher) - failures get targeted repairs
+      logger.info('\nStep 4.5: Validating and running quality gate...');
+      const { repairDoc, formatRepairFailure } = await import('./pipeline/repair');
+      const repair = await repairDoc(generated, brief, {
+        maxRounds: options.repairRounds !== undefined ? parseInt(options.repairRounds, 10) : undefined,
+      });
+      if (!repair.passed) {
+        throw new Error(formatRepairFailure(repair));
       }
-      if (qualityGate.warnings.length > 0) {
-        logger.warn('Quality gate warnings:', qualityGate.warnings);
+      const doc = repair.doc;
+      const warnings = [...repair.validation.warnings, ...repair.qualityGate.warnings];
+      if (warnings.length > 0) {
+        logger.warn('Validation / quality gate warnings:', warnings);
       }
-      logger.info('✅ Quality gate passed');
+      logger.info(`✅ Validation and quality gate passed${repair.rounds > 0 ? ` after ${repair.rounds} repair round(s)` : ''}`);
       
       // Step 5: Publish (quality gate also runs inside publisher as safeguard)
       logger.info('\nStep 5: Publishing to content system...');
@@ -1251,8 +1645,455 @@ program
       console.log(`📋 Blog index: http://localhost:3000/blog`);
       
     } catch (error) {
+      await exitOnBudgetExceeded(error);
       console.error('❌ Blog generation failed:', error);
-      process.exit(1);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Blog drafts - runner-up drafts archived by multi-draft generation
+ */
+program
+  .command('blog-drafts <slug>')
+  .description('List archived runner-up drafts for a blog post (multi-draft runs)')
+  .action(async (slug: string) => {
+    try {
+      const { listDraftArchives } = await import('./pipeline/multi-draft');
+      const runs = await listDraftArchives(slug);
+      if (runs.length === 0) {
+        console.log(`No archived drafts for ${slug}.`);
+        return;
+      }
+
+      console.log(`\n📝 Draft runs for ${slug}\n`);
+      runs.forEach((run) => {
+        console.log(`  ${run.runId} (winner: draft ${run.winner})`);
+        run.drafts.forEach((d) => {
+          const marker = d.draftNumber === run.winner ? '🏆' : '  ';
+          const blocked = d.blocked ? ' [blocked]' : '';
+          const angle = d.variant.angle || 'brief angle';
+          console.log(`    ${marker} #${d.draftNumber} score ${String(d.score).padStart(3)}${blocked}  temp ${d.variant.temperature}, ${angle}  ${d.title}`);
+          if (d.file) {
+            console.log(`         content/_system/draft-archive/${slug}/${run.runId}/${d.file}`);
+          }
+        });
+      });
+      console.log('');
+    } catch (error) {
+      console.error('❌ Failed to list drafts:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Quality gate - rule sets, or which rules a published doc passes
+ */
+program
+  .command('quality-gate')
+  .description('Show quality gate rule sets, or explain the gate result for a published doc')
+  .option('--explain <slug>', 'Run the gate on a published doc and report every rule (location slugs: state/city)')
+  .option('-t, --type <pageType>', 'Page type of the doc (blog, species, how-to, location) - default: first match')
+  .action(async (options) => {
+    try {
+      const { runQualityGate, resolveRules } = await import('./pipeline/quality-gate');
+
+      if (!options.explain) {
+        const pageTypes: PageType[] = options.type ? [options.type] : ['blog', 'species', 'how-to', 'location'];
+        console.log('\n🚦 Quality gate rule sets (content/_system/quality-gate.json)\n');
+        pageTypes.forEach((pageType) => {
+          const rules = resolveRules(pageType).filter((r) => r.enabled);
+          console.log(`  ${pageType} (${rules.length} rules)`);
+          rules.forEach(({ rule, severity, options: ruleOptions }) => {
+            const settings = Object.entries(ruleOptions).map(([key, value]) => `${key}=${value}`).join(', ');
+            console.log(`    ${severity === 'block' ? '⛔' : '⚠️ '} ${rule.id.padEnd(26)} ${rule.description}${settings ? ` [${settings}]` : ''}`);
+          });
+          console.log('');
+        });
+        return;
+      }
+
+      const { loadPublishedDoc } = await import('./pipeline/publisher');
+      const doc = await loadPublishedDoc(options.explain, options.type);
+      if (!doc) {
+        console.error(`❌ No published doc found for ${options.explain}`);
+        return exitWithFailure();
+      }
+
+      const result = runQualityGate(doc);
+      const icons = { passed: '✅', failed: '❌', warned: '⚠️ ', skipped: '⏭️ ' };
+      console.log(`\n🚦 Quality gate for ${doc.pageType}:${doc.slug} - ${result.blocked ? 'BLOCKED' : 'PASSED'}\n`);
+      result.rules.forEach((outcome) => {
+        const detail = outcome.status === 'skipped' ? ` (${outcome.skipReason})` : ` [${outcome.severity}]`;
+        console.log(`  ${icons[outcome.status]} ${outcome.id}${detail}`);
+        outcome.findings.forEach((finding) => console.log(`       ${finding}`));
+      });
+
+      const count = (status: string) => result.rules.filter((r) => r.status === status).length;
+      console.log(`\n  ${count('passed')} passed, ${count('failed')} failed, ${count('warned')} warned, ${count('skipped')} skipped`);
+      if (result.flaggedSections.length > 0) {
+        console.log(`  Sections to regenerate: ${result.flaggedSections.map((s) => `"${s.heading}"`).join(', ')}`);
+      }
+      console.log('');
+    } catch (error) {
+      console.error('❌ Quality gate failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Cannibalization report - pairs of published docs competing for the same query
+ */
+program
+  .command('cannibalization')
+  .description('Report published docs that overlap each other (topic tokens or near-duplicate bodies)')
+  .option('--threshold <n>', 'Minimum overlap score 0-1 (default: NEAR_DUPLICATE_THRESHOLD or 0.6)')
+  .option('-t, --type <pageType>', 'Only compare docs of this page type (blog, species, how-to, location)')
+  .option('--json', 'Print the pairs as JSON', false)
+  .action(async (options) => {
+    try {
+      const { refreshNearDuplicateIndex, findCannibalizationPairs } = await import('./pipeline/near-duplicates');
+      const entries = await refreshNearDuplicateIndex();
+      const pairs = findCannibalizationPairs(entries, {
+        threshold: options.threshold !== undefined ? parseFloat(options.threshold) : undefined,
+        pageType: options.type,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(pairs, null, 2));
+        return;
+      }
+
+      console.log(`\n🔀 Cannibalization report (${entries.length} docs, ${pairs.length} overlapping pairs)\n`);
+      pairs.forEach((pair) => {
+        const body = pair.bodySimilarity > 0 ? `, body ${pair.bodySimilarity.toFixed(2)}` : '';
+        console.log(`  ${pair.score.toFixed(2)}  ${pair.a.pageType}/${pair.a.slug}  ↔  ${pair.b.pageType}/${pair.b.slug}`);
+        console.log(`        topic ${pair.topicSimilarity.toFixed(2)}${body}; shared: ${pair.sharedTokens.join(', ') || '-'}`);
+      });
+      if (pairs.length === 0) {
+        console.log('  No overlapping docs.');
+      }
+      console.log('');
+    } catch (error) {
+      console.error('❌ Cannibalization report failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Keyword conflicts - published docs targeting keywords another doc owns
+ */
+program
+  .command('keyword-conflicts')
+  .description('Report docs competing for the same keywords (from the content index) with merge/redirect suggestions')
+  .option('--blocking', 'Only conflicts that would block publishing (shared primary / near-identical secondaries)', false)
+  .option('--check', 'Exit 1 if any published docs have a blocking conflict (CI: they could no longer be republished)', false)
+  .option('--json', 'Print the conflicts as JSON', false)
+  .action(async (options) => {
+    try {
+      const { loadKeywordRegistry, findKeywordConflicts, suggestResolution } = await import('./pipeline/keyword-registry');
+      const registry = await loadKeywordRegistry();
+      const conflicts = findKeywordConflicts(registry).filter((c) => !options.blocking || c.severity === 'block');
+      const blocked = options.check && conflicts.some((c) => c.severity === 'block');
+
+      if (options.json) {
+        console.log(JSON.stringify(conflicts.map((c) => ({ ...c, suggestion: suggestResolution(c) })), null, 2));
+        if (blocked) {
+          await exitWithFailure();
+        }
+        return;
+      }
+
+      console.log(`\n🔑 Keyword ownership (${registry.docs.length} docs, ${registry.keywords.size} keywords, ${conflicts.length} conflicts)\n`);
+      conflicts.forEach((conflict) => {
+        const suggestion = suggestResolution(conflict);
+        console.log(`  ${conflict.severity === 'block' ? '⛔' : '⚠️ '} [${conflict.kind}] "${conflict.keyword}"`);
+        console.log(`       owner: ${conflict.owner.route}   other: ${conflict.other.route}`);
+        console.log(`       ${conflict.message}`);
+        console.log(`       → ${suggestion.action}: ${suggestion.detail}`);
+      });
+      if (conflicts.length === 0) {
+        console.log('  No keyword conflicts.');
+      }
+      console.log('');
+      if (blocked) {
+        console.error('❌ Published docs have blocking keyword conflicts - publishDoc would reject them on their next update');
+        await exitWithFailure();
+      }
+    } catch (error) {
+      console.error('❌ Keyword conflict report failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Publish scheduled docs whose time has come (editorial workflow)
+ */
+program
+  .command('release-scheduled')
+  .description('Publish scheduled docs whose scheduledFor time has passed, update the index and revalidate')
+  .option('--dry-run', 'Only list scheduled docs and which are due', false)
+  .option('--json', 'Print the result as JSON', false)
+  .action(async (options) => {
+    try {
+      const { listScheduledDocs, releaseDueDocs } = await import('../lib/content/workflow');
+
+      if (options.dryRun) {
+        const now = new Date();
+        const scheduled = await listScheduledDocs();
+        if (options.json) {
+          console.log(JSON.stringify(scheduled.map((doc) => ({ ...doc, due: new Date(doc.scheduledFor) <= now })), null, 2));
+          return;
+        }
+        console.log(`\n🗓️  Scheduled docs (${scheduled.length})\n`);
+        scheduled.forEach((doc) => {
+          const due = new Date(doc.scheduledFor) <= now;
+          console.log(`  ${due ? '⏰' : '  '} ${new Date(doc.scheduledFor).toLocaleString()}  ${doc.pageType}/${doc.slug}${doc.title ? `  ${doc.title}` : ''}`);
+        });
+        if (scheduled.length === 0) {
+          console.log('  Nothing scheduled.');
+        }
+        console.log('');
+        return;
+      }
+
+      const result = await releaseDueDocs();
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`\n🗓️  Released ${result.released.length} scheduled doc(s), ${result.pending.length} still scheduled\n`);
+        result.released.forEach((doc) => console.log(`  ✅ ${doc.pageType}/${doc.slug} (revision ${doc.revision})`));
+        result.failed.forEach((doc) => console.log(`  ❌ ${doc.pageType}/${doc.slug}: ${doc.error}`));
+        console.log('');
+      }
+      if (result.failed.length > 0) {
+        await exitWithFailure();
+      }
+    } catch (error) {
+      console.error('❌ Releasing scheduled docs failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Redirects - 301/410 rules in content/_system/redirects.json, served by middleware.ts
+ */
+const redirectsCommand = program
+  .command('redirects')
+  .description('Manage URL redirects (301 for moved pages, 410 for removed ones)');
+
+redirectsCommand
+  .command('list')
+  .description('List redirect rules')
+  .option('--json', 'Print the rules as JSON', false)
+  .action(async (options) => {
+    try {
+      const { loadRedirects } = await import('../lib/content/redirects');
+      const store = await loadRedirects();
+      if (options.json) {
+        console.log(JSON.stringify(store.redirects, null, 2));
+        return;
+      }
+      console.log(`\n↪️  Redirects (${store.redirects.length})\n`);
+      store.redirects.forEach((rule) => {
+        const target = rule.status === 410 ? '410 Gone' : `301 → ${rule.to}`;
+        console.log(`  ${rule.from}  ${target}  [${rule.reason}${rule.createdBy ? ` by ${rule.createdBy}` : ''}]${rule.note ? `  ${rule.note}` : ''}`);
+      });
+      if (store.redirects.length === 0) {
+        console.log('  No redirects.');
+      }
+      console.log('');
+    } catch (error) {
+      console.error('❌ Failed to load redirects:', error);
+      await exitWithFailure();
+    }
+  });
+
+redirectsCommand
+  .command('add <from> [to]')
+  .description('Add a 301 from one path to another, or a 410 with --gone')
+  .option('--gone', 'Serve 410 Gone instead of redirecting', false)
+  .option('--note <note>', 'Why the redirect exists')
+  .option('--by <name>', 'Who added it', 'cli')
+  .action(async (from: string, to: string | undefined, options) => {
+    try {
+      const { addRedirect } = await import('../lib/content/redirects');
+      const rule = await addRedirect({
+        from,
+        ...(options.gone ? { status: 410 as const } : { to, status: 301 as const }),
+        reason: 'manual',
+        createdBy: options.by,
+        ...(options.note ? { note: options.note } : {}),
+      });
+      console.log(`\n✅ ${rule.from} → ${rule.status === 410 ? '410 Gone' : rule.to}\n`);
+    } catch (error) {
+      console.error('❌ Adding redirect failed:', error instanceof Error ? error.message : error);
+      await exitWithFailure();
+    }
+  });
+
+redirectsCommand
+  .command('remove <from>')
+  .description('Remove the rule for a path')
+  .action(async (from: string) => {
+    try {
+      const { removeRedirect } = await import('../lib/content/redirects');
+      if (!(await removeRedirect(from))) {
+        console.error(`❌ No redirect from ${from}`);
+        await exitWithFailure();
+      }
+      console.log(`\n🗑️  Removed redirect from ${from}\n`);
+    } catch (error) {
+      console.error('❌ Removing redirect failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+redirectsCommand
+  .command('check')
+  .description('Report redirect chains and loops (exits 1 if any)')
+  .action(async () => {
+    try {
+      const { loadRedirects, findRedirectChains } = await import('../lib/content/redirects');
+      const chains = findRedirectChains((await loadRedirects()).redirects);
+      console.log(`\n🔗 Redirect chains: ${chains.length}\n`);
+      chains.forEach((chain) => {
+        console.log(`  ${chain.loop ? '🔁 LOOP' : '⛓️  chain'} ${[chain.from, ...chain.hops].join(' → ')}${chain.status === 410 ? ' → 410' : ''}`);
+      });
+      console.log('');
+      if (chains.length > 0) {
+        await exitWithFailure();
+      }
+    } catch (error) {
+      console.error('❌ Redirect check failed:', error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Merge - retire a doc into another with a 301
+ */
+program
+  .command('merge <slug> <intoSlug>')
+  .description('Remove a doc and 301 its URL to the doc it was merged into')
+  .option('-t, --type <pageType>', 'Page type of the merged doc (blog, species, how-to, location)', 'blog')
+  .option('--into-type <pageType>', 'Page type of the target doc (default: same as --type)')
+  .option('--note <note>', 'Why the doc was merged')
+  .option('--by <name>', 'Who merged it', 'cli')
+  .action(async (slug: string, intoSlug: string, options) => {
+    try {
+      const { retireDoc } = await import('../lib/content/redirects');
+      const { markArchived } = await import('./pipeline/topicIndex');
+      const pageType = options.type as PageType;
+      const rule = await retireDoc(pageType, slug, {
+        by: options.by,
+        mergeInto: { pageType: (options.intoType || pageType) as PageType, slug: intoSlug },
+        ...(options.note ? { note: options.note } : {}),
+      });
+      await markArchived(pageType, slug);
+      console.log(`\n🔀 Merged ${pageType}/${slug}: ${rule.from} → ${rule.to}\n`);
+    } catch (error) {
+      console.error('❌ Merge failed:', error instanceof Error ? error.message : error);
+      await exitWithFailure();
+    }
+  });
+
+/**
+ * Prune - remove one doc with a 410, or review and apply the refresh policy's pruning candidates
+ */
+program
+  .command('prune [slug]')
+  .description('Remove a doc (410 Gone), or list pruning candidates when no slug is given')
+  .option('-t, --type <pageType>', 'Page type of the doc (blog, species, how-to, location)', 'blog')
+  .option('--gsc <file>', 'JSON file of Search Console data ({ [slug]: { impressions, clicks } })')
+  .option('--apply', 'Apply every candidate\'s action (noindex, merge or delete)', false)
+  .option('--note <note>', 'Why the doc was pruned')
+  .option('--by <name>', 'Who pruned it', 'cli')
+  .option('--json', 'Print candidates as JSON', false)
+  .action(async (slug: string | undefined, options) => {
+    try {
+      const { markArchived } = await import('./pipeline/topicIndex');
+
+      if (slug) {
+        const { retireDoc } = await import('../lib/content/redirects');
+        const pageType = options.type as PageType;
+        const rule = await retireDoc(pageType, slug, {
+          by: options.by,
+          ...(options.note ? { note: options.note } : {}),
+        });
+        await markArchived(pageType, slug);
+        console.log(`\n🗑️  Pruned ${pageType}/${slug}: ${rule.from} now returns 410 Gone\n`);
+        return;
+      }
+
+      const { identifyPruningCandidates, applyPruningCandidate } = await import('../lib/editorial/refresh-policy');
+      const { listPublishedDocs } = await import('./pipeline/publisher');
+      const { readFileSync } = await import('fs');
+      const gscData = options.gsc ? JSON.parse(readFileSync(options.gsc, 'utf-8')) : undefined;
+
+      // Legacy admin-edited posts keep publishedAt/updatedAt at the top level instead of in dates
+      const docs: GeneratedDoc[] = [];
+      const skipped: string[] = [];
+      for (const doc of await listPublishedDocs()) {
+        const legacy = doc as GeneratedDoc & { publishedAt?: string; updatedAt?: string };
+        if (doc.dates?.publishedAt) {
+          docs.push(doc);
+        } else if (legacy.publishedAt) {
+          docs.push({ ...doc, dates: { publishedAt: legacy.publishedAt, updatedAt: legacy.updatedAt || legacy.publishedAt } });
+        } else {
+          skipped.push(`${doc.pageType}/${doc.slug}`);
+        }
+      }
+      const candidates = identifyPruningCandidates(docs, gscData);
+
+      if (!options.apply) {
+        if (options.json) {
+          console.log(JSON.stringify({ candidates, skipped }, null, 2));
+          return;
+        }
+        if (skipped.length > 0) {
+          console.log(`\n⚠️  Skipped ${skipped.length} doc(s) with no publish date: ${skipped.join(', ')}`);
+        }
+        console.log(`\n✂️  Pruning candidates (${candidates.length})\n`);
+        candidates.forEach((c) => {
+          console.log(`  ${c.action.padEnd(8)} ${c.pageType}/${c.slug}  (${c.reason})${c.targetSlug ? ` → ${c.targetSlug}` : ''}`);
+        });
+        if (candidates.length === 0) {
+          console.log('  Nothing to prune.');
+        } else {
+          console.log('\n  Run with --apply to act on them.');
+        }
+        console.log('');
+        return;
+      }
+
+      // A doc can be flagged for more than one reason - act on it once
+      const seen = new Set<string>();
+      let failed = 0;
+      console.log('');
+      skipped.forEach((key) => console.log(`  ⏭️  skipped  ${key}: no publish date`));
+      for (const candidate of candidates) {
+        const key = `${candidate.pageType}/${candidate.slug}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        try {
+          const result = await applyPruningCandidate(candidate, { by: options.by });
+          if (result.redirect) {
+            await markArchived(candidate.pageType as PageType, candidate.slug);
+          }
+          console.log(`  ✅ ${result.action.padEnd(8)} ${key}${result.redirect ? `  ${result.redirect.status} ${result.redirect.to || ''}`.trimEnd() : ''}`);
+        } catch (error) {
+          failed++;
+          console.log(`  ❌ ${candidate.action.padEnd(8)} ${key}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      console.log(`\n✂️  Pruned ${seen.size - failed} doc(s), ${failed} failed\n`);
+      if (failed > 0) {
+        await exitWithFailure();
+      }
+    } catch (error) {
+      console.error('❌ Prune failed:', error);
+      await exitWithFailure();
     }
   });
 
@@ -1272,6 +2113,7 @@ program
   .option('--only-informational', 'Only publish informational intent', false)
   .option('--categories <categories>', 'Comma-separated list of allowed categories', '')
   .option('--max-per-day <number>', 'Maximum posts per day', '20')
+  .option('--max-cost <usd>', 'Stop the batch before any paid API call that would exceed this budget (USD)')
   .action(async (options) => {
     try {
       const { batchPublishBlogs } = await import('./pipeline/batch-publish');
@@ -1302,6 +2144,10 @@ program
       console.log(`Failed: ${result.failed}`);
       console.log(`Rejected: ${result.rejected.length}\n`);
       
+      if (result.budgetExceeded) {
+        console.log(`🛑 Stopped early: ${result.budgetExceeded}\n`);
+      }
+      
       if (result.publishedPosts.length > 0) {
         console.log('✅ Published Posts:');
         result.publishedPosts.forEach((post, index) => {
@@ -1332,93 +2178,45 @@ program
       }
       
     } catch (error) {
+      await exitOnBudgetExceeded(error);
       console.error('❌ Batch publish failed:', error);
-      process.exit(1);
+      await exitWithFailure();
     }
   });
 
 /**
  * Process a single job - Full pipeline
+ * (stage jobs created with `seed --graph` / `jobs enqueue-blog` run through runJobStage instead)
  */
-async function processJob(job: any): Promise<void> {
+async function processJob(job: Job): Promise<void> {
   logger.info(`Processing job: ${job.jobId} (${job.type}:${job.topicKey})`);
   
   try {
-    // 1. Parse topic key to get identifiers
-    const [pageType, ...identifiers] = job.topicKey.split('::');
-    
-    // 2. Check if topic already exists
+    // 1. Check if topic already exists
     if (await topicKeyExists(job.topicKey)) {
       logger.warn(`Topic already exists: ${job.topicKey}`);
       return;
     }
     
-    // 3. Resolve slug collision
-    const baseSlug = identifiers.join('-');
-    const slug = await resolveSlugCollision(baseSlug, job.type);
-    
-    // 4. Fetch sources (placeholder - implement based on your sources)
-    // For now, create mock facts
-    const mockFacts = [
-      {
-        claim: 'Sample fact extracted from source',
-        confidence: 0.8,
-        supportingSources: ['https://example.com'],
-        observedAt: new Date().toISOString(),
-        scope: 'global' as const,
-        category: 'habitat' as const,
-      },
-    ];
+    // 2. Resolve slug → approved sources → facts → brief
+    const brief = await buildJobBrief(job.type, job.topicKey);
     
-    const mockSources = [
-      {
-        label: 'Example Source',
-        url: 'https://example.com',
-        retrievedAt: new Date().toISOString(),
-      },
-    ];
+    // 3. Generate content based on type
+    const doc = await generateDocForBrief(job.type, brief);
     
-    // 5. Build brief
-    const brief = await buildBrief({
-      pageType: job.type as PageType,
-      topicKey: job.topicKey,
-      slug,
-      title: `Guide to ${slug.replace(/-/g, ' ')}`,
-      primaryKeyword: slug.replace(/-/g, ' '),
-      secondaryKeywords: [slug, job.type],
-      facts: mockFacts,
-      sources: mockSources,
-    });
-    
-    // 6. Generate content based on type
-    let doc;
-    switch (job.type) {
-      case 'blog':
-        doc = await generateBlogPost(brief);
-        break;
-      case 'species':
-        doc = await generateSpecies(brief);
-        break;
-      case 'how-to':
-        doc = await generateHowTo(brief);
-        break;
-      case 'location':
-        doc = await generateLocation(brief);
-        break;
-      default:
-        throw new Error(`Unknown page type: ${job.type}`);
-    }
-    
-    // 7. Validate
+    // 4. Validate
     const validation = validateDoc(doc);
     if (!validation.passed) {
       throw new Error(`Validation failed: ${validation.errors.join(', ')}`);
     }
     
-    // 8. Publish
+    // 5. Fact check (verdicts are stored on the doc and enforced by the quality gate in publishDoc)
+    doc.factCheck = await runFactCheck(doc);
+    
+    // 6. Publish
     const { routePath } = await publishDoc(doc);
     
-    // 9. Trigger revalidation
+    // 7. Trigger revalidation
     await triggerRevalidation([routePath, `/${job.type}`]);
     
     logger.info(`Successfully published: ${routePath}`);
@@ -1428,28 +2226,10 @@ async function processJob(job: any): Promise<void> {
   }
 }
 
-// Trigger revalidation
+// Trigger revalidation (best effort - the page is already published)
 async function triggerRevalidation(paths: string[]): Promise<void> {
-  const secret = process.env[DEFAULT_REVALIDATE_SECRET_NAME] || process.env.REVALIDATION_SECRET;
-  const endpoint = process.env.NEXT_PUBLIC_URL
-    ? `${process.env.NEXT_PUBLIC_URL}${DEFAULT_REVALIDATE_ENDPOINT}`
-    : `http://localhost:3000${DEFAULT_REVALIDATE_ENDPOINT}`;
-  
   try {
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${secret}`,
-      },
-      body: JSON.stringify({ paths }),
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Revalidation failed: ${response.status}`);
-    }
-    
-    logger.info(`Revalidated paths: ${paths.join(', ')}`);
+    await revalidatePaths(paths);
   } catch (error) {
     logger.error('Revalidation error:', error);
   }
@@ -254,6 +254,113 @@ async function verifyDoneDone(): Promise<VerificationResult[]> {
 
   results.push(req5);
 
+  // ============================================
+  // Requirement 6: Blog posts still publish after the how-to migration
+  // ============================================
+  console.log('\n✅ Checking Requirement 6: Blog posts still publish after the how-to migration...');
+  const req6: VerificationResult = {
+    requirement: 'Blog posts still publish after the how-to migration',
+    passed: true,
+    details: [],
+    errors: [],
+  };
+
+  try {
+    // best-time-to-fish shares its topic with how-to/best-fishing-times - republishing it runs the same
+    // keyword ownership check as publishDoc, which blocks on a shared primary keyword
+    const { loadPublishedDoc } = await import('./pipeline/publisher');
+    const { loadKeywordRegistry, checkKeywordOwnership } = await import('./pipeline/keyword-registry');
+    const registry = await loadKeywordRegistry();
+    const doc = await loadPublishedDoc('best-time-to-fish', 'blog');
+
+    if (!doc) {
+      req6.errors.push('blog/best-time-to-fish not found');
+      req6.passed = false;
+    } else {
+      const blocking = checkKeywordOwnership(doc, registry).filter((c) => c.severity === 'block');
+      if (blocking.length === 0) {
+        req6.details.push(`✅ blog/best-time-to-fish passes keyword ownership ("${doc.primaryKeyword}")`);
+      } else {
+        blocking.forEach((c) => req6.errors.push(c.message));
+        req6.passed = false;
+      }
+    }
+  } catch (error) {
+    req6.errors.push(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    req6.passed = false;
+  }
+
+  results.push(req6);
+
+  // ============================================
+  // Requirement 7: Published docs do not block each other's keywords
+  // ============================================
+  console.log('\n✅ Checking Requirement 7: Published docs do not block each other\'s keywords...');
+  const req7: VerificationResult = {
+    requirement: 'Published docs do not block each other\'s keywords',
+    passed: true,
+    details: [],
+    errors: [],
+  };
+
+  try {
+    const { loadKeywordRegistry, findKeywordConflicts } = await import('./pipeline/keyword-registry');
+    const registry = await loadKeywordRegistry();
+    const conflicts = findKeywordConflicts(registry);
+    const blocking = conflicts.filter((c) => c.severity === 'block');
+
+    req7.details.push(`✅ ${registry.docs.length} docs, ${registry.keywords.size} keywords registered`);
+    if (conflicts.length > blocking.length) {
+      req7.details.push(`⚠️  ${conflicts.length - blocking.length} non-blocking overlap(s) - see keyword-conflicts`);
+    }
+    blocking.forEach((c) => req7.errors.push(`${c.owner.route} vs ${c.other.route}: ${c.message}`));
+    if (blocking.length > 0) {
+      req7.passed = false;
+    }
+  } catch (error) {
+    req7.errors.push(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    req7.passed = false;
+  }
+
+  results.push(req7);
+
+  // ============================================
+  // Requirement 8: Cron day fields follow vixie cron
+  // ============================================
+  console.log('\n✅ Checking Requirement 8: Cron day fields follow vixie cron...');
+  const req8: VerificationResult = {
+    requirement: 'Cron day fields follow vixie cron',
+    passed: true,
+    details: [],
+    errors: [],
+  };
+
+  try {
+    const { parseCron, nextCronOccurrence } = await import('./pipeline/cron');
+    // "*/2" day-of-week starts with "*", so vixie cron ANDs the day fields: the 1st of a month when it
+    // falls on Sun/Tue/Thu/Sat (ORing them would also fire on every even weekday)
+    const schedule = parseCron('0 0 1 * */2');
+    const expected = [new Date(2026, 1, 1), new Date(2026, 2, 1), new Date(2026, 7, 1), new Date(2026, 8, 1)];
+    const fired: Date[] = [];
+    let next = new Date(2026, 0, 1, 12, 0);
+    for (let i = 0; i < expected.length; i++) {
+      next = nextCronOccurrence(schedule, next);
+      fired.push(next);
+    }
+
+    if (fired.some((date, i) => date.getTime() !== expected[i].getTime())) {
+      req8.errors.push(`"0 0 1 * */2" fired ${fired.map((d) => d.toDateString()).join(', ')}; vixie cron fires ${expected.map((d) => d.toDateString()).join(', ')}`);
+      req8.passed = false;
+    } else {
+      req8.details.push(`✅ "0 0 1 * */2" fires ${fired.map((d) => d.toDateString()).join(', ')}`);
+    }
+  } catch (error) {
+    req8.errors.push(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    req8.passed = false;
+  }
+
+  results.push(req8);
+
   return results;
 }
 
@@ -1,11 +1,25 @@
 /**
  * Internal Link Verification Script
- * Checks that all pages have required internal links
+ * Checks that all pages have required internal links, that no link points at a
+ * redirected or removed URL, and that redirects.json has no chains or loops
  * Run: npx tsx scripts/verify-internal-links.ts
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { loadRedirects, findRedirectChains, resolveRedirect, RedirectRule } from '../lib/content/redirects';
+
+type CheckedPageType = 'how-to' | 'location' | 'species';
+
+interface RedirectedLink {
+  source: string;
+  href: string;
+  status: 301 | 410;
+  to?: string;
+}
+
+const CONTENT_DIRS = ['content/blog', 'content/species', 'content/how-to', 'content/locations'];
+const INTERNAL_HREF = /\/(?:blog|species|how-to|locations)\/[a-z0-9][a-z0-9/-]*/g;
 
 interface LinkCheck {
   page: string;
@@ -16,59 +30,49 @@ interface LinkCheck {
   issues: string[];
 }
 
-const HOW_TO_PAGES = [
-  'app/how-to/best-fishing-times/page.tsx',
-  'app/how-to/how-tides-affect-fishing/page.tsx',
-  'app/how-to/what-is-a-good-tide-to-fish/page.tsx',
-  'app/how-to/best-time-of-day-to-fish/page.tsx',
-  'app/how-to/how-weather-affects-fishing/page.tsx',
-];
-
-const LOCATION_PAGES = [
-  'app/locations/fl/naples/page.tsx',
-  'app/locations/fl/tampa/page.tsx',
-  'app/locations/fl/miami/page.tsx',
-  'app/locations/fl/fort-myers/page.tsx',
-  'app/locations/fl/sarasota/page.tsx',
-];
-
-const SPECIES_PAGES = [
-  'app/species/snook/page.tsx',
-  'app/species/redfish/page.tsx',
-  'app/species/speckled-trout/page.tsx',
-  'app/species/largemouth-bass/page.tsx',
-  'app/species/tarpon/page.tsx',
-];
-
-async function checkPage(filePath: string, pageType: 'how-to' | 'location' | 'species'): Promise<LinkCheck> {
+// Pages are rendered from content docs by the dynamic routes; the download CTA lives in the route template
+const PAGE_SOURCES: Record<CheckedPageType, { contentDir: string; template: string }> = {
+  'how-to': { contentDir: 'content/how-to', template: 'app/how-to/[slug]/page.tsx' },
+  location: { contentDir: 'content/locations', template: 'app/locations/[state]/[city]/page.tsx' },
+  species: { contentDir: 'content/species', template: 'app/species/[slug]/page.tsx' },
+};
+
+async function templateHasDownloadLink(template: string): Promise<boolean> {
+  try {
+    const content = await fs.readFile(template, 'utf-8');
+    return content.includes('/download') || content.includes('buttonText="download"');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Internal URLs a doc's page links to: its related slugs plus links in the markdown body
+ */
+function docLinks(doc: Record<string, any>): Set<string> {
+  const links = new Set<string>(typeof doc.body === 'string' ? doc.body.match(INTERNAL_HREF) || [] : []);
+  (doc.related?.howToSlugs || []).forEach((slug: string) => links.add(`/how-to/${slug}`));
+  (doc.related?.speciesSlugs || []).forEach((slug: string) => links.add(`/species/${slug}`));
+  (doc.related?.locationSlugs || []).forEach((slug: string) => links.add(`/locations/${slug}`));
+  return links;
+}
+
+async function checkPage(filePath: string, pageType: CheckedPageType, hasDownloadLink: boolean): Promise<LinkCheck> {
   const issues: string[] = [];
-  let hasDownloadLink = false;
   let howToLinks = 0;
   let speciesLinks = 0;
   let locationLinks = 0;
 
+  if (!hasDownloadLink) {
+    issues.push('Missing /download link');
+  }
+
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    
-    // Check for /download link
-    if (content.includes('/download') || content.includes('href="/download"')) {
-      hasDownloadLink = true;
-    } else {
-      issues.push('Missing /download link');
-    }
-    
-    // Count how-to links
-    const howToMatches = content.match(/href="\/how-to\/[^"]+"/g) || [];
-    howToLinks = howToMatches.length;
-    
-    // Count species links
-    const speciesMatches = content.match(/href="\/species\/[^"]+"/g) || [];
-    speciesLinks = speciesMatches.length;
-    
-    // Count location links
-    const locationMatches = content.match(/href="\/locations\/[^"]+"/g) || [];
-    locationLinks = locationMatches.length;
-    
+    const links = [...docLinks(JSON.parse(await fs.readFile(filePath, 'utf-8')))];
+    howToLinks = links.filter(link => link.startsWith('/how-to/')).length;
+    speciesLinks = links.filter(link => link.startsWith('/species/')).length;
+    locationLinks = links.filter(link => link.startsWith('/locations/')).length;
+
     // Check requirements based on page type
     if (pageType === 'how-to') {
       if (speciesLinks < 1) {
@@ -85,7 +89,6 @@ async function checkPage(filePath: string, pageType: 'how-to' | 'location' | 'sp
         issues.push(`Only ${speciesLinks} species links found (minimum: 5)`);
       }
     } else if (pageType === 'species') {
-      // Species pages should have how-to and location links (already checked in Step 4)
       if (howToLinks < 3) {
         issues.push(`Only ${howToLinks} how-to links found (minimum: 3)`);
       }
@@ -93,7 +96,6 @@ async function checkPage(filePath: string, pageType: 'how-to' | 'location' | 'sp
         issues.push(`Only ${locationLinks} location links found (minimum: 3)`);
       }
     }
-    
   } catch (error) {
     issues.push(`Error reading file: ${(error as Error).message}`);
   }
@@ -108,75 +110,128 @@ async function checkPage(filePath: string, pageType: 'how-to' | 'location' | 'sp
   };
 }
 
+async function listFiles(dir: string, extension: string): Promise<string[]> {
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(fullPath, extension)));
+    } else if (entry.name.endsWith(extension)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Links in content docs that hit a redirect (an extra hop) or a 410
+ */
+async function findRedirectedLinks(rules: RedirectRule[], files: string[]): Promise<RedirectedLink[]> {
+  const found: RedirectedLink[] = [];
+  for (const file of files) {
+    let doc: Record<string, any>;
+    try {
+      doc = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      console.log(`   ⚠️  Skipping unreadable doc ${file}: ${(error as Error).message}`);
+      continue;
+    }
+    for (const href of docLinks(doc)) {
+      const resolved = resolveRedirect(rules, href);
+      if (resolved) {
+        found.push({ source: file, href, status: resolved.status, to: resolved.to });
+      }
+    }
+  }
+  return found;
+}
+
+function printResult(result: LinkCheck, requirements: { howTo?: number; species?: number; locations?: number }): void {
+  const icon = result.issues.length === 0 ? '✅' : '⚠️';
+  const mark = (count: number, minimum?: number) => (minimum === undefined ? '' : count >= minimum ? ' ✅' : ' ❌');
+  console.log(`${icon} ${path.relative('content', result.page).replace(/\.json$/, '')}`);
+  console.log(`   Download: ${result.hasDownloadLink ? '✅' : '❌'}`);
+  console.log(`   How-To: ${result.howToLinks}${mark(result.howToLinks, requirements.howTo)}`);
+  console.log(`   Species: ${result.speciesLinks}${mark(result.speciesLinks, requirements.species)}`);
+  console.log(`   Locations: ${result.locationLinks}${mark(result.locationLinks, requirements.locations)}`);
+  if (result.issues.length > 0) {
+    result.issues.forEach(issue => console.log(`   ⚠️  ${issue}`));
+  }
+}
+
+async function checkPageType(pageType: CheckedPageType): Promise<LinkCheck[]> {
+  const { contentDir, template } = PAGE_SOURCES[pageType];
+  const hasDownloadLink = await templateHasDownloadLink(template);
+  const requirements = pageType === 'how-to'
+    ? { species: 1, locations: 1 }
+    : pageType === 'location'
+      ? { howTo: 5, species: 5 }
+      : { howTo: 3, locations: 3 };
+
+  const results: LinkCheck[] = [];
+  for (const file of await listFiles(contentDir, '.json')) {
+    const result = await checkPage(file, pageType, hasDownloadLink);
+    results.push(result);
+    printResult(result, requirements);
+  }
+  if (results.length === 0) {
+    console.log(`   No docs in ${contentDir}`);
+  }
+  return results;
+}
+
 async function main() {
   console.log('🔗 Verifying Internal Links\n');
   console.log('='.repeat(60));
 
   const allResults: LinkCheck[] = [];
 
-  // Check how-to pages
   console.log('\n📋 How-To Pages:\n');
-  for (const page of HOW_TO_PAGES) {
-    const result = await checkPage(page, 'how-to');
-    allResults.push(result);
-    
-    const icon = result.issues.length === 0 ? '✅' : '⚠️';
-    console.log(`${icon} ${path.basename(path.dirname(page))}`);
-    console.log(`   Download: ${result.hasDownloadLink ? '✅' : '❌'}`);
-    console.log(`   How-To: ${result.howToLinks}`);
-    console.log(`   Species: ${result.speciesLinks} ${result.speciesLinks >= 1 ? '✅' : '❌'}`);
-    console.log(`   Locations: ${result.locationLinks} ${result.locationLinks >= 1 ? '✅' : '❌'}`);
-    if (result.issues.length > 0) {
-      result.issues.forEach(issue => console.log(`   ⚠️  ${issue}`));
-    }
-  }
+  allResults.push(...(await checkPageType('how-to')));
 
-  // Check location pages
   console.log('\n📋 Location Pages:\n');
-  for (const page of LOCATION_PAGES) {
-    const result = await checkPage(page, 'location');
-    allResults.push(result);
-    
-    const icon = result.issues.length === 0 ? '✅' : '⚠️';
-    const locationName = path.basename(path.dirname(page));
-    console.log(`${icon} ${locationName}`);
-    console.log(`   Download: ${result.hasDownloadLink ? '✅' : '❌'}`);
-    console.log(`   How-To: ${result.howToLinks} ${result.howToLinks >= 5 ? '✅' : '❌'}`);
-    console.log(`   Species: ${result.speciesLinks} ${result.speciesLinks >= 5 ? '✅' : '❌'}`);
-    console.log(`   Locations: ${result.locationLinks}`);
-    if (result.issues.length > 0) {
-      result.issues.forEach(issue => console.log(`   ⚠️  ${issue}`));
-    }
-  }
+  allResults.push(...(await checkPageType('location')));
 
-  // Check species pages
   console.log('\n📋 Species Pages:\n');
-  for (const page of SPECIES_PAGES) {
-    const result = await checkPage(page, 'species');
-    allResults.push(result);
-    
-    const icon = result.issues.length === 0 ? '✅' : '⚠️';
-    console.log(`${icon} ${path.basename(path.dirname(page))}`);
-    console.log(`   Download: ${result.hasDownloadLink ? '✅' : '❌'}`);
-    console.log(`   How-To: ${result.howToLinks} ${result.howToLinks >= 3 ? '✅' : '❌'}`);
-    console.log(`   Species: ${result.speciesLinks}`);
-    console.log(`   Locations: ${result.locationLinks} ${result.locationLinks >= 3 ? '✅' : '❌'}`);
-    if (result.issues.length > 0) {
-      result.issues.forEach(issue => console.log(`   ⚠️  ${issue}`));
-    }
-  }
+  allResults.push(...(await checkPageType('species')));
+
+  // Check redirects
+  console.log('\n📋 Redirects:\n');
+  const rules = (await loadRedirects()).redirects;
+  const chains = findRedirectChains(rules);
+  const contentFiles = (await Promise.all(CONTENT_DIRS.map((dir) => listFiles(dir, '.json')))).flat();
+  const redirectedLinks = await findRedirectedLinks(rules, contentFiles);
+
+  console.log(`   Rules: ${rules.length}`);
+  console.log(`   Chains: ${chains.filter(c => !c.loop).length} ${chains.some(c => !c.loop) ? '❌' : '✅'}`);
+  console.log(`   Loops: ${chains.filter(c => c.loop).length} ${chains.some(c => c.loop) ? '❌' : '✅'}`);
+  chains.forEach(chain => {
+    console.log(`   ⚠️  ${chain.loop ? 'Loop' : 'Chain'}: ${[chain.from, ...chain.hops].join(' → ')}${chain.status === 410 ? ' → 410' : ''}`);
+  });
+  console.log(`   Links to redirected URLs: ${redirectedLinks.length} ${redirectedLinks.length === 0 ? '✅' : '❌'}`);
+  redirectedLinks.forEach(link => {
+    console.log(`   ⚠️  ${link.source}: ${link.href} → ${link.status === 410 ? '410 Gone' : link.to}`);
+  });
 
   console.log('\n' + '='.repeat(60));
   console.log('\n📊 Summary:\n');
-  
+
   const pagesWithIssues = allResults.filter(r => r.issues.length > 0);
   const pagesWithoutDownload = allResults.filter(r => !r.hasDownloadLink);
-  
+
   console.log(`Total pages checked: ${allResults.length}`);
   console.log(`Pages with issues: ${pagesWithIssues.length}`);
   console.log(`Pages missing /download: ${pagesWithoutDownload.length}`);
-  
-  if (pagesWithIssues.length === 0 && pagesWithoutDownload.length === 0) {
+  console.log(`Redirect chains/loops: ${chains.length}`);
+  console.log(`Links to redirected URLs: ${redirectedLinks.length}`);
+
+  if (pagesWithIssues.length === 0 && pagesWithoutDownload.length === 0 && chains.length === 0 && redirectedLinks.length === 0) {
     console.log('\n✅ All pages meet internal linking requirements!');
   } else {
     console.log('\n⚠️  Some pages need attention.');
@@ -189,6 +244,3 @@ async function main() {
 }
 
 main().catch(console.error);
-
-
-